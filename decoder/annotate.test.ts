@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+
+import { annotateMatches, measureText } from './annotate.js'
+
+const WIDTH = 200
+const HEIGHT = 120
+
+function blank(): Uint8Array {
+  return new Uint8Array(WIDTH * HEIGHT * 4).fill(200)
+}
+
+function pixel(data: Uint8Array, x: number, y: number): number[] {
+  const offset = (y * WIDTH + x) * 4
+  return Array.from(data.subarray(offset, offset + 4))
+}
+
+describe('match annotation', () => {
+  it('outlines each region without touching the source pixels', () => {
+    const source = blank()
+    const annotated = annotateMatches(source, WIDTH, HEIGHT, [
+      { path: 'APP/panel', depth: 2, region: { x: 40, y: 50, width: 100, height: 60 } },
+    ])
+
+    expect(source.every((value) => value === 200)).toBe(true)
+    expect(pixel(annotated, 40, 80)).toEqual([0, 153, 102, 255])
+    expect(pixel(annotated, 139, 109)).toEqual([0, 153, 102, 255])
+    expect(pixel(annotated, 90, 80)).toEqual([200, 200, 200, 200])
+    expect(pixel(annotated, 150, 80)).toEqual([200, 200, 200, 200])
+  })
+
+  it('colours boxes by depth and labels them with path and source', () => {
+    const annotated = annotateMatches(blank(), WIDTH, HEIGHT, [
+      {
+        path: 'APP/panel/card',
+        depth: 3,
+        source: { file: 'src/Card.tsx', line: 12, column: 4 },
+        region: { x: 60, y: 40, width: 80, height: 40 },
+      },
+      { path: 'APP', depth: 1, region: { x: 0, y: 0, width: WIDTH, height: HEIGHT } },
+    ])
+
+    // Root box along the image edge, card box in the third depth colour.
+    expect(pixel(annotated, 0, 100)).toEqual([82, 101, 255, 255])
+    expect(pixel(annotated, 60, 60)).toEqual([230, 110, 0, 255])
+
+    // Two label lines sit above the card box; the widest sets the label width.
+    const labelWidth = measureText('src/Card.tsx:12:4') + 4
+    const labelRows = Array.from({ length: 20 }, (_, row) => 20 + row)
+    const whitePixels = labelRows
+      .flatMap((y) =>
+        Array.from({ length: labelWidth }, (_, column) => pixel(annotated, 60 + column, y)),
+      )
+      .filter(([red, green, blue]) => red === 255 && green === 255 && blue === 255)
+    expect(whitePixels.length).toBeGreaterThan(100)
+    expect(pixel(annotated, 60 + labelWidth - 1, 20)).toEqual([230, 110, 0, 255])
+    expect(pixel(annotated, 60, 19)).toEqual([200, 200, 200, 200])
+    expect(pixel(annotated, 60 + labelWidth, 30)).toEqual([200, 200, 200, 200])
+  })
+
+  it('keeps labels inside the image near its edges', () => {
+    const annotated = annotateMatches(blank(), WIDTH, HEIGHT, [
+      { path: 'APP/sidebar', depth: 2, region: { x: 190, y: 0, width: 10, height: 10 } },
+    ])
+    const labelWidth = measureText('APP/sidebar') + 4
+
+    // No room above the box, so the label is drawn inside its top edge and
+    // shifted left to stay on the canvas.
+    expect(pixel(annotated, WIDTH - labelWidth, 0)).toEqual([0, 153, 102, 255])
+    expect(pixel(annotated, WIDTH - labelWidth - 1, 0)).toEqual([200, 200, 200, 200])
+  })
+})
@@ -0,0 +1,189 @@
+import type { PixelRegion, SourceLocation } from '../src/pattern.js'
+
+/** The parts of a decoder match an annotation needs. */
+export interface AnnotationTarget {
+  path: string
+  depth: number
+  source?: SourceLocation
+  region: PixelRegion
+}
+
+/** Box colours by hierarchy depth, cycling for deeper trees. */
+const DEPTH_COLORS: Array<[number, number, number]> = [
+  [82, 101, 255],
+  [0, 153, 102],
+  [230, 110, 0],
+  [204, 41, 122],
+  [112, 68, 204],
+  [0, 140, 186],
+]
+
+const GLYPH_WIDTH = 5
+const GLYPH_HEIGHT = 7
+
+/**
+ * 5×7 bitmap glyphs for printable ASCII (0x20–0x7e), five column bytes per
+ * glyph with the top row in the low bit.
+ */
+const GLYPHS = [
+  0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x5f, 0x00, 0x00, 0x00, 0x07, 0x00, 0x07, 0x00,
+  0x14, 0x7f, 0x14, 0x7f, 0x14, 0x24, 0x2a, 0x7f, 0x2a, 0x12, 0x23, 0x13, 0x08, 0x64, 0x62,
+  0x36, 0x49, 0x55, 0x22, 0x50, 0x00, 0x05, 0x03, 0x00, 0x00, 0x00, 0x1c, 0x22, 0x41, 0x00,
+  0x00, 0x41, 0x22, 0x1c, 0x00, 0x08, 0x2a, 0x1c, 0x2a, 0x08, 0x08, 0x08, 0x3e, 0x08, 0x08,
+  0x00, 0x50, 0x30, 0x00, 0x00, 0x08, 0x08, 0x08, 0x08, 0x08, 0x00, 0x60, 0x60, 0x00, 0x00,
+  0x20, 0x10, 0x08, 0x04, 0x02, 0x3e, 0x51, 0x49, 0x45, 0x3e, 0x00, 0x42, 0x7f, 0x40, 0x00,
+  0x42, 0x61, 0x51, 0x49, 0x46, 0x21, 0x41, 0x45, 0x4b, 0x31, 0x18, 0x14, 0x12, 0x7f, 0x10,
+  0x27, 0x45, 0x45, 0x45, 0x39, 0x3c, 0x4a, 0x49, 0x49, 0x30, 0x01, 0x71, 0x09, 0x05, 0x03,
+  0x36, 0x49, 0x49, 0x49, 0x36, 0x06, 0x49, 0x49, 0x29, 0x1e, 0x00, 0x36, 0x36, 0x00, 0x00,
+  0x00, 0x56, 0x36, 0x00, 0x00, 0x00, 0x08, 0x14, 0x22, 0x41, 0x14, 0x14, 0x14, 0x14, 0x14,
+  0x41, 0x22, 0x14, 0x08, 0x00, 0x02, 0x01, 0x51, 0x09, 0x06, 0x32, 0x49, 0x79, 0x41, 0x3e,
+  0x7e, 0x11, 0x11, 0x11, 0x7e, 0x7f, 0x49, 0x49, 0x49, 0x36, 0x3e, 0x41, 0x41, 0x41, 0x22,
+  0x7f, 0x41, 0x41, 0x22, 0x1c, 0x7f, 0x49, 0x49, 0x49, 0x41, 0x7f, 0x09, 0x09, 0x01, 0x01,
+  0x3e, 0x41, 0x41, 0x51, 0x32, 0x7f, 0x08, 0x08, 0x08, 0x7f, 0x00, 0x41, 0x7f, 0x41, 0x00,
+  0x20, 0x40, 0x41, 0x3f, 0x01, 0x7f, 0x08, 0x14, 0x22, 0x41, 0x7f, 0x40, 0x40, 0x40, 0x40,
+  0x7f, 0x02, 0x04, 0x02, 0x7f, 0x7f, 0x04, 0x08, 0x10, 0x7f, 0x3e, 0x41, 0x41, 0x41, 0x3e,
+  0x7f, 0x09, 0x09, 0x09, 0x06, 0x3e, 0x41, 0x51, 0x21, 0x5e, 0x7f, 0x09, 0x19, 0x29, 0x46,
+  0x46, 0x49, 0x49, 0x49, 0x31, 0x01, 0x01, 0x7f, 0x01, 0x01, 0x3f, 0x40, 0x40, 0x40, 0x3f,
+  0x1f, 0x20, 0x40, 0x20, 0x1f, 0x7f, 0x20, 0x18, 0x20, 0x7f, 0x63, 0x14, 0x08, 0x14, 0x63,
+  0x03, 0x04, 0x78, 0x04, 0x03, 0x61, 0x51, 0x49, 0x45, 0x43, 0x00, 0x00, 0x7f, 0x41, 0x41,
+  0x02, 0x04, 0x08, 0x10, 0x20, 0x41, 0x41, 0x7f, 0x00, 0x00, 0x04, 0x02, 0x01, 0x02, 0x04,
+  0x40, 0x40, 0x40, 0x40, 0x40, 0x00, 0x01, 0x02, 0x04, 0x00, 0x20, 0x54, 0x54, 0x54, 0x78,
+  0x7f, 0x48, 0x44, 0x44, 0x38, 0x38, 0x44, 0x44, 0x44, 0x20, 0x38, 0x44, 0x44, 0x48, 0x7f,
+  0x38, 0x54, 0x54, 0x54, 0x18, 0x08, 0x7e, 0x09, 0x01, 0x02, 0x08, 0x14, 0x54, 0x54, 0x3c,
+  0x7f, 0x08, 0x04, 0x04, 0x78, 0x00, 0x44, 0x7d, 0x40, 0x00, 0x20, 0x40, 0x44, 0x3d, 0x00,
+  0x00, 0x7f, 0x10, 0x28, 0x44, 0x00, 0x41, 0x7f, 0x40, 0x00, 0x7c, 0x04, 0x18, 0x04, 0x78,
+  0x7c, 0x08, 0x04, 0x04, 0x78, 0x38, 0x44, 0x44, 0x44, 0x38, 0x7c, 0x14, 0x14, 0x14, 0x08,
+  0x08, 0x14, 0x14, 0x18, 0x7c, 0x7c, 0x08, 0x04, 0x04, 0x08, 0x48, 0x54, 0x54, 0x54, 0x20,
+  0x04, 0x3f, 0x44, 0x40, 0x20, 0x3c, 0x40, 0x40, 0x20, 0x7c, 0x1c, 0x20, 0x40, 0x20, 0x1c,
+  0x3c, 0x40, 0x30, 0x40, 0x3c, 0x44, 0x28, 0x10, 0x28, 0x44, 0x0c, 0x50, 0x50, 0x50, 0x3c,
+  0x44, 0x64, 0x54, 0x4c, 0x44, 0x00, 0x08, 0x36, 0x41, 0x00, 0x00, 0x00, 0x7f, 0x00, 0x00,
+  0x00, 0x41, 0x36, 0x08, 0x00, 0x02, 0x01, 0x02, 0x04, 0x02,
+]
+
+interface Canvas {
+  data: Uint8Array
+  width: number
+  height: number
+}
+
+function fillRect(
+  canvas: Canvas,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: readonly number[],
+): void {
+  const left = Math.max(0, x)
+  const top = Math.max(0, y)
+  const right = Math.min(canvas.width, x + width)
+  const bottom = Math.min(canvas.height, y + height)
+  for (let row = top; row < bottom; row += 1) {
+    for (let column = left; column < right; column += 1) {
+      const offset = (row * canvas.width + column) * 4
+      canvas.data[offset] = color[0]
+      canvas.data[offset + 1] = color[1]
+      canvas.data[offset + 2] = color[2]
+      canvas.data[offset + 3] = 255
+    }
+  }
+}
+
+function strokeRect(
+  canvas: Canvas,
+  region: PixelRegion,
+  lineWidth: number,
+  color: readonly number[],
+): void {
+  const { x, y, width, height } = region
+  fillRect(canvas, x, y, width, lineWidth, color)
+  fillRect(canvas, x, y + height - lineWidth, width, lineWidth, color)
+  fillRect(canvas, x, y, lineWidth, height, color)
+  fillRect(canvas, x + width - lineWidth, y, lineWidth, height, color)
+}
+
+function drawText(
+  canvas: Canvas,
+  text: string,
+  x: number,
+  y: number,
+  scale: number,
+  color: readonly number[],
+): void {
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index)
+    const glyph = (code >= 0x20 && code <= 0x7e ? code : 0x3f) - 0x20
+    for (let column = 0; column < GLYPH_WIDTH; column += 1) {
+      const bits = GLYPHS[glyph * GLYPH_WIDTH + column]
+      for (let row = 0; row < GLYPH_HEIGHT; row += 1) {
+        if (bits & (1 << row)) {
+          fillRect(
+            canvas,
+            x + (index * (GLYPH_WIDTH + 1) + column) * scale,
+            y + row * scale,
+            scale,
+            scale,
+            color,
+          )
+        }
+      }
+    }
+  }
+}
+
+/** Width in pixels of `text` drawn at `scale`. */
+export function measureText(text: string, scale = 1): number {
+  return text.length === 0 ? 0 : (text.length * (GLYPH_WIDTH + 1) - 1) * scale
+}
+
+/**
+ * Draw a labelled box for every target onto a copy of an RGBA image. Boxes
+ * are coloured by depth and drawn parents first, so nested labels stay on
+ * top; each label shows the path and, when known, `file:line:column`.
+ */
+export function annotateMatches(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  targets: readonly AnnotationTarget[],
+): Uint8Array {
+  const canvas: Canvas = {
+    data: Uint8Array.from(data.subarray(0, width * height * 4)),
+    width,
+    height,
+  }
+  const scale = Math.max(1, Math.round(Math.max(width, height) / 1000))
+  const lineWidth = 2 * scale
+  const padding = 2 * scale
+  const lineHeight = (GLYPH_HEIGHT + 2) * scale
+
+  for (const target of [...targets].sort((first, second) => first.depth - second.depth)) {
+    const color = DEPTH_COLORS[Math.max(0, target.depth - 1) % DEPTH_COLORS.length]
+    const { region } = target
+    if (region.width <= 0 || region.height <= 0) continue
+    strokeRect(canvas, region, Math.min(lineWidth, region.width, region.height), color)
+
+    const lines = [target.path]
+    if (target.source) {
+      lines.push(`${target.source.file}:${target.source.line}:${target.source.column}`)
+    }
+    const labelWidth = Math.max(...lines.map((line) => measureText(line, scale))) + padding * 2
+    const labelHeight = lines.length * lineHeight + padding
+    // Sit the label above the box when it fits, otherwise inside its top edge.
+    const labelY = region.y >= labelHeight ? region.y - labelHeight : region.y
+    const labelX = Math.max(0, Math.min(region.x, width - labelWidth))
+    fillRect(canvas, labelX, labelY, labelWidth, labelHeight, color)
+    lines.forEach((line, index) => {
+      drawText(
+        canvas,
+        line,
+        labelX + padding,
+        labelY + padding + index * lineHeight,
+        scale,
+        [255, 255, 255],
+      )
+    })
+  }
+
+  return canvas.data
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  createPatternPayload,
+  generatePatternRgba,
+  getCarrierFrequencies,
+  type ComponentDescriptor,
+  type PatternVersion,
+} from '../src/pattern.js'
+import { createCarrierGroupDetector, createCarrierIndex } from './carrier-index.js'
+
+const COMPONENTS: ComponentDescriptor[] = Array.from({ length: 600 }, (_, index) => ({
+  path: `SETTINGS/item-${index}`,
+  type: 'row',
+  depth: 2,
+}))
+
+function tileRaster(
+  component: ComponentDescriptor,
+  tileSize: number,
+  repeats: number,
+  patternVersion: PatternVersion = 1,
+) {
+  const size = tileSize * repeats
+  const tile = generatePatternRgba(
+    createPatternPayload({ ...component, patternVersion }),
+    tileSize,
+    0.16,
+    patternVersion,
+  )
+  const data = new Uint8Array(size * size * 4)
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const source = ((y % tileSize) * tileSize + (x % tileSize)) * 4
+      data.set(tile.subarray(source, source + 4), (y * size + x) * 4)
+    }
+  }
+  return { data, width: size }
+}
+
+describe('carrier index', () => {
+  it('groups version 1 carriers by frequencies and version 2 carriers by code bits', () => {
+    const index = createCarrierIndex(COMPONENTS, [1, 2])
+    const groups = [...index.groups.values()]
+    const byFrequency = groups.filter((group) => group.frequencies)
+    const byCode = groups.filter((group) => group.code)
+
+    expect(index.unindexed).toEqual([])
+    expect(byFrequency.flatMap((group) => group.components)).toHaveLength(COMPONENTS.length)
+    expect(byCode.flatMap((group) => group.components)).toHaveLength(COMPONENTS.length)
+    expect(byCode.every((group) => group.components[0].patternVersion === 2)).toBe(true)
+    for (const group of byFrequency) {
+      for (const entry of group.components) {
+        expect(entry.patternVersion).toBe(1)
+        expect(getCarrierFrequencies(createPatternPayload(entry), 1)).toEqual(group.frequencies)
+      }
+    }
+  })
+
+  it('sees the signature of a tiled carrier in a window at any offset', () => {
+    const target = COMPONENTS[123]
+    const { groups } = createCarrierIndex(COMPONENTS, [1])
+    const frequencies = getCarrierFrequencies(createPatternPayload(target), 1)
+    const key = `${frequencies?.horizontal}:${frequencies?.vertical}:${frequencies?.diagonal}`
+    const detect = createCarrierGroupDetector(groups, 32)
+    const { data, width } = tileRaster(target, 32, 2)
+
+    for (const [x, y] of [[0, 0], [16, 16], [5, 27]]) {
+      const visible = detect(data, width, x, y)
+      expect(visible).toContain(key)
+      expect(visible.length).toBeLessThan(groups.size / 10)
+    }
+    expect(detect(new Uint8Array(width * width * 4).fill(128), width, 0, 0)).toEqual([])
+  })
+
+  it('sees the code of a version 2 carrier in a window aligned with its cells', () => {
+    const target = COMPONENTS[321]
+    const { groups } = createCarrierIndex(COMPONENTS, [2])
+    const key = [...groups].find(([, group]) =>
+      group.components.some((entry) => entry.path === target.path),
+    )![0]
+    const detect = createCarrierGroupDetector(groups, 48)
+    const { data, width } = tileRaster(target, 48, 2, 2)
+
+    for (const [x, y] of [[0, 0], [48, 0], [48, 48]]) {
+      const visible = detect(data, width, x, y)
+      expect(visible).toContain(key)
+      expect(visible.length).toBeLessThan(groups.size / 20)
+    }
+    // Half a tile off, the cells line up with other codes.
+    expect(detect(data, width, 24, 24)).not.toContain(key)
+  })
+})
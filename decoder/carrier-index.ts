@@ -0,0 +1,342 @@
+import {
+  CARRIER_GRID,
+  carrierCellIndex,
+  createPatternPayload,
+  getCarrierCode,
+  getCarrierFrequencies,
+  type CarrierFrequencies,
+  type ComponentDescriptor,
+  type PatternVersion,
+} from '../src/pattern.js'
+
+/**
+ * Share of a window's variance one sinusoid must carry to count as present.
+ * The weakest component of a carrier that correlates at 0.7 carries about 4%,
+ * so this leaves room for compression and overlapping tags.
+ */
+const MIN_FREQUENCY_SHARE = 0.02
+
+const AXES = ['horizontal', 'vertical', 'diagonal'] as const
+
+const CODE_CELLS = CARRIER_GRID * CARRIER_GRID
+
+/**
+ * A version 2 signature bit is the sign of the code summed over three cells.
+ * Odd sets never sum to zero, and the last cell of the grid is left out.
+ */
+const CODE_SET_CELLS = 3
+const CODE_BITS = Math.floor(CODE_CELLS / CODE_SET_CELLS)
+const CODE_WORDS = Math.ceil(CODE_BITS / 32)
+
+/**
+ * Odd cell stride between consecutive set members, so each set spreads over
+ * the tile and a smooth background adds about as much to every set.
+ */
+const CODE_STRIDE = 167
+
+/** Signature bit fed by each code cell, or -1 for the cell left out. */
+const CODE_BIT_OF_CELL = Int16Array.from({ length: CODE_CELLS }, () => -1)
+for (let position = 0; position < CODE_BITS * CODE_SET_CELLS; position += 1) {
+  CODE_BIT_OF_CELL[(position * CODE_STRIDE) % CODE_CELLS] = Math.floor(position / CODE_SET_CELLS)
+}
+
+/**
+ * Signature bits a window must share with a version 2 code to count as
+ * showing it. An unrelated code shares 42 ± 5 of the 85 bits, so about 0.3%
+ * of codes pass by chance, while more than 95% of windows that correlate
+ * with their code at 0.7 to 0.8 over a textured background clear the floor.
+ */
+const MIN_CODE_AGREEMENT = 56
+
+type Axis = (typeof AXES)[number]
+
+export type PinnedDescriptor = ComponentDescriptor & { patternVersion: PatternVersion }
+
+export interface CarrierGroup {
+  /** Version 1 signature, or null for a version 2 code group. */
+  frequencies: CarrierFrequencies | null
+  /** Version 2 signature bits, 32 to a word, or null for a version 1 group. */
+  code: Uint32Array | null
+  components: PinnedDescriptor[]
+}
+
+/**
+ * Registry entries split for indexed decoding. Version 1 carriers are grouped
+ * by frequency signature and version 2 carriers by coarse code bits; carriers
+ * without a signature are always correlated.
+ */
+export interface CarrierIndex {
+  groups: Map<string, CarrierGroup>
+  unindexed: PinnedDescriptor[]
+}
+
+/** Pin each descriptor to every version it is tried with and group the results. */
+export function createCarrierIndex(
+  components: readonly ComponentDescriptor[],
+  versions: readonly PatternVersion[],
+): CarrierIndex {
+  const groups = new Map<string, CarrierGroup>()
+  const unindexed: PinnedDescriptor[] = []
+  for (const component of components) {
+    const pinned = component.patternVersion === undefined ? versions : [component.patternVersion]
+    for (const patternVersion of pinned) {
+      const entry = { ...component, patternVersion }
+      const payload = createPatternPayload(entry)
+      const frequencies = getCarrierFrequencies(payload, patternVersion)
+      const cells = getCarrierCode(payload, patternVersion)
+      const code = cells && codeSignature(cells)
+      if (!frequencies && !code) {
+        unindexed.push(entry)
+        continue
+      }
+      const key = frequencies
+        ? AXES.map((axis) => frequencies[axis]).join(':')
+        : `code:${[...code!].map((word) => word.toString(16).padStart(8, '0')).join('')}`
+      const group = groups.get(key)
+      if (group) group.components.push(entry)
+      else groups.set(key, { frequencies, code, components: [entry] })
+    }
+  }
+  return { groups, unindexed }
+}
+
+/** Pack the sign of each set sum, one bit per set. */
+function packSigns(sums: Float64Array): Uint32Array {
+  const words = new Uint32Array(CODE_WORDS)
+  for (let bit = 0; bit < CODE_BITS; bit += 1) {
+    if (sums[bit] > 0) words[bit >>> 5] |= 1 << (bit & 31)
+  }
+  return words
+}
+
+function codeSignature(cells: Int8Array): Uint32Array {
+  const sums = new Float64Array(CODE_BITS)
+  for (let cell = 0; cell < CODE_CELLS; cell += 1) {
+    const bit = CODE_BIT_OF_CELL[cell]
+    if (bit >= 0) sums[bit] += cells[cell]
+  }
+  return packSigns(sums)
+}
+
+function countBits(word: number): number {
+  let value = word - ((word >>> 1) & 0x55555555)
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333)
+  return Math.imul((value + (value >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24
+}
+
+function codeAgreement(first: Uint32Array, second: Uint32Array): number {
+  let differing = 0
+  for (let word = 0; word < CODE_WORDS; word += 1) {
+    differing += countBits(first[word] ^ second[word])
+  }
+  return CODE_BITS - differing
+}
+
+/**
+ * First-pass work per window in window samples: reading the window about
+ * twice, plus a few word operations per version 2 group and channel.
+ */
+export function estimateDetectorSamples(
+  groups: ReadonlyMap<string, CarrierGroup>,
+  tileSize: number,
+): number {
+  let codeGroups = 0
+  for (const group of groups.values()) if (group.code) codeGroups += 1
+  return 2 * tileSize * tileSize + codeGroups * 2 * CODE_WORDS
+}
+
+/**
+ * A tile cannot show a frequency that folds onto DC or Nyquist; the sinusoid
+ * is flat or phase-dependent there, so that axis matches any window.
+ */
+function isObservable(frequency: number, tileSize: number): boolean {
+  const folded = frequency % tileSize
+  return folded !== 0 && folded * 2 !== tileSize
+}
+
+interface AxisTables {
+  frequencies: number[]
+  cos: Float64Array[]
+  sin: Float64Array[]
+}
+
+function createAxisTables(frequencies: Iterable<number>, tileSize: number): AxisTables {
+  const observable = [...frequencies].filter((frequency) => isObservable(frequency, tileSize))
+  const table = (wave: (angle: number) => number) =>
+    observable.map((frequency) =>
+      Float64Array.from({ length: tileSize }, (_, position) =>
+        wave((2 * Math.PI * frequency * position) / tileSize),
+      ),
+    )
+  return { frequencies: observable, cos: table(Math.cos), sin: table(Math.sin) }
+}
+
+/**
+ * Add the frequencies on one axis whose share of the window variance clears
+ * the floor. `sums` projects the window onto that axis, so the DFT bin of a
+ * frequency is one dot product instead of a pass over the whole window.
+ */
+function collectFrequencies(
+  sums: Float64Array,
+  tables: AxisTables,
+  normalization: number,
+  present: Set<number>,
+): void {
+  for (let index = 0; index < tables.frequencies.length; index += 1) {
+    const cos = tables.cos[index]
+    const sin = tables.sin[index]
+    let real = 0
+    let imaginary = 0
+    for (let position = 0; position < sums.length; position += 1) {
+      real += sums[position] * cos[position]
+      imaginary += sums[position] * sin[position]
+    }
+    if ((real * real + imaginary * imaginary) * normalization >= MIN_FREQUENCY_SHARE) {
+      present.add(tables.frequencies[index])
+    }
+  }
+}
+
+/**
+ * Signature groups that show in a tile-sized window at (x, y): version 1
+ * groups whose frequencies are all present, and version 2 groups whose code
+ * bits the window mostly shares.
+ */
+export type CarrierGroupDetector = (
+  data: Uint8Array,
+  width: number,
+  startX: number,
+  startY: number,
+) => string[]
+
+/**
+ * First decoding pass for one tile size. A tile-sized window over a tiled
+ * carrier is a cyclic shift of the tile, so its frequency content does not
+ * depend on alignment. A version 1 group is visible when all three of its
+ * frequencies are present in the window's luma or chroma. A version 2 code
+ * only correlates with a window whose cells line up with its own, so its
+ * bits are compared as the window lies, on luma and chroma alike.
+ */
+export function createCarrierGroupDetector(
+  groups: ReadonlyMap<string, CarrierGroup>,
+  tileSize: number,
+): CarrierGroupDetector {
+  const frequencyGroups: [string, CarrierFrequencies][] = []
+  const codeGroups: [string, Uint32Array][] = []
+  for (const [key, { frequencies, code }] of groups) {
+    if (frequencies) frequencyGroups.push([key, frequencies])
+    if (code) codeGroups.push([key, code])
+  }
+  const tables = Object.fromEntries(
+    AXES.map((axis) => [
+      axis,
+      createAxisTables(
+        new Set(frequencyGroups.map(([, frequencies]) => frequencies[axis])),
+        tileSize,
+      ),
+    ]),
+  ) as Record<Axis, AxisTables>
+  const count = tileSize * tileSize
+  // Code cell of each window pixel, and the pixels each cell covers.
+  const cellOf = new Uint16Array(count)
+  const cellPixels = new Float64Array(CODE_CELLS)
+  for (let y = 0; y < tileSize; y += 1) {
+    for (let x = 0; x < tileSize; x += 1) {
+      const cell = carrierCellIndex(tileSize, x, y)
+      cellOf[y * tileSize + x] = cell
+      cellPixels[cell] += 1
+    }
+  }
+  const cellSums = [new Float64Array(CODE_CELLS), new Float64Array(CODE_CELLS)]
+  const setSums = new Float64Array(CODE_BITS)
+  // Per channel (luma, then chroma): column, row, and wrapped-diagonal sums.
+  const sums = [0, 1].map(() => ({
+    horizontal: new Float64Array(tileSize),
+    vertical: new Float64Array(tileSize),
+    diagonal: new Float64Array(tileSize),
+  }))
+  const [luma, chroma] = sums
+  const present: Record<Axis, Set<number>> = {
+    horizontal: new Set(),
+    vertical: new Set(),
+    diagonal: new Set(),
+  }
+
+  return (data, width, startX, startY) => {
+    for (const channel of sums) for (const axis of AXES) channel[axis].fill(0)
+    for (const channel of cellSums) channel.fill(0)
+    let lumaTotal = 0
+    let lumaSquares = 0
+    let chromaTotal = 0
+    let chromaSquares = 0
+    for (let y = 0; y < tileSize; y += 1) {
+      let offset = ((startY + y) * width + startX) * 4
+      for (let x = 0; x < tileSize; x += 1, offset += 4) {
+        const red = data[offset]
+        const green = data[offset + 1]
+        const blue = data[offset + 2]
+        const lumaValue = (red + green + blue) / 3
+        const chromaValue = red - (green + blue) / 2
+        const diagonal = (x + y) % tileSize
+        luma.horizontal[x] += lumaValue
+        luma.vertical[y] += lumaValue
+        luma.diagonal[diagonal] += lumaValue
+        chroma.horizontal[x] += chromaValue
+        chroma.vertical[y] += chromaValue
+        chroma.diagonal[diagonal] += chromaValue
+        if (codeGroups.length > 0) {
+          const cell = cellOf[y * tileSize + x]
+          cellSums[0][cell] += lumaValue
+          cellSums[1][cell] += chromaValue
+        }
+        lumaTotal += lumaValue
+        lumaSquares += lumaValue * lumaValue
+        chromaTotal += chromaValue
+        chromaSquares += chromaValue * chromaValue
+      }
+    }
+    const totals = [lumaTotal, chromaTotal]
+    const squares = [lumaSquares, chromaSquares]
+
+    for (const axis of AXES) present[axis].clear()
+    const windowCodes: Uint32Array[] = []
+    for (let channel = 0; channel < 2; channel += 1) {
+      const energy = squares[channel] - (totals[channel] * totals[channel]) / count
+      // Flat windows carry no carrier; rounding can leave a tiny residue.
+      if (energy <= 1e-6 * count) continue
+      // A lone sinusoid of amplitude a over N pixels gives |bin|² = a²N²/4
+      // and Σ(value - mean)² = a²N/2, so its share comes out as 1.
+      const normalization = 2 / (count * energy)
+      for (const axis of AXES) {
+        collectFrequencies(sums[channel][axis], tables[axis], normalization, present[axis])
+      }
+      if (codeGroups.length > 0) {
+        const mean = totals[channel] / count
+        setSums.fill(0)
+        for (let cell = 0; cell < CODE_CELLS; cell += 1) {
+          const bit = CODE_BIT_OF_CELL[cell]
+          if (bit >= 0) setSums[bit] += cellSums[channel][cell] - mean * cellPixels[cell]
+        }
+        windowCodes.push(packSigns(setSums))
+      }
+    }
+
+    const visible: string[] = []
+    for (const [key, frequencies] of frequencyGroups) {
+      if (
+        AXES.every(
+          (axis) =>
+            !isObservable(frequencies[axis], tileSize) || present[axis].has(frequencies[axis]),
+        )
+      ) {
+        visible.push(key)
+      }
+    }
+    for (const [key, code] of codeGroups) {
+      if (windowCodes.some((window) => codeAgreement(window, code) >= MIN_CODE_AGREEMENT)) {
+        visible.push(key)
+      }
+    }
+    return visible
+  }
+}
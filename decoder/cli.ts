@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+
+import { existsSync, readFileSync, realpathSync, statSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+
+import type { ComponentDescriptor } from '../src/pattern.js'
+import { createImageDecoder, readRegistry, type Registry } from './decode.js'
+import { diffRegistries, type RegistryChange, type RegistryDiff } from './diff.js'
+import { expandImagePaths } from './inputs.js'
+import {
+  DEFAULT_CONFUSION_THRESHOLD,
+  lintRegistry,
+  parseRenderedSizes,
+  type RegistryLint,
+} from './lint.js'
+
+const USAGE = [
+  'Usage: pixelprovenance registry diff <old.json> <new.json> [--screenshots <image|directory|glob>]... [--format text|json]',
+  '       pixelprovenance registry lint <registry.json> [--threshold 0.5] [--sizes <sizes.json>] [--format text|json]',
+].join('\n')
+
+/** Matches `pixelprovenance-decode`. */
+const MAX_IMAGE_BYTES = 100 * 1024 * 1024
+const MAX_SIZES_BYTES = 1024 * 1024
+
+/** Process exit codes, documented for CI checks that consume the commands. */
+const EXIT_CLEAN = 0
+/** `diff` found broken embeddings, or `lint` found collisions or oversized tiles. */
+const EXIT_FINDINGS = 1
+const EXIT_INVALID_INPUT = 2
+
+/** How one archived screenshot fares against the new registry. */
+interface ScreenshotImpact {
+  file: string
+  /** Paths the old registry decodes from the screenshot. */
+  matched: string[]
+  /** Matched paths whose embedding is gone from the new registry. */
+  lost: string[]
+  error: string | null
+}
+
+interface ParsedArgs {
+  positional: string[]
+  values: Map<string, string[]>
+}
+
+function parseArgs(args: string[], valueFlags: readonly string[]): ParsedArgs {
+  const positional: string[] = []
+  const values = new Map<string, string[]>()
+  for (let index = 0; index < args.length; index += 1) {
+    const argument = args[index]
+    if (!argument.startsWith('--')) {
+      positional.push(argument)
+      continue
+    }
+    if (!valueFlags.includes(argument)) throw new Error(`Unknown option: ${argument}`)
+    const value = args[index + 1]
+    if (!value || value.startsWith('--')) throw new Error(`Missing value for ${argument}`)
+    values.set(argument, [...(values.get(argument) ?? []), value])
+    index += 1
+  }
+  return { positional, values }
+}
+
+function loadRegistry(path: string): Registry {
+  if (!existsSync(path)) throw new Error(`Registry not found: ${path}`)
+  return readRegistry(path)
+}
+
+function loadRenderedSizes(path: string): ReturnType<typeof parseRenderedSizes> {
+  if (!existsSync(path)) throw new Error(`Rendered sizes not found: ${path}`)
+  if (statSync(path).size > MAX_SIZES_BYTES) {
+    throw new Error(`Rendered sizes exceed the ${MAX_SIZES_BYTES / 1024 / 1024} MB input limit`)
+  }
+  return parseRenderedSizes(JSON.parse(readFileSync(path, 'utf8')))
+}
+
+function parseFormat(values: Map<string, string[]>): 'text' | 'json' {
+  const format = values.get('--format')?.at(-1) ?? 'text'
+  if (format !== 'text' && format !== 'json') throw new Error(USAGE)
+  return format
+}
+
+/**
+ * Decode each screenshot against the old registry once; whatever it matched
+ * that the diff marks broken will no longer decode against the new one.
+ */
+function checkScreenshots(
+  inputs: string[],
+  before: Registry,
+  broken: ReadonlySet<string>,
+): ScreenshotImpact[] {
+  const decoder = createImageDecoder(before.components, {
+    intensity: before.intensity,
+    patternSize: before.patternSize,
+  })
+  return expandImagePaths(inputs).map((file) => {
+    try {
+      if (statSync(file).size > MAX_IMAGE_BYTES) {
+        throw new Error(`Image exceeds the ${MAX_IMAGE_BYTES / 1024 / 1024} MB input limit`)
+      }
+      const matched = decoder.decode(readFileSync(file)).map((result) => result.path)
+      return { file, matched, lost: matched.filter((path) => broken.has(path)), error: null }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { file, matched: [], lost: [], error: message }
+    }
+  })
+}
+
+function formatSource(component: ComponentDescriptor): string {
+  const { source } = component
+  return source ? `${source.file}:${source.line}:${source.column}` : 'no source'
+}
+
+function describeChange(change: RegistryChange): string {
+  switch (change.kind) {
+    case 'added':
+      return `  + ${change.after.path} (${change.after.type}) ${formatSource(change.after)}`
+    case 'removed':
+      return `  - ${change.before.path} (${change.before.type}) ${formatSource(change.before)}`
+    case 'moved':
+      return `  ~ ${change.before.path} moved ${formatSource(change.before)} -> ${formatSource(change.after)}`
+    case 'reparented':
+      return `  > ${change.before.path} -> ${change.after.path}`
+    case 'changed':
+      return `  ! ${change.before.path} changed ${change.fields.join(', ')}`
+  }
+}
+
+function printDiff(
+  diff: RegistryDiff,
+  screenshots: ScreenshotImpact[] | undefined,
+  format: 'text' | 'json',
+): void {
+  if (format === 'json') {
+    console.log(JSON.stringify({ ...diff, screenshots: screenshots ?? null }, null, 2))
+    return
+  }
+
+  const count = (kind: RegistryChange['kind']): number =>
+    diff.changes.filter((change) => change.kind === kind).length
+  console.log(
+    `Registry diff: ${count('added')} added, ${count('removed')} removed, ${count('moved')} moved, ${count('reparented')} re-parented, ${count('changed')} changed (${diff.unchanged} unchanged)`,
+  )
+  for (const change of diff.changes) console.log(describeChange(change))
+  for (const { field, before, after } of diff.defaults) {
+    console.log(`  ! default ${field} ${before} -> ${after}`)
+  }
+  if (diff.broken.length > 0) {
+    console.log(
+      diff.broken.length === 1
+        ? '1 component changes its embedding; archived screenshots of it stop decoding against the new registry.'
+        : `${diff.broken.length} components change their embedding; archived screenshots of them stop decoding against the new registry.`,
+    )
+  }
+
+  if (!screenshots) return
+  console.log('')
+  console.log('Archived screenshots:')
+  for (const screenshot of screenshots) {
+    const detail = screenshot.error
+      ? `error: ${screenshot.error}`
+      : screenshot.matched.length === 0
+        ? 'no matches against the old registry'
+        : screenshot.lost.length === 0
+          ? `still decodes (${screenshot.matched.length} match${screenshot.matched.length === 1 ? '' : 'es'})`
+          : `stops decoding ${screenshot.lost.join(', ')} (${screenshot.lost.length} of ${screenshot.matched.length} matches)`
+    console.log(`  ${screenshot.file}: ${detail}`)
+  }
+}
+
+function runRegistryDiff(args: string[]): number {
+  const { positional, values } = parseArgs(args, ['--screenshots', '--format'])
+  const format = parseFormat(values)
+  if (positional.length !== 2) throw new Error(USAGE)
+
+  const [before, after] = positional.map(loadRegistry)
+  const diff = diffRegistries(before, after)
+  const inputs = values.get('--screenshots')
+  const screenshots = inputs && checkScreenshots(inputs, before, new Set(diff.broken))
+  printDiff(diff, screenshots, format)
+  return diff.broken.length > 0 ? EXIT_FINDINGS : EXIT_CLEAN
+}
+
+function printLint(lint: RegistryLint, threshold: number, format: 'text' | 'json'): void {
+  if (format === 'json') {
+    console.log(JSON.stringify({ ...lint, threshold }, null, 2))
+    return
+  }
+
+  const plural = (count: number, noun: string): string =>
+    `${count} ${noun}${count === 1 ? '' : 's'}`
+  console.log(
+    `Registry lint: ${plural(lint.collisions.length, 'confusable pair')}, ${plural(lint.oversized.length, 'oversized tile')} (tile sizes ${lint.tileSizes.join(', ')}; threshold ${threshold})`,
+  )
+  for (const { first, second, score, tileSizes } of lint.collisions) {
+    console.log(
+      `  = ${first.path} v${first.patternVersion} ~ ${second.path} v${second.patternVersion}: ${score.toFixed(3)} at ${tileSizes.join(', ')}`,
+    )
+  }
+  for (const { component, patternSize, renderedSize, maxPatternSize } of lint.oversized) {
+    const fit =
+      maxPatternSize < 16 ? 'no tile size fits' : `use patternSize ${maxPatternSize} or less`
+    console.log(
+      `  # ${component.path} patternSize ${patternSize} in a ${renderedSize.width}x${renderedSize.height} element: ${fit}`,
+    )
+  }
+}
+
+function runRegistryLint(args: string[]): number {
+  const { positional, values } = parseArgs(args, ['--threshold', '--sizes', '--format'])
+  const format = parseFormat(values)
+  if (positional.length !== 1) throw new Error(USAGE)
+  const thresholdValue = values.get('--threshold')?.at(-1)
+  const threshold =
+    thresholdValue === undefined ? DEFAULT_CONFUSION_THRESHOLD : Number(thresholdValue)
+  if (!Number.isFinite(threshold)) throw new Error('Invalid --threshold')
+
+  const registry = loadRegistry(positional[0])
+  const sizesPath = values.get('--sizes')?.at(-1)
+  const lint = lintRegistry(registry.components, {
+    patternSize: registry.patternSize,
+    intensity: registry.intensity,
+    threshold,
+    renderedSizes: sizesPath === undefined ? undefined : loadRenderedSizes(sizesPath),
+  })
+  printLint(lint, threshold, format)
+  return lint.collisions.length + lint.oversized.length > 0 ? EXIT_FINDINGS : EXIT_CLEAN
+}
+
+function runCli(args: string[]): number {
+  try {
+    const [group, command, ...rest] = args
+    if (group === 'registry' && command === 'diff') return runRegistryDiff(rest)
+    if (group === 'registry' && command === 'lint') return runRegistryLint(rest)
+    throw new Error(USAGE)
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error))
+    return EXIT_INVALID_INPUT
+  }
+}
+
+const entryPath = process.argv[1]
+if (
+  entryPath &&
+  existsSync(entryPath) &&
+  realpathSync(fileURLToPath(import.meta.url)) === realpathSync(entryPath)
+) {
+  process.exitCode = runCli(process.argv.slice(2))
+}
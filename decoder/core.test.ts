@@ -1,11 +1,11 @@
 import { describe, expect, it } from 'vitest'
 
-import { analyzeScreenshot } from './demo-analysis.js'
 import {
   createPatternPayload,
   generatePatternRgba,
   type ComponentDescriptor,
-} from './pattern.js'
+} from '../src/pattern.js'
+import { decodePixels, type DecodeOptions } from './core.js'
 
 const TARGET: ComponentDescriptor = {
   path: 'SAMPLE_APP/focus-card',
@@ -30,13 +30,13 @@ const DECOY: ComponentDescriptor = {
 }
 
 function makeCapturedCrop(): {
-  data: Uint8ClampedArray
+  data: Uint8Array
   width: number
   height: number
 } {
   const width = 236
   const height = 164
-  const data = new Uint8ClampedArray(width * height * 4)
+  const data = new Uint8Array(width * height * 4)
   const tile = generatePatternRgba(createPatternPayload(TARGET), 64, 0.08)
 
   for (let y = 0; y < height; y += 1) {
@@ -61,7 +61,7 @@ function makeCapturedCrop(): {
 }
 
 function makeBusyEdgeCrop(encoded = true, scale = 1): {
-  data: Uint8ClampedArray
+  data: Uint8Array
   width: number
   height: number
 } {
@@ -71,7 +71,7 @@ function makeBusyEdgeCrop(encoded = true, scale = 1): {
   const cardBottom = 85 * scale
   const patternSize = 64
   const renderedPatternSize = patternSize * scale
-  const data = new Uint8ClampedArray(width * height * 4)
+  const data = new Uint8Array(width * height * 4)
   const tile = generatePatternRgba(
     createPatternPayload(TARGET),
     patternSize,
@@ -135,69 +135,58 @@ function makeBusyEdgeCrop(encoded = true, scale = 1): {
   return { data, width, height }
 }
 
-describe('browser screenshot analysis', () => {
+/** The demo's faint carrier, scored robustly against its interface chrome. */
+const DEMO_OPTIONS: DecodeOptions = {
+  intensity: 0.08,
+  patternSize: 64,
+  scales: [1, 2],
+  scoring: 'robust',
+}
+
+describe('browser screenshot decoding', () => {
   it('finds a subtly encoded component in an offset screenshot crop', () => {
     const capture = makeCapturedCrop()
-    const results = analyzeScreenshot(
-      capture.data,
-      capture.width,
-      capture.height,
-      [DECOY, TARGET],
-      {
-        intensity: 0.08,
-        patternSize: 64,
-        scales: [1],
-        step: 4,
-      },
-    )
+    const results = decodePixels(capture.data, capture.width, capture.height, [DECOY, TARGET], {
+      ...DEMO_OPTIONS,
+      scales: [1],
+    })
 
-    expect(results[0].component.path).toBe(TARGET.path)
-    expect(results[0].component.source).toEqual(TARGET.source)
-    expect(results[0].score).toBeGreaterThan(0.55)
-    expect(results[0].x).toBeGreaterThanOrEqual(20)
-    expect(results[0].y).toBeGreaterThanOrEqual(12)
+    expect(results).toHaveLength(1)
+    expect(results[0].path).toBe(TARGET.path)
+    expect(results[0].source).toEqual(TARGET.source)
+    expect(results[0].score).toBeGreaterThan(0.7)
+    expect(results[0].region).toEqual({ x: 29, y: 21, width: 192, height: 128 })
   })
 
-  it('returns low confidence for a flat unencoded capture', () => {
+  it('reports nothing in a flat unencoded capture', () => {
     const width = 160
     const height = 96
-    const data = new Uint8ClampedArray(width * height * 4)
-    data.fill(238)
-    for (let offset = 3; offset < data.length; offset += 4) data[offset] = 255
-
-    const results = analyzeScreenshot(data, width, height, [TARGET, DECOY])
+    const data = new Uint8Array(width * height * 4).fill(238)
 
-    expect(results[0].score).toBeLessThan(0.2)
+    expect(decodePixels(data, width, height, [TARGET, DECOY], DEMO_OPTIONS)).toEqual([])
   })
 
   it.each([1, 2])(
     'recovers the carrier beside strong borders and coloured avatars at %sx',
     (scale) => {
       const capture = makeBusyEdgeCrop(true, scale)
-      const results = analyzeScreenshot(
+      const results = decodePixels(
         capture.data,
         capture.width,
         capture.height,
         [DECOY, TARGET],
-        {
-          intensity: 0.08,
-          patternSize: 64,
-          scales: [1, 2],
-        },
+        DEMO_OPTIONS,
       )
 
-      expect(results[0].component.path).toBe(TARGET.path)
-      expect(results[0].score).toBeGreaterThan(0.42)
-      expect(results[0].score - results[1].score).toBeGreaterThan(0.1)
+      expect(results.map((result) => result.path)).toEqual([TARGET.path])
+      expect(results[0].score).toBeGreaterThan(0.7)
       expect(results[0].tileSize).toBe(64 * scale)
-      expect(results[0].x).toBeGreaterThanOrEqual(29 * scale)
-      expect(results[0].x + results[0].tileSize).toBeLessThanOrEqual(
-        163 * scale,
-      )
-      expect(results[0].y).toBeGreaterThanOrEqual(0)
-      expect(results[0].y + results[0].tileSize).toBeLessThanOrEqual(
-        85 * scale,
-      )
+      expect(results[0].scale).toBe(scale)
+      // The tagged card holds the crop's centre.
+      const { region } = results[0]
+      expect(region.x).toBeLessThanOrEqual(96 * scale)
+      expect(region.x + region.width).toBeGreaterThan(96 * scale)
+      expect(region.y + region.height).toBeLessThanOrEqual(93 * scale)
     },
   )
 
@@ -205,19 +194,10 @@ describe('browser screenshot analysis', () => {
     'does not invent a %sx match from the same borders and avatars without a carrier',
     (scale) => {
       const capture = makeBusyEdgeCrop(false, scale)
-      const results = analyzeScreenshot(
-        capture.data,
-        capture.width,
-        capture.height,
-        [DECOY, TARGET],
-        {
-          intensity: 0.08,
-          patternSize: 64,
-          scales: [1, 2],
-        },
-      )
 
-      expect(results[0].score).toBeLessThan(0.42)
+      expect(
+        decodePixels(capture.data, capture.width, capture.height, [DECOY, TARGET], DEMO_OPTIONS),
+      ).toEqual([])
     },
   )
 
@@ -247,7 +227,7 @@ describe('browser screenshot analysis', () => {
     // Crop is mostly the chip carrier (as when the user frames a pill).
     const width = 96
     const height = 72
-    const data = new Uint8ClampedArray(width * height * 4)
+    const data = new Uint8Array(width * height * 4)
     const parentTile = generatePatternRgba(createPatternPayload(parent), 64, 0.08)
     const chipTile = generatePatternRgba(createPatternPayload(chip), 32, 0.08)
 
@@ -271,17 +251,14 @@ describe('browser screenshot analysis', () => {
       }
     }
 
-    const results = analyzeScreenshot(data, width, height, [parent, chip], {
-      intensity: 0.08,
-      patternSize: 64,
+    const results = decodePixels(data, width, height, [parent, chip], {
+      ...DEMO_OPTIONS,
       scales: [1],
-      step: 2,
-      threshold: 0.42,
     })
 
-    expect(results[0].component.path).toBe(chip.path)
-    expect(results[0].component.source).toEqual(chip.source)
-    expect(results[0].score).toBeGreaterThan(0.55)
+    expect(results[0].path).toBe(chip.path)
+    expect(results[0].source).toEqual(chip.source)
+    expect(results[0].score).toBeGreaterThan(0.7)
     expect(results[0].tileSize).toBe(32)
 
     // Same path with a wrong source must not match the pixels (mapping is in the noise).
@@ -293,12 +270,8 @@ describe('browser screenshot analysis', () => {
         column: 1,
       },
     }
-    const wrong = analyzeScreenshot(data, width, height, [wrongSource], {
-      intensity: 0.08,
-      patternSize: 64,
-      scales: [1],
-      step: 2,
-    })
-    expect(wrong[0].score).toBeLessThan(0.42)
+    expect(
+      decodePixels(data, width, height, [wrongSource], { ...DEMO_OPTIONS, scales: [1] }),
+    ).toEqual([])
   })
 })
@@ -0,0 +1,69 @@
+/**
+ * Environment-neutral decoding core: every export runs on RGBA pixels alone,
+ * with no Node built-ins or image codecs, so browsers, workers, and the CLI
+ * share one search, one scoring, and one result type. `pixelprovenance/decode`
+ * adds PNG, JPEG, and WebP reading, registry files, and the command line.
+ */
+export {
+  DecodeBudgetError,
+  buildRegistry,
+  createPixelDecoder,
+  decodePayloadPixels,
+  decodePixels,
+  scanPayloadPixels,
+  scanPixels,
+} from './scan.js'
+export type {
+  CorrelationMethod,
+  DecodeOptions,
+  DecodeRegistry,
+  PayloadDecodeOptions,
+  PayloadResult,
+  PayloadScanOptions,
+  PixelDecodeOptions,
+  PixelDecoder,
+  RasterImage,
+  RegistryEntry,
+  ReleaseRegistry,
+  ScanOptions,
+  ScanResult,
+} from './scan.js'
+export { createDecoderWorker, serveDecoderRequests } from './worker-pool.js'
+export type {
+  DecodeProgress,
+  DecoderRequest,
+  DecoderResponse,
+  DecoderWorker,
+  DecoderWorkerOptions,
+  DecoderWorkerPort,
+  DecoderWorkerScope,
+  WorkerDecodeOptions,
+} from './worker-pool.js'
+export { SCORING_MODES, scoreWindow } from '../src/scoring.js'
+export type { ScoringMode, WindowScoreOptions } from '../src/scoring.js'
+export { diffRegistries } from './diff.js'
+export type {
+  DescriptorField,
+  DiffableRegistry,
+  RegistryChange,
+  RegistryChangeKind,
+  RegistryDefaultChange,
+  RegistryDiff,
+} from './diff.js'
+export { DEFAULT_CONFUSION_THRESHOLD, lintRegistry, parseRenderedSizes } from './lint.js'
+export type { LintOptions, OversizedPattern, PatternCollision, RegistryLint } from './lint.js'
+export {
+  analyzeCarrierSpectrum,
+  selectSpectralCandidates,
+  surveyCarrierPeriods,
+} from './spectrum.js'
+export type {
+  CarrierEstimate,
+  CarrierPeriod,
+  CarrierSpectrum,
+  SpectralCandidateOptions,
+  SpectralPeak,
+  SpectrumOptions,
+} from './spectrum.js'
+export { surveyCarrierTransforms } from './rectify.js'
+export type { CarrierTransform, TransformedRegion } from './rectify.js'
@@ -1,19 +1,32 @@
 import { Buffer } from 'node:buffer'
+import { crc32, deflateSync } from 'node:zlib'
 
+import { encode as encodeJpeg } from 'jpeg-js'
 import { PNG } from 'pngjs'
 import { describe, expect, it } from 'vitest'
 
 import {
+  analyzeImageSpectrum,
+  annotateImage,
   build,
   buildRegistry,
+  createImageDecoder,
+  createPixelDecoder,
+  DecodeBudgetError,
+  decodeImage,
+  decodePayloadPng,
   decodePng,
   scan,
   scanPixels,
 } from './decode.js'
 import {
+  createComponentId,
   createPatternPayload,
   generatePatternRgba,
+  generatePayloadPatternRgba,
+  getCarrierFrequencies,
   type ComponentDescriptor,
+  type PatternVersion,
 } from '../src/pattern.js'
 
 const TARGET: ComponentDescriptor = {
@@ -33,7 +46,14 @@ const DECOY: ComponentDescriptor = {
   depth: 2,
 }
 
-function makePng(tileSize: number, scale = 1): Buffer {
+// One 64px TARGET tile, re-encoded by libwebp (quality 75) and as a 4:2:0
+// progressive JPEG (mozjpeg, quality 90).
+const TARGET_TILE_WEBP =
+  'UklGRs4AAABXRUJQVlA4IMIAAAAQBgCdASpAAEAAPpFIoEwlpCMiIggAsBIJYwDMv8rI92BBgNsj//+jd0wDegP4AARpmAc6Wgmg1HwA/u/MIXRiaF6MbsHxYUTyqCWMaJz3FLCJTd/V74zoijSwX+oFZuAHusKYGbvhcszFqMVZ8RNoBWsy+Nipyazt3RYoclx03bj7zxOCHdF1/WqWEmc+pCwerL1vkAbIkIM6Ozl0ixPchek5pijFutXuZmLUYqz2Ga0Rdmehn7/vM3hokpzlOtAAAA=='
+const TARGET_TILE_PROGRESSIVE_JPEG =
+  '/9j/2wBDAAMCAgMCAgMDAwMEAwMEBQgFBQQEBQoHBwYIDAoMDAsKCwsNDhIQDQ4RDgsLEBYQERMUFRUVDA8XGBYUGBIUFRT/2wBDAQMEBAUEBQkFBQkUDQsNFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBT/wgARCABAAEADASIAAhEBAxEB/8QAFgABAQEAAAAAAAAAAAAAAAAAAQAH/8QAFgEBAQEAAAAAAAAAAAAAAAAAAgEA/9oADAMBAAIQAxAAAAHVhMWqkRjiokShqpEY4qJEoaqRGOKiRKGqkRjiov/EABQQAQAAAAAAAAAAAAAAAAAAAGD/2gAIAQEAAQUCAf/EABkRAAIDAQAAAAAAAAAAAAAAAAABAgMSEf/aAAgBAwEBPwGpQGobLVDgsYKlAahstUOCxgqUBqGy1Q4LGCpQGobLVDgsYP/EABgRAAMBAQAAAAAAAAAAAAAAAAARIQEC/9oACAECAQE/AdZUcsrNZUcsrNZUcsrNZUcsrP/EABQQAQAAAAAAAAAAAAAAAAAAAGD/2gAIAQEABj8CAf/EABcQAQEBAQAAAAAAAAAAAAAAABEAMCD/2gAIAQEAAT8hxIiNSIjUiI1IiOP/2gAMAwEAAgADAAAAEPkvH/kvH/kvH/kvH//EAB0RAAICAgMBAAAAAAAAAAAAAAFhABFR8IGhseH/2gAIAQMBAT8QsHeSsCaXZWBKC9ZSgfT0rAlg7yVgTS7KwJQXrKUD6elYEsHeSsCaXZWBKC9ZSgfT0rAlg7yVgTS7KwJQXrKUD6elYE//xAAXEQEBAQEAAAAAAAAAAAAAAAABACEQ/9oACAECAQE/EKI0l4RGkvCI0l4RGksf/8QAGRABAQEBAQEAAAAAAAAAAAAAAQARIUFR/9oACAEBAAE/EN+S44Q+S/Lc4Q5wlh8LOYTjhHgnwXHCDwk8IM5b8lxwh8l+W5whzhLD4WcwnHCPBPguOEHhJ4QZy35LjhD5L8tzhDnCWHws5hOOEeCfBccIPCTwgzlvyXHCHyX5bnCHOEsPhZzCccI8E+C44QeEnhBnL//Z'
+
+function makePng(tileSize: number, scale = 1, patternVersion: PatternVersion = 1): Buffer {
   const renderedTileSize = tileSize * scale
   const png = new PNG({ width: renderedTileSize * 2, height: renderedTileSize * 4 })
   for (let offset = 0; offset < png.data.length; offset += 4) {
@@ -44,9 +64,10 @@ function makePng(tileSize: number, scale = 1): Buffer {
   }
 
   const tile = generatePatternRgba(
-    createPatternPayload(TARGET),
+    createPatternPayload({ ...TARGET, patternVersion }),
     tileSize,
     0.16,
+    patternVersion,
   )
 
   for (let y = renderedTileSize * 2; y < png.height; y += 1) {
@@ -67,6 +88,187 @@ function makePng(tileSize: number, scale = 1): Buffer {
   return PNG.sync.write(png)
 }
 
+/**
+ * A 64px TARGET tag in the middle of a white page, photographed turned by
+ * `degrees`: the page is resampled bilinearly about its centre.
+ */
+function makeRotatedPng(degrees: number, width = 480, height = 400): Buffer {
+  const png = new PNG({ width, height })
+  const tile = generatePatternRgba(createPatternPayload(TARGET), 64, 0.16)
+  const at = (x: number, y: number, channel: number) =>
+    tile[((((y % 64) + 64) % 64) * 64 + (((x % 64) + 64) % 64)) * 4 + channel]
+  const cos = Math.cos((degrees * Math.PI) / 180)
+  const sin = Math.sin((degrees * Math.PI) / 180)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const pageX = cos * (x - width / 2) + sin * (y - height / 2) + width / 2
+      const pageY = -sin * (x - width / 2) + cos * (y - height / 2) + height / 2
+      const inside = pageX >= 80 && pageX < width - 80 && pageY >= 80 && pageY < height - 80
+      const x0 = Math.floor(pageX - 0.5)
+      const y0 = Math.floor(pageY - 0.5)
+      const wx = pageX - 0.5 - x0
+      const wy = pageY - 0.5 - y0
+      const offset = (y * width + x) * 4
+      for (let channel = 0; channel < 3; channel += 1) {
+        const value =
+          (at(x0, y0, channel) * (1 - wx) + at(x0 + 1, y0, channel) * wx) * (1 - wy) +
+          (at(x0, y0 + 1, channel) * (1 - wx) + at(x0 + 1, y0 + 1, channel) * wx) * wy
+        png.data[offset + channel] = inside ? Math.round(value * 0.3 + 235 * 0.7) : 255
+      }
+      png.data[offset + 3] = 255
+    }
+  }
+  return PNG.sync.write(png)
+}
+
+/**
+ * A TARGET tag alpha-composited over a page as `DevTag` renders it, under
+ * lines of text and two avatars that drown its carrier for plain scoring.
+ */
+function makeBusyPng(): Buffer {
+  const png = new PNG({ width: 256, height: 192 })
+  const tile = generatePatternRgba(createPatternPayload(TARGET), 64, 0.16)
+  for (let y = 0; y < png.height; y += 1) {
+    for (let x = 0; x < png.width; x += 1) {
+      const offset = (y * png.width + x) * 4
+      const tileOffset = ((y % 64) * 64 + (x % 64)) * 4
+      const alpha = tile[tileOffset + 3] / 255
+      const text = y % 64 >= 20 && y % 64 < 32 && x % 6 < 3
+      const avatar = (x - 128) ** 2 + (y - 96) ** 2 < 900 || (x - 40) ** 2 + (y - 150) ** 2 < 400
+      for (let channel = 0; channel < 3; channel += 1) {
+        png.data[offset + channel] = text || avatar
+          ? [40, 60, 200][channel]
+          : Math.round(236 * (1 - alpha) + tile[tileOffset + channel] * alpha)
+      }
+      png.data[offset + 3] = 255
+    }
+  }
+  return PNG.sync.write(png)
+}
+
+function makePayloadPng(component: ComponentDescriptor, tileSize: number): Buffer {
+  const png = new PNG({ width: 180, height: 140 })
+  const tile = generatePayloadPatternRgba(createComponentId(component), tileSize, 0.16)
+
+  for (let y = 0; y < png.height; y += 1) {
+    for (let x = 0; x < png.width; x += 1) {
+      const offset = (y * png.width + x) * 4
+      const inside = x >= 21 && x < 170 && y >= 13 && y < 130
+      const tileOffset =
+        (((y - 13 + tileSize * 4) % tileSize) * tileSize +
+          ((x - 21 + tileSize * 4) % tileSize)) * 4
+      for (let channel = 0; channel < 3; channel += 1) {
+        png.data[offset + channel] = inside
+          ? Math.round(tile[tileOffset + channel] * 0.3 + 220 * 0.7)
+          : 220
+      }
+      png.data[offset + 3] = 255
+    }
+  }
+
+  return PNG.sync.write(png)
+}
+
+interface PngEncoding {
+  colorType: 0 | 2 | 3 | 4 | 6
+  bitDepth?: 8 | 16
+  interlaced?: boolean
+}
+
+/** Adam7 passes as [x offset, y offset, x step, y step]. */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+]
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const chunk = Buffer.alloc(body.length + 8)
+  chunk.writeUInt32BE(data.length, 0)
+  body.copy(chunk, 4)
+  chunk.writeUInt32BE(crc32(body), body.length + 4)
+  return chunk
+}
+
+/**
+ * Re-encode RGBA pixels in another PNG colour type, bit depth, or Adam7
+ * order, which pngjs cannot write. Greyscale keeps the red channel.
+ */
+function encodePng(
+  source: PNG,
+  { colorType, bitDepth = 8, interlaced = false }: PngEncoding,
+): Buffer {
+  const { width, height, data } = source
+  const palette: number[] = []
+  const paletteIndexes = new Map<number, number>()
+  const samplesAt = (offset: number): number[] => {
+    const [red, green, blue, alpha] = data.subarray(offset, offset + 4)
+    if (colorType === 0) return [red]
+    if (colorType === 2) return [red, green, blue]
+    if (colorType === 4) return [red, alpha]
+    if (colorType === 6) return [red, green, blue, alpha]
+    const key = ((red << 24) | (green << 16) | (blue << 8) | alpha) >>> 0
+    let index = paletteIndexes.get(key)
+    if (index === undefined) {
+      index = palette.length
+      palette.push(key)
+      paletteIndexes.set(key, index)
+    }
+    return [index]
+  }
+
+  const rows: Buffer[] = []
+  for (const [startX, startY, stepX, stepY] of interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]]) {
+    if (startX >= width) continue
+    for (let y = startY; y < height; y += stepY) {
+      const row = [0]
+      for (let x = startX; x < width; x += stepX) {
+        for (const sample of samplesAt((y * width + x) * 4)) {
+          row.push(sample)
+          if (bitDepth === 16) row.push(sample)
+        }
+      }
+      rows.push(Buffer.from(row))
+    }
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = bitDepth
+  header[9] = colorType
+  header[12] = interlaced ? 1 : 0
+  const paletteChunks = colorType === 3
+    ? [
+        pngChunk(
+          'PLTE',
+          Buffer.from(palette.flatMap((key) => [key >>> 24, (key >>> 16) & 255, (key >>> 8) & 255])),
+        ),
+        pngChunk('tRNS', Buffer.from(palette.map((key) => key & 255))),
+      ]
+    : []
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    ...paletteChunks,
+    pngChunk('IDAT', deflateSync(Buffer.concat(rows))),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ])
+}
+
+/** makePng(64) with a half-transparent upper half, so palettes need tRNS. */
+function makeTranslucentPng(): PNG {
+  const png = PNG.sync.read(makePng(64))
+  for (let offset = 3; offset < png.data.length / 2; offset += 4) png.data[offset] = 128
+  return png
+}
+
 describe('screenshot decoder', () => {
   it('finds a registered pattern in the lower half of a non-square image', () => {
     const png = PNG.sync.read(makePng(32))
@@ -92,10 +294,131 @@ describe('screenshot decoder', () => {
       scales: [1, 2],
     })
 
-    expect(results[0]).toMatchObject({ path: TARGET.path, tileSize: 128 })
+    expect(results[0]).toMatchObject({ path: TARGET.path, tileSize: 128, scale: 2 })
     expect(results[0].score).toBeGreaterThan(0.8)
   })
 
+  it('estimates fractional and 3x display scales from the carrier period', () => {
+    const options = { patternSize: 64, intensity: 0.16, patternVersions: [1 as const] }
+    for (const scale of [1.5, 3]) {
+      const png = makePng(64, scale)
+
+      expect(decodePng(png, [TARGET, DECOY], options)[0]).toMatchObject({
+        path: TARGET.path,
+        tileSize: 64 * scale,
+        scale,
+      })
+      expect(decodePng(png, [TARGET, DECOY], { ...options, scales: [1, 2] })).toEqual([])
+    }
+    expect(() => decodePng(makePng(64), [TARGET], { scales: [5] })).toThrow(/0.25 and 4/)
+  })
+
+  it('localizes each match to the pixel edges of its tagged region', () => {
+    const png = new PNG({ width: 240, height: 180 })
+    const tile = generatePatternRgba(createPatternPayload(TARGET), 32, 0.16)
+    for (let y = 0; y < png.height; y += 1) {
+      for (let x = 0; x < png.width; x += 1) {
+        const offset = (y * png.width + x) * 4
+        const inside = x >= 37 && x < 187 && y >= 23 && y < 124
+        const tileOffset = (((y - 23 + 32) % 32) * 32 + ((x - 37 + 32) % 32)) * 4
+        for (let channel = 0; channel < 3; channel += 1) {
+          png.data[offset + channel] = inside
+            ? Math.round(tile[tileOffset + channel] * 0.3 + 220 * 0.7)
+            : 220
+        }
+        png.data[offset + 3] = 255
+      }
+    }
+
+    const [result] = decodeImage(PNG.sync.write(png), [TARGET], {
+      patternSize: 32,
+      scales: [1],
+    })
+
+    expect(result.path).toBe(TARGET.path)
+    expect(result.region).toEqual({ x: 37, y: 23, width: 150, height: 101 })
+
+    const annotated = PNG.sync.read(Buffer.from(annotateImage(PNG.sync.write(png), [result])))
+    const edge = (30 * png.width + 37) * 4
+    expect([annotated.width, annotated.height]).toEqual([png.width, png.height])
+    expect(Array.from(annotated.data.subarray(edge, edge + 4))).toEqual([230, 110, 0, 255])
+    expect(annotateImage({ data: png.data, width: png.width, height: png.height }, [result]))
+      .toEqual(annotateImage(PNG.sync.write(png), [result]))
+  })
+
+  it('reports separate instances of one tag as separate regions', () => {
+    const png = new PNG({ width: 320, height: 160 })
+    const tile = generatePatternRgba(createPatternPayload(TARGET), 32, 0.16)
+    const instances = [
+      { x: 16, y: 32, width: 96, height: 96 },
+      { x: 192, y: 48, width: 96, height: 96 },
+    ]
+    for (let y = 0; y < png.height; y += 1) {
+      for (let x = 0; x < png.width; x += 1) {
+        const offset = (y * png.width + x) * 4
+        const instance = instances.find(
+          (region) =>
+            x >= region.x &&
+            x < region.x + region.width &&
+            y >= region.y &&
+            y < region.y + region.height,
+        )
+        const tileOffset = instance
+          ? (((y - instance.y) % 32) * 32 + ((x - instance.x) % 32)) * 4
+          : 0
+        for (let channel = 0; channel < 3; channel += 1) {
+          png.data[offset + channel] = instance
+            ? Math.round(tile[tileOffset + channel] * 0.3 + 220 * 0.7)
+            : 220
+        }
+        png.data[offset + 3] = 255
+      }
+    }
+
+    const results = decodeImage(PNG.sync.write(png), [TARGET], { patternSize: 32, scales: [1] })
+
+    expect(results.map((result) => result.path)).toEqual([TARGET.path, TARGET.path])
+    expect(results.map((result) => result.region).sort((a, b) => a.x - b.x)).toEqual(instances)
+  })
+
+  it('reuses one decoder across screenshots', () => {
+    const options = { patternSize: 64, intensity: 0.16, threshold: 0.8, scales: [1, 2] }
+    const decoder = createImageDecoder([TARGET, DECOY], options)
+    const screenshots = [makePng(64), makePng(64, 2), makePng(64)]
+    const results = screenshots.map((screenshot) => decoder.decode(screenshot))
+
+    expect(results.map(([result]) => [result.path, result.tileSize])).toEqual([
+      [TARGET.path, 64],
+      [TARGET.path, 128],
+      [TARGET.path, 64],
+    ])
+    expect(results[2]).toEqual(decodeImage(screenshots[2], [TARGET, DECOY], options))
+  })
+
+  it('decodes against several releases and reports the ones that match', () => {
+    const moved = {
+      ...TARGET,
+      source: { file: 'src/features/evidence/CaptureCard.tsx', line: 52, column: 9 },
+    }
+    const releases = [
+      { release: 'v2.4.0', components: [moved, DECOY] },
+      { release: 'v2.3.0', components: [TARGET, DECOY] },
+      { release: 'v2.2.0', components: [TARGET] },
+    ]
+    const options = { patternSize: 64, intensity: 0.16, threshold: 0.8, scales: [1] }
+    const [result] = decodePng(makePng(64), releases, options)
+
+    expect(result).toMatchObject({
+      path: TARGET.path,
+      source: TARGET.source,
+      releases: ['v2.3.0', 'v2.2.0'],
+    })
+    expect(decodePng(makePng(64), [TARGET], options)[0].releases).toBeUndefined()
+    expect(() => decodePng(makePng(64), [releases[0], releases[0]], options)).toThrow(
+      'unique, non-empty release label',
+    )
+  })
+
   it('supports the default decoder path and compatibility aliases', () => {
     const image = makePng(64)
     const registry = build([TARGET, DECOY], 64, 0.16)
@@ -105,6 +428,39 @@ describe('screenshot decoder', () => {
     expect(decodePng(image, [TARGET, DECOY])[0].path).toBe(TARGET.path)
   })
 
+  it('reports the pattern version that matched', () => {
+    const results = decodePng(makePng(64), [TARGET, DECOY], {
+      intensity: 0.16,
+      scales: [1],
+      patternVersions: [1],
+    })
+
+    expect(results[0]).toMatchObject({ path: TARGET.path, patternVersion: 1 })
+    expect(
+      decodePng(makePng(64, 2, 2), [TARGET, DECOY], {
+        intensity: 0.16,
+        patternVersions: [1, 2],
+      })[0],
+    ).toMatchObject({ path: TARGET.path, patternVersion: 2, scale: 2 })
+    // Unpinned entries default to version 1 until the codebook pins version 2 somewhere.
+    expect(decodePng(makePng(64, 2, 2), [TARGET, DECOY], { intensity: 0.16 })).toEqual([])
+    expect(
+      decodePng(makePng(64, 2, 2), [TARGET, { ...DECOY, patternVersion: 2 }], {
+        intensity: 0.16,
+      })[0],
+    ).toMatchObject({ path: TARGET.path, patternVersion: 2, scale: 2 })
+    expect(
+      decodePng(makePng(64, 1, 2), [TARGET], { intensity: 0.16, patternVersions: [1] }),
+    ).toEqual([])
+    expect(buildRegistry([{ ...DECOY, patternVersion: 1 }], 32)[0].patternVersion).toBe(1)
+    expect(() =>
+      decodePng(makePng(64), [TARGET], { patternVersions: [] }),
+    ).toThrow(RangeError)
+    expect(() =>
+      buildRegistry([{ ...TARGET, patternVersion: 7 as PatternVersion }], 32),
+    ).toThrow(TypeError)
+  })
+
   it('rejects invalid and unbounded pixel dimensions', () => {
     expect(() =>
       scanPixels(new Uint8Array(4), Number.POSITIVE_INFINITY, 1, buildRegistry([TARGET])),
@@ -141,6 +497,82 @@ describe('screenshot decoder', () => {
     ).toEqual([])
   })
 
+  it('indexes a large codebook by carrier frequencies without losing matches', () => {
+    const components = [
+      TARGET,
+      ...Array.from({ length: 2_000 }, (_, index) => ({
+        path: `LAB_DASHBOARD/row-${index}`,
+        type: 'row',
+        depth: 3,
+      })),
+    ]
+    const png = makePng(32)
+    const { data, width, height } = PNG.sync.read(png)
+    const indexed = decodePng(png, components, {
+      patternSize: 32,
+      intensity: 0.16,
+      patternVersions: [1],
+      scales: [1],
+    })
+    const full = scanPixels(data, width, height, buildRegistry(components, 32, 0.16, [1]), {
+      step: 16,
+    })
+
+    // The first pass can only drop carriers whose frequencies are absent,
+    // such as chance correlations with the edge of the tagged region.
+    expect(indexed[0]).toMatchObject({ path: TARGET.path, tileSize: 32 })
+    expect(full[0]).toMatchObject({ path: TARGET.path, score: indexed[0].score })
+    expect(full.map((result) => result.path)).toEqual(
+      expect.arrayContaining(indexed.map((result) => result.path)),
+    )
+  })
+
+  it('indexes a large version 2 codebook by code bits without losing the match', () => {
+    const components = [
+      { ...TARGET, patternVersion: 2 as const },
+      ...Array.from({ length: 2_000 }, (_, index) => ({
+        path: `LAB_DASHBOARD/row-${index}`,
+        type: 'row',
+        depth: 3,
+        patternVersion: 2 as const,
+      })),
+    ]
+    const png = makePng(32, 1, 2)
+    const { data, width, height } = PNG.sync.read(png)
+    const indexed = decodePng(png, components, { patternSize: 32, intensity: 0.16, scales: [1] })
+    const full = scanPixels(data, width, height, buildRegistry(components, 32, 0.16), {
+      step: 16,
+    })
+
+    expect(indexed[0]).toMatchObject({ path: TARGET.path, patternVersion: 2, tileSize: 32 })
+    expect(full[0]).toMatchObject({ path: TARGET.path, score: indexed[0].score })
+  })
+
+  it('rectifies a rotated screenshot before correlating', () => {
+    const png = makeRotatedPng(9)
+    const options = { patternSize: 64, intensity: 0.16, patternVersions: [1 as const] }
+    const [match] = decodePng(png, [TARGET, DECOY], { ...options, rectify: true })
+
+    expect(match).toMatchObject({ path: TARGET.path, tileSize: 64 })
+    expect(match.score).toBeGreaterThan(0.85)
+    expect(match.transform?.rotation).toBeCloseTo(9, 0)
+    // The tag spans x 80..400 on the page; turned, it covers more of the screenshot.
+    expect(match.region.x).toBeLessThan(100)
+    expect(match.region.x + match.region.width).toBeGreaterThan(380)
+    expect(decodePng(png, [TARGET, DECOY], options)).toEqual([])
+  })
+
+  it('estimates the carrier period of a screenshot region before decoding', () => {
+    const spectrum = analyzeImageSpectrum(makePng(32, 2), {
+      region: { x: 0, y: 128, width: 128, height: 128 },
+    })
+
+    expect(spectrum.estimates.map((estimate) => Math.round(estimate.period))).toContain(64)
+    expect(spectrum.estimates[0].frequencies).toEqual(
+      getCarrierFrequencies(createPatternPayload(TARGET), 1),
+    )
+  })
+
   it('rejects scans that exceed the aggregate computation budget', () => {
     const components = Array.from({ length: 512 }, (_, index) => ({
       path: `component-${index}`,
@@ -150,18 +582,228 @@ describe('screenshot decoder', () => {
     const pixels = new Uint8Array(512 * 512 * 4)
 
     expect(() =>
-      scanPixels(pixels, 512, 512, buildRegistry(components, 16), { step: 1 }),
+      scanPixels(pixels, 512, 512, buildRegistry(components, 16), {
+        step: 1,
+        correlation: 'direct',
+      }),
     ).toThrow(/computation budget/)
+    expect(() =>
+      scanPixels(
+        new Uint8Array(4096 * 4096 * 4),
+        4096,
+        4096,
+        buildRegistry(components, 16),
+        { step: 1, correlation: 'fft' },
+      ),
+    ).toThrow(DecodeBudgetError)
+    // Each 64 px entry costs about a third of a second on a 2560 × 1600 capture.
+    expect(() =>
+      scanPixels(
+        new Uint8Array(2560 * 1600 * 4),
+        2560,
+        1600,
+        buildRegistry(components.slice(0, 300), 64),
+        { step: 1, correlation: 'fft' },
+      ),
+    ).toThrow(DecodeBudgetError)
+    // A worker pool's task is held to its share of the budget.
+    const decoder = createPixelDecoder(components.slice(0, 8), {
+      patternSize: 64,
+      scales: [1],
+      step: 1,
+      correlation: 'fft',
+    })
+    expect(() =>
+      decoder.decode(new Uint8Array(1024 * 1024 * 4), 1024, 1024, { budget: 0.001 }),
+    ).toThrow(DecodeBudgetError)
+    expect(() => decoder.decode(new Uint8Array(4), 1, 1, { budget: 0 })).toThrow(/above 0/)
+  })
+
+  it('scores every pixel offset with the FFT engine like the direct scan', () => {
+    const png = PNG.sync.read(makePng(16))
+    const registry = buildRegistry([TARGET, DECOY], 16, 0.16)
+    const direct = scanPixels(png.data, png.width, png.height, registry, {
+      threshold: 0.5,
+      step: 1,
+      correlation: 'direct',
+    })
+    const spectral = scanPixels(png.data, png.width, png.height, registry, {
+      threshold: 0.5,
+      step: 1,
+      correlation: 'fft',
+    })
+
+    expect(spectral.map((result) => [result.path, result.count])).toEqual(
+      direct.map((result) => [result.path, result.count]),
+    )
+    expect(spectral[0].path).toBe(TARGET.path)
+    expect(spectral[0].score).toBeCloseTo(direct[0].score, 9)
+  })
+
+  it('uses the FFT engine for single-pixel steps in auto mode', () => {
+    const results = decodePng(makePng(32), [TARGET, DECOY], {
+      patternSize: 32,
+      intensity: 0.16,
+      threshold: 0.95,
+      scales: [1],
+      step: 1,
+    })
+
+    expect(results[0]).toMatchObject({ path: TARGET.path, tileSize: 32 })
+    // At least the four tile-aligned origins inside the encoded half.
+    expect(results[0].count).toBeGreaterThanOrEqual(4)
+  })
+
+  it('recovers a tag under text and avatars with robust scoring', () => {
+    const png = makeBusyPng()
+    const options = { patternSize: 64, intensity: 0.16, scales: [1] }
+    const [match] = decodePng(png, [TARGET, DECOY], { ...options, scoring: 'robust' })
+
+    expect(match).toMatchObject({ path: TARGET.path, tileSize: 64 })
+    expect(match.score).toBeGreaterThan(0.8)
+    expect(decodePng(png, [TARGET, DECOY], options)).toEqual([])
+    expect(() =>
+      decodePng(png, [TARGET], { ...options, scoring: 'robust', correlation: 'fft' }),
+    ).toThrow(/direct correlation/)
+    expect(() =>
+      decodePng(png, [TARGET], { ...options, scoring: 'trimmed' as 'robust' }),
+    ).toThrow(/plain or robust/)
+  })
+
+  it('rejects unknown correlation methods', () => {
+    expect(() =>
+      scanPixels(new Uint8Array(64 * 64 * 4), 64, 64, buildRegistry([TARGET]), {
+        correlation: 'wavelet' as never,
+      }),
+    ).toThrow(/Correlation method/)
+  })
+
+  it.each([
+    ['greyscale', { colorType: 0 }],
+    ['interlaced greyscale', { colorType: 0, interlaced: true }],
+    ['interlaced 16-bit greyscale with alpha', { colorType: 4, bitDepth: 16, interlaced: true }],
+    ['RGB', { colorType: 2 }],
+    ['16-bit RGB', { colorType: 2, bitDepth: 16 }],
+    ['interlaced 16-bit RGB', { colorType: 2, bitDepth: 16, interlaced: true }],
+    ['interlaced RGBA', { colorType: 6, interlaced: true }],
+    ['interlaced 16-bit RGBA', { colorType: 6, bitDepth: 16, interlaced: true }],
+    ['palette with transparency', { colorType: 3 }],
+    ['interlaced palette with transparency', { colorType: 3, interlaced: true }],
+  ] as const)('decodes %s PNG screenshots', (_, encoding) => {
+    const results = decodeImage(encodePng(makeTranslucentPng(), encoding), [TARGET, DECOY], {
+      scales: [1],
+    })
+
+    expect(results[0]).toMatchObject({ path: TARGET.path, tileSize: 64 })
+  })
+
+  it('rejects interlaced PNG data that inflates past its declared size', () => {
+    const oversized = encodePng(PNG.sync.read(makePng(64)), { colorType: 6, interlaced: true })
+    // Shrink IHDR to 8×8 and patch its CRC; the image data is unchanged.
+    oversized.writeUInt32BE(8, 16)
+    oversized.writeUInt32BE(8, 20)
+    oversized.writeUInt32BE(crc32(oversized.subarray(12, 29)), 29)
+
+    expect(() => decodeImage(oversized, [TARGET], { scales: [1] }))
+      .toThrow(/Interlaced PNG data exceeds/)
+  })
+
+  it('decodes JPEG screenshots', () => {
+    const png = PNG.sync.read(makePng(64))
+    const jpeg = encodeJpeg({ data: png.data, width: png.width, height: png.height }, 90)
+
+    expect(decodeImage(jpeg.data, [TARGET, DECOY], { scales: [1] })[0]).toMatchObject({
+      path: TARGET.path,
+      tileSize: 64,
+    })
+    expect(
+      decodeImage(Buffer.from(TARGET_TILE_PROGRESSIVE_JPEG, 'base64'), [TARGET], {
+        scales: [1],
+      })[0].path,
+    ).toBe(TARGET.path)
+  })
+
+  it('decodes lossy WebP screenshots', () => {
+    const results = decodeImage(Buffer.from(TARGET_TILE_WEBP, 'base64'), [TARGET, DECOY], {
+      scales: [1],
+    })
+
+    expect(results[0]).toMatchObject({ path: TARGET.path, tileSize: 64 })
+    expect(results.some((result) => result.path === DECOY.path)).toBe(false)
   })
 
-  it('rejects interlaced PNG input before decompression', () => {
-    const interlacedHeader = Buffer.alloc(29)
-    interlacedHeader.write('IHDR', 12, 'ascii')
-    interlacedHeader.writeUInt32BE(1, 16)
-    interlacedHeader.writeUInt32BE(1, 20)
-    interlacedHeader[28] = 1
+  it('rejects unsupported image formats', () => {
+    expect(() => decodeImage(Buffer.from('GIF89a-not-a-screenshot'), [TARGET]))
+      .toThrow(TypeError)
+  })
+
+  it('hands a PNG with a damaged signature to the PNG decoder', () => {
+    const damaged = Buffer.from(makePng(64))
+    damaged[1] = 0
+
+    expect(() => decodeImage(damaged, [TARGET])).toThrow()
+    expect(() => decodeImage(damaged, [TARGET])).not.toThrow(/Unsupported image format/)
+  })
+
+  it('recovers a payload-carrier id without a codebook', () => {
+    const results = decodePayloadPng(makePayloadPng(TARGET, 32), { scales: [1] })
+
+    expect(results).toHaveLength(1)
+    expect(results[0]).toMatchObject({
+      componentId: createComponentId(TARGET),
+      tileSize: 32,
+    })
+    expect(results[0].component).toBeUndefined()
+    expect(results[0].count).toBeGreaterThan(1)
+  })
+
+  it('resolves payload ids against a registry when one is supplied', () => {
+    const results = decodePayloadPng(
+      makePayloadPng(TARGET, 64),
+      { patternSizes: [64], scales: [1] },
+      [DECOY, TARGET],
+    )
+
+    expect(results[0].component).toEqual(TARGET)
+    // A registry that pins a carrier version still resolves the version-free id.
+    const pinned = { ...TARGET, patternVersion: 2 as const }
+    expect(
+      decodePayloadPng(makePayloadPng(TARGET, 64), { patternSizes: [64], scales: [1] }, [pinned])[0]
+        .component,
+    ).toEqual(pinned)
+  })
+
+  it('finds no payload in a seeded-carrier screenshot', () => {
+    expect(decodePayloadPng(makePng(32), { patternSizes: [32], scales: [1] })).toEqual([])
+  })
+
+  it('repairs rounding damage in one-percent payload tiles with Reed–Solomon', () => {
+    const results: number[] = []
+    for (const background of [200, 213, 226, 239]) {
+      const png = new PNG({ width: 96, height: 96 })
+      const tile = generatePayloadPatternRgba(createComponentId(TARGET), 32, 0.08)
+      for (let y = 0; y < png.height; y += 1) {
+        for (let x = 0; x < png.width; x += 1) {
+          const offset = (y * png.width + x) * 4
+          const tileOffset = ((y % 32) * 32 + (x % 32)) * 4
+          const alpha = tile[tileOffset + 3] / 255
+          for (let channel = 0; channel < 3; channel += 1) {
+            png.data[offset + channel] = Math.round(
+              background * (1 - alpha) + tile[tileOffset + channel] * alpha,
+            )
+          }
+          png.data[offset + 3] = 255
+        }
+      }
+
+      const [result] = decodePayloadPng(PNG.sync.write(png), {
+        patternSizes: [32],
+        scales: [1],
+      })
+      expect(result.componentId).toBe(createComponentId(TARGET))
+      results.push(result.correctedSymbols)
+    }
 
-    expect(() => decodePng(interlacedHeader, [TARGET], { scales: [1] }))
-      .toThrow(/Interlaced PNG/)
+    expect(results.some((corrected) => corrected > 0)).toBe(true)
   })
 })
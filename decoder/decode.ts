@@ -1,80 +1,290 @@
 #!/usr/bin/env node
 
 import { Buffer } from 'node:buffer'
-import { existsSync, readFileSync, realpathSync, statSync } from 'node:fs'
+import { existsSync, readFileSync, realpathSync, statSync, writeFileSync } from 'node:fs'
 import { fileURLToPath } from 'node:url'
+import { crc32, inflateSync } from 'node:zlib'
 
+import { decode as decodeJpegData } from 'jpeg-js'
 import { PNG } from 'pngjs'
 
 import {
-  DEFAULT_INTENSITY,
   DEFAULT_PATTERN_SIZE,
-  HIERARCHY_SCORE_MARGIN,
-  comparePatterns,
-  createPatternPayload,
+  PATTERN_VERSIONS,
   generatePattern,
-  rankByHierarchy,
-  resolvePatternSize,
+  isPatternVersion,
+  type CarrierMode,
   type ComponentDescriptor,
-  type PatternMatrix,
+  type PatternVersion,
+  type PixelRegion,
 } from '../src/pattern.js'
+import { isScoringMode, type ScoringMode } from '../src/scoring.js'
+import { annotateMatches, type AnnotationTarget } from './annotate.js'
+import { expandImagePaths, notFoundError } from './inputs.js'
+import { hashRegistryContent, readManifestHeader, type RegistryInfo } from './manifest.js'
+import type { CarrierTransform } from './rectify.js'
+import {
+  DecodeBudgetError,
+  MAX_IMAGE_PIXELS,
+  assertComponents,
+  assertRaster,
+  buildRegistry,
+  createPixelDecoder,
+  decodePayloadPixels,
+  scanPixels,
+  type CorrelationMethod,
+  type DecodeOptions,
+  type DecodeRegistry,
+  type PayloadDecodeOptions,
+  type PayloadResult,
+  type RasterImage,
+  type RegistryEntry,
+  type ScanOptions,
+  type ScanResult,
+} from './scan.js'
+import { analyzeCarrierSpectrum, type CarrierSpectrum, type SpectrumOptions } from './spectrum.js'
+import { decodeWebp, isWebp } from './webp.js'
 
 const MAX_IMAGE_BYTES = 100 * 1024 * 1024
-const MAX_IMAGE_PIXELS = 25_000_000
-const MAX_REGISTRY_BYTES = 1024 * 1024
-const MAX_REGISTRY_ENTRIES = 512
-const MAX_SCALES = 4
-const MAX_PATTERN_SAMPLES = 4_000_000
-const MAX_CORRELATION_SAMPLES = 500_000_000
+const MAX_REGISTRY_BYTES = 32 * 1024 * 1024
 
-export interface RegistryEntry extends ComponentDescriptor {
-  pattern: PatternMatrix
+function assertImageBytes(imageBytes: Uint8Array, format: string): void {
+  if (imageBytes.byteLength > MAX_IMAGE_BYTES) {
+    throw new RangeError(`${format} exceeds the ${MAX_IMAGE_BYTES / 1024 / 1024} MB input limit`)
+  }
 }
 
-export interface ScanResult extends ComponentDescriptor {
-  score: number
-  count: number
-  tileSize: number
+/** Adam7 passes as [x offset, y offset, x step, y step]. */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+]
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+
+/** Filtered scanline bytes of an Adam7 image, including each row's filter byte. */
+function interlacedPngDataSize(width: number, height: number, bitsPerPixel: number): number {
+  let size = 0
+  for (const [x, y, stepX, stepY] of ADAM7_PASSES) {
+    const passWidth = Math.ceil(Math.max(0, width - x) / stepX)
+    const passHeight = Math.ceil(Math.max(0, height - y) / stepY)
+    if (passWidth > 0) size += passHeight * (1 + Math.ceil((passWidth * bitsPerPixel) / 8))
+  }
+  return size
 }
 
-export interface ScanOptions {
-  threshold?: number
-  step?: number
+/** Bit depths IHDR may declare for each colour type. */
+const PNG_DEPTHS: Record<number, readonly number[]> = {
+  0: [1, 2, 4, 8, 16],
+  2: [8, 16],
+  3: [1, 2, 4, 8],
+  4: [8, 16],
+  6: [8, 16],
 }
 
-export interface DecodeOptions extends ScanOptions {
-  patternSize?: number
-  intensity?: number
-  scales?: number[]
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+interface PngHeader {
+  width: number
+  height: number
+  depth: number
+  colorType: number
 }
 
-function assertRaster(
-  data: Uint8Array,
-  width: number,
-  height: number,
+/** The chunks an Adam7 image is drawn from; ancillary chunks are skipped. */
+interface PngChunks {
+  header: PngHeader
+  /** RGBA entries, with the alpha tRNS gives them. */
+  palette: number[][]
+  /** tRNS samples that mark a greyscale or RGB pixel transparent. */
+  transparent?: number[]
+  idat: Buffer[]
+}
+
+function readPngChunks(pngData: Buffer): PngChunks {
+  if (PNG_SIGNATURE.some((byte, index) => pngData[index] !== byte)) {
+    throw new Error('Invalid file signature')
+  }
+  let header: PngHeader | undefined
+  let transparent: number[] | undefined
+  const palette: number[][] = []
+  const idat: Buffer[] = []
+  for (let offset = 8; ; ) {
+    if (offset + 12 > pngData.length) throw new Error('Unexpected end of PNG data')
+    const length = pngData.readUInt32BE(offset)
+    const end = offset + 8 + length
+    if (end + 4 > pngData.length) throw new Error('Unexpected end of PNG data')
+    const type = pngData.toString('latin1', offset + 4, offset + 8)
+    const critical = (pngData[offset + 4] & 0x20) === 0
+    const data = pngData.subarray(offset + 8, end)
+    if (crc32(pngData.subarray(offset + 4, end)) !== pngData.readUInt32BE(end)) {
+      throw new Error('Crc error')
+    }
+    offset = end + 4
+
+    if (type === 'IHDR') {
+      header = {
+        width: data.readUInt32BE(0),
+        height: data.readUInt32BE(4),
+        depth: data[8],
+        colorType: data[9],
+      }
+      if (
+        length !== 13 ||
+        header.width === 0 ||
+        header.height === 0 ||
+        !PNG_DEPTHS[header.colorType]?.includes(header.depth) ||
+        data[10] !== 0 ||
+        data[11] !== 0 ||
+        data[12] !== 1
+      ) {
+        throw new Error('Unsupported IHDR')
+      }
+    } else if (!header) {
+      throw new Error('Expected IHDR on beginning')
+    } else if (type === 'IEND') {
+      break
+    } else if (type === 'PLTE') {
+      for (let index = 0; index + 3 <= length; index += 3) {
+        palette.push([data[index], data[index + 1], data[index + 2], 0xff])
+      }
+    } else if (type === 'tRNS') {
+      if (header.colorType === 3) {
+        if (length > palette.length) throw new Error('More transparent colors than palette size')
+        for (const [index, alpha] of data.entries()) palette[index][3] = alpha
+      } else if (header.colorType === 0 && length >= 2) {
+        transparent = [data.readUInt16BE(0)]
+      } else if (header.colorType === 2 && length >= 6) {
+        transparent = [data.readUInt16BE(0), data.readUInt16BE(2), data.readUInt16BE(4)]
+      }
+    } else if (type === 'IDAT') {
+      idat.push(data)
+    } else if (critical) {
+      throw new Error('Unsupported critical chunk type')
+    }
+  }
+  if (!header) throw new Error('Expected IHDR on beginning')
+  if (header.colorType === 3 && palette.length === 0) throw new Error('Expected palette not found')
+  return { header, palette, transparent, idat }
+}
+
+/** Reverse one scanline's PNG filter in place; `stride` is the bytes per whole pixel. */
+function unfilterPngRow(
+  filter: number,
+  row: Uint8Array,
+  previous: Uint8Array,
+  stride: number,
 ): void {
-  if (!Number.isSafeInteger(width) || !Number.isSafeInteger(height) || width <= 0 || height <= 0) {
-    throw new RangeError('Image dimensions must be positive safe integers')
+  if (filter > 4) throw new Error(`Unrecognised filter type - ${filter}`)
+  if (filter === 0) return
+  for (let index = 0; index < row.length; index += 1) {
+    const left = index >= stride ? row[index - stride] : 0
+    const up = previous[index]
+    if (filter === 1) row[index] += left
+    else if (filter === 2) row[index] += up
+    else if (filter === 3) row[index] += (left + up) >> 1
+    else {
+      const upLeft = index >= stride ? previous[index - stride] : 0
+      const estimate = left + up - upLeft
+      const toLeft = Math.abs(estimate - left)
+      const toUp = Math.abs(estimate - up)
+      const toUpLeft = Math.abs(estimate - upLeft)
+      row[index] += toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft
+    }
   }
+}
 
-  const pixelCount = width * height
-  if (pixelCount > MAX_IMAGE_PIXELS) {
-    throw new RangeError(`Image exceeds the ${MAX_IMAGE_PIXELS.toLocaleString()} pixel limit`)
+/**
+ * `PNG.sync.read` for Adam7 images. pngjs inflates interlaced image data
+ * without an output limit, so this inflates it with the size IHDR implies
+ * as the limit, then unfilters each pass and spreads its pixels over the
+ * image as 8-bit RGBA, the way pngjs would.
+ */
+function readInterlacedPng(pngData: Buffer): RasterImage {
+  const { header, palette, transparent, idat } = readPngChunks(pngData)
+  const { width, height, depth, colorType } = header
+  const channels = PNG_CHANNELS[colorType]
+  const bitsPerPixel = channels * depth
+  let inflated: Buffer
+  try {
+    inflated = inflateSync(Buffer.concat(idat), {
+      maxOutputLength: interlacedPngDataSize(width, height, bitsPerPixel),
+    })
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new RangeError('Interlaced PNG data exceeds its declared dimensions')
+    }
+    throw error
   }
-  if (data.length < pixelCount * 4) {
-    throw new RangeError('Pixel buffer is smaller than the declared image dimensions')
+  if (!inflated.length) throw new Error('bad png - invalid inflate data response')
+
+  const maxSample = 2 ** depth - 1
+  const sample = (row: Uint8Array, index: number): number => {
+    if (depth === 16) return (row[index * 2] << 8) | row[index * 2 + 1]
+    if (depth === 8) return row[index]
+    const bit = index * depth
+    return (row[bit >> 3] >> (8 - depth - (bit & 7))) & maxSample
   }
+  const stride = Math.max(1, bitsPerPixel >> 3)
+  const data = new Uint8Array(width * height * 4)
+  const pixel = [0, 0, 0, 0]
+  let position = 0
+  for (const [startX, startY, stepX, stepY] of ADAM7_PASSES) {
+    const passWidth = Math.ceil(Math.max(0, width - startX) / stepX)
+    const passHeight = Math.ceil(Math.max(0, height - startY) / stepY)
+    if (passWidth === 0 || passHeight === 0) continue
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8)
+    let previous: Uint8Array = new Uint8Array(rowBytes)
+    for (let passY = 0; passY < passHeight; passY += 1) {
+      if (position + 1 + rowBytes > inflated.length) throw new Error('Ran out of data')
+      const row = inflated.subarray(position + 1, position + 1 + rowBytes)
+      unfilterPngRow(inflated[position], row, previous, stride)
+      previous = row
+      position += 1 + rowBytes
+
+      const y = startY + passY * stepY
+      for (let passX = 0; passX < passWidth; passX += 1) {
+        const first = passX * channels
+        if (colorType === 3) {
+          const color = palette[sample(row, first)]
+          if (!color) throw new Error(`index ${sample(row, first)} not in palette`)
+          pixel.splice(0, 4, ...color)
+        } else {
+          const grey = sample(row, first)
+          const alpha = channels % 2 === 0 ? sample(row, first + channels - 1) : maxSample
+          pixel.splice(
+            0,
+            4,
+            ...(channels >= 3
+              ? [grey, sample(row, first + 1), sample(row, first + 2), alpha]
+              : [grey, grey, grey, alpha]),
+          )
+          const transparentPixel = transparent?.every((value, index) => value === pixel[index])
+          for (let channel = 0; channel < 4; channel += 1) {
+            pixel[channel] = transparentPixel
+              ? 0
+              : Math.floor((pixel[channel] * 255) / maxSample + 0.5)
+          }
+        }
+        data.set(pixel, (y * width + startX + passX * stepX) * 4)
+      }
+    }
+  }
+  return { data, width, height }
 }
 
-function readPng(pngBytes: Uint8Array): PNG {
+function readPng(pngBytes: Uint8Array): RasterImage {
   const pngData = Buffer.from(
     pngBytes.buffer,
     pngBytes.byteOffset,
     pngBytes.byteLength,
   )
-  if (pngData.length > MAX_IMAGE_BYTES) {
-    throw new RangeError(`PNG exceeds the ${MAX_IMAGE_BYTES / 1024 / 1024} MB input limit`)
-  }
+  assertImageBytes(pngData, 'PNG')
 
   if (pngData.length >= 24 && pngData.subarray(12, 16).toString('ascii') === 'IHDR') {
     const width = pngData.readUInt32BE(16)
@@ -82,237 +292,101 @@ function readPng(pngBytes: Uint8Array): PNG {
     if (width * height > MAX_IMAGE_PIXELS) {
       throw new RangeError(`PNG exceeds the ${MAX_IMAGE_PIXELS.toLocaleString()} pixel limit`)
     }
-    if (pngData.length >= 29 && pngData[28] !== 0) {
-      throw new RangeError('Interlaced PNG input is not supported')
-    }
   }
 
-  const png = PNG.sync.read(pngData)
+  const interlaced = pngData.length >= 29 && pngData[28] !== 0
+  let png: RasterImage
+  try {
+    png = interlaced ? readInterlacedPng(pngData) : PNG.sync.read(pngData)
+  } catch (error) {
+    if (error instanceof RangeError) throw error
+    throw new RangeError(
+      `Invalid PNG data: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
   assertRaster(png.data, png.width, png.height)
   return png
 }
 
-function assertComponents(components: ComponentDescriptor[]): void {
-  if (components.length > MAX_REGISTRY_ENTRIES) {
-    throw new RangeError(`Registry exceeds the ${MAX_REGISTRY_ENTRIES} component limit`)
-  }
+/** A PNG signature, or an IHDR chunk where the first chunk must be. */
+function isPng(imageBytes: Uint8Array): boolean {
+  return (
+    (imageBytes.length >= 8 &&
+      imageBytes[0] === 0x89 &&
+      imageBytes[1] === 0x50 &&
+      imageBytes[2] === 0x4e &&
+      imageBytes[3] === 0x47) ||
+    (imageBytes.length >= 16 &&
+      String.fromCharCode(...imageBytes.subarray(12, 16)) === 'IHDR')
+  )
+}
 
-  const paths = new Set<string>()
-  for (const [index, component] of components.entries()) {
-    if (
-      typeof component.path !== 'string' ||
-      component.path.length === 0 ||
-      component.path.length > 512 ||
-      typeof component.type !== 'string' ||
-      component.type.length === 0 ||
-      component.type.length > 64 ||
-      !Number.isInteger(component.depth) ||
-      component.depth < 1 ||
-      component.depth > 255 ||
-      (component.source !== undefined &&
-        (typeof component.source !== 'object' ||
-          component.source === null ||
-          typeof component.source.file !== 'string' ||
-          component.source.file.length === 0 ||
-          component.source.file.length > 1024 ||
-          !Number.isInteger(component.source.line) ||
-          component.source.line < 1 ||
-          !Number.isInteger(component.source.column) ||
-          component.source.column < 1)) ||
-      (component.patternSize !== undefined &&
-        (!Number.isFinite(component.patternSize) ||
-          component.patternSize < 16 ||
-          component.patternSize > 256))
-    ) {
-      throw new TypeError(`Invalid component descriptor at registry index ${index}`)
-    }
-    if (paths.has(component.path)) {
-      throw new TypeError(`Duplicate component path: ${component.path}`)
+function isJpeg(imageBytes: Uint8Array): boolean {
+  return (
+    imageBytes.length >= 3 &&
+    imageBytes[0] === 0xff &&
+    imageBytes[1] === 0xd8 &&
+    imageBytes[2] === 0xff
+  )
+}
+
+/** Find the frame size in the first SOFn segment without decoding scans. */
+function readJpegSize(jpegBytes: Uint8Array): { width: number; height: number } | undefined {
+  let offset = 2
+  while (offset + 9 <= jpegBytes.length) {
+    if (jpegBytes[offset] !== 0xff) return undefined
+    const marker = jpegBytes[offset + 1]
+    if (marker === 0xff) {
+      offset += 1
+      continue
     }
-    paths.add(component.path)
-  }
-}
-
-function extractTiles(
-  data: Uint8Array,
-  width: number,
-  height: number,
-  startX: number,
-  startY: number,
-  tileSize: number,
-): { luma: PatternMatrix; chroma: PatternMatrix } {
-  const luma: PatternMatrix = []
-  const chroma: PatternMatrix = []
-
-  for (let y = 0; y < tileSize; y += 1) {
-    const lumaRow: number[] = []
-    const chromaRow: number[] = []
-    for (let x = 0; x < tileSize; x += 1) {
-      const pixelX = startX + x
-      const pixelY = startY + y
-
-      if (pixelX >= width || pixelY >= height) {
-        lumaRow.push(0)
-        chromaRow.push(0)
-        continue
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (jpegBytes[offset + 5] << 8) | jpegBytes[offset + 6],
+        width: (jpegBytes[offset + 7] << 8) | jpegBytes[offset + 8],
       }
-
-      const offset = (pixelY * width + pixelX) * 4
-      const red = data[offset]
-      const green = data[offset + 1]
-      const blue = data[offset + 2]
-      lumaRow.push((red + green + blue) / 3)
-      chromaRow.push(red - (green + blue) / 2)
     }
-    luma.push(lumaRow)
-    chroma.push(chromaRow)
+    offset += 2 + ((jpegBytes[offset + 2] << 8) | jpegBytes[offset + 3])
   }
-
-  return { luma, chroma }
-}
-
-export function buildRegistry(
-  components: ComponentDescriptor[],
-  patternSize = DEFAULT_PATTERN_SIZE,
-  intensity = DEFAULT_INTENSITY,
-): RegistryEntry[] {
-  assertComponents(components)
-  const sizes = components.map((component) =>
-    Math.min(512, Math.max(16, resolvePatternSize(component, patternSize))),
-  )
-  const sampleCount = sizes.reduce((total, size) => total + size * size, 0)
-  if (sampleCount > MAX_PATTERN_SAMPLES) {
-    throw new RangeError('Registry patterns exceed the decoder memory budget')
-  }
-  return components.map((component, index) => ({
-    ...component,
-    pattern: generatePattern(
-      createPatternPayload(component),
-      sizes[index],
-      intensity,
-    ),
-  }))
+  return undefined
 }
 
-function groupRegistryByTileSize(
-  registry: RegistryEntry[],
-): Map<number, RegistryEntry[]> {
-  const groups = new Map<number, RegistryEntry[]>()
-  for (const entry of registry) {
-    const tileSize = entry.pattern.length
-    const batch = groups.get(tileSize)
-    if (batch) batch.push(entry)
-    else groups.set(tileSize, [entry])
+function readJpeg(jpegBytes: Uint8Array): RasterImage {
+  assertImageBytes(jpegBytes, 'JPEG')
+  const size = readJpegSize(jpegBytes)
+  if (size && size.width * size.height > MAX_IMAGE_PIXELS) {
+    throw new RangeError(`JPEG exceeds the ${MAX_IMAGE_PIXELS.toLocaleString()} pixel limit`)
   }
-  return groups
-}
 
-function scanUniformTileSize(
-  data: Uint8Array,
-  width: number,
-  height: number,
-  registry: RegistryEntry[],
-  options: ScanOptions,
-): ScanResult[] {
-  const tileSize = registry[0]?.pattern.length ?? 0
-  if (tileSize === 0 || tileSize > 512 || width < tileSize || height < tileSize) {
-    return []
-  }
-
-  const requestedThreshold = options.threshold ?? 0.7
-  if (!Number.isFinite(requestedThreshold)) {
-    throw new RangeError('Scan threshold must be a finite number')
-  }
-  const threshold = Math.min(1, Math.max(-1, requestedThreshold))
-  const requestedStep = options.step ?? tileSize / 2
-  if (!Number.isFinite(requestedStep) || requestedStep <= 0) {
-    throw new RangeError('Scan step must be a positive finite number')
-  }
-  const step = Math.max(1, Math.round(requestedStep))
-  const horizontalPositions = Math.floor((width - tileSize) / step) + 1
-  const verticalPositions = Math.floor((height - tileSize) / step) + 1
-  const correlationSamples =
-    horizontalPositions *
-    verticalPositions *
-    registry.length *
-    tileSize *
-    tileSize
-  if (correlationSamples > MAX_CORRELATION_SAMPLES) {
+  let jpeg: RasterImage
+  try {
+    jpeg = decodeJpegData(jpegBytes, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_IMAGE_PIXELS / 1_000_000,
+    })
+  } catch (error) {
     throw new RangeError(
-      'Scan exceeds the decoder computation budget; increase step or narrow the registry',
+      `Invalid JPEG data: ${error instanceof Error ? error.message : String(error)}`,
     )
   }
-  const matches = new Map<string, ScanResult>()
-
-  for (let y = 0; y <= height - tileSize; y += step) {
-    for (let x = 0; x <= width - tileSize; x += step) {
-      const tiles = extractTiles(data, width, height, x, y, tileSize)
-
-      for (const entry of registry) {
-        if (entry.pattern.length !== tileSize) {
-          throw new TypeError('scanUniformTileSize requires a single tile size')
-        }
-        const score = Math.max(
-          comparePatterns(tiles.luma, entry.pattern),
-          comparePatterns(tiles.chroma, entry.pattern),
-        )
-        if (score < threshold) continue
-
-        const existing = matches.get(entry.path)
-        if (existing) {
-          existing.count += 1
-          existing.score = Math.max(existing.score, score)
-        } else {
-          matches.set(entry.path, {
-            path: entry.path,
-            type: entry.type,
-            depth: entry.depth,
-            source: entry.source,
-            score,
-            count: 1,
-            tileSize,
-          })
-        }
-      }
-    }
-  }
-
-  return [...matches.values()]
+  assertRaster(jpeg.data, jpeg.width, jpeg.height)
+  return jpeg
 }
 
-export function scanPixels(
-  data: Uint8Array,
-  width: number,
-  height: number,
-  registry: RegistryEntry[],
-  options: ScanOptions = {},
-): ScanResult[] {
-  if (registry.length === 0 || width <= 0 || height <= 0) return []
-  assertRaster(data, width, height)
-  if (registry.length > MAX_REGISTRY_ENTRIES) {
-    throw new RangeError(`Registry exceeds the ${MAX_REGISTRY_ENTRIES} component limit`)
-  }
-
-  const threshold = options.threshold ?? 0.7
-  const matches = new Map<string, ScanResult>()
-
-  for (const batch of groupRegistryByTileSize(registry).values()) {
-    for (const result of scanUniformTileSize(data, width, height, batch, options)) {
-      const existing = matches.get(result.path)
-      if (
-        !existing ||
-        result.score > existing.score ||
-        (result.score === existing.score && result.count > existing.count)
-      ) {
-        matches.set(result.path, result)
-      }
-    }
-  }
+function readWebp(webpBytes: Uint8Array): RasterImage {
+  assertImageBytes(webpBytes, 'WebP')
+  const webp = decodeWebp(webpBytes, MAX_IMAGE_PIXELS)
+  assertRaster(webp.data, webp.width, webp.height)
+  return webp
+}
 
-  return rankByHierarchy([...matches.values()], {
-    threshold,
-    margin: HIERARCHY_SCORE_MARGIN,
-  })
+/** Sniff the container signature and decode PNG, JPEG, or WebP to RGBA. */
+function readImage(imageBytes: Uint8Array): RasterImage {
+  if (isPng(imageBytes)) return readPng(imageBytes)
+  if (isJpeg(imageBytes)) return readJpeg(imageBytes)
+  if (isWebp(imageBytes)) return readWebp(imageBytes)
+  throw new TypeError('Unsupported image format; expected PNG, JPEG, or WebP')
 }
 
 export function scanPng(
@@ -341,115 +415,99 @@ export function scan(
 }
 
 export { generatePattern }
+// The browser-safe core, which this module extends with codecs and files.
+export * from './core.js'
+export type { AnnotationTarget } from './annotate.js'
+export {
+  REGISTRY_SCHEMA_VERSION,
+  createRegistryManifest,
+  hashRegistryContent,
+} from './manifest.js'
+export type {
+  RegistryBuildInfo,
+  RegistryDefaults,
+  RegistryInfo,
+  RegistryManifest,
+} from './manifest.js'
+
+/** Seeded-carrier decoder bound to one codebook; see `createImageDecoder`. */
+export interface ImageDecoder {
+  decode(imageData: Uint8Array): ScanResult[]
+}
 
-export function decodePng(
-  pngData: Uint8Array,
-  components: ComponentDescriptor[],
+/**
+ * `createPixelDecoder` for encoded screenshots: each PNG, JPEG, or WebP is
+ * decoded to RGBA first, its format detected from the file signature.
+ */
+export function createImageDecoder(
+  registry: DecodeRegistry,
   options: DecodeOptions = {},
-): ScanResult[] {
-  const baseSize = options.patternSize ?? DEFAULT_PATTERN_SIZE
-  const intensity = options.intensity ?? DEFAULT_INTENSITY
-  const scales = options.scales?.length ? options.scales : [1, 2]
-  const merged = new Map<string, ScanResult>()
-
-  assertComponents(components)
-  if (scales.length > MAX_SCALES) {
-    throw new RangeError(`At most ${MAX_SCALES} screenshot scales can be checked at once`)
-  }
-
-  const png = readPng(pngData)
-
-  let totalCorrelationSamples = 0
-  for (const scale of scales) {
-    if (!Number.isFinite(scale) || scale < 0.25 || scale > 2) {
-      throw new RangeError('Screenshot scales must be between 0.25 and 2')
-    }
-    for (const component of components) {
-      const componentBase = resolvePatternSize(component, baseSize)
-      const tileSize = Math.round(componentBase * scale)
-      if (tileSize < 16 || tileSize > 512 || png.width < tileSize || png.height < tileSize) {
-        continue
-      }
-      const requestedStep = options.step ? options.step * scale : tileSize / 2
-      if (!Number.isFinite(requestedStep) || requestedStep <= 0) {
-        throw new RangeError('Scan step must be a positive finite number')
-      }
-      const step = Math.max(1, Math.round(requestedStep))
-      const horizontalPositions = Math.floor((png.width - tileSize) / step) + 1
-      const verticalPositions = Math.floor((png.height - tileSize) / step) + 1
-      totalCorrelationSamples +=
-        horizontalPositions * verticalPositions * tileSize * tileSize
-    }
-  }
-  if (totalCorrelationSamples > MAX_CORRELATION_SAMPLES) {
-    throw new RangeError(
-      'Scan exceeds the decoder computation budget; increase step, reduce scales, or narrow the registry',
-    )
+): ImageDecoder {
+  const decoder = createPixelDecoder(registry, options)
+  return {
+    decode(imageData) {
+      const image = readImage(imageData)
+      return decoder.decode(image.data, image.width, image.height)
+    },
   }
+}
 
-  for (const scale of scales) {
-    // Group by effective 1× size so mixed hierarchy tiles stay uniform per batch.
-    const byBaseSize = new Map<number, ComponentDescriptor[]>()
-    for (const component of components) {
-      const componentBase = resolvePatternSize(component, baseSize)
-      const batch = byBaseSize.get(componentBase)
-      if (batch) batch.push(component)
-      else byBaseSize.set(componentBase, [component])
-    }
+/**
+ * Decode seeded-carrier tags from a PNG, JPEG, or WebP screenshot; the format
+ * is detected from the file signature.
+ */
+export function decodeImage(
+  imageData: Uint8Array,
+  registry: DecodeRegistry,
+  options: DecodeOptions = {},
+): ScanResult[] {
+  return createImageDecoder(registry, options).decode(imageData)
+}
 
-    for (const [componentBase, batchComponents] of byBaseSize) {
-      const tileSize = Math.round(componentBase * scale)
-      if (tileSize < 16 || tileSize > 512 || png.width < tileSize || png.height < tileSize) {
-        continue
-      }
-      const batchSize = Math.max(
-        1,
-        Math.floor(MAX_PATTERN_SAMPLES / (tileSize * tileSize)),
-      )
+/** PNG-named alias of `decodeImage`, kept for existing callers. */
+export function decodePng(
+  pngData: Uint8Array,
+  registry: DecodeRegistry,
+  options: DecodeOptions = {},
+): ScanResult[] {
+  return decodeImage(pngData, registry, options)
+}
 
-      for (let start = 0; start < batchComponents.length; start += batchSize) {
-        // Force this scale's tile size for the batch (overrides per-entry 1× size).
-        const registry = buildRegistry(
-          batchComponents.slice(start, start + batchSize).map((component) => ({
-            ...component,
-            patternSize: tileSize,
-          })),
-          tileSize,
-          intensity,
-        )
-        const results = scanPixels(png.data, png.width, png.height, registry, {
-          threshold: options.threshold,
-          step: options.step ? Math.round(options.step * scale) : undefined,
-        })
+/** Decode payload-carrier tags from a PNG, JPEG, or WebP screenshot; see `decodePayloadPixels`. */
+export function decodePayloadImage(
+  imageData: Uint8Array,
+  options: PayloadDecodeOptions = {},
+  registry: DecodeRegistry = [],
+): PayloadResult[] {
+  const image = readImage(imageData)
+  return decodePayloadPixels(image.data, image.width, image.height, options, registry)
+}
 
-        for (const result of results) {
-          const existing = merged.get(result.path)
-          if (
-            !existing ||
-            result.score > existing.score ||
-            (result.score === existing.score && result.count > existing.count) ||
-            (result.score === existing.score &&
-              result.count === existing.count &&
-              result.tileSize < existing.tileSize)
-          ) {
-            merged.set(result.path, result)
-          }
-        }
-      }
-    }
-  }
+/** PNG-named alias of `decodePayloadImage`, kept for existing callers. */
+export function decodePayloadPng(
+  pngData: Uint8Array,
+  options: PayloadDecodeOptions = {},
+  registry: DecodeRegistry = [],
+): PayloadResult[] {
+  return decodePayloadImage(pngData, options, registry)
+}
 
-  return rankByHierarchy([...merged.values()], {
-    threshold: options.threshold ?? 0.7,
-    margin: HIERARCHY_SCORE_MARGIN,
-  })
+/** A codebook as read from a registry file. */
+export interface Registry {
+  components: ComponentDescriptor[]
+  /** Build details from a manifest; `null` for arrays and plain `{ components }` objects. */
+  manifest: RegistryInfo | null
+  /** Rendering defaults the registry declares, used when the caller passes none. */
+  intensity?: number
+  patternSize?: number
 }
 
-function readComponents(registryPath: string): ComponentDescriptor[] {
-  if (statSync(registryPath).size > MAX_REGISTRY_BYTES) {
-    throw new RangeError(`Registry exceeds the ${MAX_REGISTRY_BYTES / 1024} KB input limit`)
-  }
-  const parsed: unknown = JSON.parse(readFileSync(registryPath, 'utf8'))
+/**
+ * Validate parsed registry JSON: a bare descriptor array, an object with a
+ * `components` array, or a manifest that adds `schemaVersion`, build metadata,
+ * and a `contentHash` that must match the components it lists.
+ */
+export function parseRegistry(parsed: unknown): Registry {
   const components = Array.isArray(parsed)
     ? parsed
     : typeof parsed === 'object' && parsed !== null && 'components' in parsed
@@ -457,7 +515,16 @@ function readComponents(registryPath: string): ComponentDescriptor[] {
       : null
 
   if (!Array.isArray(components)) {
-    throw new Error('Registry must be an array or an object with a components array')
+    throw new TypeError('Registry must be an array or an object with a components array')
+  }
+
+  // Object-form registries may pin every component to one carrier revision.
+  const defaultVersionValue =
+    !Array.isArray(parsed) && 'patternVersion' in (parsed as object)
+      ? (parsed as { patternVersion: unknown }).patternVersion
+      : undefined
+  if (defaultVersionValue !== undefined && !isPatternVersion(defaultVersionValue)) {
+    throw new TypeError('Invalid registry patternVersion')
   }
 
   const descriptors = components.map((component, index) => {
@@ -471,7 +538,7 @@ function readComponents(registryPath: string): ComponentDescriptor[] {
       typeof component.type !== 'string' ||
       typeof component.depth !== 'number'
     ) {
-      throw new Error(`Invalid component at registry index ${index}`)
+      throw new TypeError(`Invalid component at registry index ${index}`)
     }
 
     const sourceValue = 'source' in component ? component.source : undefined
@@ -493,7 +560,7 @@ function readComponents(registryPath: string): ComponentDescriptor[] {
         : null
 
     if (source === null) {
-      throw new Error(`Invalid source mapping at registry index ${index}`)
+      throw new TypeError(`Invalid source mapping at registry index ${index}`)
     }
 
     const patternSizeValue =
@@ -507,7 +574,13 @@ function readComponents(registryPath: string): ComponentDescriptor[] {
           : null
 
     if (patternSize === null) {
-      throw new Error(`Invalid patternSize at registry index ${index}`)
+      throw new TypeError(`Invalid patternSize at registry index ${index}`)
+    }
+
+    const patternVersionValue =
+      'patternVersion' in component ? component.patternVersion : defaultVersionValue
+    if (patternVersionValue !== undefined && !isPatternVersion(patternVersionValue)) {
+      throw new TypeError(`Invalid patternVersion at registry index ${index}`)
     }
 
     return {
@@ -516,20 +589,80 @@ function readComponents(registryPath: string): ComponentDescriptor[] {
       depth: component.depth,
       source,
       patternSize,
+      patternVersion: patternVersionValue,
     }
   })
 
   assertComponents(descriptors)
-  return descriptors
+  if (Array.isArray(parsed)) return { components: descriptors, manifest: null }
+
+  const { info, defaults } = readManifestHeader(parsed as object)
+  if (info && hashRegistryContent(descriptors, defaults) !== info.contentHash) {
+    throw new TypeError(
+      'Registry contentHash does not match its components; regenerate the manifest',
+    )
+  }
+  return { components: descriptors, manifest: info, ...defaults }
+}
+
+/** Read and validate a registry file; see `parseRegistry`. */
+export function readRegistry(registryPath: string): Registry {
+  if (statSync(registryPath).size > MAX_REGISTRY_BYTES) {
+    throw new RangeError(`Registry exceeds the ${MAX_REGISTRY_BYTES / 1024 / 1024} MB input limit`)
+  }
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(readFileSync(registryPath, 'utf8'))
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error
+    throw new TypeError(`Registry is not valid JSON: ${error.message}`)
+  }
+  return parseRegistry(parsed)
+}
+
+/** Read a screenshot and estimate its carrier; see `analyzeCarrierSpectrum`. */
+export function analyzeImageSpectrum(
+  imageData: Uint8Array,
+  options: SpectrumOptions = {},
+): CarrierSpectrum {
+  const image = readImage(imageData)
+  return analyzeCarrierSpectrum(image.data, image.width, image.height, options)
+}
+
+/**
+ * Re-encode a screenshot as PNG with a labelled box drawn around each
+ * result's region, ready to attach to a bug report. Pass the RGBA raster a
+ * decode already read to skip decoding the file again.
+ */
+export function annotateImage(
+  imageData: Uint8Array | RasterImage,
+  results: readonly AnnotationTarget[],
+): Uint8Array {
+  const image = imageData instanceof Uint8Array ? readImage(imageData) : imageData
+  const png = new PNG({ width: image.width, height: image.height })
+  png.data = Buffer.from(annotateMatches(image.data, image.width, image.height, results))
+  return new Uint8Array(PNG.sync.write(png))
 }
 
+type OutputFormat = 'text' | 'json' | 'ndjson'
+
 interface CliOptions {
-  imagePath: string
-  registryPath: string
+  /** Image files, directories, and glob patterns, in command-line order. */
+  inputs: string[]
+  annotatePath?: string
+  format: OutputFormat
+  /** One codebook per `--registry`; several are decoded as releases. */
+  registryPaths: string[]
+  carrier: CarrierMode
   threshold?: number
   patternSize?: number
   intensity?: number
-  scales?: number[]
+  scales: number[] | 'auto'
+  step?: number
+  correlation?: CorrelationMethod
+  scoring?: ScoringMode
+  patternVersions?: PatternVersion[]
+  rectify: boolean
 }
 
 function readFlag(args: string[], flag: string): string | undefined {
@@ -537,10 +670,14 @@ function readFlag(args: string[], flag: string): string | undefined {
   return index >= 0 ? args[index + 1] : undefined
 }
 
+function readFlags(args: string[], flag: string): string[] {
+  return args.flatMap((argument, index) => (argument === flag ? [args[index + 1]] : []))
+}
+
 function parseNumber(value: string | undefined, flag: string): number | undefined {
   if (value === undefined) return undefined
   const parsed = Number(value)
-  if (!Number.isFinite(parsed)) throw new Error(`${flag} must be a finite number`)
+  if (!Number.isFinite(parsed)) throw new TypeError(`${flag} must be a finite number`)
   return parsed
 }
 
@@ -551,7 +688,15 @@ function parseCli(args: string[]): CliOptions {
     '--pattern-size',
     '--intensity',
     '--scale',
+    '--step',
+    '--correlation',
+    '--scoring',
+    '--carrier',
+    '--pattern-version',
+    '--annotate',
+    '--format',
   ])
+  const switches = new Set(['--rectify'])
   const positional: string[] = []
 
   for (let index = 0; index < args.length; index += 1) {
@@ -560,66 +705,533 @@ function parseCli(args: string[]): CliOptions {
       positional.push(argument)
       continue
     }
-    if (!valueFlags.has(argument)) throw new Error(`Unknown option: ${argument}`)
+    if (switches.has(argument)) continue
+    if (!valueFlags.has(argument)) throw new TypeError(`Unknown option: ${argument}`)
     const value = args[index + 1]
-    if (!value || value.startsWith('--')) throw new Error(`Missing value for ${argument}`)
+    if (!value || value.startsWith('--')) throw new TypeError(`Missing value for ${argument}`)
     index += 1
   }
 
-  const imagePath = positional.length === 1 ? positional[0] : undefined
-  const registryPath = readFlag(args, '--registry')
+  const registryPaths = readFlags(args, '--registry')
+  const carrier = readFlag(args, '--carrier') ?? 'seeded'
+  if (carrier !== 'seeded' && carrier !== 'payload') {
+    throw new TypeError('--carrier must be seeded or payload')
+  }
+  const format = readFlag(args, '--format') ?? 'text'
+  if (format !== 'text' && format !== 'json' && format !== 'ndjson') {
+    throw new TypeError('--format must be text, json, or ndjson')
+  }
+  const annotatePath = readFlag(args, '--annotate')
+  if (annotatePath !== undefined && carrier === 'payload') {
+    throw new TypeError('--annotate is only supported with the seeded carrier')
+  }
+  const rectify = args.includes('--rectify')
+  if (rectify && carrier === 'payload') {
+    throw new TypeError('--rectify is only supported with the seeded carrier')
+  }
 
-  if (!imagePath || !registryPath) {
-    throw new Error(
-      'Usage: pixelprovenance-decode <image.png> --registry <components.json> [--threshold 0.7] [--pattern-size 64] [--intensity 0.12] [--scale auto|1|2]',
+  if (positional.length === 0 || (registryPaths.length === 0 && carrier === 'seeded')) {
+    throw new TypeError(
+      'Usage: pixelprovenance-decode <image.png|jpg|webp|directory|glob>... --registry <components.json>... [--threshold 0.7] [--pattern-size 64] [--intensity 0.12] [--scale auto|<scale>[,<scale>...]] [--step 32] [--correlation auto|direct|fft] [--scoring plain|robust] [--carrier seeded|payload] [--pattern-version 1,2] [--rectify] [--annotate <out.png>] [--format text|json|ndjson]',
     )
   }
 
   const scaleValue = readFlag(args, '--scale')
   const scales = !scaleValue || scaleValue === 'auto'
-    ? [1, 2]
-    : [parseNumber(scaleValue, '--scale') as number]
+    ? 'auto'
+    : scaleValue.split(',').map((value) => parseNumber(value, '--scale') as number)
+  const correlation = readFlag(args, '--correlation')
+  if (
+    correlation !== undefined &&
+    correlation !== 'auto' &&
+    correlation !== 'direct' &&
+    correlation !== 'fft'
+  ) {
+    throw new TypeError('--correlation must be auto, direct, or fft')
+  }
+  const scoring = readFlag(args, '--scoring')
+  if (scoring !== undefined && !isScoringMode(scoring)) {
+    throw new TypeError('--scoring must be plain or robust')
+  }
+  const versionValue = readFlag(args, '--pattern-version')
+  const patternVersions = versionValue?.split(',').map((value) => {
+    const version = Number(value)
+    if (!isPatternVersion(version)) {
+      throw new TypeError(
+        `--pattern-version must list versions from ${PATTERN_VERSIONS.join(', ')}`,
+      )
+    }
+    return version
+  })
 
   return {
-    imagePath,
-    registryPath,
+    inputs: positional,
+    registryPaths,
+    annotatePath,
+    format,
+    carrier,
     threshold: parseNumber(readFlag(args, '--threshold'), '--threshold'),
     patternSize: parseNumber(readFlag(args, '--pattern-size'), '--pattern-size'),
     intensity: parseNumber(readFlag(args, '--intensity'), '--intensity'),
     scales,
+    step: parseNumber(readFlag(args, '--step'), '--step'),
+    correlation,
+    scoring,
+    patternVersions,
+    rectify,
+  }
+}
+
+/** Process exit codes, documented for scripts that consume the CLI. */
+const EXIT_MATCHED = 0
+const EXIT_NO_MATCH = 1
+const EXIT_INVALID_INPUT = 2
+const EXIT_BUDGET_EXCEEDED = 3
+const EXIT_INTERNAL_ERROR = 4
+
+/** A failure as printed by `--format json` and `--format ndjson`. */
+interface CliErrorRecord {
+  code: 'invalid-input' | 'budget-exceeded' | 'internal-error'
+  message: string
+}
+
+const EXIT_CODES: Record<CliErrorRecord['code'], number> = {
+  'invalid-input': EXIT_INVALID_INPUT,
+  'budget-exceeded': EXIT_BUDGET_EXCEEDED,
+  'internal-error': EXIT_INTERNAL_ERROR,
+}
+
+/**
+ * Argument, format, and limit checks throw TypeError or RangeError, and
+ * missing files carry `ENOENT`. Anything else is a decoder bug, not bad input.
+ */
+function toErrorRecord(error: unknown): CliErrorRecord {
+  const message = error instanceof Error ? error.message : String(error)
+  if (error instanceof DecodeBudgetError) return { code: 'budget-exceeded', message }
+  const missing = error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT'
+  if (error instanceof TypeError || error instanceof RangeError || missing) {
+    return { code: 'invalid-input', message }
+  }
+  return { code: 'internal-error', message }
+}
+
+/** One seeded match as printed by `--format json` and `--format ndjson`. */
+interface ScanResultRecord {
+  path: string
+  type: string
+  depth: number
+  source: ComponentDescriptor['source'] | null
+  patternVersion: PatternVersion | null
+  score: number
+  count: number
+  tileSize: number
+  scale: number
+  region: PixelRegion
+  /** How a `--rectify` match was undone before correlating, or `null` when it was not. */
+  transform: CarrierTransform | null
+  /** Manifest of the codebook that matched, or `null` without one. */
+  registry: RegistryInfo | null
+  /** `--registry` paths containing the match when several were given, else `null`. */
+  releases: string[] | null
+}
+
+/** One payload match as printed by `--format json` and `--format ndjson`. */
+interface PayloadResultRecord {
+  componentId: string
+  score: number
+  correctedSymbols: number
+  count: number
+  tileSize: number
+  component: ComponentDescriptor | null
+  registry: RegistryInfo | null
+  releases: string[] | null
+}
+
+type BatchStatus = 'matched' | 'no-match' | 'error'
+
+/** One input's outcome in a batch run. */
+interface BatchFileRecord {
+  file: string
+  status: BatchStatus
+  results: Array<ScanResultRecord | PayloadResultRecord>
+  error: CliErrorRecord | null
+}
+
+/** How often one component was found across a batch run. */
+interface BatchComponentRecord {
+  /** Component path for seeded matches, component id for payload matches. */
+  key: string
+  path: string | null
+  files: number
+  bestScore: number
+}
+
+interface BatchSummaryRecord {
+  files: number
+  matched: number
+  noMatch: number
+  failed: number
+  signals: number
+  components: BatchComponentRecord[]
+}
+
+/** Codebooks loaded from `--registry`, as the CLI reports them. */
+interface CliCodebooks {
+  registry: DecodeRegistry
+  /** Manifest of the first release a match belongs to, or of the only registry. */
+  manifestOf(releases: string[] | undefined): RegistryInfo | null
+  /** `Codebook:` lines for the manifests behind these matches. */
+  describe(matches: ReadonlyArray<{ releases?: string[] | null }>): string[]
+}
+
+function toScanRecord(result: ScanResult, codebooks: CliCodebooks): ScanResultRecord {
+  return {
+    path: result.path,
+    type: result.type,
+    depth: result.depth,
+    source: result.source ?? null,
+    patternVersion: result.patternVersion ?? null,
+    score: result.score,
+    count: result.count,
+    tileSize: result.tileSize,
+    scale: result.scale ?? 1,
+    region: result.region,
+    transform: result.transform ?? null,
+    registry: codebooks.manifestOf(result.releases),
+    releases: result.releases ?? null,
+  }
+}
+
+function toPayloadRecord(result: PayloadResult, codebooks: CliCodebooks): PayloadResultRecord {
+  return {
+    componentId: result.componentId,
+    score: result.score,
+    correctedSymbols: result.correctedSymbols,
+    count: result.count,
+    tileSize: result.tileSize,
+    component: result.component ?? null,
+    registry: codebooks.manifestOf(result.releases),
+    releases: result.releases ?? null,
+  }
+}
+
+function writeRecords(records: object[], format: Exclude<OutputFormat, 'text'>): void {
+  if (format === 'json') {
+    console.log(JSON.stringify(records, null, 2))
+    return
+  }
+  for (const record of records) console.log(JSON.stringify(record))
+}
+
+function describeRegistry(registry: RegistryInfo, release?: string): string {
+  const build = [
+    registry.app,
+    registry.commit && `commit ${registry.commit.slice(0, 12)}`,
+    registry.builtAt && `built ${registry.builtAt}`,
+  ].filter(Boolean)
+  const hash = registry.contentHash.slice(0, 'sha256:'.length + 12)
+  const label = release ? `Codebook ${release}` : 'Codebook'
+  return `${label}: ${build.length > 0 ? `${build.join(', ')} ` : ''}(${hash})`
+}
+
+function describeReleases(releases: string[] | undefined): string {
+  return releases ? ` in ${releases.join(', ')}` : ''
+}
+
+function printPayloadResults(
+  results: PayloadResult[],
+  format: OutputFormat,
+  codebooks: CliCodebooks,
+): number {
+  if (format !== 'text') {
+    writeRecords(results.map((result) => toPayloadRecord(result, codebooks)), format)
+    return results.length === 0 ? EXIT_NO_MATCH : EXIT_MATCHED
+  }
+
+  if (results.length === 0) {
+    console.log('No matching PixelProvenance signals found.')
+    return EXIT_NO_MATCH
+  }
+
+  console.log(`Found ${results.length} component id${results.length === 1 ? '' : 's'}:`)
+  for (const result of results) {
+    const component = result.component
+    const resolved = component
+      ? ` -> ${component.path}${component.source ? ` ${component.source.file}:${component.source.line}:${component.source.column}` : ''}`
+      : ''
+    console.log(
+      `  ${result.componentId} (${(result.score * 100).toFixed(1)}% pilot, ${result.correctedSymbols} corrected, ${result.count} tile${result.count === 1 ? '' : 's'}, ${result.tileSize}px tile)${resolved}${describeReleases(result.releases)}`,
+    )
+  }
+  for (const line of codebooks.describe(results)) console.log(line)
+  return EXIT_MATCHED
+}
+
+function describeTransform(transform: CarrierTransform | undefined): string {
+  return transform ? `, rotated ${transform.rotation.toFixed(1)}°` : ''
+}
+
+function printScanResults(
+  results: ScanResult[],
+  format: OutputFormat,
+  codebooks: CliCodebooks,
+): number {
+  if (format !== 'text') {
+    writeRecords(results.map((result) => toScanRecord(result, codebooks)), format)
+    return results.length === 0 ? EXIT_NO_MATCH : EXIT_MATCHED
+  }
+
+  if (results.length === 0) {
+    console.log('No matching PixelProvenance signals found.')
+    return EXIT_NO_MATCH
+  }
+
+  console.log(`Found ${results.length} component signal${results.length === 1 ? '' : 's'}:`)
+  for (const result of results) {
+    const source = result.source
+      ? ` -> ${result.source.file}:${result.source.line}:${result.source.column}`
+      : ''
+    console.log(
+      `  ${result.path} (${result.type}, v${result.patternVersion}, ${(result.score * 100).toFixed(1)}% match, ${result.tileSize}px tile, ${result.region.width}×${result.region.height} at ${result.region.x},${result.region.y}${describeTransform(result.transform)})${source}${describeReleases(result.releases)}`,
+    )
+  }
+  for (const line of codebooks.describe(results)) console.log(line)
+  return EXIT_MATCHED
+}
+
+function summarizeBatch(files: BatchFileRecord[]): BatchSummaryRecord {
+  const components = new Map<string, BatchComponentRecord>()
+  for (const file of files) {
+    for (const result of file.results) {
+      const key = 'componentId' in result ? result.componentId : result.path
+      const existing = components.get(key)
+      if (existing) {
+        existing.files += 1
+        existing.bestScore = Math.max(existing.bestScore, result.score)
+      } else {
+        components.set(key, {
+          key,
+          path: 'componentId' in result ? (result.component?.path ?? null) : result.path,
+          files: 1,
+          bestScore: result.score,
+        })
+      }
+    }
+  }
+
+  return {
+    files: files.length,
+    matched: files.filter((file) => file.status === 'matched').length,
+    noMatch: files.filter((file) => file.status === 'no-match').length,
+    failed: files.filter((file) => file.status === 'error').length,
+    signals: files.reduce((total, file) => total + file.results.length, 0),
+    components: [...components.values()].sort(
+      (first, second) => second.files - first.files || first.key.localeCompare(second.key),
+    ),
+  }
+}
+
+function describeComponent(record: BatchComponentRecord): string {
+  return record.path && record.path !== record.key ? `${record.key} -> ${record.path}` : record.key
+}
+
+/**
+ * Print a batch run as a per-file table and aggregate report, or as JSON.
+ * Errors outrank matches in the exit code so a partial failure is visible,
+ * and a decoder bug outranks bad input.
+ */
+function printBatch(
+  files: BatchFileRecord[],
+  format: OutputFormat,
+  codebooks: CliCodebooks,
+): number {
+  const summary = summarizeBatch(files)
+  if (format === 'json') {
+    console.log(JSON.stringify({ files, summary }, null, 2))
+  } else if (format === 'ndjson') {
+    for (const file of files) console.log(JSON.stringify(file))
+    console.log(JSON.stringify({ summary }))
+  } else {
+    const fileWidth = Math.max(4, ...files.map((file) => file.file.length))
+    console.log(`${'File'.padEnd(fileWidth)}  Signals  Best match`)
+    for (const file of files) {
+      const [best] = file.results
+      const detail = file.error
+        ? file.error.message
+        : best
+          ? `${'componentId' in best ? (best.component?.path ?? best.componentId) : best.path} (${(best.score * 100).toFixed(1)}%)`
+          : '-'
+      const signals = file.error ? 'error' : String(file.results.length)
+      console.log(`${file.file.padEnd(fileWidth)}  ${signals.padEnd(7)}  ${detail}`)
+    }
+    console.log('')
+    console.log(
+      `${summary.files} image${summary.files === 1 ? '' : 's'}: ${summary.matched} with matches, ${summary.noMatch} without, ${summary.failed} failed; ${summary.signals} component signal${summary.signals === 1 ? '' : 's'}.`,
+    )
+    if (summary.components.length > 0) {
+      console.log('Components across images:')
+      for (const component of summary.components) {
+        console.log(
+          `  ${describeComponent(component)}: ${component.files} image${component.files === 1 ? '' : 's'}, best ${(component.bestScore * 100).toFixed(1)}%`,
+        )
+      }
+    }
+    const matches = files.flatMap((file) => file.results)
+    for (const line of codebooks.describe(matches)) console.log(line)
+  }
+
+  if (files.some((file) => file.error?.code === 'internal-error')) return EXIT_INTERNAL_ERROR
+  if (files.some((file) => file.error?.code === 'budget-exceeded')) return EXIT_BUDGET_EXCEEDED
+  if (summary.failed > 0) return EXIT_INVALID_INPUT
+  return summary.matched > 0 ? EXIT_MATCHED : EXIT_NO_MATCH
+}
+
+function readImageFile(path: string): Uint8Array {
+  if (statSync(path).size > MAX_IMAGE_BYTES) {
+    throw new RangeError(`Image exceeds the ${MAX_IMAGE_BYTES / 1024 / 1024} MB input limit`)
+  }
+  return readFileSync(path)
+}
+
+/**
+ * Read every `--registry`. A single registry decodes as before; several become
+ * release codebooks labelled by their paths, each keeping its own default
+ * tile size unless `--pattern-size` sets one for all.
+ */
+function loadCodebooks(
+  paths: string[],
+  patternSize: number | undefined,
+): { codebooks: CliCodebooks; intensity?: number; patternSize?: number } {
+  for (const path of paths) {
+    if (!existsSync(path)) throw notFoundError(`Registry not found: ${path}`)
+  }
+  const registries = paths.map(readRegistry)
+
+  if (registries.length <= 1) {
+    const [registry] = registries
+    const manifest = registry?.manifest ?? null
+    return {
+      codebooks: {
+        registry: registry?.components ?? [],
+        manifestOf: () => manifest,
+        describe: (matches) =>
+          manifest && matches.length > 0 ? [describeRegistry(manifest)] : [],
+      },
+      intensity: registry?.intensity,
+      patternSize: registry?.patternSize,
+    }
+  }
+
+  const manifests = new Map(paths.map((path, index) => [path, registries[index].manifest]))
+  return {
+    codebooks: {
+      registry: registries.map((registry, index) => ({
+        release: paths[index],
+        components:
+          patternSize === undefined && registry.patternSize !== undefined
+            ? registry.components.map((component) => ({
+                ...component,
+                patternSize: component.patternSize ?? registry.patternSize,
+              }))
+            : registry.components,
+      })),
+      manifestOf: (releases) => (releases ? (manifests.get(releases[0]) ?? null) : null),
+      describe(matches) {
+        const matched = new Set(matches.flatMap((match) => match.releases ?? []))
+        return paths.flatMap((path) => {
+          const manifest = manifests.get(path)
+          return manifest && matched.has(path) ? [describeRegistry(manifest, path)] : []
+        })
+      },
+    },
+    intensity: registries.find((registry) => registry.intensity !== undefined)?.intensity,
   }
 }
 
 function runCli(args: string[]): number {
   try {
     const options = parseCli(args)
-    if (!existsSync(options.imagePath)) throw new Error(`Image not found: ${options.imagePath}`)
-    if (!existsSync(options.registryPath)) throw new Error(`Registry not found: ${options.registryPath}`)
-    if (statSync(options.imagePath).size > MAX_IMAGE_BYTES) {
-      throw new Error(`PNG exceeds the ${MAX_IMAGE_BYTES / 1024 / 1024} MB input limit`)
+    const loaded = loadCodebooks(options.registryPaths, options.patternSize)
+    const imagePaths = expandImagePaths(options.inputs)
+    const { codebooks } = loaded
+    // Command-line values win over the defaults a registry declares.
+    const decodeOptions: DecodeOptions = {
+      ...options,
+      intensity: options.intensity ?? loaded.intensity,
+      patternSize: options.patternSize ?? loaded.patternSize,
     }
-
-    const components = readComponents(options.registryPath)
-    const results = decodePng(readFileSync(options.imagePath), components, options)
-
-    if (results.length === 0) {
-      console.log('No matching PixelProvenance signals found.')
-      return 1
+    const payloadOptions: PayloadDecodeOptions = {
+      threshold: options.threshold,
+      patternSizes:
+        decodeOptions.patternSize === undefined ? undefined : [decodeOptions.patternSize],
+      // Payload tiles have no frequency signature to estimate a scale from.
+      scales: options.scales === 'auto' ? undefined : options.scales,
     }
 
-    console.log(`Found ${results.length} component signal${results.length === 1 ? '' : 's'}:`)
-    for (const result of results) {
-      const source = result.source
-        ? ` -> ${result.source.file}:${result.source.line}:${result.source.column}`
-        : ''
-      console.log(
-        `  ${result.path} (${result.type}, ${(result.score * 100).toFixed(1)}% match, ${result.tileSize}px tile)${source}`,
+    if (imagePaths.length === 1 && imagePaths[0] === options.inputs[0]) {
+      const imageData = readImageFile(imagePaths[0])
+      if (options.carrier === 'payload') {
+        return printPayloadResults(
+          decodePayloadImage(imageData, payloadOptions, codebooks.registry),
+          options.format,
+          codebooks,
+        )
+      }
+
+      const image = readImage(imageData)
+      const results = createPixelDecoder(codebooks.registry, decodeOptions).decode(
+        image.data,
+        image.width,
+        image.height,
       )
+      if (options.annotatePath) {
+        writeFileSync(options.annotatePath, annotateImage(image, results))
+        if (options.format === 'text') {
+          console.log(`Wrote annotated image to ${options.annotatePath}`)
+        }
+      }
+      return printScanResults(results, options.format, codebooks)
     }
-    return 0
+
+    if (options.annotatePath) throw new TypeError('--annotate needs a single input image')
+    // Build the codebook once; every file below reuses its patterns.
+    const decoder =
+      options.carrier === 'seeded'
+        ? createImageDecoder(codebooks.registry, decodeOptions)
+        : undefined
+    const files = imagePaths.map((file): BatchFileRecord => {
+      try {
+        const imageData = readImageFile(file)
+        const results = decoder
+          ? decoder.decode(imageData).map((result) => toScanRecord(result, codebooks))
+          : decodePayloadImage(imageData, payloadOptions, codebooks.registry).map((result) =>
+              toPayloadRecord(result, codebooks),
+            )
+        return {
+          file,
+          status: results.length > 0 ? 'matched' : 'no-match',
+          results,
+          error: null,
+        }
+      } catch (error) {
+        return {
+          file,
+          status: 'error',
+          results: [],
+          error: toErrorRecord(error),
+        }
+      }
+    })
+    return printBatch(files, options.format, codebooks)
   } catch (error) {
-    console.error(error instanceof Error ? error.message : String(error))
-    return 1
+    const record = toErrorRecord(error)
+    // A bug keeps its stack; bad input only needs the message.
+    console.error(record.code === 'internal-error' ? error : record.message)
+    const format = readFlag(args, '--format')
+    if (format === 'json' || format === 'ndjson') {
+      console.log(JSON.stringify({ error: record }, null, format === 'json' ? 2 : undefined))
+    }
+    return EXIT_CODES[record.code]
   }
 }
 
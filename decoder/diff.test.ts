@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+
+import { diffRegistries } from './diff.js'
+
+const source = (line: number) => ({ file: 'src/Dashboard.tsx', line, column: 5 })
+
+const BEFORE = [
+  { path: 'DASHBOARD', type: 'page', depth: 1 },
+  { path: 'DASHBOARD/card', type: 'panel', depth: 2, source: source(8) },
+  { path: 'DASHBOARD/card/status', type: 'chip', depth: 3, source: source(12) },
+  { path: 'DASHBOARD/toolbar', type: 'panel', depth: 2, source: source(20) },
+  { path: 'DASHBOARD/legacy', type: 'panel', depth: 2 },
+]
+
+const AFTER = [
+  { path: 'DASHBOARD', type: 'page', depth: 1 },
+  { path: 'DASHBOARD/card', type: 'panel', depth: 2, source: source(9) },
+  { path: 'DASHBOARD/header/status', type: 'chip', depth: 3, source: source(14) },
+  { path: 'DASHBOARD/toolbar', type: 'toolbar', depth: 2, source: source(20), patternSize: 32 },
+  { path: 'DASHBOARD/search', type: 'input', depth: 2 },
+]
+
+describe('registry diff', () => {
+  it('classifies added, removed, moved, re-parented, and changed components', () => {
+    const diff = diffRegistries(BEFORE, AFTER)
+
+    expect(diff.unchanged).toBe(1)
+    expect(diff.changes.map((change) => [change.kind, change.before?.path ?? change.after?.path]))
+      .toEqual([
+        ['moved', 'DASHBOARD/card'],
+        ['reparented', 'DASHBOARD/card/status'],
+        ['removed', 'DASHBOARD/legacy'],
+        ['added', 'DASHBOARD/search'],
+        ['changed', 'DASHBOARD/toolbar'],
+      ])
+    expect(diff.changes.find((change) => change.kind === 'reparented')).toMatchObject({
+      after: { path: 'DASHBOARD/header/status' },
+      fields: ['path', 'source'],
+    })
+    expect(diff.changes.at(-1)?.fields).toEqual(['type', 'patternSize'])
+  })
+
+  it('lists every old component whose embedding no longer decodes', () => {
+    expect(diffRegistries(BEFORE, AFTER).broken).toEqual([
+      'DASHBOARD/card',
+      'DASHBOARD/card/status',
+      'DASHBOARD/legacy',
+      'DASHBOARD/toolbar',
+    ])
+    expect(diffRegistries(BEFORE, [...BEFORE].reverse())).toEqual({
+      changes: [],
+      defaults: [],
+      unchanged: BEFORE.length,
+      broken: [],
+    })
+  })
+
+  it('does not pair ambiguous moves as re-parented', () => {
+    const before = [
+      { path: 'A/row', type: 'row', depth: 2 },
+      { path: 'B/row', type: 'row', depth: 2 },
+    ]
+    const after = [
+      { path: 'C/row', type: 'row', depth: 2 },
+      { path: 'D/row', type: 'row', depth: 2 },
+    ]
+
+    expect(diffRegistries(before, after).changes.map((change) => change.kind)).toEqual([
+      'removed',
+      'removed',
+      'added',
+      'added',
+    ])
+  })
+
+  it('compares resolved defaults and reports changed manifest defaults', () => {
+    const explicit = BEFORE.map((component) => ({
+      ...component,
+      patternSize: 64,
+      patternVersion: 1 as const,
+    }))
+    expect(diffRegistries(BEFORE, explicit).unchanged).toBe(BEFORE.length)
+
+    const after = [...explicit.slice(0, 2), ...BEFORE.slice(2)]
+    const diff = diffRegistries(
+      { components: BEFORE, patternSize: 64 },
+      { components: after, patternSize: 48, intensity: 0.12 },
+    )
+    expect(diff.defaults).toEqual([
+      { field: 'patternSize', before: 64, after: 48 },
+      { field: 'intensity', before: 0.08, after: 0.12 },
+    ])
+    expect(diff.unchanged).toBe(2)
+    expect(diff.broken).toEqual(['DASHBOARD/card/status', 'DASHBOARD/legacy', 'DASHBOARD/toolbar'])
+  })
+})
@@ -0,0 +1,207 @@
+import {
+  CURRENT_PATTERN_VERSION,
+  DEFAULT_INTENSITY,
+  DEFAULT_PATTERN_SIZE,
+  clampIntensity,
+  resolvePatternSize,
+  type ComponentDescriptor,
+} from '../src/pattern.js'
+
+/**
+ * `moved`: same path, only `source` changed. `reparented`: the same id and
+ * type now sit under a different parent. `changed`: same path with another
+ * type, depth, tile size, or carrier version.
+ */
+export type RegistryChangeKind = 'added' | 'removed' | 'moved' | 'reparented' | 'changed'
+
+export type DescriptorField = keyof Required<ComponentDescriptor>
+
+interface ChangeOf<Kind extends RegistryChangeKind, Before, After> {
+  kind: Kind
+  /** Entry in the old registry; `null` when added. */
+  before: Before
+  /** Entry in the new registry; `null` when removed. */
+  after: After
+  /** Descriptor fields that differ between `before` and `after`. */
+  fields: DescriptorField[]
+}
+
+export type RegistryChange =
+  | ChangeOf<'added', null, ComponentDescriptor>
+  | ChangeOf<'removed', ComponentDescriptor, null>
+  | ChangeOf<'moved' | 'reparented' | 'changed', ComponentDescriptor, ComponentDescriptor>
+
+/** A codebook-wide rendering default that differs between the registries. */
+export interface RegistryDefaultChange {
+  field: 'patternSize' | 'intensity'
+  /** Effective values, with the built-in default standing in for an unset one. */
+  before: number
+  after: number
+}
+
+/** A bare descriptor list, or a registry with the defaults its manifest declares. */
+export type DiffableRegistry =
+  | readonly ComponentDescriptor[]
+  | {
+      components: readonly ComponentDescriptor[]
+      intensity?: number
+      patternSize?: number
+    }
+
+export interface RegistryDiff {
+  /** Sorted by the old path, or the new one for additions. */
+  changes: RegistryChange[]
+  /**
+   * Changed manifest defaults. A new default tile size also shows up as a
+   * `patternSize` change on every component that relies on it.
+   */
+  defaults: RegistryDefaultChange[]
+  unchanged: number
+  /**
+   * Old paths whose embedding is gone from the new registry. Every change but
+   * an addition alters the carrier seed or tile size, so archived screenshots
+   * of these components stop decoding against the new registry.
+   */
+  broken: string[]
+}
+
+const FIELDS: DescriptorField[] = [
+  'path',
+  'type',
+  'depth',
+  'source',
+  'patternSize',
+  'patternVersion',
+]
+
+function leafId(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+/** Compare what the decoder renders: unset sizes and versions take their defaults. */
+function differingFields(
+  before: ComponentDescriptor,
+  after: ComponentDescriptor,
+  beforeSize: number,
+  afterSize: number,
+): DescriptorField[] {
+  return FIELDS.filter((field) => {
+    if (field === 'patternSize') {
+      return resolvePatternSize(before, beforeSize) !== resolvePatternSize(after, afterSize)
+    }
+    if (field === 'patternVersion') {
+      return (
+        (before.patternVersion ?? CURRENT_PATTERN_VERSION) !==
+        (after.patternVersion ?? CURRENT_PATTERN_VERSION)
+      )
+    }
+    if (field !== 'source') return before[field] !== after[field]
+    const [first, second] = [before.source, after.source]
+    return (
+      first?.file !== second?.file ||
+      first?.line !== second?.line ||
+      first?.column !== second?.column
+    )
+  })
+}
+
+function resolveRegistry(registry: DiffableRegistry) {
+  if (!('components' in registry)) {
+    return {
+      components: registry,
+      defaults: { patternSize: DEFAULT_PATTERN_SIZE, intensity: DEFAULT_INTENSITY },
+    }
+  }
+  return {
+    components: registry.components,
+    defaults: {
+      patternSize: resolvePatternSize(registry),
+      intensity: clampIntensity(registry.intensity ?? DEFAULT_INTENSITY),
+    },
+  }
+}
+
+/**
+ * Compare two registries by path. Removed and added entries that share a
+ * leaf id and type, with exactly one candidate on each side, are paired as
+ * re-parented rather than reported twice. Registries with manifest defaults
+ * are compared as the decoder reads them.
+ */
+export function diffRegistries(
+  beforeRegistry: DiffableRegistry,
+  afterRegistry: DiffableRegistry,
+): RegistryDiff {
+  const { components: before, defaults: beforeDefaults } = resolveRegistry(beforeRegistry)
+  const { components: after, defaults: afterDefaults } = resolveRegistry(afterRegistry)
+  const fieldsOf = (first: ComponentDescriptor, second: ComponentDescriptor) =>
+    differingFields(first, second, beforeDefaults.patternSize, afterDefaults.patternSize)
+  const afterByPath = new Map(after.map((component) => [component.path, component]))
+  const beforePaths = new Set(before.map((component) => component.path))
+  const changes: RegistryChange[] = []
+  const removed: ComponentDescriptor[] = []
+  let unchanged = 0
+
+  for (const component of before) {
+    const next = afterByPath.get(component.path)
+    if (!next) {
+      removed.push(component)
+      continue
+    }
+    const fields = fieldsOf(component, next)
+    if (fields.length === 0) {
+      unchanged += 1
+    } else {
+      const kind = fields.length === 1 && fields[0] === 'source' ? 'moved' : 'changed'
+      changes.push({ kind, before: component, after: next, fields })
+    }
+  }
+
+  const added = after.filter((component) => !beforePaths.has(component.path))
+  const candidateKey = (component: ComponentDescriptor): string =>
+    `${leafId(component.path)}\u0000${component.type}`
+  const countByKey = (components: ComponentDescriptor[]): Map<string, number> => {
+    const counts = new Map<string, number>()
+    for (const component of components) {
+      const key = candidateKey(component)
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+    return counts
+  }
+  const removedCounts = countByKey(removed)
+  const addedCounts = countByKey(added)
+  const reparented = new Map<string, ComponentDescriptor>()
+  for (const component of added) {
+    const key = candidateKey(component)
+    if (removedCounts.get(key) === 1 && addedCounts.get(key) === 1) {
+      reparented.set(key, component)
+    }
+  }
+
+  for (const component of removed) {
+    const next = reparented.get(candidateKey(component))
+    if (next) {
+      const fields = fieldsOf(component, next)
+      changes.push({ kind: 'reparented', before: component, after: next, fields })
+    } else {
+      changes.push({ kind: 'removed', before: component, after: null, fields: [] })
+    }
+  }
+  const paired = new Set(reparented.values())
+  for (const component of added) {
+    if (paired.has(component)) continue
+    changes.push({ kind: 'added', before: null, after: component, fields: [] })
+  }
+
+  const pathOf = (change: RegistryChange): string => (change.before ?? change.after)?.path ?? ''
+  changes.sort((first, second) => pathOf(first).localeCompare(pathOf(second)))
+  return {
+    changes,
+    defaults: (['patternSize', 'intensity'] as const).flatMap((field) =>
+      beforeDefaults[field] === afterDefaults[field]
+        ? []
+        : [{ field, before: beforeDefaults[field], after: afterDefaults[field] }],
+    ),
+    unchanged,
+    broken: changes.flatMap((change) => (change.before ? [change.before.path] : [])),
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  correlatePatternsSpectral,
+  estimateSpectralCost,
+  maxCircularCorrelations,
+  planCorrelation,
+  powerSpectrum,
+  tileSpectrum,
+} from './fft.js'
+import {
+  comparePatterns,
+  createPatternPayload,
+  generatePattern,
+  type PatternMatrix,
+} from '../src/pattern.js'
+
+function noisyImage(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(width * height * 4)
+  let state = 12345
+  for (let offset = 0; offset < data.length; offset += 1) {
+    state = (state * 1103515245 + 12345) >>> 0
+    data[offset] = state >>> 24
+  }
+  // A flat corner exercises the zero-variance windows.
+  for (let y = 0; y < 24; y += 1) {
+    for (let x = 0; x < 24; x += 1) {
+      data.fill(200, (y * width + x) * 4, (y * width + x) * 4 + 4)
+    }
+  }
+  return data
+}
+
+function directScore(
+  data: Uint8Array,
+  width: number,
+  startX: number,
+  startY: number,
+  pattern: PatternMatrix,
+): number {
+  const luma: PatternMatrix = []
+  const chroma: PatternMatrix = []
+  for (let y = 0; y < pattern.length; y += 1) {
+    luma.push([])
+    chroma.push([])
+    for (let x = 0; x < pattern.length; x += 1) {
+      const offset = ((startY + y) * width + startX + x) * 4
+      luma[y].push((data[offset] + data[offset + 1] + data[offset + 2]) / 3)
+      chroma[y].push(data[offset] - (data[offset + 1] + data[offset + 2]) / 2)
+    }
+  }
+  return Math.max(comparePatterns(luma, pattern), comparePatterns(chroma, pattern))
+}
+
+describe('spectral correlation', () => {
+  it('matches direct window correlation at every sampled offset', () => {
+    const width = 150
+    const height = 97
+    const data = noisyImage(width, height)
+    const patterns = ['first', 'second'].map((path) =>
+      generatePattern(
+        createPatternPayload({ path, type: 'panel', depth: 1 }),
+        16,
+        0.12,
+      ),
+    )
+    const visited: number[] = []
+
+    correlatePatternsSpectral(data, width, height, patterns, (index, scores, plan) => {
+      visited.push(index)
+      expect(plan.outputWidth).toBe(width - 15)
+      expect(plan.outputHeight).toBe(height - 15)
+      for (const [x, y] of [[0, 0], [3, 0], [40, 61], [134, 81], [77, 12]]) {
+        expect(scores[y * plan.outputWidth + x]).toBeCloseTo(
+          directScore(data, width, x, y, patterns[index]),
+          9,
+        )
+      }
+    })
+
+    expect(visited).toEqual([0, 1])
+  })
+
+  it('plans overlap-save blocks that cover every output offset', () => {
+    const plan = planCorrelation(2560, 1600, 64)
+
+    expect(Math.log2(plan.blockSize) % 1).toBe(0)
+    expect(plan.horizontalBlocks * plan.validSize).toBeGreaterThanOrEqual(plan.outputWidth)
+    expect(plan.verticalBlocks * plan.validSize).toBeGreaterThanOrEqual(plan.outputHeight)
+    expect(estimateSpectralCost(plan, 2)).toBeGreaterThan(estimateSpectralCost(plan, 1))
+    expect(() => planCorrelation(32, 32, 64)).toThrow(/fit inside/)
+  })
+  it('puts a plane wave in the bins of its frequency', () => {
+    const size = 16
+    const values = Float64Array.from({ length: size * size }, (_, index) =>
+      Math.cos((2 * Math.PI * (3 * (index % size) + 5 * Math.floor(index / size))) / size),
+    )
+    const power = powerSpectrum(values, size)
+    const expected = (size * size * size * size) / 4
+
+    expect(power[5 * size + 3]).toBeCloseTo(expected, 6)
+    expect(power[(size - 5) * size + size - 3]).toBeCloseTo(expected, 6)
+    expect(power.reduce((total, value) => total + value, 0)).toBeCloseTo(2 * expected, 6)
+    expect(() => powerSpectrum(new Float64Array(9), 3)).toThrow(/power of two/)
+  })
+
+  it('finds the best circular shift of tiles of any size', () => {
+    const size = 12
+    let state = 99
+    const tile = () =>
+      Float64Array.from({ length: size * size }, () => {
+        state = (state * 1103515245 + 12345) >>> 0
+        return state / 2 ** 32 - 0.5
+      })
+    const first = tile()
+    const unrelated = tile()
+    // The second tile is the first wrapped by (5, 7), so its best shift matches exactly.
+    const shifted = first.map((_, index) => {
+      const x = (index % size) + 5
+      const y = Math.floor(index / size) + 7
+      return first[(y % size) * size + (x % size)]
+    })
+    const norm = Math.hypot(...first)
+    const scale = (values: Float64Array) => values.map((value) => value / norm)
+    const direct = (second: Float64Array) => {
+      let best = -Infinity
+      for (let dy = 0; dy < size; dy += 1) {
+        for (let dx = 0; dx < size; dx += 1) {
+          let total = 0
+          for (let y = 0; y < size; y += 1) {
+            for (let x = 0; x < size; x += 1) {
+              total +=
+                first[y * size + x] *
+                second[((y + dy) % size) * size + ((x + dx) % size)]
+            }
+          }
+          best = Math.max(best, total / norm / norm)
+        }
+      }
+      return best
+    }
+    const scores = maxCircularCorrelations(tileSpectrum(scale(first), size), [
+      tileSpectrum(scale(shifted), size),
+      tileSpectrum(scale(unrelated), size),
+      tileSpectrum(scale(first), size),
+    ])
+
+    expect(scores[0]).toBeCloseTo(1, 9)
+    expect(scores[1]).toBeCloseTo(direct(unrelated), 9)
+    expect(scores[2]).toBeCloseTo(1, 9)
+  })
+})
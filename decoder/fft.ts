@@ -0,0 +1,641 @@
+import type { PatternMatrix } from '../src/pattern.js'
+
+/**
+ * Frequency-domain normalized cross-correlation for uniform tile batches.
+ *
+ * Every pixel offset of a tile is scored at once: the numerator comes from one
+ * complex FFT product per pattern (luma in the real part, chroma in the
+ * imaginary part), and each window's variance comes from integral images. The
+ * resulting scores match `comparePatterns` on the same window up to rounding.
+ */
+
+const MIN_BLOCK_SIZE = 32
+const MAX_BLOCK_SIZE = 1024
+
+export interface CorrelationPlan {
+  tileSize: number
+  /** Power-of-two FFT block edge used for overlap-save correlation. */
+  blockSize: number
+  /** Output offsets produced by each block along one axis. */
+  validSize: number
+  horizontalBlocks: number
+  verticalBlocks: number
+  /** Number of window offsets along x: `width - tileSize + 1`. */
+  outputWidth: number
+  /** Number of window offsets along y: `height - tileSize + 1`. */
+  outputHeight: number
+}
+
+interface FftTables {
+  reversed: Uint32Array
+  cosines: Float64Array
+  sines: Float64Array
+}
+
+const tableCache = new Map<number, FftTables>()
+
+function log2(size: number): number {
+  return Math.round(Math.log2(size))
+}
+
+function fftTables(size: number): FftTables {
+  const cached = tableCache.get(size)
+  if (cached) return cached
+
+  const bits = log2(size)
+  const reversed = new Uint32Array(size)
+  for (let index = 0; index < size; index += 1) {
+    let value = index
+    let result = 0
+    for (let bit = 0; bit < bits; bit += 1) {
+      result = (result << 1) | (value & 1)
+      value >>= 1
+    }
+    reversed[index] = result
+  }
+
+  const cosines = new Float64Array(size / 2)
+  const sines = new Float64Array(size / 2)
+  for (let index = 0; index < size / 2; index += 1) {
+    const angle = (-2 * Math.PI * index) / size
+    cosines[index] = Math.cos(angle)
+    sines[index] = Math.sin(angle)
+  }
+
+  const tables = { reversed, cosines, sines }
+  tableCache.set(size, tables)
+  return tables
+}
+
+/** In-place radix-2 transform of `size` samples starting at `offset`. */
+function transform(
+  real: Float64Array,
+  imaginary: Float64Array,
+  offset: number,
+  size: number,
+  inverse: boolean,
+): void {
+  const { reversed, cosines, sines } = fftTables(size)
+
+  for (let index = 0; index < size; index += 1) {
+    const target = reversed[index]
+    if (target <= index) continue
+    const realValue = real[offset + index]
+    const imaginaryValue = imaginary[offset + index]
+    real[offset + index] = real[offset + target]
+    imaginary[offset + index] = imaginary[offset + target]
+    real[offset + target] = realValue
+    imaginary[offset + target] = imaginaryValue
+  }
+
+  const direction = inverse ? -1 : 1
+  for (let length = 2; length <= size; length <<= 1) {
+    const half = length >> 1
+    const tableStep = size / length
+    for (let start = 0; start < size; start += length) {
+      for (let index = 0; index < half; index += 1) {
+        const twiddleReal = cosines[index * tableStep]
+        const twiddleImaginary = direction * sines[index * tableStep]
+        const even = offset + start + index
+        const odd = even + half
+        const oddReal =
+          real[odd] * twiddleReal - imaginary[odd] * twiddleImaginary
+        const oddImaginary =
+          real[odd] * twiddleImaginary + imaginary[odd] * twiddleReal
+        real[odd] = real[even] - oddReal
+        imaginary[odd] = imaginary[even] - oddImaginary
+        real[even] += oddReal
+        imaginary[even] += oddImaginary
+      }
+    }
+  }
+}
+
+function transformColumns(
+  real: Float64Array,
+  imaginary: Float64Array,
+  size: number,
+  inverse: boolean,
+  columnReal: Float64Array,
+  columnImaginary: Float64Array,
+): void {
+  for (let x = 0; x < size; x += 1) {
+    for (let y = 0; y < size; y += 1) {
+      columnReal[y] = real[y * size + x]
+      columnImaginary[y] = imaginary[y * size + x]
+    }
+    transform(columnReal, columnImaginary, 0, size, inverse)
+    for (let y = 0; y < size; y += 1) {
+      real[y * size + x] = columnReal[y]
+      imaginary[y * size + x] = columnImaginary[y]
+    }
+  }
+}
+
+/**
+ * Forward 2D transform. Only the first `usedRows` rows may be non-zero, which
+ * lets a small template skip the row pass over its zero padding.
+ */
+function forward2d(
+  real: Float64Array,
+  imaginary: Float64Array,
+  size: number,
+  usedRows: number,
+  columnReal: Float64Array,
+  columnImaginary: Float64Array,
+): void {
+  for (let y = 0; y < usedRows; y += 1) {
+    transform(real, imaginary, y * size, size, false)
+  }
+  transformColumns(real, imaginary, size, false, columnReal, columnImaginary)
+}
+
+/**
+ * Unscaled inverse 2D transform. Only the first `usedRows` output rows are
+ * materialized because overlap-save discards the wrapped remainder.
+ */
+function inverse2d(
+  real: Float64Array,
+  imaginary: Float64Array,
+  size: number,
+  usedRows: number,
+  columnReal: Float64Array,
+  columnImaginary: Float64Array,
+): void {
+  transformColumns(real, imaginary, size, true, columnReal, columnImaginary)
+  for (let y = 0; y < usedRows; y += 1) {
+    transform(real, imaginary, y * size, size, true)
+  }
+}
+
+/**
+ * Power spectrum of a `size` × `size` real image stored row by row, where
+ * `size` is a power of two. Bin (x, y) holds the power at x / size cycles
+ * per pixel horizontally and y / size vertically; bins past size / 2 are the
+ * negative frequencies.
+ */
+export function powerSpectrum(values: Float64Array, size: number): Float64Array {
+  if (!Number.isInteger(size) || size < 2 || (size & (size - 1)) !== 0) {
+    throw new RangeError('Spectrum size must be a power of two')
+  }
+  if (values.length !== size * size) {
+    throw new RangeError('Spectrum input must hold size × size samples')
+  }
+  const real = Float64Array.from(values)
+  const imaginary = new Float64Array(size * size)
+  forward2d(real, imaginary, size, size, new Float64Array(size), new Float64Array(size))
+  for (let index = 0; index < real.length; index += 1) {
+    real[index] = real[index] * real[index] + imaginary[index] * imaginary[index]
+  }
+  return real
+}
+
+const dftTableCache = new Map<number, { cosines: Float64Array; sines: Float64Array }>()
+
+function dftTables(size: number): { cosines: Float64Array; sines: Float64Array } {
+  const cached = dftTableCache.get(size)
+  if (cached) return cached
+  const cosines = new Float64Array(size)
+  const sines = new Float64Array(size)
+  for (let index = 0; index < size; index += 1) {
+    const angle = (-2 * Math.PI * index) / size
+    cosines[index] = Math.cos(angle)
+    sines[index] = Math.sin(angle)
+  }
+  const tables = { cosines, sines }
+  dftTableCache.set(size, tables)
+  return tables
+}
+
+function isPowerOfTwo(size: number): boolean {
+  return (size & (size - 1)) === 0
+}
+
+/**
+ * In-place transform of `size` contiguous samples: radix-2 when `size` is a
+ * power of two, a direct DFT through the scratch arrays otherwise.
+ */
+function transformAnySize(
+  real: Float64Array,
+  imaginary: Float64Array,
+  offset: number,
+  size: number,
+  inverse: boolean,
+  scratchReal: Float64Array,
+  scratchImaginary: Float64Array,
+): void {
+  if (isPowerOfTwo(size)) {
+    transform(real, imaginary, offset, size, inverse)
+    return
+  }
+  const { cosines, sines } = dftTables(size)
+  const direction = inverse ? -1 : 1
+  for (let frequency = 0; frequency < size; frequency += 1) {
+    let sumReal = 0
+    let sumImaginary = 0
+    for (let index = 0, phase = 0; index < size; index += 1) {
+      const cosine = cosines[phase]
+      const sine = direction * sines[phase]
+      const valueReal = real[offset + index]
+      const valueImaginary = imaginary[offset + index]
+      sumReal += valueReal * cosine - valueImaginary * sine
+      sumImaginary += valueReal * sine + valueImaginary * cosine
+      phase += frequency
+      if (phase >= size) phase -= size
+    }
+    scratchReal[frequency] = sumReal
+    scratchImaginary[frequency] = sumImaginary
+  }
+  real.set(scratchReal.subarray(0, size), offset)
+  imaginary.set(scratchImaginary.subarray(0, size), offset)
+}
+
+/** Unscaled 2D transform of a `size` × `size` tile of any size, in place. */
+function transformTile(
+  real: Float64Array,
+  imaginary: Float64Array,
+  size: number,
+  inverse: boolean,
+): void {
+  const columnReal = new Float64Array(size)
+  const columnImaginary = new Float64Array(size)
+  const scratchReal = new Float64Array(size)
+  const scratchImaginary = new Float64Array(size)
+  for (let y = 0; y < size; y += 1) {
+    transformAnySize(real, imaginary, y * size, size, inverse, scratchReal, scratchImaginary)
+  }
+  for (let x = 0; x < size; x += 1) {
+    for (let y = 0; y < size; y += 1) {
+      columnReal[y] = real[y * size + x]
+      columnImaginary[y] = imaginary[y * size + x]
+    }
+    transformAnySize(columnReal, columnImaginary, 0, size, inverse, scratchReal, scratchImaginary)
+    for (let y = 0; y < size; y += 1) {
+      real[y * size + x] = columnReal[y]
+      imaginary[y * size + x] = columnImaginary[y]
+    }
+  }
+}
+
+/** Forward spectrum of a real square tile, as `maxCircularCorrelations` consumes it. */
+export interface TileSpectrum {
+  size: number
+  real: Float64Array
+  imaginary: Float64Array
+  /** Bin magnitudes, for `circularCorrelationBound`. */
+  magnitude: Float64Array
+}
+
+/** Transform work, in multiply-adds, of one 2D transform of a `size` × `size` tile. */
+export function estimateTileTransformCost(size: number): number {
+  return 2 * size * size * (isPowerOfTwo(size) ? log2(size) : size)
+}
+
+/** Spectrum of a `size` × `size` real tile stored row by row; `size` may be any length. */
+export function tileSpectrum(values: Float64Array, size: number): TileSpectrum {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError('Tile size must be a positive integer')
+  }
+  if (values.length !== size * size) {
+    throw new RangeError('Spectrum input must hold size × size samples')
+  }
+  const real = Float64Array.from(values)
+  const imaginary = new Float64Array(size * size)
+  transformTile(real, imaginary, size, false)
+  const magnitude = new Float64Array(size * size)
+  for (let index = 0; index < magnitude.length; index += 1) {
+    magnitude[index] = Math.hypot(real[index], imaginary[index])
+  }
+  return { size, real, imaginary, magnitude }
+}
+
+/**
+ * Upper bound on the circular cross-correlation of two tiles at any shift: a
+ * shift only rotates the phase of each bin, so no shift can beat all bins in
+ * phase. Tiles whose carriers share no frequencies bound near zero.
+ */
+export function circularCorrelationBound(first: TileSpectrum, second: TileSpectrum): number {
+  let total = 0
+  for (let index = 0; index < first.magnitude.length; index += 1) {
+    total += first.magnitude[index] * second.magnitude[index]
+  }
+  return total / (first.size * first.size)
+}
+
+/**
+ * Highest circular cross-correlation, over every (dx, dy) shift, of `first`
+ * with each of `others`. Each correlation is real, so two products share one
+ * inverse transform: one in the real part, the next in the imaginary part.
+ * For zero-mean, unit-norm tiles the result is the best Pearson correlation
+ * of one tile against any wrap-around shift of the other.
+ */
+export function maxCircularCorrelations(
+  first: TileSpectrum,
+  others: readonly TileSpectrum[],
+): number[] {
+  const { size } = first
+  const area = size * size
+  const real = new Float64Array(area)
+  const imaginary = new Float64Array(area)
+  const maxima: number[] = []
+  for (let start = 0; start < others.length; start += 2) {
+    const second = others[start]
+    const third = others[start + 1]
+    for (let index = 0; index < area; index += 1) {
+      // conj(A)·B for the first product, then i·conj(A)·C for the second.
+      const firstReal = first.real[index]
+      const firstImaginary = -first.imaginary[index]
+      let productReal =
+        firstReal * second.real[index] - firstImaginary * second.imaginary[index]
+      let productImaginary =
+        firstReal * second.imaginary[index] + firstImaginary * second.real[index]
+      if (third) {
+        productReal -= firstReal * third.imaginary[index] + firstImaginary * third.real[index]
+        productImaginary +=
+          firstReal * third.real[index] - firstImaginary * third.imaginary[index]
+      }
+      real[index] = productReal
+      imaginary[index] = productImaginary
+    }
+    transformTile(real, imaginary, size, true)
+    let secondMax = -Infinity
+    let thirdMax = -Infinity
+    for (let index = 0; index < area; index += 1) {
+      secondMax = Math.max(secondMax, real[index])
+      thirdMax = Math.max(thirdMax, imaginary[index])
+    }
+    maxima.push(secondMax / area)
+    if (third) maxima.push(thirdMax / area)
+  }
+  return maxima
+}
+
+function blockCost(plan: CorrelationPlan): number {
+  return (
+    plan.horizontalBlocks *
+    plan.verticalBlocks *
+    plan.blockSize *
+    plan.blockSize *
+    log2(plan.blockSize)
+  )
+}
+
+/**
+ * Choose the overlap-save block size with the lowest transform cost for a
+ * `width` × `height` image and a square tile.
+ */
+export function planCorrelation(
+  width: number,
+  height: number,
+  tileSize: number,
+): CorrelationPlan {
+  const outputWidth = width - tileSize + 1
+  const outputHeight = height - tileSize + 1
+  if (tileSize <= 0 || outputWidth <= 0 || outputHeight <= 0) {
+    throw new RangeError('Correlation tile must fit inside the image')
+  }
+
+  const largestUseful = 2 ** Math.ceil(Math.log2(Math.max(width, height)))
+  let best: CorrelationPlan | undefined
+  for (
+    let blockSize = MIN_BLOCK_SIZE;
+    blockSize <= Math.max(MIN_BLOCK_SIZE, Math.min(MAX_BLOCK_SIZE, largestUseful));
+    blockSize *= 2
+  ) {
+    const validSize = blockSize - tileSize + 1
+    if (validSize < 1) continue
+    const candidate: CorrelationPlan = {
+      tileSize,
+      blockSize,
+      validSize,
+      horizontalBlocks: Math.ceil(outputWidth / validSize),
+      verticalBlocks: Math.ceil(outputHeight / validSize),
+      outputWidth,
+      outputHeight,
+    }
+    if (!best || blockCost(candidate) < blockCost(best)) best = candidate
+  }
+
+  if (!best) {
+    throw new RangeError(`Tile size ${tileSize} exceeds the ${MAX_BLOCK_SIZE}px FFT block limit`)
+  }
+  return best
+}
+
+/**
+ * Transform work, in sample·log2 units, for correlating `patternCount`
+ * patterns: one inverse transform per pattern and block, plus the shared
+ * image and template spectra.
+ */
+export function estimateSpectralCost(
+  plan: CorrelationPlan,
+  patternCount: number,
+): number {
+  const templateCost = plan.blockSize * plan.blockSize * log2(plan.blockSize)
+  return blockCost(plan) * (patternCount + 1) + templateCost * patternCount
+}
+
+function integralImage(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  channel: (data: Uint8Array, offset: number) => number,
+): { sums: Float64Array; squareSums: Float64Array } {
+  const stride = width + 1
+  const sums = new Float64Array(stride * (height + 1))
+  const squareSums = new Float64Array(stride * (height + 1))
+
+  for (let y = 0; y < height; y += 1) {
+    let rowSum = 0
+    let rowSquareSum = 0
+    for (let x = 0; x < width; x += 1) {
+      const value = channel(data, (y * width + x) * 4)
+      rowSum += value
+      rowSquareSum += value * value
+      const target = (y + 1) * stride + x + 1
+      sums[target] = sums[target - stride] + rowSum
+      squareSums[target] = squareSums[target - stride] + rowSquareSum
+    }
+  }
+
+  return { sums, squareSums }
+}
+
+// Integer-valued channels keep the integral images exact. Pearson correlation
+// is scale invariant, so 3× luma and 2× chroma score identically to the
+// `(r + g + b) / 3` and `r - (g + b) / 2` tiles used by the direct path.
+function tripleLuma(data: Uint8Array, offset: number): number {
+  return data[offset] + data[offset + 1] + data[offset + 2]
+}
+
+function doubleChroma(data: Uint8Array, offset: number): number {
+  return 2 * data[offset] - data[offset + 1] - data[offset + 2]
+}
+
+/** Reciprocal window standard deviation (unnormalized), or 0 for flat windows. */
+function inverseWindowDeviation(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  plan: CorrelationPlan,
+  channel: (data: Uint8Array, offset: number) => number,
+): Float64Array {
+  const { sums, squareSums } = integralImage(data, width, height, channel)
+  const stride = width + 1
+  const tileSize = plan.tileSize
+  const count = tileSize * tileSize
+  const result = new Float64Array(plan.outputWidth * plan.outputHeight)
+
+  for (let y = 0; y < plan.outputHeight; y += 1) {
+    for (let x = 0; x < plan.outputWidth; x += 1) {
+      const topLeft = y * stride + x
+      const topRight = topLeft + tileSize
+      const bottomLeft = topLeft + tileSize * stride
+      const bottomRight = bottomLeft + tileSize
+      const sum =
+        sums[bottomRight] - sums[bottomLeft] - sums[topRight] + sums[topLeft]
+      const squareSum =
+        squareSums[bottomRight] -
+        squareSums[bottomLeft] -
+        squareSums[topRight] +
+        squareSums[topLeft]
+      const variance = squareSum - (sum * sum) / count
+      result[y * plan.outputWidth + x] = variance > 0 ? 1 / Math.sqrt(variance) : 0
+    }
+  }
+
+  return result
+}
+
+/**
+ * Normalized cross-correlation of every window offset against each pattern.
+ *
+ * `visit` receives a reused `outputWidth × outputHeight` buffer holding, for
+ * every top-left offset, the larger of the luma and chroma scores. Copy it if
+ * it must outlive the callback.
+ */
+export function correlatePatternsSpectral(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  patterns: PatternMatrix[],
+  visit: (patternIndex: number, scores: Float64Array, plan: CorrelationPlan) => void,
+): void {
+  const tileSize = patterns[0]?.length ?? 0
+  if (tileSize === 0) return
+  const plan = planCorrelation(width, height, tileSize)
+  const { blockSize, validSize, outputWidth, outputHeight } = plan
+  const blockArea = blockSize * blockSize
+  const lumaDeviation = inverseWindowDeviation(data, width, height, plan, tripleLuma)
+  const chromaDeviation = inverseWindowDeviation(data, width, height, plan, doubleChroma)
+  const columnReal = new Float64Array(blockSize)
+  const columnImaginary = new Float64Array(blockSize)
+
+  const blockSpectra: { real: Float64Array; imaginary: Float64Array }[] = []
+  for (let blockY = 0; blockY < plan.verticalBlocks; blockY += 1) {
+    for (let blockX = 0; blockX < plan.horizontalBlocks; blockX += 1) {
+      const real = new Float64Array(blockArea)
+      const imaginary = new Float64Array(blockArea)
+      const originX = blockX * validSize
+      const originY = blockY * validSize
+      const rows = Math.min(blockSize, height - originY)
+      const columns = Math.min(blockSize, width - originX)
+      for (let y = 0; y < rows; y += 1) {
+        for (let x = 0; x < columns; x += 1) {
+          const offset = ((originY + y) * width + originX + x) * 4
+          real[y * blockSize + x] = tripleLuma(data, offset)
+          imaginary[y * blockSize + x] = doubleChroma(data, offset)
+        }
+      }
+      forward2d(real, imaginary, blockSize, rows, columnReal, columnImaginary)
+      blockSpectra.push({ real, imaginary })
+    }
+  }
+
+  const templateReal = new Float64Array(blockArea)
+  const templateImaginary = new Float64Array(blockArea)
+  const productReal = new Float64Array(blockArea)
+  const productImaginary = new Float64Array(blockArea)
+  const scores = new Float64Array(outputWidth * outputHeight)
+
+  for (const [patternIndex, pattern] of patterns.entries()) {
+    if (pattern.length !== tileSize || (pattern[0]?.length ?? 0) !== tileSize) {
+      throw new TypeError('Spectral correlation requires a single square tile size')
+    }
+
+    let patternSum = 0
+    for (const row of pattern) {
+      for (const value of row) patternSum += value
+    }
+    const patternMean = patternSum / (tileSize * tileSize)
+    templateReal.fill(0)
+    templateImaginary.fill(0)
+    let patternVariance = 0
+    for (let y = 0; y < tileSize; y += 1) {
+      for (let x = 0; x < tileSize; x += 1) {
+        const centered = pattern[y][x] - patternMean
+        templateReal[y * blockSize + x] = centered
+        patternVariance += centered * centered
+      }
+    }
+
+    if (patternVariance === 0) {
+      scores.fill(0)
+      visit(patternIndex, scores, plan)
+      continue
+    }
+
+    forward2d(
+      templateReal,
+      templateImaginary,
+      blockSize,
+      tileSize,
+      columnReal,
+      columnImaginary,
+    )
+    const scale = 1 / (blockArea * Math.sqrt(patternVariance))
+
+    for (let blockY = 0; blockY < plan.verticalBlocks; blockY += 1) {
+      for (let blockX = 0; blockX < plan.horizontalBlocks; blockX += 1) {
+        const spectrum = blockSpectra[blockY * plan.horizontalBlocks + blockX]
+        // Multiply by the conjugate template spectrum: correlation, not convolution.
+        for (let index = 0; index < blockArea; index += 1) {
+          const imageReal = spectrum.real[index]
+          const imageImaginary = spectrum.imaginary[index]
+          const patternReal = templateReal[index]
+          const patternImaginary = templateImaginary[index]
+          productReal[index] =
+            imageReal * patternReal + imageImaginary * patternImaginary
+          productImaginary[index] =
+            imageImaginary * patternReal - imageReal * patternImaginary
+        }
+
+        const originX = blockX * validSize
+        const originY = blockY * validSize
+        const rows = Math.min(validSize, outputHeight - originY)
+        const columns = Math.min(validSize, outputWidth - originX)
+        inverse2d(
+          productReal,
+          productImaginary,
+          blockSize,
+          rows,
+          columnReal,
+          columnImaginary,
+        )
+
+        for (let y = 0; y < rows; y += 1) {
+          for (let x = 0; x < columns; x += 1) {
+            const output = (originY + y) * outputWidth + originX + x
+            const block = y * blockSize + x
+            scores[output] = Math.max(
+              productReal[block] * scale * lumaDeviation[output],
+              productImaginary[block] * scale * chromaDeviation[output],
+            )
+          }
+        }
+      }
+    }
+
+    visit(patternIndex, scores, plan)
+  }
+}
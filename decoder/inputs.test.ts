@@ -0,0 +1,64 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { expandImagePaths, globToRegExp } from './inputs.js'
+
+describe('CLI input expansion', () => {
+  let root: string
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'pixelprovenance-inputs-'))
+    mkdirSync(join(root, 'run-1', 'mobile'), { recursive: true })
+    mkdirSync(join(root, '.cache'))
+    for (const file of [
+      'run-1/home.png',
+      'run-1/settings.JPG',
+      'run-1/notes.txt',
+      'run-1/mobile/home.webp',
+      '.cache/stale.png',
+    ]) {
+      writeFileSync(join(root, file), '')
+    }
+  })
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('compiles segment-aware glob patterns', () => {
+    expect(globToRegExp('shots/*.png').test('shots/home.png')).toBe(true)
+    expect(globToRegExp('shots/*.png').test('shots/mobile/home.png')).toBe(false)
+    expect(globToRegExp('shots/**/*.png').test('shots/home.png')).toBe(true)
+    expect(globToRegExp('shots/**/*.png').test('shots/a/b/home.png')).toBe(true)
+    expect(globToRegExp('run-?/[!x]*.png').test('run-1/home.png')).toBe(true)
+    expect(globToRegExp('run-?/[!x]*.png').test('run-1/xhome.png')).toBe(false)
+    expect(globToRegExp('a+b/(1).png').test('a+b/(1).png')).toBe(true)
+  })
+
+  it('expands directories to the images directly inside them', () => {
+    expect(expandImagePaths([join(root, 'run-1')])).toEqual([
+      join(root, 'run-1', 'home.png'),
+      join(root, 'run-1', 'settings.JPG'),
+    ])
+    expect(expandImagePaths([join(root, '.cache')])).toEqual([join(root, '.cache', 'stale.png')])
+  })
+
+  it('expands globs, skipping dot directories and duplicate paths', () => {
+    const home = `${root}/run-1/home.png`
+    expect(expandImagePaths([home, `${root}/**/*`])).toEqual([
+      home,
+      `${root}/run-1/mobile/home.webp`,
+      `${root}/run-1/settings.JPG`,
+    ])
+  })
+
+  it('rejects inputs that yield no images', () => {
+    expect(() => expandImagePaths([join(root, 'missing.png')])).toThrow('Image not found')
+    expect(() => expandImagePaths([`${root}/run-1/*.gif`])).toThrow('No images match')
+    mkdirSync(join(root, 'empty'))
+    expect(() => expandImagePaths([join(root, 'empty')])).toThrow('No images found')
+  })
+})
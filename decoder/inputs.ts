@@ -0,0 +1,121 @@
+import { existsSync, readdirSync, statSync } from 'node:fs'
+import { extname, join } from 'node:path'
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp'])
+const GLOB_PATTERN = /[*?[]/
+const MAX_BATCH_IMAGES = 1_000
+
+export function isImagePath(path: string): boolean {
+  return IMAGE_EXTENSIONS.has(extname(path).toLowerCase())
+}
+
+/** A missing input, with the `ENOENT` code Node.js gives a missing file. */
+export function notFoundError(message: string): Error {
+  return Object.assign(new Error(message), { code: 'ENOENT' })
+}
+
+/**
+ * Compile a glob to a regular expression over `/`-separated paths. `*` and `?`
+ * stay within one path segment, `**` spans any number of them, and `[...]`
+ * (or `[!...]`) matches one character from a set.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let index = 0; index < pattern.length; index += 1) {
+    const character = pattern[index]
+    if (character === '*' && pattern[index + 1] === '*') {
+      if (pattern[index + 2] === '/') {
+        source += '(?:[^/]*/)*'
+        index += 2
+      } else {
+        source += '.*'
+        index += 1
+      }
+    } else if (character === '*') {
+      source += '[^/]*'
+    } else if (character === '?') {
+      source += '[^/]'
+    } else if (character === '[' && pattern.indexOf(']', index + 2) > 0) {
+      const end = pattern.indexOf(']', index + 2)
+      const set = pattern.slice(index + 1, end).replace(/\\/g, '\\\\')
+      source += set.startsWith('!') ? `[^${set.slice(1)}]` : `[${set}]`
+      index = end
+    } else {
+      source += character.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+function listImages(directory: string): string[] {
+  return readdirSync(directory, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && isImagePath(entry.name))
+    .map((entry) => join(directory, entry.name))
+    .sort()
+}
+
+function expandGlob(pattern: string): string[] {
+  const normalized = pattern.replace(/\\/g, '/')
+  const segments = normalized.split('/')
+  const firstGlob = segments.findIndex((segment) => GLOB_PATTERN.test(segment))
+  const base = segments.slice(0, firstGlob).join('/')
+  const matcher = globToRegExp(normalized)
+  // Without `**` a match can sit no deeper than the pattern's own segments.
+  const maxDepth = normalized.includes('**') ? Infinity : segments.length - firstGlob
+  const root = firstGlob === 0 ? '.' : base || '/'
+  const matches: string[] = []
+
+  const walk = (directory: string, relative: string, depth: number): void => {
+    if (!existsSync(directory) || !statSync(directory).isDirectory()) return
+    for (const entry of readdirSync(directory, { withFileTypes: true })) {
+      // Like shell globs, wildcards do not descend into or match dotfiles.
+      if (entry.name.startsWith('.')) continue
+      const path = relative ? `${relative}/${entry.name}` : entry.name
+      if (entry.isDirectory() && depth < maxDepth) {
+        walk(join(directory, entry.name), path, depth + 1)
+      } else if (entry.isFile() && isImagePath(entry.name) && matcher.test(path)) {
+        matches.push(path)
+        if (matches.length > MAX_BATCH_IMAGES) {
+          throw new RangeError(`${pattern} matches more than ${MAX_BATCH_IMAGES} images`)
+        }
+      }
+    }
+  }
+  walk(root, firstGlob === 0 ? '' : base, 1)
+  return matches.sort()
+}
+
+/**
+ * Resolve CLI inputs to image paths: files are kept as given, directories
+ * contribute the images directly inside them, and patterns containing `*`,
+ * `?`, or `[` are expanded relative to the working directory. Duplicates are
+ * dropped and each input must yield at least one image.
+ */
+export function expandImagePaths(inputs: string[]): string[] {
+  const paths: string[] = []
+  const seen = new Set<string>()
+
+  for (const input of inputs) {
+    let expanded: string[]
+    if (existsSync(input)) {
+      expanded = statSync(input).isDirectory() ? listImages(input) : [input]
+      if (expanded.length === 0) throw notFoundError(`No images found in ${input}`)
+    } else if (GLOB_PATTERN.test(input)) {
+      expanded = expandGlob(input)
+      if (expanded.length === 0) throw notFoundError(`No images match ${input}`)
+    } else {
+      throw notFoundError(`Image not found: ${input}`)
+    }
+
+    for (const path of expanded) {
+      if (seen.has(path)) continue
+      seen.add(path)
+      paths.push(path)
+    }
+    if (paths.length > MAX_BATCH_IMAGES) {
+      throw new RangeError(`At most ${MAX_BATCH_IMAGES} images can be decoded in one run`)
+    }
+  }
+
+  return paths
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+
+import { comparePatterns, createPatternPayload, generatePattern } from '../src/pattern.js'
+import { lintRegistry, parseRenderedSizes } from './lint.js'
+
+// Distinct paths whose djb hashes land on the same carrier frequencies.
+const CONFUSABLE = [
+  { path: 'SETTINGS/item-60', type: 'row', depth: 2 },
+  { path: 'SETTINGS/item-97', type: 'row', depth: 2 },
+]
+
+// Carriers that anti-correlate aligned but match once one wraps by a few pixels.
+const SHIFTED = [
+  { path: 'SETTINGS/item-127', type: 'row', depth: 2 },
+  { path: 'SETTINGS/item-178', type: 'row', depth: 2 },
+]
+
+function shiftPattern(pattern: number[][], dx: number, dy: number): number[][] {
+  const size = pattern.length
+  return pattern.map((_, y) => {
+    const row = pattern[(y + dy) % size]
+    return row.map((__, x) => row[(x + dx) % size])
+  })
+}
+
+describe('registry lint', () => {
+  it('reports carriers that correlate above the threshold at each tile size', () => {
+    const components = [...CONFUSABLE, { path: 'SETTINGS', type: 'page', depth: 1 }]
+    const lint = lintRegistry(components, { patternSize: 16 })
+    const [first, second] = CONFUSABLE.map((component) =>
+      generatePattern(createPatternPayload(component), 16),
+    )
+
+    expect(lint.tileSizes).toEqual([16])
+    // The page carrier shares both rows' frequencies and reaches them at a shift.
+    expect(lint.collisions.map(({ first, second }) => [first.path, second.path])).toEqual([
+      ['SETTINGS/item-60', 'SETTINGS/item-97'],
+      ['SETTINGS/item-97', 'SETTINGS'],
+      ['SETTINGS/item-60', 'SETTINGS'],
+    ])
+    expect(lint.collisions[0]).toMatchObject({
+      first: { ...CONFUSABLE[0], patternVersion: 1 },
+      second: { ...CONFUSABLE[1], patternVersion: 1 },
+      tileSizes: [16],
+    })
+    expect(lint.collisions[0].score).toBeGreaterThanOrEqual(comparePatterns(first, second) - 1e-9)
+    expect(lint.collisions[0].score).toBeGreaterThan(0.95)
+    expect(lintRegistry(components, { patternSize: 16, threshold: 0.99 }).collisions).toEqual([])
+  })
+
+  it('reports carriers that only collide at a shift', () => {
+    const [first, second] = SHIFTED.map((component) =>
+      generatePattern(createPatternPayload(component), 16),
+    )
+    let best = -Infinity
+    for (let dy = 0; dy < 16; dy += 1) {
+      for (let dx = 0; dx < 16; dx += 1) {
+        best = Math.max(best, comparePatterns(first, shiftPattern(second, dx, dy)))
+      }
+    }
+    const lint = lintRegistry(SHIFTED, { patternSize: 16 })
+
+    expect(comparePatterns(first, second)).toBeLessThan(0)
+    expect(lint.collisions).toHaveLength(1)
+    expect(lint.collisions[0].score).toBeCloseTo(best, 9)
+    expect(lint.collisions[0].score).toBeGreaterThan(0.95)
+  })
+
+  it('keeps version 2 carriers apart across a full-size codebook', () => {
+    const codebook = (patternVersion: 1 | 2) =>
+      Array.from({ length: 512 }, (_, index) => ({
+        path: `APP/section-${index % 37}/item-${index}`,
+        type: index % 3 === 0 ? 'panel' : 'row',
+        depth: 3,
+        patternSize: 16,
+        patternVersion,
+      }))
+
+    expect(lintRegistry(codebook(1)).collisions[0].score).toBeGreaterThan(0.9)
+    // Random cell codes reach about 0.35 at their best shift, well under the threshold.
+    expect(lintRegistry(codebook(2)).collisions).toEqual([])
+  })
+
+  it('flags tiles a default scan cannot fit inside the rendered element', () => {
+    const components = [
+      { path: 'DASHBOARD', type: 'page', depth: 1 },
+      { path: 'DASHBOARD/chip', type: 'badge', depth: 2, patternSize: 32 },
+      { path: 'DASHBOARD/tiny', type: 'icon', depth: 2, patternSize: 16 },
+    ]
+    const renderedSizes = parseRenderedSizes({
+      DASHBOARD: { width: 1280, height: 720 },
+      'DASHBOARD/chip': { width: 96, height: 40 },
+      'DASHBOARD/tiny': { width: 12, height: 12 },
+    })
+    const lint = lintRegistry(components, { renderedSizes, threshold: 1 })
+
+    expect(lint.tileSizes).toEqual([16, 32, 64])
+    expect(
+      lint.oversized.map(({ component, patternSize, maxPatternSize }) => [
+        component.path,
+        patternSize,
+        maxPatternSize,
+      ]),
+    ).toEqual([
+      ['DASHBOARD/chip', 32, 26],
+      ['DASHBOARD/tiny', 16, 8],
+    ])
+    expect(() => parseRenderedSizes({ 'DASHBOARD/chip': { width: 0, height: 40 } })).toThrow(
+      'Invalid rendered size for DASHBOARD/chip',
+    )
+    expect(() => lintRegistry(components, { threshold: 2 })).toThrow('between -1 and 1')
+  })
+})
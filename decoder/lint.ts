@@ -0,0 +1,247 @@
+import {
+  createPatternPayload,
+  DEFAULT_INTENSITY,
+  DEFAULT_PATTERN_SIZE,
+  defaultPatternVersions,
+  generatePattern,
+  resolvePatternSize,
+  type ComponentDescriptor,
+  type PatternMatrix,
+  type PatternVersion,
+} from '../src/pattern.js'
+import type { RenderedSize } from '../src/registry.js'
+import {
+  circularCorrelationBound,
+  estimateTileTransformCost,
+  maxCircularCorrelations,
+  tileSpectrum,
+  type TileSpectrum,
+} from './fft.js'
+
+/**
+ * Correlation above which two carriers are reported as confusable. The
+ * decoder accepts matches at 0.7, and screenshot noise moves scores by more
+ * than the remaining margin.
+ */
+export const DEFAULT_CONFUSION_THRESHOLD = 0.5
+
+/**
+ * Bounds the correlation work in multiply-adds, summed over tile sizes: the
+ * spectrum of every carrier, the bound of every pair, and one inverse
+ * transform per two pairs the bound cannot rule out.
+ */
+const MAX_LINT_WORK = 4_000_000_000
+
+/** Bounds the spectra held at once: carriers × tile pixels. */
+const MAX_LINT_SPECTRUM_SAMPLES = 1 << 24
+
+/** Two carriers that correlate at or above the threshold at some shift. */
+export interface PatternCollision {
+  first: ComponentDescriptor & { patternVersion: PatternVersion }
+  second: ComponentDescriptor & { patternVersion: PatternVersion }
+  /** Highest correlation over every circular shift and tile size checked. */
+  score: number
+  /** Tile sizes at which the pair reached the threshold. */
+  tileSizes: number[]
+}
+
+/** A component whose tile does not reliably fit inside the element it paints. */
+export interface OversizedPattern {
+  component: ComponentDescriptor
+  patternSize: number
+  renderedSize: RenderedSize
+  /**
+   * Largest tile a default scan is guaranteed to find inside the element.
+   * Below 16 no supported tile size fits.
+   */
+  maxPatternSize: number
+}
+
+export interface RegistryLint {
+  /** Distinct 1× tile sizes in the registry; each pair is correlated at every one. */
+  tileSizes: number[]
+  /** Sorted by descending score. */
+  collisions: PatternCollision[]
+  /** Sorted by path. */
+  oversized: OversizedPattern[]
+}
+
+export interface LintOptions {
+  /** Registry default for components without their own `patternSize`. */
+  patternSize?: number
+  intensity?: number
+  threshold?: number
+  /**
+   * Carrier revisions for components that do not pin one; defaults as the
+   * decoder's `patternVersions` does.
+   */
+  versions?: readonly PatternVersion[]
+  /** Typical rendered size per path, as `DevTagRegistry.renderedSizes()` exports. */
+  renderedSizes?: Readonly<Record<string, RenderedSize>>
+}
+
+interface LintEntry {
+  component: ComponentDescriptor & { patternVersion: PatternVersion }
+  payload: string
+}
+
+/**
+ * Flatten a tile to zero mean and unit norm, so the correlation of two tiles
+ * at each shift is the Pearson correlation `comparePatterns` computes.
+ */
+function normalizePattern(pattern: PatternMatrix): Float64Array {
+  const values = Float64Array.from(pattern.flat())
+  const mean = values.reduce((total, value) => total + value, 0) / values.length
+  let squareSum = 0
+  for (let index = 0; index < values.length; index += 1) {
+    values[index] -= mean
+    squareSum += values[index] * values[index]
+  }
+  const norm = Math.sqrt(squareSum)
+  // Flat tiles correlate with nothing, as in `comparePatterns`.
+  for (let index = 0; index < values.length; index += 1) {
+    values[index] = norm === 0 ? 0 : values[index] / norm
+  }
+  return values
+}
+
+/**
+ * A default scan steps by half a tile, so a window lands wholly inside an
+ * element only when its shorter side spans one and a half tiles.
+ */
+function maxPatternSizeFor(size: RenderedSize): number {
+  return Math.floor(Math.min(size.width, size.height) / 1.5)
+}
+
+/**
+ * Check a codebook for carriers the decoder could confuse and for tiles too
+ * large for the elements they paint. Every carrier is generated at each tile
+ * size in use and correlated with every other component's carrier at every
+ * circular shift, since a scan window can land on a tile at any phase. A
+ * spectral bound skips the shifts of pairs that share no frequencies.
+ */
+export function lintRegistry(
+  components: readonly ComponentDescriptor[],
+  options: LintOptions = {},
+): RegistryLint {
+  const fallbackSize = options.patternSize ?? DEFAULT_PATTERN_SIZE
+  const intensity = options.intensity ?? DEFAULT_INTENSITY
+  const threshold = options.threshold ?? DEFAULT_CONFUSION_THRESHOLD
+  const versions = options.versions ?? defaultPatternVersions(components)
+  if (!Number.isFinite(threshold) || threshold < -1 || threshold > 1) {
+    throw new RangeError('Confusion threshold must be between -1 and 1')
+  }
+
+  const entries: LintEntry[] = components.flatMap((component) =>
+    (component.patternVersion === undefined ? versions : [component.patternVersion]).map(
+      (patternVersion) => {
+        const versioned = { ...component, patternVersion }
+        return { component: versioned, payload: createPatternPayload(versioned) }
+      },
+    ),
+  )
+  const tileSizes = [
+    ...new Set(components.map((component) => resolvePatternSize(component, fallbackSize))),
+  ].sort((first, second) => first - second)
+
+  const budgetError = () =>
+    new RangeError('Registry lint exceeds the computation budget; split the registry')
+  const pairCount = (entries.length * (entries.length - 1)) / 2
+  let work = tileSizes.reduce(
+    (total, size) =>
+      total + entries.length * estimateTileTransformCost(size) + pairCount * size * size,
+    0,
+  )
+  if (
+    work > MAX_LINT_WORK ||
+    tileSizes.some((size) => entries.length * size * size > MAX_LINT_SPECTRUM_SAMPLES)
+  ) {
+    throw budgetError()
+  }
+
+  const found = new Map<string, PatternCollision>()
+  for (const tileSize of tileSizes) {
+    const spectra = entries.map((entry) =>
+      tileSpectrum(
+        normalizePattern(
+          generatePattern(entry.payload, tileSize, intensity, entry.component.patternVersion),
+        ),
+        tileSize,
+      ),
+    )
+    const candidates: number[][] = entries.map(() => [])
+    for (let first = 0; first < entries.length; first += 1) {
+      for (let second = first + 1; second < entries.length; second += 1) {
+        // Carrier revisions of one component are alternatives, not rivals.
+        if (entries[first].component.path === entries[second].component.path) continue
+        if (circularCorrelationBound(spectra[first], spectra[second]) < threshold) continue
+        candidates[first].push(second)
+      }
+    }
+    // Inverse transforms dominate, so the budget is checked again before any run.
+    const inverseCount = candidates.reduce((total, list) => total + Math.ceil(list.length / 2), 0)
+    work += inverseCount * estimateTileTransformCost(tileSize)
+    if (work > MAX_LINT_WORK) throw budgetError()
+
+    for (let first = 0; first < entries.length; first += 1) {
+      const others: TileSpectrum[] = candidates[first].map((second) => spectra[second])
+      const scores = maxCircularCorrelations(spectra[first], others)
+      candidates[first].forEach((second, index) => {
+        const score = scores[index]
+        if (score < threshold) return
+        const key = `${first}:${second}`
+        const collision = found.get(key)
+        if (collision) {
+          collision.score = Math.max(collision.score, score)
+          collision.tileSizes.push(tileSize)
+        } else {
+          found.set(key, {
+            first: entries[first].component,
+            second: entries[second].component,
+            score,
+            tileSizes: [tileSize],
+          })
+        }
+      })
+    }
+  }
+
+  const oversized: OversizedPattern[] = []
+  for (const component of components) {
+    const sizes = options.renderedSizes
+    if (!sizes || !Object.hasOwn(sizes, component.path)) continue
+    const renderedSize = sizes[component.path]
+    const patternSize = resolvePatternSize(component, fallbackSize)
+    const maxPatternSize = maxPatternSizeFor(renderedSize)
+    if (patternSize > maxPatternSize) {
+      oversized.push({ component, patternSize, renderedSize, maxPatternSize })
+    }
+  }
+
+  return {
+    tileSizes,
+    collisions: [...found.values()].sort((first, second) => second.score - first.score),
+    oversized: oversized.sort((first, second) =>
+      first.component.path.localeCompare(second.component.path),
+    ),
+  }
+}
+
+/** Validate a rendered-size file: `{ "<path>": { "width": 120, "height": 32 } }`. */
+export function parseRenderedSizes(parsed: unknown): Record<string, RenderedSize> {
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Rendered sizes must be an object keyed by component path')
+  }
+  const valid = (dimension: unknown): dimension is number =>
+    typeof dimension === 'number' && Number.isFinite(dimension) && dimension > 0
+  // fromEntries defines own keys, so a path such as `__proto__` stays data.
+  return Object.fromEntries(
+    Object.entries(parsed).map(([path, value]) => {
+      const { width, height } = (value ?? {}) as Record<string, unknown>
+      if (!valid(width) || !valid(height)) {
+        throw new Error(`Invalid rendered size for ${path}; expected positive width and height`)
+      }
+      return [path, { width, height }]
+    }),
+  )
+}
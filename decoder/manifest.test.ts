@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseRegistry } from './decode.js'
+import { createRegistryManifest, hashRegistryContent } from './manifest.js'
+
+const COMPONENTS = [
+  { path: 'SETTINGS', type: 'page', depth: 1 },
+  {
+    path: 'SETTINGS/profile',
+    type: 'panel',
+    depth: 2,
+    patternSize: 32,
+    source: { file: 'src/Profile.tsx', line: 31, column: 5 },
+  },
+]
+
+describe('registry manifests', () => {
+  it('round-trips build metadata and defaults through the decoder', () => {
+    const manifest = createRegistryManifest(COMPONENTS, {
+      app: 'settings-app',
+      commit: '4f9c2a1d0b7e',
+      builtAt: '2026-10-19T08:00:00.000Z',
+      patternVersion: 1,
+      intensity: 0.06,
+      patternSize: 48,
+    })
+    const registry = parseRegistry(JSON.parse(JSON.stringify(manifest)))
+
+    expect(Object.keys(manifest).at(-1)).toBe('components')
+    expect(registry.manifest).toEqual({
+      schemaVersion: 1,
+      contentHash: manifest.contentHash,
+      app: 'settings-app',
+      commit: '4f9c2a1d0b7e',
+      builtAt: '2026-10-19T08:00:00.000Z',
+    })
+    expect([registry.intensity, registry.patternSize]).toEqual([0.06, 48])
+    expect(registry.components.map((component) => component.patternVersion)).toEqual([1, 1])
+  })
+
+  it('hashes decoding content, not build metadata or key order', () => {
+    const hash = hashRegistryContent(COMPONENTS)
+    const reordered = COMPONENTS.map((component) =>
+      Object.fromEntries(Object.entries(component).reverse()),
+    ) as typeof COMPONENTS
+
+    expect(hash).toMatch(/^sha256:[0-9a-f]{64}$/)
+    expect(hashRegistryContent(reordered)).toBe(hash)
+    expect(createRegistryManifest(COMPONENTS, { commit: 'abc' }).contentHash).toBe(hash)
+    expect(hashRegistryContent(COMPONENTS, { intensity: 0.1 })).not.toBe(hash)
+    expect(hashRegistryContent([{ ...COMPONENTS[0], depth: 2 }, COMPONENTS[1]])).not.toBe(hash)
+  })
+
+  it('rejects manifests that were edited, unversioned, or malformed', () => {
+    const manifest = createRegistryManifest(COMPONENTS, { app: 'settings-app' })
+    const edited = { ...manifest, components: [{ ...COMPONENTS[0], type: 'panel' }] }
+
+    expect(() => parseRegistry(edited)).toThrow('contentHash does not match')
+    expect(() => parseRegistry({ ...manifest, schemaVersion: 2 })).toThrow(
+      'Unsupported registry schemaVersion 2',
+    )
+    expect(() => parseRegistry({ ...manifest, contentHash: 'md5:1' })).toThrow('contentHash')
+    expect(() => parseRegistry({ ...manifest, builtAt: 'yesterday' })).toThrow('builtAt')
+    expect(() => parseRegistry({ ...manifest, intensity: 2 })).toThrow('intensity')
+  })
+
+  it('keeps plain registries free of manifest details', () => {
+    expect(parseRegistry(COMPONENTS).manifest).toBeNull()
+    expect(parseRegistry({ components: COMPONENTS, patternSize: 32 })).toMatchObject({
+      manifest: null,
+      patternSize: 32,
+    })
+  })
+})
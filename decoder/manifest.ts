@@ -0,0 +1,156 @@
+import { createHash } from 'node:crypto'
+
+import type { ComponentDescriptor, PatternVersion } from '../src/pattern.js'
+
+/** Manifest layout revision; bump when fields change meaning. */
+export const REGISTRY_SCHEMA_VERSION = 1
+
+const CONTENT_HASH_PATTERN = /^sha256:[0-9a-f]{64}$/
+const MAX_METADATA_LENGTH = 256
+
+/** Build details recorded alongside a codebook. None of them affect decoding. */
+export interface RegistryBuildInfo {
+  /** Application or package name. */
+  app?: string
+  /** Source revision the codebook was generated from. */
+  commit?: string
+  /** ISO 8601 time the codebook was generated. */
+  builtAt?: string
+}
+
+/** Decoding defaults a manifest can carry for every component. */
+export interface RegistryDefaults {
+  /** Carrier revision for components that do not pin one. */
+  patternVersion?: PatternVersion
+  /** Signal intensity the tags were rendered with. */
+  intensity?: number
+  /** 1× tile size for components without their own `patternSize`. */
+  patternSize?: number
+}
+
+/** Identifies the codebook a result was decoded against. */
+export interface RegistryInfo extends RegistryBuildInfo {
+  schemaVersion: number
+  /** `sha256:` digest of the components and decoding defaults. */
+  contentHash: string
+}
+
+export interface RegistryManifest extends RegistryInfo, RegistryDefaults {
+  components: ComponentDescriptor[]
+}
+
+/**
+ * Digest the parts of a codebook that change what decodes: each component as
+ * the decoder reads it (top-level `patternVersion` already applied) plus the
+ * default intensity and tile size. Build metadata is left out, so rebuilding
+ * an unchanged codebook keeps its hash.
+ */
+export function hashRegistryContent(
+  components: readonly ComponentDescriptor[],
+  defaults: Omit<RegistryDefaults, 'patternVersion'> = {},
+): string {
+  // Fixed positions so the digest does not depend on key order in the file.
+  const canonical = JSON.stringify({
+    intensity: defaults.intensity ?? null,
+    patternSize: defaults.patternSize ?? null,
+    components: components.map((component) => [
+      component.path,
+      component.type,
+      component.depth,
+      component.source
+        ? [component.source.file, component.source.line, component.source.column]
+        : null,
+      component.patternSize ?? null,
+      component.patternVersion ?? null,
+    ]),
+  })
+  return `sha256:${createHash('sha256').update(canonical).digest('hex')}`
+}
+
+/** Wrap components in a manifest with build metadata and a content hash. */
+export function createRegistryManifest(
+  components: readonly ComponentDescriptor[],
+  options: RegistryBuildInfo & RegistryDefaults = {},
+): RegistryManifest {
+  const { app, commit, builtAt, patternVersion, intensity, patternSize } = options
+  const effective = patternVersion === undefined
+    ? components
+    : components.map((component) => ({
+        ...component,
+        patternVersion: component.patternVersion ?? patternVersion,
+      }))
+
+  const header: RegistryInfo & RegistryDefaults = {
+    schemaVersion: REGISTRY_SCHEMA_VERSION,
+    contentHash: hashRegistryContent(effective, { intensity, patternSize }),
+  }
+  if (app !== undefined) header.app = app
+  if (commit !== undefined) header.commit = commit
+  if (builtAt !== undefined) header.builtAt = builtAt
+  if (patternVersion !== undefined) header.patternVersion = patternVersion
+  if (intensity !== undefined) header.intensity = intensity
+  if (patternSize !== undefined) header.patternSize = patternSize
+  return { ...header, components: [...components] }
+}
+
+function readText(manifest: object, field: keyof RegistryBuildInfo): string | undefined {
+  const value = (manifest as Record<string, unknown>)[field]
+  if (value === undefined) return undefined
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_METADATA_LENGTH) {
+    throw new TypeError(`Invalid registry ${field}`)
+  }
+  return value
+}
+
+function readNumber(
+  manifest: object,
+  field: 'intensity' | 'patternSize',
+  min: number,
+  max: number,
+): number | undefined {
+  const value = (manifest as Record<string, unknown>)[field]
+  if (value === undefined) return undefined
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new TypeError(`Invalid registry ${field}`)
+  }
+  return value
+}
+
+/**
+ * Validate the header of an object-form registry. Objects without
+ * `schemaVersion` are plain `{ components }` registries and yield no info;
+ * manifests must carry a well-formed `contentHash`, which the caller checks
+ * against the parsed components.
+ */
+export function readManifestHeader(
+  manifest: object,
+): { info: RegistryInfo | null; defaults: Omit<RegistryDefaults, 'patternVersion'> } {
+  const defaults = {
+    intensity: readNumber(manifest, 'intensity', 0, 1),
+    patternSize: readNumber(manifest, 'patternSize', 16, 256),
+  }
+  if (!('schemaVersion' in manifest)) return { info: null, defaults }
+
+  const { schemaVersion, contentHash } = manifest as Record<string, unknown>
+  if (schemaVersion !== REGISTRY_SCHEMA_VERSION) {
+    const expected = REGISTRY_SCHEMA_VERSION
+    throw new TypeError(
+      `Unsupported registry schemaVersion ${String(schemaVersion)}; expected ${expected}`,
+    )
+  }
+  if (typeof contentHash !== 'string' || !CONTENT_HASH_PATTERN.test(contentHash)) {
+    throw new TypeError('Registry manifest needs a contentHash of the form sha256:<64 hex digits>')
+  }
+  const builtAt = readText(manifest, 'builtAt')
+  if (builtAt !== undefined && Number.isNaN(Date.parse(builtAt))) {
+    throw new TypeError('Invalid registry builtAt; expected an ISO 8601 timestamp')
+  }
+
+  const info: RegistryInfo = { schemaVersion, contentHash }
+  const app = readText(manifest, 'app')
+  const commit = readText(manifest, 'commit')
+  if (app !== undefined) info.app = app
+  if (commit !== undefined) info.commit = commit
+  if (builtAt !== undefined) info.builtAt = builtAt
+  return { info, defaults }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  createPatternPayload,
+  generatePatternRgba,
+  type ComponentDescriptor,
+} from '../src/pattern.js'
+import { rectifyDistortedRegions, surveyCarrierTransforms } from './rectify.js'
+
+const TARGET: ComponentDescriptor = { path: 'SETTINGS/item-7', type: 'row', depth: 2 }
+
+/**
+ * A carrier tiled over the whole raster at `scale`, then mapped through
+ * `[a, b, c, d]` about the centre with bilinear sampling, as a photo of a
+ * monitor or a rotated capture would show it.
+ */
+function warpedRaster(
+  tileSize: number,
+  scale: number,
+  [a, b, c, d]: readonly number[],
+  width: number,
+  height: number,
+): Uint8Array {
+  const tile = generatePatternRgba(createPatternPayload(TARGET), tileSize, 0.16)
+  const at = (x: number, y: number, channel: number) =>
+    tile[((((y % tileSize) + tileSize) % tileSize) * tileSize +
+      (((x % tileSize) + tileSize) % tileSize)) * 4 + channel]
+  const determinant = a * d - b * c
+  const data = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offsetX = x - width / 2
+      const offsetY = y - height / 2
+      const sourceX = (d * offsetX - b * offsetY) / determinant / scale - 0.5
+      const sourceY = (-c * offsetX + a * offsetY) / determinant / scale - 0.5
+      const x0 = Math.floor(sourceX)
+      const y0 = Math.floor(sourceY)
+      const wx = sourceX - x0
+      const wy = sourceY - y0
+      const target = (y * width + x) * 4
+      for (let channel = 0; channel < 3; channel += 1) {
+        const value =
+          (at(x0, y0, channel) * (1 - wx) + at(x0 + 1, y0, channel) * wx) * (1 - wy) +
+          (at(x0, y0 + 1, channel) * (1 - wx) + at(x0 + 1, y0 + 1, channel) * wx) * wy
+        data[target + channel] = Math.round(value * 0.3 + 220 * 0.7)
+      }
+      data[target + 3] = 255
+    }
+  }
+  return data
+}
+
+function rotation(degrees: number): number[] {
+  const radians = (degrees * Math.PI) / 180
+  return [Math.cos(radians), -Math.sin(radians), Math.sin(radians), Math.cos(radians)]
+}
+
+describe('carrier transforms', () => {
+  it('estimates the rotation and period of a rotated carrier', () => {
+    const [best] = surveyCarrierTransforms(warpedRaster(64, 1.5, rotation(12), 512, 512), 512, 512)
+
+    expect(best.transform.rotation).toBeCloseTo(12, 0)
+    expect(best.period).toBeCloseTo(96, 0)
+    expect(best.blocks).toBeGreaterThanOrEqual(4)
+  })
+
+  it('recovers a sheared tile and keeps the rotation within a quarter turn', () => {
+    const sheared = [1, 0.2, 0, 1]
+    const [best] = surveyCarrierTransforms(warpedRaster(64, 1, sheared, 512, 512), 512, 512)
+    best.transform.matrix.forEach((value, index) => expect(value).toBeCloseTo(sheared[index], 1))
+
+    // A carrier turned by 170° fits as one turned by -10°, its half-turn.
+    const [turned] = surveyCarrierTransforms(
+      warpedRaster(64, 1, rotation(170), 512, 512),
+      512,
+      512,
+    )
+    expect(turned.transform.rotation).toBeCloseTo(-10, 0)
+  })
+
+  it('rectifies each distorted region both ways up', () => {
+    const data = warpedRaster(64, 1, rotation(-20), 384, 320)
+    const copies = [...rectifyDistortedRegions(data, 384, 320)]
+
+    expect(copies.map((copy) => Math.round(copy.transform.rotation))).toEqual([-20, 160])
+    for (const copy of copies) {
+      expect(copy.toScreenshot({ x: 0, y: 0, width: copy.width, height: copy.height })).toEqual({
+        x: 0,
+        y: 0,
+        width: 384,
+        height: 320,
+      })
+    }
+    expect([
+      ...rectifyDistortedRegions(new Uint8Array(128 * 128 * 4).fill(200), 128, 128),
+    ]).toEqual([])
+    expect(() => surveyCarrierTransforms(new Uint8Array(16), 4, 4)).toThrow(/smaller than/)
+  })
+})
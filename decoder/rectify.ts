@@ -0,0 +1,450 @@
+import type { PixelRegion } from '../src/pattern.js'
+import { powerSpectrum } from './fft.js'
+import { blockOrigins, renderedCycles, windowedChroma } from './spectrum.js'
+
+/**
+ * Blocks a transform survey analyses; small enough that each stays close to
+ * affine under moderate perspective.
+ */
+const TRANSFORM_BLOCK_SIZE = 256
+const MAX_TRANSFORM_BLOCKS = 48
+const MIN_BLOCK_SIZE = 64
+/** Bins around the spectrum origin that window leakage keeps close to the mean. */
+const MIN_PEAK_BIN = 2
+/** Power a peak needs over the median of the half-plane. */
+const MIN_PEAK_PROMINENCE = 25
+/**
+ * Power a peak needs over the spectrum three bins away in every direction.
+ * A windowed sinusoid falls off by about a thousand there, while the spectrum
+ * of a straight edge is a line that barely changes along its length.
+ */
+const MIN_PEAK_ISOLATION = 10
+const ISOLATION_DISTANCE = 3
+/** Strongest peaks tried as the three sinusoids of a carrier. */
+const MAX_PEAKS = 5
+/** Largest rms distance, in bins, between the peaks and a fitted carrier. */
+const MAX_FIT_ERROR = 0.5
+/** Transforms whose matrices differ by at most this in every entry are merged. */
+const TRANSFORM_CLUSTER_TOLERANCE = 0.03
+/**
+ * Largest ratio between the stretch of the two tile axes. Steeper views leave
+ * too few pixels per cycle to correlate, and such fits are usually spurious.
+ */
+const MAX_ANISOTROPY = 4
+const MAX_RECTIFIED_REGIONS = 4
+const MAX_RECTIFIED_PIXELS = 25_000_000
+
+/**
+ * Linear distortion of a version 1 carrier in a screenshot, apart from its
+ * scale: rotation, shear, and unequal scaling of the tile axes.
+ */
+export interface CarrierTransform {
+  /** Clockwise angle of the tile's x axis in the screenshot, in degrees. */
+  rotation: number
+  /**
+   * `[a, b, c, d]` maps a tile offset (u, v) to the screenshot offset
+   * (a u + b v, c u + d v); the determinant is 1, so together with a match's
+   * `scale` it maps 1× tile pixels to screenshot pixels.
+   */
+  matrix: [number, number, number, number]
+}
+
+/** Screenshot blocks that agree on how their carriers are distorted. */
+export interface TransformedRegion {
+  /** Union of the agreeing blocks. */
+  region: PixelRegion
+  transform: CarrierTransform
+  /**
+   * Median tile edge of the fitted carriers along the tile axes, in
+   * screenshot pixels. A carrier whose frequencies share a factor may fit at
+   * a fraction of its true tile.
+   */
+  period: number
+  blocks: number
+}
+
+/** An upright copy of a screenshot region, sampled along a carrier transform. */
+export interface RectifiedRaster {
+  data: Uint8Array
+  width: number
+  height: number
+  transform: CarrierTransform
+  /** Screenshot bounding box of a rectangle in the rectified raster. */
+  toScreenshot(region: PixelRegion): PixelRegion
+}
+
+interface Peak {
+  x: number
+  y: number
+  power: number
+}
+
+type Matrix = [number, number, number, number]
+
+/**
+ * Isolated peaks in the upper half-plane of a power spectrum, strongest
+ * first, as cycles per pixel. The lower half mirrors it for real input.
+ */
+function findPeaks(power: Float64Array, size: number): Peak[] {
+  const half = size / 2
+  const at = (x: number, y: number) => power[((y + size) % size) * size + ((x + size) % size)]
+  const values: number[] = []
+  const candidates: Peak[] = []
+  for (let y = 0; y < half; y += 1) {
+    for (let x = y === 0 ? 1 : 1 - half; x < half; x += 1) {
+      if (Math.max(Math.abs(x), y) < MIN_PEAK_BIN) continue
+      const value = at(x, y)
+      values.push(value)
+      let isPeak = value > 0
+      for (let dy = -1; dy <= 1 && isPeak; dy += 1) {
+        for (let dx = -1; dx <= 1 && isPeak; dx += 1) {
+          if (dx === 0 && dy === 0) continue
+          if (at(x + dx, y + dy) >= value) isPeak = false
+          const ring = at(x + dx * ISOLATION_DISTANCE, y + dy * ISOLATION_DISTANCE)
+          if (ring * MIN_PEAK_ISOLATION > value) isPeak = false
+        }
+      }
+      if (!isPeak) continue
+      // Refine to a fraction of a bin with a parabola through the log power.
+      const offset = (before: number, after: number) => {
+        if (!(before > 0 && after > 0)) return 0
+        const curvature = Math.log(before) - 2 * Math.log(value) + Math.log(after)
+        return curvature < 0
+          ? Math.max(-0.5, Math.min(0.5, (0.5 * Math.log(before / after)) / curvature))
+          : 0
+      }
+      candidates.push({
+        x: (x + offset(at(x - 1, y), at(x + 1, y))) / size,
+        y: (y + offset(at(x, y - 1), at(x, y + 1))) / size,
+        power: value,
+      })
+    }
+  }
+  const median = Float64Array.from(values).sort()[Math.floor(values.length / 2)]
+  return candidates
+    .filter((peak) => median === 0 || peak.power / median >= MIN_PEAK_PROMINENCE)
+    .sort((first, second) => second.power - first.power)
+    .slice(0, MAX_PEAKS)
+}
+
+/**
+ * Tile axes, as screenshot vectors, of the carrier that best explains three
+ * of the peaks. In tile coordinates the sinusoids are (h, 0), (0, v), and
+ * (d, d) cycles per tile; an affine map sends them through the inverse
+ * transpose of its matrix, so each assignment of peaks to sinusoids and
+ * choice of signature is a small least-squares fit. The strongest triple
+ * that fits wins, and the orientation must be preserved: a photo or a
+ * rotated paste does not mirror the page.
+ */
+function fitCarrierAxes(peaks: readonly Peak[], size: number): Matrix | null {
+  const horizontal = renderedCycles('horizontal')
+  const vertical = renderedCycles('vertical')
+  const diagonal = renderedCycles('diagonal')
+  let best: { matrix: Matrix; weakest: number; shear: number } | undefined
+  for (let first = 0; first < peaks.length; first += 1) {
+    for (let second = 0; second < peaks.length; second += 1) {
+      for (let third = 0; third < peaks.length; third += 1) {
+        if (first === second || first === third || second === third) continue
+        const weakest = Math.min(peaks[first].power, peaks[second].power, peaks[third].power)
+        if (best && weakest < best.weakest) continue
+        // The first peak fixes the overall sign; the transform is only known up to it.
+        for (const secondSign of [1, -1]) {
+          for (const thirdSign of [1, -1]) {
+            const hx = peaks[first].x
+            const hy = peaks[first].y
+            const vx = peaks[second].x * secondSign
+            const vy = peaks[second].y * secondSign
+            const dx = peaks[third].x * thirdSign
+            const dy = peaks[third].y * thirdSign
+            for (const h of horizontal) {
+              for (const v of vertical) {
+                for (const d of diagonal) {
+                  // Normal equations of h·b1 = H, v·b2 = V, d·(b1 + b2) = D per coordinate.
+                  const d2 = d * d
+                  const determinant = h * h * v * v + h * h * d2 + v * v * d2
+                  const solve = (hp: number, vp: number, dp: number) => {
+                    const alongH = h * hp + d * dp
+                    const alongV = v * vp + d * dp
+                    return [
+                      ((v * v + d2) * alongH - d2 * alongV) / determinant,
+                      ((h * h + d2) * alongV - d2 * alongH) / determinant,
+                    ]
+                  }
+                  const [b1x, b2x] = solve(hx, vx, dx)
+                  const [b1y, b2y] = solve(hy, vy, dy)
+                  // Rows b1 and b2 map screenshot offsets to tile periods.
+                  const orientation = b1x * b2y - b1y * b2x
+                  if (orientation <= 0) continue
+                  const residual =
+                    (h * b1x - hx) ** 2 +
+                    (h * b1y - hy) ** 2 +
+                    (v * b2x - vx) ** 2 +
+                    (v * b2y - vy) ** 2 +
+                    (d * (b1x + b2x) - dx) ** 2 +
+                    (d * (b1y + b2y) - dy) ** 2
+                  if (Math.sqrt(residual / 3) * size > MAX_FIT_ERROR) continue
+                  // Other bases of the same tile lattice fit as well; the one
+                  // closest to a rotation, with the least shear, is the page's.
+                  const shear =
+                    (b1x * b1x + b1y * b1y + b2x * b2x + b2y * b2y) / orientation
+                  if (best && weakest === best.weakest && shear >= best.shear) continue
+                  // Invert to get the screenshot vectors of one tile period.
+                  best = {
+                    matrix: [
+                      b2y / orientation,
+                      -b1y / orientation,
+                      -b2x / orientation,
+                      b1x / orientation,
+                    ],
+                    weakest,
+                    shear,
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  return best?.matrix ?? null
+}
+
+/**
+ * Scale a tile-period matrix to determinant 1 and pick the sign that keeps
+ * the rotation within a quarter turn; a carrier looks the same either way.
+ */
+function normalizeTransform(matrix: Matrix): CarrierTransform {
+  const period = Math.sqrt(matrix[0] * matrix[3] - matrix[1] * matrix[2])
+  const sign = matrix[0] > 0 || (matrix[0] === 0 && matrix[2] > 0) ? 1 : -1
+  const normalized = matrix.map((value) => (value * sign) / period) as Matrix
+  return {
+    rotation: (Math.atan2(normalized[2], normalized[0]) * 180) / Math.PI,
+    matrix: normalized,
+  }
+}
+
+function rotateHalfTurn(transform: CarrierTransform): CarrierTransform {
+  return {
+    rotation: transform.rotation > 0 ? transform.rotation - 180 : transform.rotation + 180,
+    matrix: transform.matrix.map((value) => -value) as Matrix,
+  }
+}
+
+/**
+ * Estimate how the version 1 carriers of a screenshot are rotated, sheared,
+ * or unevenly scaled, such as in a phone photo of a monitor. Each block's
+ * chroma spectrum gives a local affine fit, and blocks whose fits agree are
+ * merged into one region with their averaged affine, most supported first.
+ * No homography is fitted: perspective only shows as neighbouring regions
+ * with different affines. Version 2 carriers have no sinusoids to fit.
+ */
+export function surveyCarrierTransforms(
+  data: Uint8Array,
+  width: number,
+  height: number,
+): TransformedRegion[] {
+  if (!Number.isSafeInteger(width) || !Number.isSafeInteger(height) || width <= 0 || height <= 0) {
+    throw new RangeError('Image dimensions must be positive safe integers')
+  }
+  if (data.length < width * height * 4) {
+    throw new RangeError('Pixel buffer is smaller than the declared image dimensions')
+  }
+  const blockWidth = Math.min(width, TRANSFORM_BLOCK_SIZE)
+  const blockHeight = Math.min(height, TRANSFORM_BLOCK_SIZE)
+  if (blockWidth < MIN_BLOCK_SIZE || blockHeight < MIN_BLOCK_SIZE) return []
+  let columns = Math.ceil(width / blockWidth)
+  let rows = Math.ceil(height / blockHeight)
+  while (columns * rows > MAX_TRANSFORM_BLOCKS) {
+    if (columns >= rows) columns -= 1
+    else rows -= 1
+  }
+  let size = MIN_BLOCK_SIZE
+  while (size < Math.max(blockWidth, blockHeight)) size *= 2
+
+  const clusters: (TransformedRegion & { total: Matrix; periods: number[] })[] = []
+  for (const y of blockOrigins(height, blockHeight, rows)) {
+    for (const x of blockOrigins(width, blockWidth, columns)) {
+      const region = { x, y, width: blockWidth, height: blockHeight }
+      const power = powerSpectrum(windowedChroma(data, width, region, size), size)
+      const matrix = fitCarrierAxes(findPeaks(power, size), size)
+      if (!matrix) continue
+      const transform = normalizeTransform(matrix)
+      const period = Math.sqrt(matrix[0] * matrix[3] - matrix[1] * matrix[2])
+      // With determinant 1, the squared norm is r + 1/r for an anisotropy of r.
+      const norm = transform.matrix.reduce((total, value) => total + value * value, 0)
+      if (norm > MAX_ANISOTROPY + 1 / MAX_ANISOTROPY) continue
+      const cluster = clusters.find((candidate) =>
+        candidate.transform.matrix.every(
+          (value, index) =>
+            Math.abs(value - transform.matrix[index]) <= TRANSFORM_CLUSTER_TOLERANCE,
+        ),
+      )
+      if (!cluster) {
+        clusters.push({
+          region,
+          transform,
+          period,
+          blocks: 1,
+          total: [...transform.matrix],
+          periods: [period],
+        })
+        continue
+      }
+      const right = Math.max(cluster.region.x + cluster.region.width, x + blockWidth)
+      const bottom = Math.max(cluster.region.y + cluster.region.height, y + blockHeight)
+      cluster.region.x = Math.min(cluster.region.x, x)
+      cluster.region.y = Math.min(cluster.region.y, y)
+      cluster.region.width = right - cluster.region.x
+      cluster.region.height = bottom - cluster.region.y
+      cluster.blocks += 1
+      transform.matrix.forEach((value, index) => (cluster.total[index] += value))
+      cluster.transform = normalizeTransform(cluster.total)
+      cluster.periods.push(period)
+    }
+  }
+  return clusters
+    .map(({ region, transform, periods, blocks }) => ({
+      region,
+      transform,
+      period: periods.sort((first, second) => first - second)[Math.floor(periods.length / 2)],
+      blocks,
+    }))
+    .sort((first, second) => second.blocks - first.blocks)
+}
+
+/**
+ * Catmull-Rom weights of the four samples around a point `t` past the
+ * second. Bilinear sampling would soften the carrier's finest sinusoid by
+ * about a fifth on each axis, on top of whatever the capture already lost.
+ */
+function cubicWeights(t: number, weights: Float64Array): void {
+  const t2 = t * t
+  const t3 = t2 * t
+  weights[0] = (-t3 + 2 * t2 - t) / 2
+  weights[1] = (3 * t3 - 5 * t2 + 2) / 2
+  weights[2] = (-3 * t3 + 4 * t2 + t) / 2
+  weights[3] = (t3 - t2) / 2
+}
+
+/**
+ * Resample a screenshot region so the carrier's tile axes run along the
+ * raster's. The raster keeps about one pixel per screenshot pixel, stretched
+ * just enough to give the fitted period a whole number of pixels: tiles that
+ * drift by a fraction of a pixel each stop correlating a few tiles out. The
+ * region grows by half a block so tags at its edge keep whole tiles; samples
+ * that fall outside the screenshot are white.
+ */
+export function rectifyRegion(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  { region, transform, period }: TransformedRegion,
+): RectifiedRaster {
+  const margin = TRANSFORM_BLOCK_SIZE / 2
+  const left = Math.max(0, region.x - margin)
+  const top = Math.max(0, region.y - margin)
+  const right = Math.min(width, region.x + region.width + margin)
+  const bottom = Math.min(height, region.y + region.height + margin)
+  const centerX = (left + right) / 2
+  const centerY = (top + bottom) / 2
+  const stretch = Math.max(1, Math.round(period)) / period
+  // The inverse of a determinant-1 matrix is its adjugate.
+  const [a, b, c, d] = transform.matrix
+  const toRaster = (x: number, y: number): [number, number] => [
+    (d * (x - centerX) - b * (y - centerY)) * stretch,
+    (-c * (x - centerX) + a * (y - centerY)) * stretch,
+  ]
+  const corners = [
+    toRaster(left, top),
+    toRaster(right, top),
+    toRaster(left, bottom),
+    toRaster(right, bottom),
+  ]
+  const halfWidth = Math.max(...corners.map(([x]) => Math.abs(x)))
+  const halfHeight = Math.max(...corners.map(([, y]) => Math.abs(y)))
+  const rasterWidth = Math.ceil(halfWidth * 2)
+  const rasterHeight = Math.ceil(halfHeight * 2)
+  if (rasterWidth * rasterHeight > MAX_RECTIFIED_PIXELS) {
+    throw new RangeError('Rectified region exceeds the decoder pixel limit')
+  }
+
+  const toScreenshotPoint = (x: number, y: number): [number, number] => [
+    centerX + (a * (x - rasterWidth / 2) + b * (y - rasterHeight / 2)) / stretch,
+    centerY + (c * (x - rasterWidth / 2) + d * (y - rasterHeight / 2)) / stretch,
+  ]
+  const rectified = new Uint8Array(rasterWidth * rasterHeight * 4).fill(255)
+  const columnWeights = new Float64Array(4)
+  const rowWeights = new Float64Array(4)
+  for (let y = 0; y < rasterHeight; y += 1) {
+    for (let x = 0; x < rasterWidth; x += 1) {
+      const [sourceX, sourceY] = toScreenshotPoint(x + 0.5, y + 0.5)
+      const fx = sourceX - 0.5
+      const fy = sourceY - 0.5
+      const x0 = Math.floor(fx)
+      const y0 = Math.floor(fy)
+      if (x0 < 1 || y0 < 1 || x0 + 2 >= width || y0 + 2 >= height) continue
+      cubicWeights(fx - x0, columnWeights)
+      cubicWeights(fy - y0, rowWeights)
+      const target = (y * rasterWidth + x) * 4
+      for (let channel = 0; channel < 3; channel += 1) {
+        let value = 0
+        for (let row = 0; row < 4; row += 1) {
+          let offset = ((y0 - 1 + row) * width + x0 - 1) * 4 + channel
+          let sum = 0
+          for (let column = 0; column < 4; column += 1, offset += 4) {
+            sum += data[offset] * columnWeights[column]
+          }
+          value += sum * rowWeights[row]
+        }
+        rectified[target + channel] = Math.min(255, Math.max(0, Math.round(value)))
+      }
+    }
+  }
+
+  return {
+    data: rectified,
+    width: rasterWidth,
+    height: rasterHeight,
+    transform,
+    toScreenshot(box) {
+      const points = [
+        toScreenshotPoint(box.x, box.y),
+        toScreenshotPoint(box.x + box.width, box.y),
+        toScreenshotPoint(box.x, box.y + box.height),
+        toScreenshotPoint(box.x + box.width, box.y + box.height),
+      ]
+      const clamp = (value: number, limit: number) => Math.min(limit, Math.max(0, value))
+      const x = clamp(Math.floor(Math.min(...points.map(([px]) => px))), width)
+      const y = clamp(Math.floor(Math.min(...points.map(([, py]) => py))), height)
+      const right = clamp(Math.ceil(Math.max(...points.map(([px]) => px))), width)
+      const bottom = clamp(Math.ceil(Math.max(...points.map(([, py]) => py))), height)
+      return { x, y, width: Math.max(0, right - x), height: Math.max(0, bottom - y) }
+    },
+  }
+}
+
+/**
+ * Upright copies of every region of a screenshot with a version 1 carrier,
+ * best supported first. The spectrum cannot tell a carrier from its
+ * half-turn, so each region is rectified both ways; regions that are already
+ * upright are copied too, since the copies are correlated at every offset.
+ * Each copy is resampled only when it is requested, so a caller that scans
+ * one before asking for the next holds a single copy at a time.
+ */
+export function* rectifyDistortedRegions(
+  data: Uint8Array,
+  width: number,
+  height: number,
+): Generator<RectifiedRaster> {
+  for (const distorted of surveyCarrierTransforms(data, width, height).slice(
+    0,
+    MAX_RECTIFIED_REGIONS,
+  )) {
+    yield rectifyRegion(data, width, height, distorted)
+    yield rectifyRegion(data, width, height, {
+      ...distorted,
+      transform: rotateHalfTurn(distorted.transform),
+    })
+  }
+}
@@ -0,0 +1,1527 @@
+import {
+  DEFAULT_INTENSITY,
+  DEFAULT_PATTERN_SIZE,
+  HIERARCHY_SCORE_MARGIN,
+  PATTERN_VERSIONS,
+  createComponentId,
+  createPatternPayload,
+  defaultPatternVersions,
+  despreadPayloadTile,
+  generatePattern,
+  generatePayloadPilotPattern,
+  isPatternVersion,
+  rankByHierarchy,
+  refinePatternRegion,
+  resolvePatternSize,
+  type ComponentDescriptor,
+  type PatternMatrix,
+  type PatternVersion,
+  type PixelRegion,
+} from '../src/pattern.js'
+import {
+  SCORING_MODES,
+  countWindowSamples,
+  isScoringMode,
+  scoreWindow,
+  type ScoringMode,
+} from '../src/scoring.js'
+import {
+  createCarrierGroupDetector,
+  createCarrierIndex,
+  estimateDetectorSamples,
+  type CarrierIndex,
+} from './carrier-index.js'
+import {
+  correlatePatternsSpectral,
+  estimateSpectralCost,
+  planCorrelation,
+} from './fft.js'
+import {
+  rectifyDistortedRegions,
+  type CarrierTransform,
+  type RectifiedRaster,
+} from './rectify.js'
+import {
+  groupCarrierPeriods,
+  selectSpectralCandidates,
+  surveyCarrierSpectra,
+  type CarrierSpectrum,
+} from './spectrum.js'
+
+export const MAX_IMAGE_PIXELS = 25_000_000
+const MAX_REGISTRY_ENTRIES = 65_536
+/**
+ * Tile-size groups with more carrier entries than this are decoded through the
+ * carrier index; smaller ones are correlated in full, as they always were.
+ */
+const INDEXED_DECODE_MIN_ENTRIES = 512
+const MAX_RELEASES = 16
+const MAX_SCALES = 4
+const MIN_SCALE = 0.25
+const MAX_SCALE = 4
+/** Scales scanned when nothing better is known: standard and high-density displays. */
+const DEFAULT_SCALES = [1, 2]
+/** Surveyed carrier periods an automatic scan follows, best supported first. */
+const MAX_AUTO_PERIODS = 2
+/** Relative error of a surveyed period; auto mode scans every tile size within it. */
+const AUTO_PERIOD_TOLERANCE = 0.005
+const MAX_PATTERN_SAMPLES = 4_000_000
+const MAX_CACHED_PATTERN_SAMPLES = 4 * MAX_PATTERN_SAMPLES
+/**
+ * Computation budgets. V8 runs about 1.5e8 direct window samples, or FFT
+ * sample·log2 units, per second, so each caps a scan at a few seconds.
+ */
+const MAX_CORRELATION_SAMPLES = 500_000_000
+const MAX_SPECTRAL_SAMPLES = 1_000_000_000
+const MAX_PAYLOAD_CANDIDATES = 64
+/** Score a half-turned rectified reading must add to beat an upright one. */
+const HALF_TURN_MARGIN = 0.05
+const DEFAULT_PAYLOAD_PATTERN_SIZES = [16, 32, 64]
+
+export interface RegistryEntry extends ComponentDescriptor {
+  pattern: PatternMatrix
+  patternVersion: PatternVersion
+}
+
+export interface ScanResult extends ComponentDescriptor {
+  /**
+   * Best window correlation with the carrier. Seeded carriers hold no code to
+   * repair, so unlike `PayloadResult` there is no `correctedSymbols` count:
+   * a wrong embedding simply scores low.
+   */
+  score: number
+  count: number
+  tileSize: number
+  /**
+   * Estimated extent of the tagged region: the union of one connected cluster
+   * of matching windows, snapped to pixel edges using the phase of its
+   * best-scoring tile. Separate instances of a tag are separate results.
+   */
+  region: PixelRegion
+  /** Screenshot scale the tile size was found at; set by `decodePixels`. */
+  scale?: number
+  /**
+   * Rotation and distortion the match was rectified with, when it was found
+   * by a `rectify` decode; `region` is then its bounding box.
+   */
+  transform?: CarrierTransform
+  /**
+   * Releases whose codebook contains the matched embedding, in the order
+   * they were passed. Only set when decoding against `ReleaseRegistry` lists.
+   */
+  releases?: string[]
+}
+
+/** One codebook among several, such as one per deployed release. */
+export interface ReleaseRegistry {
+  /** Label reported in `releases` for matches this codebook contains. */
+  release: string
+  components: ComponentDescriptor[]
+}
+
+/** A single codebook, or release codebooks to correlate against together. */
+export type DecodeRegistry = ComponentDescriptor[] | readonly ReleaseRegistry[]
+
+/**
+ * Thrown when a scan or registry would exceed the decoder's computation or
+ * memory budget. Callers can retry with a coarser step or fewer scales.
+ */
+export class DecodeBudgetError extends RangeError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DecodeBudgetError'
+  }
+}
+
+interface TileMatch {
+  result: ScanResult
+  entry: RegistryEntry
+  /** Top-left of the best-scoring window, which fixes the tiling phase. */
+  anchorX: number
+  anchorY: number
+  /** Tile-size grid cells holding this cluster's windows. */
+  cells: string[]
+}
+
+/** Above-threshold windows of one embedding, clustered by connectivity. */
+interface EmbeddingTiles {
+  clusters: Set<TileMatch>
+  /** Cluster of each occupied tile-size grid cell, keyed `column,row`. */
+  owners: Map<string, TileMatch>
+}
+
+/**
+ * `direct` correlates each stepped window in the pixel domain. `fft` scores
+ * every pixel offset at once in the frequency domain, which makes small steps
+ * affordable. `auto` picks whichever is cheaper for the image and step.
+ */
+export type CorrelationMethod = 'auto' | 'direct' | 'fft'
+
+export interface ScanOptions {
+  threshold?: number
+  step?: number
+  correlation?: CorrelationMethod
+  /**
+   * How each window is scored; defaults to `'plain'`. `'robust'` recovers tags
+   * under text and avatars, but only the direct engine can score it.
+   */
+  scoring?: ScoringMode
+}
+
+export interface DecodeOptions extends ScanOptions {
+  patternSize?: number
+  intensity?: number
+  /**
+   * Screenshot scales to scan (device-pixel ratio times browser zoom), or
+   * `'auto'`, the default, to estimate them from the carrier period.
+   */
+  scales?: number[] | 'auto'
+  /**
+   * Also estimate rotation, shear, and uneven scale from version 1 carrier
+   * spectra, one affine map per region of agreeing blocks, and correlate
+   * upright copies of those regions. Meant for phone photos of screens and
+   * rotated pastes; off by default.
+   */
+  rectify?: boolean
+  /**
+   * Carrier revisions tried for descriptors that do not record one.
+   * Defaults to the current version alone, or to every known version when
+   * the codebook pins another one somewhere.
+   */
+  patternVersions?: PatternVersion[]
+}
+
+export interface PayloadResult {
+  /** 64-bit component id (16 hex digits) whose CRC-32 matched. */
+  componentId: string
+  /** Mean pilot correlation over the tiles that were combined. */
+  score: number
+  /**
+   * Bytes Reed–Solomon repaired before the CRC accepted the id. Tiles that
+   * cannot be repaired are dropped rather than reported with a guessed id.
+   */
+  correctedSymbols: number
+  count: number
+  tileSize: number
+  /** Registry descriptor with this id, when a registry was supplied. */
+  component?: ComponentDescriptor
+  /** Releases whose codebook has this id, when decoding against several. */
+  releases?: string[]
+}
+
+export interface PayloadScanOptions {
+  /** Minimum pilot correlation for a tile to be despread. */
+  threshold?: number
+}
+
+export interface PayloadDecodeOptions extends PayloadScanOptions {
+  /** 1× tile sizes to try, since payload tags carry no codebook. */
+  patternSizes?: number[]
+  scales?: number[]
+}
+
+export function assertRaster(
+  data: Uint8Array,
+  width: number,
+  height: number,
+): void {
+  if (!Number.isSafeInteger(width) || !Number.isSafeInteger(height) || width <= 0 || height <= 0) {
+    throw new RangeError('Image dimensions must be positive safe integers')
+  }
+
+  const pixelCount = width * height
+  if (pixelCount > MAX_IMAGE_PIXELS) {
+    throw new RangeError(`Image exceeds the ${MAX_IMAGE_PIXELS.toLocaleString()} pixel limit`)
+  }
+  if (data.length < pixelCount * 4) {
+    throw new RangeError('Pixel buffer is smaller than the declared image dimensions')
+  }
+}
+
+/** RGBA pixels, row by row, as decoded from a screenshot or read from a canvas. */
+export interface RasterImage {
+  width: number
+  height: number
+  data: Uint8Array
+}
+
+function assertScales(scales: readonly number[]): void {
+  if (scales.length > MAX_SCALES) {
+    throw new RangeError(`At most ${MAX_SCALES} screenshot scales can be checked at once`)
+  }
+  for (const scale of scales) {
+    if (!Number.isFinite(scale) || scale < MIN_SCALE || scale > MAX_SCALE) {
+      throw new RangeError(`Screenshot scales must be between ${MIN_SCALE} and ${MAX_SCALE}`)
+    }
+  }
+}
+
+/**
+ * Tile sizes for `scales: 'auto'`, in screenshot pixels: every whole size
+ * within the survey's precision of the best-supported carrier periods. Empty
+ * when no version 1 carrier shows.
+ */
+function estimateTileSizes(spectra: readonly CarrierSpectrum[]): number[] {
+  const periods = groupCarrierPeriods(spectra)
+  const tileSizes = new Set<number>()
+  for (const { period, blocks } of periods.slice(0, MAX_AUTO_PERIODS)) {
+    // A period only half as well supported as the best is another tag's alias.
+    if (blocks * 2 < periods[0].blocks) break
+    tileSizes.add(Math.round(period))
+    const low = Math.ceil(period * (1 - AUTO_PERIOD_TOLERANCE))
+    const high = period * (1 + AUTO_PERIOD_TOLERANCE)
+    for (let tileSize = low; tileSize <= high; tileSize += 1) tileSizes.add(tileSize)
+  }
+  return [...tileSizes]
+}
+
+/**
+ * Scales to scan one 1× tile size at for the surveyed tile sizes. The
+ * default scales are kept too, since version 2 carriers have no signature to
+ * survey, except on a rectified copy, which only holds the carriers it was
+ * rectified for.
+ */
+function autoScales(
+  tileSizes: readonly number[],
+  componentBase: number,
+  rectified: boolean,
+): number[] {
+  const estimated = tileSizes
+    .map((tileSize) => tileSize / componentBase)
+    .filter((scale) => scale >= MIN_SCALE && scale <= MAX_SCALE)
+  if (rectified) return estimated
+  const covered = new Set(estimated.map((scale) => Math.round(componentBase * scale)))
+  return [
+    ...estimated,
+    ...DEFAULT_SCALES.filter((scale) => !covered.has(Math.round(componentBase * scale))),
+  ]
+}
+
+/**
+ * Scales `scales: 'auto'` would scan each 1× tile size at in a screenshot,
+ * from one survey of its carrier spectra. A worker pool estimates them once
+ * and hands each shard concrete scales.
+ */
+export function estimateDecodeScales(
+  image: RasterImage,
+  patternSizes: Iterable<number>,
+): Map<number, number[]> {
+  const tileSizes = estimateTileSizes(surveyCarrierSpectra(image.data, image.width, image.height))
+  const scales = new Map<number, number[]>()
+  for (const componentBase of patternSizes) {
+    scales.set(componentBase, autoScales(tileSizes, componentBase, false))
+  }
+  return scales
+}
+
+export function assertComponents(components: ComponentDescriptor[]): void {
+  if (components.length > MAX_REGISTRY_ENTRIES) {
+    throw new RangeError(`Registry exceeds the ${MAX_REGISTRY_ENTRIES} component limit`)
+  }
+
+  const paths = new Set<string>()
+  for (const [index, component] of components.entries()) {
+    if (
+      typeof component.path !== 'string' ||
+      component.path.length === 0 ||
+      component.path.length > 512 ||
+      typeof component.type !== 'string' ||
+      component.type.length === 0 ||
+      component.type.length > 64 ||
+      !Number.isInteger(component.depth) ||
+      component.depth < 1 ||
+      component.depth > 255 ||
+      (component.source !== undefined &&
+        (typeof component.source !== 'object' ||
+          component.source === null ||
+          typeof component.source.file !== 'string' ||
+          component.source.file.length === 0 ||
+          component.source.file.length > 1024 ||
+          !Number.isInteger(component.source.line) ||
+          component.source.line < 1 ||
+          !Number.isInteger(component.source.column) ||
+          component.source.column < 1)) ||
+      (component.patternSize !== undefined &&
+        (!Number.isFinite(component.patternSize) ||
+          component.patternSize < 16 ||
+          component.patternSize > 256)) ||
+      (component.patternVersion !== undefined &&
+        !isPatternVersion(component.patternVersion))
+    ) {
+      throw new TypeError(`Invalid component descriptor at registry index ${index}`)
+    }
+    if (paths.has(component.path)) {
+      throw new TypeError(`Duplicate component path: ${component.path}`)
+    }
+    paths.add(component.path)
+  }
+}
+
+/** Carrier identity of a descriptor, ignoring its version and tile size. */
+function embeddingKey(component: ComponentDescriptor): string {
+  const { path, type, depth, source } = component
+  return createPatternPayload({ path, type, depth, source })
+}
+
+export interface CombinedRegistry {
+  /** Distinct embeddings to correlate against. */
+  components: ComponentDescriptor[]
+  /** Releases containing a match; undefined for a single codebook. */
+  releasesOf?: (match: ComponentDescriptor) => string[]
+}
+
+export function isReleaseList(registry: DecodeRegistry): registry is readonly ReleaseRegistry[] {
+  const [first] = registry
+  return first !== undefined && 'release' in first && 'components' in first
+}
+
+/**
+ * Validate each codebook and merge release codebooks into one list, keeping
+ * a single copy of each embedding so shared components are scanned once.
+ * Paths may repeat across releases when a component's source moved.
+ */
+export function combineRegistries(registry: DecodeRegistry): CombinedRegistry {
+  if (!isReleaseList(registry)) {
+    assertComponents(registry)
+    return { components: registry }
+  }
+  if (registry.length > MAX_RELEASES) {
+    throw new RangeError(`At most ${MAX_RELEASES} release registries can be decoded at once`)
+  }
+
+  const labels = new Set<string>()
+  const components = new Map<string, ComponentDescriptor>()
+  // Keyed by embedding and pinned version (`*` when unpinned), and by embedding alone.
+  const releases = new Map<string, Set<number>>()
+  const addRelease = (key: string, index: number): void => {
+    const indices = releases.get(key)
+    if (indices) indices.add(index)
+    else releases.set(key, new Set([index]))
+  }
+  for (const [index, { release, components: descriptors }] of registry.entries()) {
+    if (typeof release !== 'string' || release.length === 0 || labels.has(release)) {
+      throw new TypeError(`Release registry ${index} needs a unique, non-empty release label`)
+    }
+    labels.add(release)
+    assertComponents(descriptors)
+    for (const component of descriptors) {
+      const embedding = embeddingKey(component)
+      const key = `${embedding}\u0000${component.patternVersion ?? '*'}`
+      const sizedKey = `${key}\u0000${component.patternSize ?? ''}`
+      if (!components.has(sizedKey)) components.set(sizedKey, component)
+      addRelease(key, index)
+      addRelease(embedding, index)
+    }
+  }
+
+  return {
+    components: [...components.values()],
+    // A match without a version (payload carrier) belongs to every release with its embedding.
+    releasesOf(match) {
+      const key = embeddingKey(match)
+      const indices = match.patternVersion === undefined
+        ? (releases.get(key) ?? new Set<number>())
+        : new Set([
+            ...(releases.get(`${key}\u0000${match.patternVersion}`) ?? []),
+            ...(releases.get(`${key}\u0000*`) ?? []),
+          ])
+      return [...indices].sort((first, second) => first - second).map((i) => registry[i].release)
+    },
+  }
+}
+
+function assertPatternVersions(versions: readonly PatternVersion[]): void {
+  if (versions.length === 0 || !versions.every(isPatternVersion)) {
+    throw new RangeError(
+      `Pattern versions must be a non-empty list drawn from ${PATTERN_VERSIONS.join(', ')}`,
+    )
+  }
+}
+
+/** Versions to correlate a descriptor against. */
+function componentVersions(
+  component: ComponentDescriptor,
+  versions: readonly PatternVersion[],
+): readonly PatternVersion[] {
+  return component.patternVersion === undefined ? versions : [component.patternVersion]
+}
+
+function countRegistryEntries(
+  components: ComponentDescriptor[],
+  versions: readonly PatternVersion[],
+): number {
+  return components.reduce(
+    (total, component) => total + componentVersions(component, versions).length,
+    0,
+  )
+}
+
+/**
+ * Generate codebook patterns. Descriptors that record a `patternVersion` get
+ * that carrier only; the rest get one entry per version in `versions`, which
+ * defaults as `DecodeOptions.patternVersions` does.
+ */
+export function buildRegistry(
+  components: ComponentDescriptor[],
+  patternSize = DEFAULT_PATTERN_SIZE,
+  intensity = DEFAULT_INTENSITY,
+  versions: readonly PatternVersion[] = defaultPatternVersions(components),
+): RegistryEntry[] {
+  assertComponents(components)
+  assertPatternVersions(versions)
+  return generateRegistryPatterns(components, patternSize, intensity, versions)
+}
+
+function generateRegistryPatterns(
+  components: ComponentDescriptor[],
+  patternSize: number,
+  intensity: number,
+  versions: readonly PatternVersion[],
+): RegistryEntry[] {
+  const sizes = components.map((component) =>
+    Math.min(512, Math.max(16, resolvePatternSize(component, patternSize))),
+  )
+  const sampleCount = components.reduce(
+    (total, component, index) =>
+      total + sizes[index] * sizes[index] * componentVersions(component, versions).length,
+    0,
+  )
+  if (sampleCount > MAX_PATTERN_SAMPLES) {
+    throw new DecodeBudgetError('Registry patterns exceed the decoder memory budget')
+  }
+  return components.flatMap((component, index) =>
+    componentVersions(component, versions).map((patternVersion) => ({
+      ...component,
+      patternVersion,
+      pattern: generatePattern(
+        createPatternPayload({ ...component, patternVersion }),
+        sizes[index],
+        intensity,
+        patternVersion,
+      ),
+    })),
+  )
+}
+
+function groupRegistryByTileSize(
+  registry: RegistryEntry[],
+): Map<number, RegistryEntry[]> {
+  const groups = new Map<number, RegistryEntry[]>()
+  for (const entry of registry) {
+    const tileSize = entry.pattern.length
+    const batch = groups.get(tileSize)
+    if (batch) batch.push(entry)
+    else groups.set(tileSize, [entry])
+  }
+  return groups
+}
+
+interface ScanCost {
+  method: Exclude<CorrelationMethod, 'auto'>
+  /** Fraction of the chosen method's computation budget the scan consumes. */
+  budgetShare: number
+}
+
+function assertScoringMode(scoring: ScoringMode, correlation: CorrelationMethod): void {
+  if (!isScoringMode(scoring)) {
+    throw new RangeError(`Scoring mode must be ${SCORING_MODES.join(' or ')}`)
+  }
+  if (scoring === 'robust' && correlation === 'fft') {
+    throw new RangeError('Robust scoring needs direct correlation')
+  }
+}
+
+/**
+ * Window step when none is set: half a tile, or an eighth for robust scoring,
+ * whose block scores fall off faster as a window slides out of phase.
+ */
+function defaultStep(tileSize: number, scoring: ScoringMode = 'plain'): number {
+  return scoring === 'robust' ? tileSize / 8 : tileSize / 2
+}
+
+/**
+ * Windows a robust scan adds per entry: a 1 px search around its best coarse
+ * window, then the tile lattice in phase with the polished one.
+ */
+function countRobustFollowUps(width: number, height: number, tileSize: number, step: number) {
+  const polish = step > 1 ? (2 * step - 1) ** 2 : 0
+  const lattice =
+    (Math.floor((width - tileSize) / tileSize) + 1) *
+    (Math.floor((height - tileSize) / tileSize) + 1)
+  return polish + lattice
+}
+
+function estimateScanCost(
+  width: number,
+  height: number,
+  tileSize: number,
+  step: number,
+  entryCount: number,
+  correlation: CorrelationMethod,
+  scoring: ScoringMode = 'plain',
+): ScanCost {
+  if (correlation !== 'auto' && correlation !== 'direct' && correlation !== 'fft') {
+    throw new RangeError('Correlation method must be auto, direct, or fft')
+  }
+  assertScoringMode(scoring, correlation)
+  const horizontalPositions = Math.floor((width - tileSize) / step) + 1
+  const verticalPositions = Math.floor((height - tileSize) / step) + 1
+  const windows = scoring === 'robust'
+    ? horizontalPositions * verticalPositions +
+      countRobustFollowUps(width, height, tileSize, step)
+    : horizontalPositions * verticalPositions
+  const directSamples = windows * entryCount * countWindowSamples(tileSize, { scoring })
+  const direct: ScanCost = {
+    method: 'direct',
+    budgetShare: directSamples / MAX_CORRELATION_SAMPLES,
+  }
+  // Block scores skip edges window by window, which has no spectral form.
+  if (correlation === 'direct' || scoring === 'robust') return direct
+
+  const spectralSamples = estimateSpectralCost(
+    planCorrelation(width, height, tileSize),
+    entryCount,
+  )
+  const spectral: ScanCost = {
+    method: 'fft',
+    budgetShare: spectralSamples / MAX_SPECTRAL_SAMPLES,
+  }
+  if (correlation === 'fft') return spectral
+  // One direct window sample costs about as much as one FFT sample·log2 unit
+  // on V8, so `auto` compares the raw counts.
+  return directSamples <= spectralSamples ? direct : spectral
+}
+
+function extendRegion(region: PixelRegion, other: PixelRegion): void {
+  const right = Math.max(region.x + region.width, other.x + other.width)
+  const bottom = Math.max(region.y + region.height, other.y + other.height)
+  region.x = Math.min(region.x, other.x)
+  region.y = Math.min(region.y, other.y)
+  region.width = right - region.x
+  region.height = bottom - region.y
+}
+
+/** Fold the smaller cluster into the larger and return the survivor. */
+function mergeClusters(tiles: EmbeddingTiles, first: TileMatch, second: TileMatch): TileMatch {
+  const [into, from] = first.cells.length >= second.cells.length
+    ? [first, second]
+    : [second, first]
+  extendRegion(into.result.region, from.result.region)
+  into.result.count += from.result.count
+  if (from.result.score > into.result.score) {
+    into.result.score = from.result.score
+    into.anchorX = from.anchorX
+    into.anchorY = from.anchorY
+  }
+  for (const cell of from.cells) {
+    tiles.owners.set(cell, into)
+    into.cells.push(cell)
+  }
+  tiles.clusters.delete(from)
+  return into
+}
+
+/**
+ * Add an above-threshold window to its embedding's clusters. Windows whose
+ * tile-size grid cells touch lie within a tile of each other and are taken
+ * as one tagged instance; separate instances of a tag keep separate regions.
+ */
+function recordMatch(
+  matches: Map<string, EmbeddingTiles>,
+  entry: RegistryEntry,
+  score: number,
+  tileSize: number,
+  x: number,
+  y: number,
+): void {
+  // Keep versions apart here; scanPixels keeps the best version per region.
+  const key = `${entry.patternVersion}\u0000${entry.path}`
+  let tiles = matches.get(key)
+  if (!tiles) {
+    tiles = { clusters: new Set(), owners: new Map() }
+    matches.set(key, tiles)
+  }
+
+  const column = Math.floor(x / tileSize)
+  const row = Math.floor(y / tileSize)
+  let cluster: TileMatch | undefined
+  for (let dy = -1; dy <= 1; dy += 1) {
+    for (let dx = -1; dx <= 1; dx += 1) {
+      const neighbour = tiles.owners.get(`${column + dx},${row + dy}`)
+      if (!neighbour || neighbour === cluster) continue
+      cluster = cluster ? mergeClusters(tiles, cluster, neighbour) : neighbour
+    }
+  }
+
+  const window = { x, y, width: tileSize, height: tileSize }
+  if (cluster) {
+    const { result } = cluster
+    extendRegion(result.region, window)
+    result.count += 1
+    if (score > result.score) {
+      result.score = score
+      cluster.anchorX = x
+      cluster.anchorY = y
+    }
+  } else {
+    cluster = {
+      result: {
+        path: entry.path,
+        type: entry.type,
+        depth: entry.depth,
+        source: entry.source,
+        patternVersion: entry.patternVersion,
+        score,
+        count: 1,
+        tileSize,
+        region: window,
+      },
+      entry,
+      anchorX: x,
+      anchorY: y,
+      cells: [],
+    }
+    tiles.clusters.add(cluster)
+  }
+
+  const cell = `${column},${row}`
+  if (!tiles.owners.has(cell)) {
+    tiles.owners.set(cell, cluster)
+    cluster.cells.push(cell)
+  }
+}
+
+function refineMatches(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  matches: Map<string, EmbeddingTiles>,
+): ScanResult[] {
+  const clusters = [...matches.values()].flatMap((tiles) => [...tiles.clusters])
+  return clusters.map(({ result, entry, anchorX, anchorY }) => {
+    const refined = refinePatternRegion(
+      data,
+      width,
+      height,
+      entry.pattern,
+      result.region,
+      anchorX,
+      anchorY,
+    )
+    // Snapping needs the carrier in phase along whole rows and columns. A
+    // match spans at least one tile, so a smaller result means distortion,
+    // such as perspective, defeated it; the union of windows stands instead.
+    const collapsed = refined.width < result.tileSize || refined.height < result.tileSize
+    return { ...result, region: collapsed ? result.region : refined }
+  })
+}
+
+function regionsOverlap(first: PixelRegion, second: PixelRegion): boolean {
+  return (
+    first.x < second.x + second.width &&
+    second.x < first.x + first.width &&
+    first.y < second.y + second.height &&
+    second.y < first.y + first.height
+  )
+}
+
+/**
+ * Keep the first result, in `preference` order, of each set of overlapping
+ * regions that share a key: one instance found several ways is reported
+ * once, while separate instances of one tag each keep a result.
+ */
+function keepBestPerRegion(
+  results: Iterable<ScanResult>,
+  keyOf: (result: ScanResult) => string,
+  preference: (first: ScanResult, second: ScanResult) => number,
+): ScanResult[] {
+  const kept = new Map<string, ScanResult[]>()
+  for (const result of [...results].sort(preference)) {
+    const key = keyOf(result)
+    const same = kept.get(key)
+    if (!same) kept.set(key, [result])
+    else if (!same.some((other) => regionsOverlap(other.region, result.region))) same.push(result)
+  }
+  return [...kept.values()].flat()
+}
+
+function scanUniformTileSize(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  registry: RegistryEntry[],
+  options: ScanOptions,
+): ScanResult[] {
+  const tileSize = registry[0]?.pattern.length ?? 0
+  if (tileSize === 0 || tileSize > 512 || width < tileSize || height < tileSize) {
+    return []
+  }
+
+  const requestedThreshold = options.threshold ?? 0.7
+  if (!Number.isFinite(requestedThreshold)) {
+    throw new RangeError('Scan threshold must be a finite number')
+  }
+  const threshold = Math.min(1, Math.max(-1, requestedThreshold))
+  const requestedStep = options.step ?? defaultStep(tileSize, options.scoring)
+  if (!Number.isFinite(requestedStep) || requestedStep <= 0) {
+    throw new RangeError('Scan step must be a positive finite number')
+  }
+  const step = Math.max(1, Math.round(requestedStep))
+  for (const entry of registry) {
+    if (entry.pattern.length !== tileSize) {
+      throw new TypeError('scanUniformTileSize requires a single tile size')
+    }
+  }
+  const cost = estimateScanCost(
+    width,
+    height,
+    tileSize,
+    step,
+    registry.length,
+    options.correlation ?? 'auto',
+    options.scoring,
+  )
+  if (cost.budgetShare > 1) {
+    throw new DecodeBudgetError(
+      'Scan exceeds the decoder computation budget; increase step or narrow the registry',
+    )
+  }
+  const matches = new Map<string, EmbeddingTiles>()
+
+  if (cost.method === 'fft') {
+    correlatePatternsSpectral(
+      data,
+      width,
+      height,
+      registry.map((entry) => entry.pattern),
+      (index, scores, plan) => {
+        for (let y = 0; y < plan.outputHeight; y += step) {
+          for (let x = 0; x < plan.outputWidth; x += step) {
+            const score = scores[y * plan.outputWidth + x]
+            if (score >= threshold) {
+              recordMatch(matches, registry[index], score, tileSize, x, y)
+            }
+          }
+        }
+      },
+    )
+    return refineMatches(data, width, height, matches)
+  }
+
+  const scoring = { scoring: options.scoring }
+  const best = registry.map(() => ({ score: Number.NEGATIVE_INFINITY, x: 0, y: 0 }))
+  for (let y = 0; y <= height - tileSize; y += step) {
+    for (let x = 0; x <= width - tileSize; x += step) {
+      for (const [index, entry] of registry.entries()) {
+        const score = scoreWindow(data, width, x, y, entry.pattern, scoring)
+        if (score >= threshold) recordMatch(matches, entry, score, tileSize, x, y)
+        if (score > best[index].score) best[index] = { score, x, y }
+      }
+    }
+  }
+
+  if (options.scoring === 'robust') {
+    for (const [index, entry] of registry.entries()) {
+      lockRobustPhase(data, width, height, entry, best[index], step, threshold, matches)
+    }
+  }
+
+  return refineMatches(data, width, height, matches)
+}
+
+/**
+ * A coarse robust scan only lands near a carrier's phase, and a busy crop
+ * may show it nowhere else. Search 1 px offsets around the entry's best
+ * window, and when that clears the threshold, score every window of the tile
+ * lattice in phase with it so the match spans the tagged region.
+ */
+function lockRobustPhase(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  entry: RegistryEntry,
+  coarse: { score: number; x: number; y: number },
+  step: number,
+  threshold: number,
+  matches: Map<string, EmbeddingTiles>,
+): void {
+  const tileSize = entry.pattern.length
+  const scoring = { scoring: 'robust' as const }
+  let { score: bestScore, x: bestX, y: bestY } = coarse
+  for (let y = Math.max(0, coarse.y - step + 1); y < coarse.y + step; y += 1) {
+    if (y > height - tileSize) break
+    for (let x = Math.max(0, coarse.x - step + 1); x < coarse.x + step; x += 1) {
+      if (x > width - tileSize) break
+      const score = scoreWindow(data, width, x, y, entry.pattern, scoring)
+      if (score > bestScore) {
+        bestScore = score
+        bestX = x
+        bestY = y
+      }
+    }
+  }
+  if (bestScore < threshold) return
+
+  // Windows on the coarse grid were recorded by the coarse scan already.
+  const coarseWindow = (x: number, y: number) => x % step === 0 && y % step === 0
+  if (!coarseWindow(bestX, bestY)) recordMatch(matches, entry, bestScore, tileSize, bestX, bestY)
+  for (let y = bestY % tileSize; y <= height - tileSize; y += tileSize) {
+    for (let x = bestX % tileSize; x <= width - tileSize; x += tileSize) {
+      if ((x === bestX && y === bestY) || coarseWindow(x, y)) continue
+      const score = scoreWindow(data, width, x, y, entry.pattern, scoring)
+      if (score >= threshold) recordMatch(matches, entry, score, tileSize, x, y)
+    }
+  }
+}
+
+export function scanPixels(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  registry: RegistryEntry[],
+  options: ScanOptions = {},
+): ScanResult[] {
+  if (registry.length === 0 || width <= 0 || height <= 0) return []
+  assertRaster(data, width, height)
+  if (registry.length > MAX_REGISTRY_ENTRIES * PATTERN_VERSIONS.length) {
+    throw new RangeError(`Registry exceeds the ${MAX_REGISTRY_ENTRIES} component limit`)
+  }
+
+  const threshold = options.threshold ?? 0.7
+  const results: ScanResult[] = []
+  for (const batch of groupRegistryByTileSize(registry).values()) {
+    results.push(...scanUniformTileSize(data, width, height, batch, options))
+  }
+  const matches = keepBestPerRegion(
+    results,
+    (result) => result.path,
+    (first, second) => second.score - first.score || second.count - first.count,
+  )
+
+  return rankByHierarchy(matches, {
+    threshold,
+    margin: HIERARCHY_SCORE_MARGIN,
+  })
+}
+
+/** One tile size of one screenshot scale, as `createPixelDecoder` scans it. */
+interface ScanPlan {
+  scale: number
+  componentBase: number
+  tileSize: number
+  step: number | undefined
+  /** Descriptors correlated with every window. */
+  components: ComponentDescriptor[]
+  method: Exclude<CorrelationMethod, 'auto'>
+  scoring: ScoringMode
+  /** Indexed groups and the window origins in which each one is visible. */
+  windows: Map<string, [number, number][]>
+  index: CarrierIndex | undefined
+}
+
+/**
+ * Correlate each signature group of a frequency index only with the windows
+ * the first pass saw it in. Group-major order builds each group's patterns
+ * once, however many windows show it.
+ */
+function scanIndexedWindows(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  tileSize: number,
+  windows: ReadonlyMap<string, [number, number][]>,
+  patternsFor: (key: string) => RegistryEntry[][],
+  requestedThreshold = 0.7,
+  scoring: ScoringMode = 'plain',
+): ScanResult[] {
+  if (!Number.isFinite(requestedThreshold)) {
+    throw new RangeError('Scan threshold must be a finite number')
+  }
+  const threshold = Math.min(1, Math.max(-1, requestedThreshold))
+  const matches = new Map<string, EmbeddingTiles>()
+  for (const [key, origins] of windows) {
+    for (const registry of patternsFor(key)) {
+      for (const [x, y] of origins) {
+        for (const entry of registry) {
+          const score = scoreWindow(data, width, x, y, entry.pattern, { scoring })
+          if (score >= threshold) recordMatch(matches, entry, score, tileSize, x, y)
+        }
+      }
+    }
+  }
+  return refineMatches(data, width, height, matches)
+}
+
+/**
+ * Score for choosing between readings of one embedding. A carrier and its
+ * half-turn often correlate almost equally well, so an upright reading wins
+ * unless the half-turned one is clearly better.
+ */
+function rankScore(result: ScanResult): number {
+  const halfTurned = result.transform !== undefined && Math.abs(result.transform.rotation) > 90
+  return halfTurned ? result.score - HALF_TURN_MARGIN : result.score
+}
+
+/**
+ * Components a rectified copy can show: version 1 carriers, pinned to that
+ * version, whose signature one of its surveyed blocks estimates. Nothing is
+ * correlated when no block shows a signature.
+ */
+function rectifiedCandidates(
+  components: readonly ComponentDescriptor[],
+  spectra: readonly CarrierSpectrum[],
+  patternSize: number,
+  versions: readonly PatternVersion[],
+): ComponentDescriptor[] {
+  const pinned = components.flatMap((component) =>
+    component.patternVersion === 1 ||
+    (component.patternVersion === undefined && versions.includes(1))
+      ? [{ ...component, patternVersion: 1 as const }]
+      : [],
+  )
+  const selected = new Set<ComponentDescriptor>()
+  for (const spectrum of spectra) {
+    if (spectrum.estimates.length === 0) continue
+    for (const component of selectSpectralCandidates(pinned, spectrum, { patternSize })) {
+      selected.add(component)
+    }
+  }
+  return pinned.filter((component) => selected.has(component))
+}
+
+/**
+ * Keep the best reading of each tagged region among scans that split one
+ * decode, by scale, rectified copy, or codebook shard, and rank what remains.
+ */
+export function mergeScanResults(results: Iterable<ScanResult>, threshold = 0.7): ScanResult[] {
+  const merged = keepBestPerRegion(
+    results,
+    embeddingKey,
+    (first, second) =>
+      rankScore(second) - rankScore(first) ||
+      second.count - first.count ||
+      first.tileSize - second.tileSize,
+  )
+  return rankByHierarchy(merged, { threshold, margin: HIERARCHY_SCORE_MARGIN })
+}
+
+/** Settings for one screenshot, such as a worker pool's share of a decode. */
+export interface PixelDecodeOptions {
+  /** Scales to scan this screenshot at, in place of the decoder's `scales`. */
+  scales?: number[]
+  /** Share of the computation budget this call may spend, above 0 and at most 1; defaults to 1. */
+  budget?: number
+  /**
+   * `'screenshot'` skips the rectified copies and `'rectified'` scans only
+   * them, whether or not the decoder was prepared with `rectify`. Defaults
+   * to `'all'`, which scans whatever the decoder was prepared for.
+   */
+  passes?: 'all' | 'screenshot' | 'rectified'
+}
+
+interface DecodeCall {
+  scales: number[] | 'auto'
+  budget: number
+  screenshot: boolean
+  rectified: boolean
+}
+
+/** Seeded-carrier decoder bound to one codebook; see `createPixelDecoder`. */
+export interface PixelDecoder {
+  decode(
+    data: Uint8Array,
+    width: number,
+    height: number,
+    options?: PixelDecodeOptions,
+  ): ScanResult[]
+}
+
+/**
+ * Prepare a seeded-carrier decoder for many screenshots' RGBA pixels, such as
+ * canvas `ImageData` viewed as a `Uint8Array`. Registry patterns are
+ * built the first time a tile size is needed and reused for later images, up
+ * to a memory cap, instead of being regenerated on every call. Pass several
+ * `ReleaseRegistry` codebooks to decode screenshots from older deployments;
+ * each match then lists the releases it belongs to.
+ */
+export function createPixelDecoder(
+  registry: DecodeRegistry,
+  options: DecodeOptions = {},
+): PixelDecoder {
+  const baseSize = options.patternSize ?? DEFAULT_PATTERN_SIZE
+  const intensity = options.intensity ?? DEFAULT_INTENSITY
+  const scales = options.scales === undefined || options.scales.length === 0
+    ? 'auto'
+    : options.scales
+  const correlation = options.correlation ?? 'auto'
+  const scoring = options.scoring ?? 'plain'
+
+  const { components, releasesOf } = combineRegistries(registry)
+  const versions = options.patternVersions ?? defaultPatternVersions(components)
+  assertPatternVersions(versions)
+  assertScoringMode(scoring, correlation)
+  if (scales !== 'auto') assertScales(scales)
+
+  // Group by effective 1× size so mixed hierarchy tiles stay uniform per batch.
+  const byBaseSize = new Map<number, ComponentDescriptor[]>()
+  for (const component of components) {
+    const componentBase = resolvePatternSize(component, baseSize)
+    const batch = byBaseSize.get(componentBase)
+    if (batch) batch.push(component)
+    else byBaseSize.set(componentBase, [component])
+  }
+
+  // Large groups are split by carrier signature, so each screenshot only
+  // correlates the signatures a cheap first pass finds in it.
+  const indexes = new Map<number, CarrierIndex>()
+  for (const [componentBase, batchComponents] of byBaseSize) {
+    if (countRegistryEntries(batchComponents, versions) > INDEXED_DECODE_MIN_ENTRIES) {
+      indexes.set(componentBase, createCarrierIndex(batchComponents, versions))
+    }
+  }
+
+  const registries = new Map<string, RegistryEntry[]>()
+  let cachedSamples = 0
+  const registryFor = (
+    batchComponents: ComponentDescriptor[],
+    tileSize: number,
+    key: string | undefined,
+  ): RegistryEntry[] => {
+    const cached = key === undefined ? undefined : registries.get(key)
+    if (cached) return cached
+    // Force this scale's tile size for the batch (overrides per-entry 1× size).
+    const registry = generateRegistryPatterns(
+      batchComponents.map((component) => ({ ...component, patternSize: tileSize })),
+      tileSize,
+      intensity,
+      versions,
+    )
+    const samples = registry.length * tileSize * tileSize
+    if (key !== undefined && cachedSamples + samples <= MAX_CACHED_PATTERN_SAMPLES) {
+      registries.set(key, registry)
+      cachedSamples += samples
+    }
+    return registry
+  }
+
+  const budgetError = () =>
+    new DecodeBudgetError(
+      'Scan exceeds the decoder computation budget; increase step, reduce scales, or narrow the registry',
+    )
+
+  /**
+   * Scales to scan each 1× tile size at. Auto mode maps the surveyed tile
+   * sizes back onto every 1× size, so nested tags with their own
+   * `patternSize` share one estimate of the display scale.
+   */
+  const scalesFor = (
+    spectra: readonly CarrierSpectrum[],
+    rectified: boolean,
+    fixed: number[] | 'auto',
+  ): ((componentBase: number) => number[]) => {
+    if (fixed !== 'auto') return () => fixed
+    const tileSizes = estimateTileSizes(spectra)
+    return (componentBase) => autoScales(tileSizes, componentBase, rectified)
+  }
+
+  // Costs are summed before any correlation so an oversized scan fails fast.
+  const planScans = (
+    image: RasterImage,
+    rectified: boolean,
+    spentShare: number,
+    call: DecodeCall,
+  ): { plans: ScanPlan[]; budgetShare: number } => {
+    const plans: ScanPlan[] = []
+    const spectra =
+      call.scales === 'auto' || rectified
+        ? surveyCarrierSpectra(image.data, image.width, image.height)
+        : []
+    const scalesOf = scalesFor(spectra, rectified, call.scales)
+    let totalBudgetShare = spentShare
+    for (const [componentBase, batchComponents] of byBaseSize) {
+      for (const scale of scalesOf(componentBase)) {
+        const tileSize = Math.round(componentBase * scale)
+        if (tileSize < 16 || tileSize > 512 || image.width < tileSize || image.height < tileSize) {
+          continue
+        }
+        // Every offset is only affordable through the FFT, which scores plainly.
+        const planScoring = rectified ? 'plain' : scoring
+        const requestedStep = options.step
+          ? options.step * scale
+          : defaultStep(tileSize, planScoring)
+        if (!Number.isFinite(requestedStep) || requestedStep <= 0) {
+          throw new RangeError('Scan step must be a positive finite number')
+        }
+        const scanStep = Math.max(1, Math.round(requestedStep))
+        // A rectified copy's tiles can start at any offset, so unless a step
+        // is set it is correlated at every one; the FFT path costs the same.
+        const correlationStep = rectified && !options.step ? 1 : scanStep
+        // A rectified copy is only correlated with the signatures it shows.
+        const index = rectified ? undefined : indexes.get(componentBase)
+        const components = rectified
+          ? rectifiedCandidates(batchComponents, spectra, componentBase, versions)
+          : index
+            ? index.unindexed
+            : batchComponents
+        // Resolve the method for the whole group so every pattern batch
+        // shares the choice the budget was computed with.
+        const cost = estimateScanCost(
+          image.width,
+          image.height,
+          tileSize,
+          correlationStep,
+          countRegistryEntries(components, versions),
+          correlation,
+          planScoring,
+        )
+        totalBudgetShare += cost.budgetShare
+
+        const windows = new Map<string, [number, number][]>()
+        if (index) {
+          // First-pass work per window, counted in window-sized entries.
+          totalBudgetShare += estimateScanCost(
+            image.width,
+            image.height,
+            tileSize,
+            scanStep,
+            estimateDetectorSamples(index.groups, tileSize) / (tileSize * tileSize),
+            'direct',
+          ).budgetShare
+          if (totalBudgetShare > call.budget) throw budgetError()
+          const detect = createCarrierGroupDetector(index.groups, tileSize)
+          let indexedEntries = 0
+          for (let y = 0; y <= image.height - tileSize; y += scanStep) {
+            for (let x = 0; x <= image.width - tileSize; x += scanStep) {
+              for (const key of detect(image.data, image.width, x, y)) {
+                const origins = windows.get(key)
+                if (origins) origins.push([x, y])
+                else windows.set(key, [[x, y]])
+                indexedEntries += index.groups.get(key)?.components.length ?? 0
+              }
+            }
+          }
+          totalBudgetShare +=
+            (indexedEntries * countWindowSamples(tileSize, { scoring })) / MAX_CORRELATION_SAMPLES
+        }
+
+        plans.push({
+          scale,
+          componentBase,
+          tileSize,
+          step: options.step || rectified ? correlationStep : undefined,
+          components,
+          method: cost.method,
+          scoring: planScoring,
+          windows,
+          index,
+        })
+      }
+    }
+    if (totalBudgetShare > call.budget) throw budgetError()
+    return { plans, budgetShare: totalBudgetShare }
+  }
+
+  /** Pattern batches for `components`; a `key` caches them for later images. */
+  const batchesFor = (
+    components: ComponentDescriptor[],
+    tileSize: number,
+    key: string | undefined,
+  ): RegistryEntry[][] => {
+    const batchSize = Math.max(
+      1,
+      Math.floor(MAX_PATTERN_SAMPLES / (tileSize * tileSize * versions.length)),
+    )
+    const batches: RegistryEntry[][] = []
+    for (let start = 0; start < components.length; start += batchSize) {
+      batches.push(
+        registryFor(
+          components.slice(start, start + batchSize),
+          tileSize,
+          key === undefined ? undefined : `${key}:${start}`,
+        ),
+      )
+    }
+    return batches
+  }
+
+  const decodeRaster = (image: RasterImage, call: DecodeCall): ScanResult[] => {
+    const found: ScanResult[] = []
+    const keep = (results: ScanResult[], scale: number, raster?: RectifiedRaster): void => {
+      for (const scanned of results) {
+        found.push(
+          raster
+            ? {
+                ...scanned,
+                scale,
+                region: raster.toScreenshot(scanned.region),
+                transform: raster.transform,
+              }
+            : { ...scanned, scale },
+        )
+      }
+    }
+
+    const scanRaster = (
+      raster: RasterImage,
+      plans: ScanPlan[],
+      rectified?: RectifiedRaster,
+    ): void => {
+      for (const plan of plans) {
+        const { scale, componentBase, tileSize, step, components, method, windows, index } = plan
+        const prefix = `${componentBase}:${tileSize}`
+        const key = rectified ? undefined : `${prefix}:all`
+        for (const registry of batchesFor(components, tileSize, key)) {
+          const results = scanPixels(raster.data, raster.width, raster.height, registry, {
+            threshold: options.threshold,
+            step,
+            correlation: method,
+            scoring: plan.scoring,
+          })
+          keep(results, scale, rectified)
+        }
+        if (index && windows.size > 0) {
+          const results = scanIndexedWindows(
+            raster.data,
+            raster.width,
+            raster.height,
+            tileSize,
+            windows,
+            (key) =>
+              batchesFor(index.groups.get(key)?.components ?? [], tileSize, `${prefix}:${key}`),
+            options.threshold,
+            plan.scoring,
+          )
+          keep(results, scale, rectified)
+        }
+      }
+    }
+
+    // The screenshot's own scans are planned before any correlation, so an
+    // oversized scan fails fast. Rectified copies are scanned like
+    // screenshots of their own within the same budget, each resampled,
+    // planned, and scanned before the next, and their matches mapped back
+    // onto the original.
+    let budgetShare = 0
+    if (call.screenshot) {
+      const planned = planScans(image, false, 0, call)
+      scanRaster(image, planned.plans)
+      budgetShare = planned.budgetShare
+    }
+    if (call.rectified) {
+      for (const rectified of rectifyDistortedRegions(image.data, image.width, image.height)) {
+        const copy = planScans(rectified, true, budgetShare, call)
+        budgetShare = copy.budgetShare
+        scanRaster(rectified, copy.plans, rectified)
+      }
+    }
+
+    const matches = releasesOf
+      ? found.map((result) => ({ ...result, releases: releasesOf(result) }))
+      : found
+    return mergeScanResults(matches, options.threshold)
+  }
+
+  return {
+    decode(data, width, height, { scales: callScales, budget = 1, passes = 'all' } = {}) {
+      assertRaster(data, width, height)
+      if (callScales !== undefined) assertScales(callScales)
+      if (!Number.isFinite(budget) || budget <= 0 || budget > 1) {
+        throw new RangeError('Decode budget must be above 0 and at most 1')
+      }
+      return decodeRaster(
+        { data, width, height },
+        {
+          scales: callScales?.length ? callScales : scales,
+          budget,
+          screenshot: passes !== 'rectified',
+          rectified: passes === 'rectified' || (passes === 'all' && options.rectify === true),
+        },
+      )
+    },
+  }
+}
+
+/** Decode seeded-carrier tags from RGBA pixels; see `createPixelDecoder`. */
+export function decodePixels(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  registry: DecodeRegistry,
+  options: DecodeOptions = {},
+): ScanResult[] {
+  return createPixelDecoder(registry, options).decode(data, width, height)
+}
+
+function extractChromaTile(
+  data: Uint8Array,
+  width: number,
+  startX: number,
+  startY: number,
+  tileSize: number,
+  target: PatternMatrix,
+): void {
+  for (let y = 0; y < tileSize; y += 1) {
+    for (let x = 0; x < tileSize; x += 1) {
+      const offset = ((startY + y) * width + startX + x) * 4
+      target[y][x] += data[offset] - (data[offset + 1] + data[offset + 2]) / 2
+    }
+  }
+}
+
+/**
+ * Read payload-carrier component ids without a codebook. Tiles are located by
+ * correlating against the pilot code, every aligned repeat of a located tile
+ * is summed, and the sum is despread and checked against its CRC.
+ */
+export function scanPayloadPixels(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  tileSize: number,
+  options: PayloadScanOptions = {},
+): PayloadResult[] {
+  assertRaster(data, width, height)
+  if (!Number.isInteger(tileSize) || tileSize < 16 || tileSize > 512) {
+    throw new RangeError('Payload tile size must be an integer between 16 and 512')
+  }
+  if (width < tileSize || height < tileSize) return []
+  const threshold = options.threshold ?? 0.15
+  if (!Number.isFinite(threshold)) {
+    throw new RangeError('Scan threshold must be a finite number')
+  }
+  const cost = estimateScanCost(width, height, tileSize, 1, 1, 'fft')
+  if (cost.budgetShare > 1) {
+    throw new DecodeBudgetError('Scan exceeds the decoder computation budget')
+  }
+
+  const results = new Map<string, PayloadResult>()
+  correlatePatternsSpectral(
+    data,
+    width,
+    height,
+    [generatePayloadPilotPattern(tileSize)],
+    (_, scores, plan) => {
+      const candidates: number[] = []
+      for (let index = 0; index < scores.length; index += 1) {
+        if (scores[index] >= threshold) candidates.push(index)
+      }
+      candidates.sort((first, second) => scores[second] - scores[first])
+
+      const claimed = new Uint8Array(scores.length)
+      const radius = Math.floor(tileSize / 2)
+      let attempts = 0
+      for (const candidate of candidates) {
+        if (claimed[candidate]) continue
+        if (attempts >= MAX_PAYLOAD_CANDIDATES) break
+        attempts += 1
+
+        // Walk the periodic lattice of repeats at this phase.
+        const phaseX = (candidate % plan.outputWidth) % tileSize
+        const phaseY = Math.floor(candidate / plan.outputWidth) % tileSize
+        const sum: PatternMatrix = Array.from({ length: tileSize }, () =>
+          new Array<number>(tileSize).fill(0),
+        )
+        let count = 0
+        let scoreSum = 0
+        for (let y = phaseY; y < plan.outputHeight; y += tileSize) {
+          for (let x = phaseX; x < plan.outputWidth; x += tileSize) {
+            const score = scores[y * plan.outputWidth + x]
+            if (score < threshold) continue
+            extractChromaTile(data, width, x, y, tileSize, sum)
+            count += 1
+            scoreSum += score
+            for (
+              let claimY = Math.max(0, y - radius);
+              claimY <= Math.min(plan.outputHeight - 1, y + radius);
+              claimY += 1
+            ) {
+              claimed.fill(
+                1,
+                claimY * plan.outputWidth + Math.max(0, x - radius),
+                claimY * plan.outputWidth + Math.min(plan.outputWidth, x + radius + 1),
+              )
+            }
+          }
+        }
+
+        const reading = despreadPayloadTile(sum)
+        if (!reading.componentId) continue
+        const score = scoreSum / count
+        const existing = results.get(reading.componentId)
+        if (existing) {
+          existing.count += count
+          existing.score = Math.max(existing.score, score)
+          existing.correctedSymbols = Math.min(
+            existing.correctedSymbols,
+            reading.correctedSymbols,
+          )
+        } else {
+          results.set(reading.componentId, {
+            componentId: reading.componentId,
+            score,
+            correctedSymbols: reading.correctedSymbols,
+            count,
+            tileSize,
+          })
+        }
+      }
+    },
+  )
+
+  return [...results.values()].sort((first, second) => second.score - first.score)
+}
+
+/**
+ * Decode payload-carrier tags from RGBA pixels. `registry` is optional: when
+ * given, ids are resolved to their descriptors, but ids outside it are still
+ * returned so a build server can look them up.
+ */
+export function decodePayloadPixels(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  options: PayloadDecodeOptions = {},
+  registry: DecodeRegistry = [],
+): PayloadResult[] {
+  assertRaster(data, width, height)
+  const patternSizes = options.patternSizes?.length
+    ? options.patternSizes
+    : DEFAULT_PAYLOAD_PATTERN_SIZES
+  const scales = options.scales?.length ? options.scales : DEFAULT_SCALES
+  assertScales(scales)
+  const { components, releasesOf } = combineRegistries(registry)
+  const byId = new Map<string, ComponentDescriptor>()
+  for (const component of components) {
+    const id = createComponentId(component)
+    if (!byId.has(id)) byId.set(id, component)
+  }
+  const merged = new Map<string, PayloadResult>()
+
+  const tileSizes = new Set<number>()
+  for (const scale of scales) {
+    for (const patternSize of patternSizes) {
+      const tileSize = Math.round(resolvePatternSize({ patternSize }) * scale)
+      if (tileSize >= 16 && tileSize <= 512) tileSizes.add(tileSize)
+    }
+  }
+
+  for (const tileSize of tileSizes) {
+    for (const result of scanPayloadPixels(data, width, height, tileSize, options)) {
+      const existing = merged.get(result.componentId)
+      if (!existing || result.score > existing.score) {
+        const component = byId.get(result.componentId)
+        if (!component) {
+          merged.set(result.componentId, result)
+        } else if (!releasesOf) {
+          merged.set(result.componentId, { ...result, component })
+        } else {
+          // Payload ids ignore the carrier version; every release with the embedding counts.
+          const releases = releasesOf({ ...component, patternVersion: undefined })
+          merged.set(result.componentId, { ...result, component, releases })
+        }
+      }
+    }
+  }
+
+  return [...merged.values()].sort((first, second) => second.score - first.score)
+}
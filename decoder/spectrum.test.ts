@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  createPatternPayload,
+  generatePatternRgba,
+  getCarrierFrequencies,
+  type ComponentDescriptor,
+} from '../src/pattern.js'
+import {
+  analyzeCarrierSpectrum,
+  selectSpectralCandidates,
+  surveyCarrierPeriods,
+} from './spectrum.js'
+
+const COMPONENTS: ComponentDescriptor[] = Array.from({ length: 600 }, (_, index) => ({
+  path: `SETTINGS/item-${index}`,
+  type: 'row',
+  depth: 2,
+}))
+
+/** A carrier tiled over the whole raster, nearest-neighbour scaled as a browser would. */
+function carrierRaster(
+  component: ComponentDescriptor,
+  tileSize: number,
+  scale: number,
+  width: number,
+  height: number,
+): Uint8Array {
+  const tile = generatePatternRgba(createPatternPayload(component), tileSize, 0.16)
+  const data = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const sourceX = Math.floor(x / scale) % tileSize
+      const sourceY = Math.floor(y / scale) % tileSize
+      const source = (sourceY * tileSize + sourceX) * 4
+      const target = (y * width + x) * 4
+      for (let channel = 0; channel < 3; channel += 1) {
+        data[target + channel] = Math.round(tile[source + channel] * 0.3 + 220 * 0.7)
+      }
+      data[target + 3] = 255
+    }
+  }
+  return data
+}
+
+describe('carrier spectrum', () => {
+  it('estimates the tile period and signature at a fractional scale', () => {
+    const target = COMPONENTS[7]
+    const spectrum = analyzeCarrierSpectrum(carrierRaster(target, 64, 1.5, 300, 240), 300, 240)
+    const frequencies = getCarrierFrequencies(createPatternPayload(target), 1)
+    const estimate = spectrum.estimates.find(
+      (candidate) => JSON.stringify(candidate.frequencies) === JSON.stringify(frequencies),
+    )
+
+    expect(Object.values(spectrum.peaks).every((peak) => peak !== null)).toBe(true)
+    expect(estimate?.period).toBeCloseTo(96, 0)
+    expect(estimate?.error).toBeLessThanOrEqual(1)
+  })
+
+  it('reports frequencies folded by small tiles', () => {
+    // Seventeen diagonal cycles on a 32 px tile render as fifteen.
+    const target = { path: 'APP/item-1', type: 'row', depth: 2 }
+    expect(getCarrierFrequencies(createPatternPayload(target), 1)?.diagonal).toBe(17)
+    const spectrum = analyzeCarrierSpectrum(carrierRaster(target, 32, 3, 320, 200), 320, 200)
+
+    expect(spectrum.estimates[0]).toMatchObject({
+      frequencies: { horizontal: 3, vertical: 7, diagonal: 15 },
+    })
+    expect(spectrum.estimates[0].period).toBeCloseTo(96, 0)
+  })
+
+  it('finds no carrier in a flat crop and validates the region', () => {
+    const flat = new Uint8Array(64 * 64 * 4).fill(200)
+
+    expect(analyzeCarrierSpectrum(flat, 64, 64)).toEqual({
+      region: { x: 0, y: 0, width: 64, height: 64 },
+      peaks: { horizontal: null, vertical: null, diagonal: null },
+      estimates: [],
+    })
+    expect(() =>
+      analyzeCarrierSpectrum(flat, 64, 64, { region: { x: 40, y: 0, width: 32, height: 32 } }),
+    ).toThrow(/inside the image/)
+    expect(() =>
+      analyzeCarrierSpectrum(flat, 64, 64, { region: { x: 0, y: 0, width: 16, height: 64 } }),
+    ).toThrow(/at least 32 pixels/)
+  })
+
+  it('narrows a codebook to the signatures in the spectrum', () => {
+    const target = COMPONENTS[123]
+    const spectrum = analyzeCarrierSpectrum(carrierRaster(target, 64, 1, 256, 256), 256, 256)
+    const candidates = selectSpectralCandidates(COMPONENTS, spectrum, { versions: [1] })
+
+    expect(candidates).toContain(target)
+    expect(candidates.length).toBeLessThan(COMPONENTS.length / 20)
+    // Version 2 carriers have no signature to rule them out.
+    expect(selectSpectralCandidates(COMPONENTS, spectrum, { versions: [1, 2] })).toHaveLength(
+      COMPONENTS.length,
+    )
+    expect(
+      selectSpectralCandidates(COMPONENTS, { ...spectrum, estimates: [] }, { versions: [1] }),
+    ).toHaveLength(COMPONENTS.length)
+  })
+
+  it('agrees on the display period across the tags of a page', () => {
+    // Two tags with different carriers side by side on a 1.25× page.
+    const width = 640
+    const height = 320
+    const data = new Uint8Array(width * height * 4).fill(255)
+    for (const [index, left] of [[3, 0], [4, 320]]) {
+      const tag = carrierRaster(COMPONENTS[index], 64, 1.25, 320, height)
+      for (let y = 0; y < height; y += 1) {
+        data.set(tag.subarray(y * 320 * 4, (y + 1) * 320 * 4), (y * width + left) * 4)
+      }
+    }
+    const [best] = surveyCarrierPeriods(data, width, height)
+
+    expect(best.period).toBeCloseTo(80, 0)
+    expect(best.blocks).toBeGreaterThanOrEqual(2)
+    expect(surveyCarrierPeriods(new Uint8Array(64 * 16 * 4), 64, 16)).toEqual([])
+  })
+})
@@ -0,0 +1,434 @@
+import {
+  CARRIER_FREQUENCY_RANGES,
+  createPatternPayload,
+  DEFAULT_PATTERN_SIZE,
+  defaultPatternVersions,
+  getCarrierFrequencies,
+  resolvePatternSize,
+  type CarrierFrequencies,
+  type ComponentDescriptor,
+  type PatternVersion,
+  type PixelRegion,
+} from '../src/pattern.js'
+import { powerSpectrum } from './fft.js'
+
+/** Largest transform edge; larger crops are analysed around their centre. */
+const MAX_SPECTRUM_SIZE = 1024
+const MIN_CROP_SIZE = 32
+/**
+ * Window leakage keeps the lowest bins close to the mean, so peaks are only
+ * searched from this bin upwards.
+ */
+const MIN_PEAK_BIN = 2
+/**
+ * Power a peak needs over the median of its spectral line. Text and edges
+ * raise whole lines at once, while a carrier concentrates in one or two bins.
+ */
+const MIN_PEAK_PROMINENCE = 25
+/** Tile edges considered, in screenshot pixels: 16 px at 0.5× up to 512 px at 2×. */
+const MIN_CARRIER_PERIOD = 8
+const MAX_CARRIER_PERIOD = 1024
+/** Blocks a screenshot survey transforms; tags rarely fill a whole page. */
+const SURVEY_BLOCK_SIZE = 256
+const MAX_SURVEY_BLOCKS = 48
+/** Periods within this relative distance of each other count as one. */
+const PERIOD_CLUSTER_TOLERANCE = 0.02
+
+const AXES = ['horizontal', 'vertical', 'diagonal'] as const
+
+type Axis = (typeof AXES)[number]
+
+/** The strongest frequency on one carrier axis of a crop's chroma spectrum. */
+export interface SpectralPeak {
+  /**
+   * Cycles per pixel, at most 0.5: along x for the horizontal and diagonal
+   * axes, along y for the vertical axis.
+   */
+  frequency: number
+  /** Peak power over the median power of its spectral line. */
+  prominence: number
+}
+
+/** A tile size and version 1 signature that explain all three peaks. */
+export interface CarrierEstimate {
+  /** Carrier tile edge in screenshot pixels. */
+  period: number
+  /**
+   * Cycles per tile as rendered. A tile narrower than twice a frequency
+   * shows it folded, so 17 cycles on a 32 px tile read as 15.
+   */
+  frequencies: CarrierFrequencies
+  /**
+   * Largest disagreement between the period each axis implies, in half-bins
+   * of frequency resolution. Estimates above 1 are not reported.
+   */
+  error: number
+}
+
+export interface CarrierSpectrum {
+  /** The part of the image that was transformed. */
+  region: PixelRegion
+  /** Strongest peak on each carrier axis, or `null` when none stands out. */
+  peaks: Record<Axis, SpectralPeak | null>
+  /**
+   * Best first. A signature whose frequencies share a factor is
+   * indistinguishable from its multiples at a proportionally larger period,
+   * so several estimates usually fit; empty unless every axis has a peak.
+   */
+  estimates: CarrierEstimate[]
+}
+
+/** A tile period that several blocks of a screenshot agree on. */
+export interface CarrierPeriod {
+  /** Mean tile edge in screenshot pixels. */
+  period: number
+  /** Surveyed blocks with an estimate at this period. */
+  blocks: number
+}
+
+export interface SpectrumOptions {
+  /** Crop to analyse; defaults to the whole image. */
+  region?: PixelRegion
+}
+
+export interface SpectralCandidateOptions {
+  /** Registry default for components without their own `patternSize`. */
+  patternSize?: number
+  /**
+   * Carrier revisions for components that do not pin one; defaults as the
+   * decoder's `patternVersions` does.
+   */
+  versions?: readonly PatternVersion[]
+}
+
+function resolveRegion(width: number, height: number, region: PixelRegion | undefined) {
+  const crop = region ?? { x: 0, y: 0, width, height }
+  if (
+    ![crop.x, crop.y, crop.width, crop.height].every(Number.isSafeInteger) ||
+    crop.x < 0 ||
+    crop.y < 0 ||
+    crop.x + crop.width > width ||
+    crop.y + crop.height > height
+  ) {
+    throw new RangeError('Spectrum region must be a whole-pixel rectangle inside the image')
+  }
+  if (crop.width < MIN_CROP_SIZE || crop.height < MIN_CROP_SIZE) {
+    throw new RangeError(`Spectrum region must be at least ${MIN_CROP_SIZE} pixels on each side`)
+  }
+  const cropWidth = Math.min(crop.width, MAX_SPECTRUM_SIZE)
+  const cropHeight = Math.min(crop.height, MAX_SPECTRUM_SIZE)
+  return {
+    x: crop.x + Math.floor((crop.width - cropWidth) / 2),
+    y: crop.y + Math.floor((crop.height - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight,
+  }
+}
+
+function hannWindow(length: number): Float64Array {
+  return Float64Array.from(
+    { length },
+    (_, position) => 0.5 - 0.5 * Math.cos((2 * Math.PI * (position + 0.5)) / length),
+  )
+}
+
+/**
+ * Mean-free chroma of the region, tapered by a Hann window so the crop edges
+ * do not smear power across the spectrum, and zero-padded to `size`.
+ */
+export function windowedChroma(
+  data: Uint8Array,
+  width: number,
+  region: PixelRegion,
+  size: number,
+): Float64Array {
+  const values = new Float64Array(size * size)
+  let total = 0
+  for (let y = 0; y < region.height; y += 1) {
+    let offset = ((region.y + y) * width + region.x) * 4
+    for (let x = 0; x < region.width; x += 1, offset += 4) {
+      const chroma = data[offset] - (data[offset + 1] + data[offset + 2]) / 2
+      values[y * size + x] = chroma
+      total += chroma
+    }
+  }
+  const mean = total / (region.width * region.height)
+  const columns = hannWindow(region.width)
+  const rows = hannWindow(region.height)
+  for (let y = 0; y < region.height; y += 1) {
+    for (let x = 0; x < region.width; x += 1) {
+      values[y * size + x] = (values[y * size + x] - mean) * rows[y] * columns[x]
+    }
+  }
+  return values
+}
+
+/**
+ * Strongest bin on one line of the spectrum, refined to a fraction of a bin
+ * by fitting a parabola to the log power of it and its neighbours.
+ */
+function findPeak(line: Float64Array, size: number): SpectralPeak | null {
+  let best = 0
+  for (let index = 1; index < line.length; index += 1) {
+    if (line[index] > line[best]) best = index
+  }
+  if (!(line[best] > 0)) return null
+  const median = Float64Array.from(line).sort()[Math.floor(line.length / 2)]
+  const prominence = median > 0 ? line[best] / median : Number.POSITIVE_INFINITY
+  if (prominence < MIN_PEAK_PROMINENCE) return null
+
+  let offset = 0
+  if (best > 0 && best < line.length - 1 && line[best - 1] > 0 && line[best + 1] > 0) {
+    const before = Math.log(line[best - 1])
+    const peak = Math.log(line[best])
+    const after = Math.log(line[best + 1])
+    const curvature = before - 2 * peak + after
+    if (curvature < 0) offset = Math.max(-0.5, Math.min(0.5, (0.5 * (before - after)) / curvature))
+  }
+  return { frequency: (best + MIN_PEAK_BIN + offset) / size, prominence }
+}
+
+/** A period one axis allows, with its relative uncertainty. */
+interface AxisPeriod {
+  period: number
+  tolerance: number
+}
+
+/**
+ * Periods at which `cycles` per tile would show at the observed frequency.
+ * Sampling folds n / period into [0, 0.5], so each alias is a candidate.
+ */
+function axisPeriods(cycles: number, observed: number, size: number): AxisPeriod[] {
+  const periods: AxisPeriod[] = []
+  const maxAlias = Math.ceil(cycles / MIN_CARRIER_PERIOD)
+  for (let alias = 0; alias <= maxAlias; alias += 1) {
+    for (const frequency of new Set([alias + observed, alias - observed])) {
+      if (frequency <= 0) continue
+      const period = cycles / frequency
+      if (period < MIN_CARRIER_PERIOD || period > MAX_CARRIER_PERIOD) continue
+      // Half a bin of frequency error, relative to the frequency itself.
+      periods.push({ period, tolerance: 0.5 / size / frequency })
+    }
+  }
+  return periods
+}
+
+/** Cycles per tile a `tileSize` px tile shows for `cycles`, folded at its Nyquist limit. */
+function foldCycles(cycles: number, tileSize: number): number {
+  const wrapped = cycles % tileSize
+  return Math.min(wrapped, tileSize - wrapped)
+}
+
+/** Rendered cycle counts an axis can show on tiles of 16 px and up. */
+export function renderedCycles(axis: Axis): number[] {
+  const [low, high] = CARRIER_FREQUENCY_RANGES[axis]
+  const cycles = new Set<number>()
+  // Tiles of at least twice the highest frequency show every value unfolded.
+  for (let tileSize = 16; tileSize <= Math.max(16, high * 2); tileSize += 1) {
+    for (let value = low; value <= high; value += 1) cycles.add(foldCycles(value, tileSize))
+  }
+  cycles.delete(0)
+  return [...cycles].sort((first, second) => first - second)
+}
+
+/** Every version 1 signature and tile period the three peaks agree on. */
+function estimateCarriers(
+  peaks: Record<Axis, SpectralPeak | null>,
+  size: number,
+): CarrierEstimate[] {
+  const observed = AXES.map((axis) => peaks[axis]?.frequency)
+  if (observed.some((frequency) => frequency === undefined)) return []
+  const candidates = AXES.map((axis, index) =>
+    renderedCycles(axis).map((cycles) => ({
+      cycles,
+      periods: axisPeriods(cycles, observed[index] as number, size),
+    })),
+  )
+
+  const estimates: CarrierEstimate[] = []
+  for (const horizontal of candidates[0]) {
+    for (const vertical of candidates[1]) {
+      for (const diagonal of candidates[2]) {
+        let best: CarrierEstimate | undefined
+        for (const first of horizontal.periods) {
+          for (const second of vertical.periods) {
+            for (const third of diagonal.periods) {
+              const axes = [first, second, third]
+              // Weight each axis by its precision, 1 / tolerance².
+              let weightSum = 0
+              let weighted = 0
+              for (const { period, tolerance } of axes) {
+                weightSum += 1 / (tolerance * tolerance)
+                weighted += period / (tolerance * tolerance)
+              }
+              const period = weighted / weightSum
+              const error = Math.max(
+                ...axes.map((axis) => Math.abs(axis.period / period - 1) / axis.tolerance),
+              )
+              if (error <= 1 && (!best || error < best.error)) {
+                best = {
+                  period,
+                  frequencies: {
+                    horizontal: horizontal.cycles,
+                    vertical: vertical.cycles,
+                    diagonal: diagonal.cycles,
+                  },
+                  error,
+                }
+              }
+            }
+          }
+        }
+        if (best) estimates.push(best)
+      }
+    }
+  }
+  return estimates.sort((first, second) => first.error - second.error)
+}
+
+/**
+ * Estimate the version 1 carrier in a crop from its chroma power spectrum,
+ * before any codebook correlation. Each sinusoid of a tiled carrier is a
+ * peak on the horizontal axis, the vertical axis, or the diagonal; since the
+ * three frequencies are whole cycles per tile, the peaks pin down the tile
+ * size in screenshot pixels along with the signature.
+ */
+export function analyzeCarrierSpectrum(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  options: SpectrumOptions = {},
+): CarrierSpectrum {
+  if (!Number.isSafeInteger(width) || !Number.isSafeInteger(height) || width <= 0 || height <= 0) {
+    throw new RangeError('Image dimensions must be positive safe integers')
+  }
+  if (data.length < width * height * 4) {
+    throw new RangeError('Pixel buffer is smaller than the declared image dimensions')
+  }
+  const region = resolveRegion(width, height, options.region)
+  let size = MIN_CROP_SIZE
+  while (size < Math.max(region.width, region.height)) size *= 2
+  const power = powerSpectrum(windowedChroma(data, width, region, size), size)
+
+  const lineLength = size / 2 - MIN_PEAK_BIN
+  const line = (bin: (index: number) => number) =>
+    Float64Array.from({ length: lineLength }, (_, index) => power[bin(index + MIN_PEAK_BIN)])
+  const peaks = {
+    horizontal: findPeak(line((index) => index), size),
+    vertical: findPeak(line((index) => index * size), size),
+    diagonal: findPeak(line((index) => index * size + index), size),
+  }
+  return { region, peaks, estimates: estimateCarriers(peaks, size) }
+}
+
+/** Evenly spread origins for `count` blocks of `block` pixels along `length`. */
+export function blockOrigins(length: number, block: number, count: number): number[] {
+  if (count === 1) return [Math.floor((length - block) / 2)]
+  return Array.from({ length: count }, (_, index) =>
+    Math.round((index * (length - block)) / (count - 1)),
+  )
+}
+
+/**
+ * Spectra of blocks spread evenly over a screenshot. A single transform
+ * would mix the carriers of every tag on the page; separate blocks keep
+ * most of them apart.
+ */
+export function surveyCarrierSpectra(
+  data: Uint8Array,
+  width: number,
+  height: number,
+): CarrierSpectrum[] {
+  const blockWidth = Math.min(width, SURVEY_BLOCK_SIZE)
+  const blockHeight = Math.min(height, SURVEY_BLOCK_SIZE)
+  if (blockWidth < MIN_CROP_SIZE || blockHeight < MIN_CROP_SIZE) return []
+  let columns = Math.ceil(width / blockWidth)
+  let rows = Math.ceil(height / blockHeight)
+  // Thin a large page out evenly rather than surveying only its top.
+  while (columns * rows > MAX_SURVEY_BLOCKS) {
+    if (columns >= rows) columns -= 1
+    else rows -= 1
+  }
+
+  const spectra: CarrierSpectrum[] = []
+  for (const y of blockOrigins(height, blockHeight, rows)) {
+    for (const x of blockOrigins(width, blockWidth, columns)) {
+      const region = { x, y, width: blockWidth, height: blockHeight }
+      spectra.push(analyzeCarrierSpectrum(data, width, height, { region }))
+    }
+  }
+  return spectra
+}
+
+/**
+ * Group the estimates of surveyed blocks by period, most supported first;
+ * signatures that share a factor make a multiple of the true period about as
+ * well supported as the period itself.
+ */
+export function groupCarrierPeriods(spectra: readonly CarrierSpectrum[]): CarrierPeriod[] {
+  const found = spectra
+    .flatMap((spectrum, block) =>
+      spectrum.estimates.map((estimate) => ({ period: estimate.period, block })),
+    )
+    .sort((first, second) => first.period - second.period)
+  const periods: CarrierPeriod[] = []
+  for (let start = 0; start < found.length; ) {
+    let end = start + 1
+    while (
+      end < found.length &&
+      found[end].period <= found[start].period * (1 + PERIOD_CLUSTER_TOLERANCE)
+    ) {
+      end += 1
+    }
+    const cluster = found.slice(start, end)
+    periods.push({
+      period: cluster.reduce((total, entry) => total + entry.period, 0) / cluster.length,
+      blocks: new Set(cluster.map((entry) => entry.block)).size,
+    })
+    start = end
+  }
+  return periods.sort((first, second) => second.blocks - first.blocks)
+}
+
+/** Estimate carrier tile periods across a whole screenshot. */
+export function surveyCarrierPeriods(
+  data: Uint8Array,
+  width: number,
+  height: number,
+): CarrierPeriod[] {
+  return groupCarrierPeriods(surveyCarrierSpectra(data, width, height))
+}
+
+function signatureKey(frequencies: CarrierFrequencies, tileSize = Infinity): string {
+  return AXES.map((axis) => foldCycles(frequencies[axis], tileSize)).join(':')
+}
+
+/**
+ * Narrow a codebook to the components whose carrier could have produced the
+ * spectrum: version 1 entries whose signature, as their tile renders it,
+ * matches an estimate, plus any entry tried with a version that has no
+ * signature. A spectrum without estimates rules nothing out, so every
+ * component is kept.
+ */
+export function selectSpectralCandidates(
+  components: readonly ComponentDescriptor[],
+  spectrum: CarrierSpectrum,
+  options: SpectralCandidateOptions = {},
+): ComponentDescriptor[] {
+  if (spectrum.estimates.length === 0) return [...components]
+  const fallbackSize = options.patternSize ?? DEFAULT_PATTERN_SIZE
+  const versions = options.versions ?? defaultPatternVersions(components)
+  const signatures = new Set(
+    spectrum.estimates.map((estimate) => signatureKey(estimate.frequencies)),
+  )
+  return components.filter((component) =>
+    (component.patternVersion === undefined ? versions : [component.patternVersion]).some(
+      (patternVersion) => {
+        const payload = createPatternPayload({ ...component, patternVersion })
+        const frequencies = getCarrierFrequencies(payload, patternVersion)
+        const tileSize = resolvePatternSize(component, fallbackSize)
+        return frequencies === null || signatures.has(signatureKey(frequencies, tileSize))
+      },
+    ),
+  )
+}
@@ -0,0 +1,1112 @@
+import {
+  AC_QUANT,
+  COEFFICIENT_UPDATE_PROBABILITIES,
+  DC_QUANT,
+  DEFAULT_COEFFICIENT_PROBABILITIES,
+  SUBBLOCK_MODE_PROBABILITIES,
+} from './vp8-tables.js'
+
+/**
+ * WebP lossy (VP8 key frame) decoder, following RFC 6386.
+ *
+ * Returns the loop-filtered YUV 4:2:0 planes; `decodeWebp` upsamples and
+ * converts them to RGBA the way libwebp does so decoded screenshots match the
+ * reference decoder.
+ */
+
+export interface LossyFrame {
+  width: number
+  height: number
+  /** Luma plane, `lumaStride` wide and macroblock-aligned. */
+  luma: Uint8Array
+  lumaStride: number
+  blueChroma: Uint8Array
+  redChroma: Uint8Array
+  chromaStride: number
+}
+
+const ZIGZAG = [0, 1, 4, 8, 5, 2, 3, 6, 9, 12, 13, 10, 7, 11, 14, 15]
+/** Probability band per coefficient position, plus a sentinel for position 16. */
+const BANDS = [0, 1, 2, 3, 6, 4, 5, 6, 6, 6, 6, 6, 6, 6, 6, 7, 0]
+const LARGE_VALUE_PROBABILITIES = [
+  [173, 148, 140],
+  [176, 155, 140, 135],
+  [180, 157, 141, 134, 130],
+  [254, 254, 243, 230, 196, 177, 153, 140, 133, 130, 129],
+]
+
+const DC_PRED = 0
+const TM_PRED = 1
+const V_PRED = 2
+const H_PRED = 3
+const B_RD_PRED = 4
+const B_VR_PRED = 5
+const B_LD_PRED = 6
+const B_VL_PRED = 7
+const B_HD_PRED = 8
+
+/** Subblock mode tree; leaves are negated modes (DC is the -0 leaf). */
+const SUBBLOCK_MODE_TREE = [-0, 1, -1, 2, -2, 3, 4, 6, -3, 5, -4, -5, -6, 7, -7, 8, -8, -9]
+
+const TYPE_LUMA_AFTER_Y2 = 0
+const TYPE_Y2 = 1
+const TYPE_CHROMA = 2
+const TYPE_LUMA_WITH_DC = 3
+
+/** Offsets into the per-column non-zero context: 4 luma, 2 + 2 chroma, Y2. */
+const CONTEXT_BLUE = 4
+const CONTEXT_RED = 6
+const CONTEXT_Y2 = 8
+const CONTEXT_SIZE = 9
+
+/** Luma work area: one border row/column plus four top-right columns. */
+const LUMA_WORK_STRIDE = 21
+const CHROMA_WORK_STRIDE = 9
+
+class BoolDecoder {
+  private value: number
+  private range = 255
+  private bitCount = 0
+  private position: number
+
+  constructor(
+    private readonly data: Uint8Array,
+    start: number,
+    private readonly end: number,
+  ) {
+    this.value = (this.byteAt(start) << 8) | this.byteAt(start + 1)
+    this.position = start + 2
+  }
+
+  /** Bytes past the partition end read as zero; `overrun` tracks how many. */
+  overrun = 0
+
+  private byteAt(index: number): number {
+    if (index < this.end) return this.data[index]
+    this.overrun += 1
+    return 0
+  }
+
+  readBool(probability: number): number {
+    const split = 1 + (((this.range - 1) * probability) >> 8)
+    const bigSplit = split << 8
+    let bit: number
+    if (this.value >= bigSplit) {
+      bit = 1
+      this.range -= split
+      this.value -= bigSplit
+    } else {
+      bit = 0
+      this.range = split
+    }
+    if (this.range < 128) {
+      const shift = Math.clz32(this.range) - 24
+      this.range <<= shift
+      this.value <<= shift
+      this.bitCount += shift
+      if (this.bitCount >= 8) {
+        this.bitCount -= 8
+        this.value |= this.byteAt(this.position) << this.bitCount
+        this.position += 1
+      }
+    }
+    return bit
+  }
+
+  readLiteral(bits: number): number {
+    let value = 0
+    for (let bit = 0; bit < bits; bit += 1) value = (value << 1) | this.readBool(128)
+    return value
+  }
+
+  readSigned(bits: number): number {
+    const value = this.readLiteral(bits)
+    return this.readBool(128) ? -value : value
+  }
+
+  readOptionalSigned(bits: number): number {
+    return this.readBool(128) ? this.readSigned(bits) : 0
+  }
+}
+
+function invalid(reason: string): never {
+  throw new RangeError(`Invalid WebP lossy data: ${reason}`)
+}
+
+interface FrameHeader {
+  width: number
+  height: number
+  firstPartitionStart: number
+  firstPartitionEnd: number
+}
+
+function readFrameHeader(data: Uint8Array, start: number, end: number): FrameHeader {
+  if (end - start < 10) invalid('frame header is truncated')
+  const tag = data[start] | (data[start + 1] << 8) | (data[start + 2] << 16)
+  if (tag & 1) invalid('not a key frame')
+  if (((tag >> 1) & 7) > 3) invalid('unknown profile')
+  if (!((tag >> 4) & 1)) invalid('frame is not displayable')
+  if (data[start + 3] !== 0x9d || data[start + 4] !== 0x01 || data[start + 5] !== 0x2a) {
+    invalid('missing start code')
+  }
+  const width = (data[start + 6] | (data[start + 7] << 8)) & 0x3fff
+  const height = (data[start + 8] | (data[start + 9] << 8)) & 0x3fff
+  if (width === 0 || height === 0) invalid('empty frame')
+  const firstPartitionStart = start + 10
+  const firstPartitionEnd = firstPartitionStart + (tag >> 5)
+  if (firstPartitionEnd > end) invalid('first partition is truncated')
+  return { width, height, firstPartitionStart, firstPartitionEnd }
+}
+
+export function readLossyHeader(
+  data: Uint8Array,
+  start: number,
+  end: number,
+): { width: number; height: number } {
+  const { width, height } = readFrameHeader(data, start, end)
+  return { width, height }
+}
+
+interface Quantizer {
+  lumaDc: number
+  lumaAc: number
+  y2Dc: number
+  y2Ac: number
+  chromaDc: number
+  chromaAc: number
+}
+
+interface FilterStrength {
+  /** Sub-block edge limit; macroblock edges add 4. Zero disables filtering. */
+  limit: number
+  interiorLimit: number
+  hevThreshold: number
+  inner: boolean
+}
+
+function clampIndex(value: number, max: number): number {
+  return value < 0 ? 0 : value > max ? max : value
+}
+
+function buildQuantizer(base: number, deltas: number[]): Quantizer {
+  const [lumaDcDelta, y2DcDelta, y2AcDelta, chromaDcDelta, chromaAcDelta] = deltas
+  return {
+    lumaDc: DC_QUANT[clampIndex(base + lumaDcDelta, 127)],
+    lumaAc: AC_QUANT[clampIndex(base, 127)],
+    y2Dc: DC_QUANT[clampIndex(base + y2DcDelta, 127)] * 2,
+    // x * 155 / 100, computed exactly as libwebp does.
+    y2Ac: Math.max(8, (AC_QUANT[clampIndex(base + y2AcDelta, 127)] * 101581) >> 16),
+    chromaDc: DC_QUANT[clampIndex(base + chromaDcDelta, 117)],
+    chromaAc: AC_QUANT[clampIndex(base + chromaAcDelta, 127)],
+  }
+}
+
+function readLargeValue(
+  reader: BoolDecoder,
+  probabilities: Uint8Array,
+  offset: number,
+): number {
+  if (!reader.readBool(probabilities[offset + 3])) {
+    if (!reader.readBool(probabilities[offset + 4])) return 2
+    return 3 + reader.readBool(probabilities[offset + 5])
+  }
+  if (!reader.readBool(probabilities[offset + 6])) {
+    if (!reader.readBool(probabilities[offset + 7])) return 5 + reader.readBool(159)
+    return 7 + 2 * reader.readBool(165) + reader.readBool(145)
+  }
+  const high = reader.readBool(probabilities[offset + 8])
+  const low = reader.readBool(probabilities[offset + 9 + high])
+  const category = 2 * high + low
+  let value = 0
+  for (const probability of LARGE_VALUE_PROBABILITIES[category]) {
+    value = value * 2 + reader.readBool(probability)
+  }
+  return value + 3 + (8 << category)
+}
+
+/**
+ * Read one block's tokens into `coefficients` (dequantized, raster order).
+ * Returns the position after the last decoded coefficient.
+ */
+function readCoefficients(
+  reader: BoolDecoder,
+  probabilities: Uint8Array,
+  type: number,
+  context: number,
+  dcFactor: number,
+  acFactor: number,
+  first: number,
+  coefficients: Int32Array,
+  offset: number,
+): number {
+  const typeBase = type * 264
+  let position = first
+  let node = typeBase + BANDS[position] * 33 + context * 11
+  while (position < 16) {
+    if (!reader.readBool(probabilities[node])) return position
+    while (!reader.readBool(probabilities[node + 1])) {
+      position += 1
+      if (position === 16) return 16
+      node = typeBase + BANDS[position] * 33
+    }
+    const next = typeBase + BANDS[position + 1] * 33
+    let value: number
+    if (!reader.readBool(probabilities[node + 2])) {
+      value = 1
+      node = next + 11
+    } else {
+      value = readLargeValue(reader, probabilities, node)
+      node = next + 22
+    }
+    coefficients[offset + ZIGZAG[position]] =
+      (reader.readBool(128) ? -value : value) * (position > 0 ? acFactor : dcFactor)
+    position += 1
+  }
+  return 16
+}
+
+function inverseWalshHadamard(input: Int32Array, coefficients: Int32Array): void {
+  const temp = new Int32Array(16)
+  for (let index = 0; index < 4; index += 1) {
+    const a0 = input[index] + input[12 + index]
+    const a1 = input[4 + index] + input[8 + index]
+    const a2 = input[4 + index] - input[8 + index]
+    const a3 = input[index] - input[12 + index]
+    temp[index] = a0 + a1
+    temp[8 + index] = a0 - a1
+    temp[4 + index] = a3 + a2
+    temp[12 + index] = a3 - a2
+  }
+  for (let row = 0; row < 4; row += 1) {
+    const dc = temp[row * 4] + 3
+    const a0 = dc + temp[row * 4 + 3]
+    const a1 = temp[row * 4 + 1] + temp[row * 4 + 2]
+    const a2 = temp[row * 4 + 1] - temp[row * 4 + 2]
+    const a3 = dc - temp[row * 4 + 3]
+    const block = row * 4 * 16
+    coefficients[block] = (a0 + a1) >> 3
+    coefficients[block + 16] = (a3 + a2) >> 3
+    coefficients[block + 32] = (a0 - a1) >> 3
+    coefficients[block + 48] = (a3 - a2) >> 3
+  }
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value
+}
+
+function multiplyCosine(value: number): number {
+  return ((value * 20091) >> 16) + value
+}
+
+function multiplySine(value: number): number {
+  return (value * 35468) >> 16
+}
+
+/** Inverse DCT of one 4×4 block, added onto the prediction in place. */
+function addInverseTransform(
+  coefficients: Int32Array,
+  offset: number,
+  target: Uint8Array,
+  targetOffset: number,
+  stride: number,
+): void {
+  const temp = new Int32Array(16)
+  for (let column = 0; column < 4; column += 1) {
+    const input = offset + column
+    const a = coefficients[input] + coefficients[input + 8]
+    const b = coefficients[input] - coefficients[input + 8]
+    const c = multiplySine(coefficients[input + 4]) - multiplyCosine(coefficients[input + 12])
+    const d = multiplyCosine(coefficients[input + 4]) + multiplySine(coefficients[input + 12])
+    temp[column * 4] = a + d
+    temp[column * 4 + 1] = b + c
+    temp[column * 4 + 2] = b - c
+    temp[column * 4 + 3] = a - d
+  }
+  for (let row = 0; row < 4; row += 1) {
+    const dc = temp[row] + 4
+    const a = dc + temp[8 + row]
+    const b = dc - temp[8 + row]
+    const c = multiplySine(temp[4 + row]) - multiplyCosine(temp[12 + row])
+    const d = multiplyCosine(temp[4 + row]) + multiplySine(temp[12 + row])
+    const line = targetOffset + row * stride
+    target[line] = clampByte(target[line] + ((a + d) >> 3))
+    target[line + 1] = clampByte(target[line + 1] + ((b + c) >> 3))
+    target[line + 2] = clampByte(target[line + 2] + ((b - c) >> 3))
+    target[line + 3] = clampByte(target[line + 3] + ((a - d) >> 3))
+  }
+}
+
+function hasCoefficients(coefficients: Int32Array, offset: number): boolean {
+  for (let index = offset; index < offset + 16; index += 1) {
+    if (coefficients[index] !== 0) return true
+  }
+  return false
+}
+
+function average3(first: number, second: number, third: number): number {
+  return (first + 2 * second + third + 2) >> 2
+}
+
+function average2(first: number, second: number): number {
+  return (first + second + 1) >> 1
+}
+
+/** Whole-block prediction for 16×16 luma and 8×8 chroma work areas. */
+function predictBlock(
+  work: Uint8Array,
+  stride: number,
+  size: number,
+  mode: number,
+  hasTop: boolean,
+  hasLeft: boolean,
+): void {
+  const origin = stride + 1
+  if (mode === DC_PRED) {
+    let sum = 0
+    let shift = Math.log2(size) - 1
+    if (hasTop) {
+      for (let x = 0; x < size; x += 1) sum += work[x + 1]
+      shift += 1
+    }
+    if (hasLeft) {
+      for (let y = 0; y < size; y += 1) sum += work[(y + 1) * stride]
+      shift += 1
+    }
+    const value = hasTop || hasLeft ? (sum + (1 << (shift - 1))) >> shift : 128
+    for (let y = 0; y < size; y += 1) work.fill(value, origin + y * stride, origin + y * stride + size)
+    return
+  }
+  const topLeft = work[0]
+  for (let y = 0; y < size; y += 1) {
+    const left = work[(y + 1) * stride]
+    for (let x = 0; x < size; x += 1) {
+      const top = work[x + 1]
+      work[origin + y * stride + x] =
+        mode === V_PRED ? top : mode === H_PRED ? left : clampByte(left + top - topLeft)
+    }
+  }
+}
+
+/** 4×4 luma subblock prediction at `origin` inside the luma work area. */
+function predictSubblock(work: Uint8Array, origin: number, mode: number): void {
+  const s = LUMA_WORK_STRIDE
+  const topLeft = work[origin - s - 1]
+  const a = work[origin - s]
+  const b = work[origin - s + 1]
+  const c = work[origin - s + 2]
+  const d = work[origin - s + 3]
+  const e = work[origin - s + 4]
+  const f = work[origin - s + 5]
+  const g = work[origin - s + 6]
+  const h = work[origin - s + 7]
+  const i = work[origin - 1]
+  const j = work[origin + s - 1]
+  const k = work[origin + 2 * s - 1]
+  const l = work[origin + 3 * s - 1]
+  const set = (x: number, y: number, value: number): void => {
+    work[origin + y * s + x] = value
+  }
+
+  switch (mode) {
+    case DC_PRED: {
+      const value = (a + b + c + d + i + j + k + l + 4) >> 3
+      for (let y = 0; y < 4; y += 1) work.fill(value, origin + y * s, origin + y * s + 4)
+      break
+    }
+    case TM_PRED: {
+      const left = [i, j, k, l]
+      const top = [a, b, c, d]
+      for (let y = 0; y < 4; y += 1) {
+        for (let x = 0; x < 4; x += 1) set(x, y, clampByte(left[y] + top[x] - topLeft))
+      }
+      break
+    }
+    case V_PRED: {
+      const row = [average3(topLeft, a, b), average3(a, b, c), average3(b, c, d), average3(c, d, e)]
+      for (let y = 0; y < 4; y += 1) {
+        for (let x = 0; x < 4; x += 1) set(x, y, row[x])
+      }
+      break
+    }
+    case H_PRED: {
+      const column = [average3(topLeft, i, j), average3(i, j, k), average3(j, k, l), average3(k, l, l)]
+      for (let y = 0; y < 4; y += 1) work.fill(column[y], origin + y * s, origin + y * s + 4)
+      break
+    }
+    case B_RD_PRED:
+      set(0, 3, average3(j, k, l))
+      set(1, 3, average3(i, j, k)); set(0, 2, average3(i, j, k))
+      set(2, 3, average3(topLeft, i, j)); set(1, 2, average3(topLeft, i, j)); set(0, 1, average3(topLeft, i, j))
+      set(3, 3, average3(a, topLeft, i)); set(2, 2, average3(a, topLeft, i))
+      set(1, 1, average3(a, topLeft, i)); set(0, 0, average3(a, topLeft, i))
+      set(3, 2, average3(b, a, topLeft)); set(2, 1, average3(b, a, topLeft)); set(1, 0, average3(b, a, topLeft))
+      set(3, 1, average3(c, b, a)); set(2, 0, average3(c, b, a))
+      set(3, 0, average3(d, c, b))
+      break
+    case B_VR_PRED:
+      set(0, 0, average2(topLeft, a)); set(1, 2, average2(topLeft, a))
+      set(1, 0, average2(a, b)); set(2, 2, average2(a, b))
+      set(2, 0, average2(b, c)); set(3, 2, average2(b, c))
+      set(3, 0, average2(c, d))
+      set(0, 3, average3(k, j, i))
+      set(0, 2, average3(j, i, topLeft))
+      set(0, 1, average3(i, topLeft, a)); set(1, 3, average3(i, topLeft, a))
+      set(1, 1, average3(topLeft, a, b)); set(2, 3, average3(topLeft, a, b))
+      set(2, 1, average3(a, b, c)); set(3, 3, average3(a, b, c))
+      set(3, 1, average3(b, c, d))
+      break
+    case B_LD_PRED:
+      set(0, 0, average3(a, b, c))
+      set(1, 0, average3(b, c, d)); set(0, 1, average3(b, c, d))
+      set(2, 0, average3(c, d, e)); set(1, 1, average3(c, d, e)); set(0, 2, average3(c, d, e))
+      set(3, 0, average3(d, e, f)); set(2, 1, average3(d, e, f))
+      set(1, 2, average3(d, e, f)); set(0, 3, average3(d, e, f))
+      set(3, 1, average3(e, f, g)); set(2, 2, average3(e, f, g)); set(1, 3, average3(e, f, g))
+      set(3, 2, average3(f, g, h)); set(2, 3, average3(f, g, h))
+      set(3, 3, average3(g, h, h))
+      break
+    case B_VL_PRED:
+      set(0, 0, average2(a, b))
+      set(1, 0, average2(b, c)); set(0, 2, average2(b, c))
+      set(2, 0, average2(c, d)); set(1, 2, average2(c, d))
+      set(3, 0, average2(d, e)); set(2, 2, average2(d, e))
+      set(0, 1, average3(a, b, c))
+      set(1, 1, average3(b, c, d)); set(0, 3, average3(b, c, d))
+      set(2, 1, average3(c, d, e)); set(1, 3, average3(c, d, e))
+      set(3, 1, average3(d, e, f)); set(2, 3, average3(d, e, f))
+      set(3, 2, average3(e, f, g))
+      set(3, 3, average3(f, g, h))
+      break
+    case B_HD_PRED:
+      set(0, 0, average2(i, topLeft)); set(2, 1, average2(i, topLeft))
+      set(0, 1, average2(j, i)); set(2, 2, average2(j, i))
+      set(0, 2, average2(k, j)); set(2, 3, average2(k, j))
+      set(0, 3, average2(l, k))
+      set(3, 0, average3(a, b, c))
+      set(2, 0, average3(topLeft, a, b))
+      set(1, 0, average3(i, topLeft, a)); set(3, 1, average3(i, topLeft, a))
+      set(1, 1, average3(j, i, topLeft)); set(3, 2, average3(j, i, topLeft))
+      set(1, 2, average3(k, j, i)); set(3, 3, average3(k, j, i))
+      set(1, 3, average3(l, k, j))
+      break
+    default: // B_HU_PRED
+      set(0, 0, average2(i, j))
+      set(2, 0, average2(j, k)); set(0, 1, average2(j, k))
+      set(2, 1, average2(k, l)); set(0, 2, average2(k, l))
+      set(1, 0, average3(i, j, k))
+      set(3, 0, average3(j, k, l)); set(1, 1, average3(j, k, l))
+      set(3, 1, average3(k, l, l)); set(1, 2, average3(k, l, l))
+      set(3, 2, l); set(2, 2, l)
+      set(0, 3, l); set(1, 3, l); set(2, 3, l); set(3, 3, l)
+  }
+}
+
+function readSubblockMode(reader: BoolDecoder, above: number, left: number): number {
+  const base = (above * 10 + left) * 9
+  let node = SUBBLOCK_MODE_TREE[reader.readBool(SUBBLOCK_MODE_PROBABILITIES[base])]
+  while (node > 0) {
+    node = SUBBLOCK_MODE_TREE[2 * node + reader.readBool(SUBBLOCK_MODE_PROBABILITIES[base + node])]
+  }
+  return -node
+}
+
+function computeFilterStrengths(
+  level: number,
+  sharpness: number,
+  segmentLevels: number[],
+  referenceDelta: number,
+  modeDelta: number,
+): FilterStrength[][] {
+  return segmentLevels.map((segmentLevel) =>
+    [false, true].map((subblockModes) => {
+      const adjusted = clampIndex(
+        segmentLevel + referenceDelta + (subblockModes ? modeDelta : 0),
+        63,
+      )
+      if (adjusted === 0 || level === 0) {
+        return { limit: 0, interiorLimit: 0, hevThreshold: 0, inner: subblockModes }
+      }
+      let interiorLimit = adjusted
+      if (sharpness > 0) {
+        interiorLimit >>= sharpness > 4 ? 2 : 1
+        interiorLimit = Math.min(interiorLimit, 9 - sharpness)
+      }
+      interiorLimit = Math.max(1, interiorLimit)
+      return {
+        limit: 2 * adjusted + interiorLimit,
+        interiorLimit,
+        hevThreshold: adjusted >= 40 ? 2 : adjusted >= 15 ? 1 : 0,
+        inner: subblockModes,
+      }
+    }),
+  )
+}
+
+function signedClamp(value: number): number {
+  return value < -128 ? -128 : value > 127 ? 127 : value
+}
+
+/** RFC 6386 common_adjust on the pixels straddling an edge. */
+function adjustEdge(
+  pixels: Uint8Array,
+  offset: number,
+  step: number,
+  useOuterTaps: boolean,
+): number {
+  const p1 = pixels[offset - 2 * step] - 128
+  const p0 = pixels[offset - step] - 128
+  const q0 = pixels[offset] - 128
+  const q1 = pixels[offset + step] - 128
+  const base = signedClamp((useOuterTaps ? signedClamp(p1 - q1) : 0) + 3 * (q0 - p0))
+  const rounded = signedClamp(base + 3) >> 3
+  const adjustment = signedClamp(base + 4) >> 3
+  pixels[offset] = signedClamp(q0 - adjustment) + 128
+  pixels[offset - step] = signedClamp(p0 + rounded) + 128
+  return adjustment
+}
+
+function exceedsEdgeLimit(
+  pixels: Uint8Array,
+  offset: number,
+  step: number,
+  edgeLimit: number,
+): boolean {
+  return (
+    Math.abs(pixels[offset - step] - pixels[offset]) * 2 +
+      (Math.abs(pixels[offset - 2 * step] - pixels[offset + step]) >> 1) >
+    edgeLimit
+  )
+}
+
+function shouldFilter(
+  pixels: Uint8Array,
+  offset: number,
+  step: number,
+  edgeLimit: number,
+  interiorLimit: number,
+): boolean {
+  if (exceedsEdgeLimit(pixels, offset, step, edgeLimit)) return false
+  const p3 = pixels[offset - 4 * step]
+  const p2 = pixels[offset - 3 * step]
+  const p1 = pixels[offset - 2 * step]
+  const p0 = pixels[offset - step]
+  const q0 = pixels[offset]
+  const q1 = pixels[offset + step]
+  const q2 = pixels[offset + 2 * step]
+  const q3 = pixels[offset + 3 * step]
+  return (
+    Math.abs(p3 - p2) <= interiorLimit &&
+    Math.abs(p2 - p1) <= interiorLimit &&
+    Math.abs(p1 - p0) <= interiorLimit &&
+    Math.abs(q3 - q2) <= interiorLimit &&
+    Math.abs(q2 - q1) <= interiorLimit &&
+    Math.abs(q1 - q0) <= interiorLimit
+  )
+}
+
+function highEdgeVariance(
+  pixels: Uint8Array,
+  offset: number,
+  step: number,
+  threshold: number,
+): boolean {
+  return (
+    Math.abs(pixels[offset - 2 * step] - pixels[offset - step]) > threshold ||
+    Math.abs(pixels[offset + step] - pixels[offset]) > threshold
+  )
+}
+
+/**
+ * Filter `count` positions along an edge. `step` crosses the edge and
+ * `advance` moves along it.
+ */
+function filterEdge(
+  pixels: Uint8Array,
+  offset: number,
+  step: number,
+  advance: number,
+  count: number,
+  strength: FilterStrength,
+  macroblockEdge: boolean,
+): void {
+  const edgeLimit = macroblockEdge ? strength.limit + 4 : strength.limit
+  for (let index = 0; index < count; index += 1, offset += advance) {
+    if (!shouldFilter(pixels, offset, step, edgeLimit, strength.interiorLimit)) continue
+    if (highEdgeVariance(pixels, offset, step, strength.hevThreshold)) {
+      adjustEdge(pixels, offset, step, true)
+    } else if (macroblockEdge) {
+      const p2 = pixels[offset - 3 * step] - 128
+      const p1 = pixels[offset - 2 * step] - 128
+      const p0 = pixels[offset - step] - 128
+      const q0 = pixels[offset] - 128
+      const q1 = pixels[offset + step] - 128
+      const q2 = pixels[offset + 2 * step] - 128
+      const w = signedClamp(signedClamp(p1 - q1) + 3 * (q0 - p0))
+      let a = signedClamp((27 * w + 63) >> 7)
+      pixels[offset] = signedClamp(q0 - a) + 128
+      pixels[offset - step] = signedClamp(p0 + a) + 128
+      a = signedClamp((18 * w + 63) >> 7)
+      pixels[offset + step] = signedClamp(q1 - a) + 128
+      pixels[offset - 2 * step] = signedClamp(p1 + a) + 128
+      a = signedClamp((9 * w + 63) >> 7)
+      pixels[offset + 2 * step] = signedClamp(q2 - a) + 128
+      pixels[offset - 3 * step] = signedClamp(p2 + a) + 128
+    } else {
+      const a = (adjustEdge(pixels, offset, step, false) + 1) >> 1
+      const p1 = pixels[offset - 2 * step] - 128
+      const q1 = pixels[offset + step] - 128
+      pixels[offset + step] = signedClamp(q1 - a) + 128
+      pixels[offset - 2 * step] = signedClamp(p1 + a) + 128
+    }
+  }
+}
+
+function filterSimpleEdge(
+  pixels: Uint8Array,
+  offset: number,
+  step: number,
+  advance: number,
+  edgeLimit: number,
+): void {
+  for (let index = 0; index < 16; index += 1, offset += advance) {
+    if (!exceedsEdgeLimit(pixels, offset, step, edgeLimit)) {
+      adjustEdge(pixels, offset, step, true)
+    }
+  }
+}
+
+/** Decode a VP8 chunk payload to its filtered YUV planes. */
+export function decodeLossy(data: Uint8Array, start: number, end: number): LossyFrame {
+  const header = readFrameHeader(data, start, end)
+  const reader = new BoolDecoder(data, header.firstPartitionStart, header.firstPartitionEnd)
+  const macroblocksWide = (header.width + 15) >> 4
+  const macroblocksHigh = (header.height + 15) >> 4
+
+  reader.readBool(128) // color space
+  reader.readBool(128) // clamping type
+
+  let useSegments = false
+  let updateSegmentMap = false
+  let absoluteSegmentValues = false
+  const segmentQuantizers = [0, 0, 0, 0]
+  const segmentFilterLevels = [0, 0, 0, 0]
+  const segmentProbabilities = [255, 255, 255]
+  if (reader.readBool(128)) {
+    useSegments = true
+    updateSegmentMap = reader.readBool(128) === 1
+    if (reader.readBool(128)) {
+      absoluteSegmentValues = reader.readBool(128) === 1
+      for (let segment = 0; segment < 4; segment += 1) {
+        segmentQuantizers[segment] = reader.readOptionalSigned(7)
+      }
+      for (let segment = 0; segment < 4; segment += 1) {
+        segmentFilterLevels[segment] = reader.readOptionalSigned(6)
+      }
+    }
+    if (updateSegmentMap) {
+      for (let index = 0; index < 3; index += 1) {
+        segmentProbabilities[index] = reader.readBool(128) ? reader.readLiteral(8) : 255
+      }
+    }
+  }
+
+  const simpleFilter = reader.readBool(128) === 1
+  const filterLevel = reader.readLiteral(6)
+  const sharpness = reader.readLiteral(3)
+  let referenceDelta = 0
+  let modeDelta = 0
+  if (reader.readBool(128) && reader.readBool(128)) {
+    const referenceDeltas = [0, 0, 0, 0].map(() => reader.readOptionalSigned(6))
+    const modeDeltas = [0, 0, 0, 0].map(() => reader.readOptionalSigned(6))
+    referenceDelta = referenceDeltas[0]
+    modeDelta = modeDeltas[0]
+  }
+
+  const partitionCount = 1 << reader.readLiteral(2)
+  const partitions: BoolDecoder[] = []
+  let partitionStart = header.firstPartitionEnd + 3 * (partitionCount - 1)
+  if (partitionStart > end) invalid('partition table is truncated')
+  for (let index = 0; index < partitionCount; index += 1) {
+    const sizeOffset = header.firstPartitionEnd + 3 * index
+    const partitionEnd =
+      index < partitionCount - 1
+        ? partitionStart +
+          (data[sizeOffset] | (data[sizeOffset + 1] << 8) | (data[sizeOffset + 2] << 16))
+        : end
+    if (partitionEnd > end) invalid('token partition is truncated')
+    partitions.push(new BoolDecoder(data, partitionStart, partitionEnd))
+    partitionStart = partitionEnd
+  }
+
+  const baseQuantizer = reader.readLiteral(7)
+  const quantizerDeltas = [0, 0, 0, 0, 0].map(() => reader.readOptionalSigned(4))
+  const quantizers = segmentQuantizers.map((segmentQuantizer) =>
+    buildQuantizer(
+      useSegments
+        ? segmentQuantizer + (absoluteSegmentValues ? 0 : baseQuantizer)
+        : baseQuantizer,
+      quantizerDeltas,
+    ),
+  )
+  const filterStrengths = computeFilterStrengths(
+    filterLevel,
+    sharpness,
+    segmentFilterLevels.map((segmentLevel) =>
+      useSegments ? segmentLevel + (absoluteSegmentValues ? 0 : filterLevel) : filterLevel,
+    ),
+    referenceDelta,
+    modeDelta,
+  )
+
+  reader.readBool(128) // refresh entropy probabilities; irrelevant for a single frame
+  const probabilities = DEFAULT_COEFFICIENT_PROBABILITIES.slice()
+  for (let index = 0; index < probabilities.length; index += 1) {
+    if (reader.readBool(COEFFICIENT_UPDATE_PROBABILITIES[index])) {
+      probabilities[index] = reader.readLiteral(8)
+    }
+  }
+  const skipProbability = reader.readBool(128) ? reader.readLiteral(8) : -1
+
+  const lumaStride = macroblocksWide * 16
+  const chromaStride = macroblocksWide * 8
+  const luma = new Uint8Array(lumaStride * macroblocksHigh * 16)
+  const blueChroma = new Uint8Array(chromaStride * macroblocksHigh * 8)
+  const redChroma = new Uint8Array(chromaStride * macroblocksHigh * 8)
+
+  const macroblockCount = macroblocksWide * macroblocksHigh
+  const macroblockSegments = new Uint8Array(macroblockCount)
+  const macroblockSubblockModes = new Uint8Array(macroblockCount)
+  const macroblockCoded = new Uint8Array(macroblockCount)
+
+  const modesAbove = new Uint8Array(macroblocksWide * 4)
+  const modesLeft = new Uint8Array(4)
+  const contextAbove = new Uint8Array(macroblocksWide * CONTEXT_SIZE)
+  const contextLeft = new Uint8Array(CONTEXT_SIZE)
+  const subblockModes = new Uint8Array(16)
+  const coefficients = new Int32Array(384)
+  const y2 = new Int32Array(16)
+  const lumaWork = new Uint8Array(LUMA_WORK_STRIDE * 17)
+  const blueWork = new Uint8Array(CHROMA_WORK_STRIDE * 9)
+  const redWork = new Uint8Array(CHROMA_WORK_STRIDE * 9)
+
+  for (let mbY = 0; mbY < macroblocksHigh; mbY += 1) {
+    modesLeft.fill(0)
+    contextLeft.fill(0)
+    const tokens = partitions[mbY % partitionCount]
+
+    for (let mbX = 0; mbX < macroblocksWide; mbX += 1) {
+      const index = mbY * macroblocksWide + mbX
+      const segment = updateSegmentMap
+        ? !reader.readBool(segmentProbabilities[0])
+          ? reader.readBool(segmentProbabilities[1])
+          : 2 + reader.readBool(segmentProbabilities[2])
+        : 0
+      const skip = skipProbability >= 0 ? reader.readBool(skipProbability) === 1 : false
+      const usesSubblocks = !reader.readBool(145)
+      let lumaMode = DC_PRED
+      if (usesSubblocks) {
+        for (let block = 0; block < 16; block += 1) {
+          const x = block & 3
+          const y = block >> 2
+          const mode = readSubblockMode(reader, modesAbove[mbX * 4 + x], modesLeft[y])
+          subblockModes[block] = mode
+          modesAbove[mbX * 4 + x] = mode
+          modesLeft[y] = mode
+        }
+      } else {
+        lumaMode = reader.readBool(156)
+          ? reader.readBool(128) ? TM_PRED : H_PRED
+          : reader.readBool(163) ? V_PRED : DC_PRED
+        modesAbove.fill(lumaMode, mbX * 4, mbX * 4 + 4)
+        modesLeft.fill(lumaMode)
+      }
+      const chromaMode = !reader.readBool(142)
+        ? DC_PRED
+        : !reader.readBool(114)
+          ? V_PRED
+          : reader.readBool(183) ? TM_PRED : H_PRED
+
+      const quantizer = quantizers[segment]
+      const above = mbX * CONTEXT_SIZE
+      coefficients.fill(0)
+      let coded = false
+      if (skip) {
+        contextAbove.fill(0, above, above + CONTEXT_Y2)
+        contextLeft.fill(0, 0, CONTEXT_Y2)
+        if (!usesSubblocks) {
+          contextAbove[above + CONTEXT_Y2] = 0
+          contextLeft[CONTEXT_Y2] = 0
+        }
+      } else {
+        let first = 0
+        let lumaType = TYPE_LUMA_WITH_DC
+        if (!usesSubblocks) {
+          y2.fill(0)
+          const count = readCoefficients(
+            tokens,
+            probabilities,
+            TYPE_Y2,
+            contextAbove[above + CONTEXT_Y2] + contextLeft[CONTEXT_Y2],
+            quantizer.y2Dc,
+            quantizer.y2Ac,
+            0,
+            y2,
+            0,
+          )
+          contextAbove[above + CONTEXT_Y2] = contextLeft[CONTEXT_Y2] = count > 0 ? 1 : 0
+          inverseWalshHadamard(y2, coefficients)
+          first = 1
+          lumaType = TYPE_LUMA_AFTER_Y2
+        }
+        for (let y = 0; y < 4; y += 1) {
+          for (let x = 0; x < 4; x += 1) {
+            const offset = (y * 4 + x) * 16
+            const count = readCoefficients(
+              tokens,
+              probabilities,
+              lumaType,
+              contextAbove[above + x] + contextLeft[y],
+              quantizer.lumaDc,
+              quantizer.lumaAc,
+              first,
+              coefficients,
+              offset,
+            )
+            const nonZero = count > first ? 1 : 0
+            contextAbove[above + x] = contextLeft[y] = nonZero
+            if (nonZero || coefficients[offset] !== 0) coded = true
+          }
+        }
+        for (const plane of [CONTEXT_BLUE, CONTEXT_RED]) {
+          for (let y = 0; y < 2; y += 1) {
+            for (let x = 0; x < 2; x += 1) {
+              const offset = 256 + (plane - CONTEXT_BLUE) * 32 + (y * 2 + x) * 16
+              const count = readCoefficients(
+                tokens,
+                probabilities,
+                TYPE_CHROMA,
+                contextAbove[above + plane + x] + contextLeft[plane + y],
+                quantizer.chromaDc,
+                quantizer.chromaAc,
+                0,
+                coefficients,
+                offset,
+              )
+              const nonZero = count > 0 ? 1 : 0
+              contextAbove[above + plane + x] = contextLeft[plane + y] = nonZero
+              if (nonZero) coded = true
+            }
+          }
+        }
+      }
+
+      macroblockSegments[index] = segment
+      macroblockSubblockModes[index] = usesSubblocks ? 1 : 0
+      macroblockCoded[index] = coded ? 1 : 0
+
+      reconstructMacroblock(
+        mbX,
+        mbY,
+        macroblocksWide,
+        { luma, blueChroma, redChroma, lumaStride, chromaStride },
+        { lumaWork, blueWork, redWork },
+        usesSubblocks ? subblockModes : undefined,
+        lumaMode,
+        chromaMode,
+        coefficients,
+      )
+    }
+    if (reader.overrun > 2 || tokens.overrun > 2) invalid('macroblock data is truncated')
+  }
+
+  if (filterLevel > 0) {
+    for (let mbY = 0; mbY < macroblocksHigh; mbY += 1) {
+      for (let mbX = 0; mbX < macroblocksWide; mbX += 1) {
+        const index = mbY * macroblocksWide + mbX
+        const base = filterStrengths[macroblockSegments[index]][macroblockSubblockModes[index]]
+        if (base.limit === 0) continue
+        const strength = { ...base, inner: base.inner || macroblockCoded[index] === 1 }
+        if (simpleFilter) {
+          filterMacroblockSimple(luma, lumaStride, mbX, mbY, strength)
+        } else {
+          filterMacroblock(luma, lumaStride, 16, mbX, mbY, strength)
+          filterMacroblock(blueChroma, chromaStride, 8, mbX, mbY, strength)
+          filterMacroblock(redChroma, chromaStride, 8, mbX, mbY, strength)
+        }
+      }
+    }
+  }
+
+  return {
+    width: header.width,
+    height: header.height,
+    luma,
+    lumaStride,
+    blueChroma,
+    redChroma,
+    chromaStride,
+  }
+}
+
+interface Planes {
+  luma: Uint8Array
+  blueChroma: Uint8Array
+  redChroma: Uint8Array
+  lumaStride: number
+  chromaStride: number
+}
+
+interface WorkAreas {
+  lumaWork: Uint8Array
+  blueWork: Uint8Array
+  redWork: Uint8Array
+}
+
+/**
+ * Load a work area's border from the (still unfiltered) planes: 127 above the
+ * frame, 129 left of it, and a 129 corner below the first row.
+ */
+function loadBorders(
+  plane: Uint8Array,
+  planeStride: number,
+  work: Uint8Array,
+  workStride: number,
+  size: number,
+  mbX: number,
+  mbY: number,
+): void {
+  const left = mbX * size
+  const top = mbY * size
+  if (mbY === 0) {
+    work.fill(127, 0, workStride)
+  } else {
+    const above = (top - 1) * planeStride
+    work[0] = mbX > 0 ? plane[above + left - 1] : 129
+    work.set(plane.subarray(above + left, above + left + size), 1)
+  }
+  for (let y = 0; y < size; y += 1) {
+    work[(y + 1) * workStride] = mbX > 0 ? plane[(top + y) * planeStride + left - 1] : 129
+  }
+}
+
+function storeWork(
+  plane: Uint8Array,
+  planeStride: number,
+  work: Uint8Array,
+  workStride: number,
+  size: number,
+  mbX: number,
+  mbY: number,
+): void {
+  for (let y = 0; y < size; y += 1) {
+    const source = (y + 1) * workStride + 1
+    plane.set(work.subarray(source, source + size), (mbY * size + y) * planeStride + mbX * size)
+  }
+}
+
+function reconstructMacroblock(
+  mbX: number,
+  mbY: number,
+  macroblocksWide: number,
+  planes: Planes,
+  work: WorkAreas,
+  subblockModes: Uint8Array | undefined,
+  lumaMode: number,
+  chromaMode: number,
+  coefficients: Int32Array,
+): void {
+  const { lumaWork, blueWork, redWork } = work
+  loadBorders(planes.luma, planes.lumaStride, lumaWork, LUMA_WORK_STRIDE, 16, mbX, mbY)
+
+  if (subblockModes) {
+    // Subblocks on the right edge all see the macroblock's top-right pixels.
+    if (mbY > 0) {
+      const above = (mbY * 16 - 1) * planes.lumaStride
+      for (let x = 0; x < 4; x += 1) {
+        lumaWork[17 + x] =
+          mbX < macroblocksWide - 1
+            ? planes.luma[above + mbX * 16 + 16 + x]
+            : planes.luma[above + mbX * 16 + 15]
+      }
+    }
+    for (const row of [4, 8, 12]) {
+      lumaWork.copyWithin(row * LUMA_WORK_STRIDE + 17, 17, 21)
+    }
+    for (let block = 0; block < 16; block += 1) {
+      const origin = ((block >> 2) * 4 + 1) * LUMA_WORK_STRIDE + (block & 3) * 4 + 1
+      predictSubblock(lumaWork, origin, subblockModes[block])
+      if (hasCoefficients(coefficients, block * 16)) {
+        addInverseTransform(coefficients, block * 16, lumaWork, origin, LUMA_WORK_STRIDE)
+      }
+    }
+  } else {
+    predictBlock(lumaWork, LUMA_WORK_STRIDE, 16, lumaMode, mbY > 0, mbX > 0)
+    for (let block = 0; block < 16; block += 1) {
+      if (hasCoefficients(coefficients, block * 16)) {
+        const origin = ((block >> 2) * 4 + 1) * LUMA_WORK_STRIDE + (block & 3) * 4 + 1
+        addInverseTransform(coefficients, block * 16, lumaWork, origin, LUMA_WORK_STRIDE)
+      }
+    }
+  }
+  storeWork(planes.luma, planes.lumaStride, lumaWork, LUMA_WORK_STRIDE, 16, mbX, mbY)
+
+  for (const [plane, chromaWork, offset] of [
+    [planes.blueChroma, blueWork, 256],
+    [planes.redChroma, redWork, 320],
+  ] as const) {
+    loadBorders(plane, planes.chromaStride, chromaWork, CHROMA_WORK_STRIDE, 8, mbX, mbY)
+    predictBlock(chromaWork, CHROMA_WORK_STRIDE, 8, chromaMode, mbY > 0, mbX > 0)
+    for (let block = 0; block < 4; block += 1) {
+      const coefficientOffset = offset + block * 16
+      if (hasCoefficients(coefficients, coefficientOffset)) {
+        const origin = ((block >> 1) * 4 + 1) * CHROMA_WORK_STRIDE + (block & 1) * 4 + 1
+        addInverseTransform(coefficients, coefficientOffset, chromaWork, origin, CHROMA_WORK_STRIDE)
+      }
+    }
+    storeWork(plane, planes.chromaStride, chromaWork, CHROMA_WORK_STRIDE, 8, mbX, mbY)
+  }
+}
+
+function filterMacroblock(
+  plane: Uint8Array,
+  stride: number,
+  size: number,
+  mbX: number,
+  mbY: number,
+  strength: FilterStrength,
+): void {
+  const origin = mbY * size * stride + mbX * size
+  if (mbX > 0) filterEdge(plane, origin, 1, stride, size, strength, true)
+  if (strength.inner) {
+    for (let x = 4; x < size; x += 4) {
+      filterEdge(plane, origin + x, 1, stride, size, strength, false)
+    }
+  }
+  if (mbY > 0) filterEdge(plane, origin, stride, 1, size, strength, true)
+  if (strength.inner) {
+    for (let y = 4; y < size; y += 4) {
+      filterEdge(plane, origin + y * stride, stride, 1, size, strength, false)
+    }
+  }
+}
+
+function filterMacroblockSimple(
+  luma: Uint8Array,
+  stride: number,
+  mbX: number,
+  mbY: number,
+  strength: FilterStrength,
+): void {
+  const origin = mbY * 16 * stride + mbX * 16
+  if (mbX > 0) filterSimpleEdge(luma, origin, 1, stride, strength.limit + 4)
+  if (strength.inner) {
+    for (let x = 4; x < 16; x += 4) filterSimpleEdge(luma, origin + x, 1, stride, strength.limit)
+  }
+  if (mbY > 0) filterSimpleEdge(luma, origin, stride, 1, strength.limit + 4)
+  if (strength.inner) {
+    for (let y = 4; y < 16; y += 4) {
+      filterSimpleEdge(luma, origin + y * stride, stride, 1, strength.limit)
+    }
+  }
+}
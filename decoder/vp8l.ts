@@ -0,0 +1,683 @@
+/**
+ * WebP lossless (VP8L) bitstream decoder, following RFC 9649.
+ *
+ * Pixels are returned as packed ARGB words so the inverse transforms can work
+ * on whole pixels; `decodeWebp` converts them to RGBA. The same image-stream
+ * reader decodes the VP8L-compressed alpha planes of lossy files.
+ */
+
+const MAX_COLOR_CACHE_BITS = 11
+const NUM_LITERAL_CODES = 256
+const NUM_LENGTH_CODES = 24
+const NUM_DISTANCE_CODES = 40
+const CODE_LENGTH_CODES = 19
+const ROOT_TABLE_BITS = 8
+const MAX_CODE_LENGTH = 15
+
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]
+
+/** (dx, dy) offsets for the 120 short distance codes, in code order. */
+const DISTANCE_MAP = [
+  0, 1, 1, 0, 1, 1, -1, 1, 0, 2, 2, 0, 1, 2, -1, 2,
+  2, 1, -2, 1, 2, 2, -2, 2, 0, 3, 3, 0, 1, 3, -1, 3,
+  3, 1, -3, 1, 2, 3, -2, 3, 3, 2, -3, 2, 0, 4, 4, 0,
+  1, 4, -1, 4, 4, 1, -4, 1, 3, 3, -3, 3, 2, 4, -2, 4,
+  4, 2, -4, 2, 0, 5, 3, 4, -3, 4, 4, 3, -4, 3, 5, 0,
+  1, 5, -1, 5, 5, 1, -5, 1, 2, 5, -2, 5, 5, 2, -5, 2,
+  4, 4, -4, 4, 3, 5, -3, 5, 5, 3, -5, 3, 0, 6, 6, 0,
+  1, 6, -1, 6, 6, 1, -6, 1, 2, 6, -2, 6, 6, 2, -6, 2,
+  4, 5, -4, 5, 5, 4, -5, 4, 3, 6, -3, 6, 6, 3, -6, 3,
+  0, 7, 7, 0, 1, 7, -1, 7, 5, 5, -5, 5, 7, 1, -7, 1,
+  4, 6, -4, 6, 6, 4, -6, 4, 2, 7, -2, 7, 7, 2, -7, 2,
+  3, 7, -3, 7, 7, 3, -7, 3, 5, 6, -5, 6, 6, 5, -6, 5,
+  8, 0, 4, 7, -4, 7, 7, 4, -7, 4, 8, 1, 8, 2, 6, 6,
+  -6, 6, 8, 3, 5, 7, -5, 7, 7, 5, -7, 5, 8, 4, 6, 7,
+  -6, 7, 7, 6, -7, 6, 8, 5, 7, 7, -7, 7, 8, 6, 8, 7,
+]
+
+const PREDICTOR_TRANSFORM = 0
+const CROSS_COLOR_TRANSFORM = 1
+const SUBTRACT_GREEN_TRANSFORM = 2
+const COLOR_INDEXING_TRANSFORM = 3
+
+interface Transform {
+  type: number
+  /** Image width the transform was encoded against. */
+  width: number
+  bits: number
+  data: Uint32Array
+}
+
+/** Two-level lookup table: 8 root bits, then per-prefix second-level tables. */
+interface HuffmanCode {
+  lengths: Uint8Array
+  symbols: Uint16Array
+}
+
+type HuffmanGroup = [HuffmanCode, HuffmanCode, HuffmanCode, HuffmanCode, HuffmanCode]
+
+class LosslessBitReader {
+  private value = 0
+  private bitCount = 0
+  private position: number
+  private consumedBits = 0
+  private readonly availableBits: number
+
+  constructor(
+    private readonly data: Uint8Array,
+    start: number,
+    private readonly end: number,
+  ) {
+    this.position = start
+    this.availableBits = (end - start) * 8
+  }
+
+  private fill(): void {
+    while (this.bitCount <= 24) {
+      const byte = this.position < this.end ? this.data[this.position] : 0
+      this.position += 1
+      this.value = (this.value | (byte << this.bitCount)) >>> 0
+      this.bitCount += 8
+    }
+  }
+
+  /** Look at up to 24 upcoming bits without consuming them. */
+  peek(count: number): number {
+    if (this.bitCount < count) this.fill()
+    return this.value & ((1 << count) - 1)
+  }
+
+  skip(count: number): void {
+    this.value >>>= count
+    this.bitCount -= count
+    this.consumedBits += count
+    if (this.consumedBits > this.availableBits) {
+      throw new RangeError('WebP lossless data is truncated')
+    }
+  }
+
+  read(count: number): number {
+    if (count > 24) {
+      const low = this.read(16)
+      return low + this.read(count - 16) * 65536
+    }
+    const value = this.peek(count)
+    this.skip(count)
+    return value
+  }
+}
+
+function invalid(reason: string): never {
+  throw new RangeError(`Invalid WebP lossless data: ${reason}`)
+}
+
+function reverseBits(code: number, length: number): number {
+  let result = 0
+  for (let bit = 0; bit < length; bit += 1) {
+    result = (result << 1) | ((code >> bit) & 1)
+  }
+  return result
+}
+
+/**
+ * Build a canonical Huffman decoding table. A code with a single used symbol
+ * decodes without consuming bits, as the format requires.
+ */
+function buildHuffmanCode(codeLengths: ArrayLike<number>): HuffmanCode {
+  const counts = new Uint16Array(MAX_CODE_LENGTH + 1)
+  let usedSymbols = 0
+  let lastSymbol = 0
+  for (let symbol = 0; symbol < codeLengths.length; symbol += 1) {
+    const length = codeLengths[symbol]
+    if (length > 0) {
+      counts[length] += 1
+      usedSymbols += 1
+      lastSymbol = symbol
+    }
+  }
+  if (usedSymbols === 0) invalid('empty prefix code')
+
+  const rootSize = 1 << ROOT_TABLE_BITS
+  if (usedSymbols === 1) {
+    return {
+      lengths: new Uint8Array(rootSize),
+      symbols: new Uint16Array(rootSize).fill(lastSymbol),
+    }
+  }
+
+  // Kraft check: only complete codes are valid.
+  let remaining = 1
+  for (let length = 1; length <= MAX_CODE_LENGTH; length += 1) {
+    remaining = remaining * 2 - counts[length]
+    if (remaining < 0) invalid('oversubscribed prefix code')
+  }
+  if (remaining !== 0) invalid('incomplete prefix code')
+
+  const nextCode = new Uint32Array(MAX_CODE_LENGTH + 2)
+  for (let length = 1; length <= MAX_CODE_LENGTH; length += 1) {
+    nextCode[length + 1] = (nextCode[length] + counts[length]) << 1
+  }
+  const codes = new Uint32Array(codeLengths.length)
+  for (let symbol = 0; symbol < codeLengths.length; symbol += 1) {
+    const length = codeLengths[symbol]
+    if (length > 0) {
+      codes[symbol] = reverseBits(nextCode[length], length)
+      nextCode[length] += 1
+    }
+  }
+
+  // Size each second-level table by the longest code sharing its root prefix.
+  const subtableBits = new Uint8Array(rootSize)
+  for (let symbol = 0; symbol < codeLengths.length; symbol += 1) {
+    const length = codeLengths[symbol]
+    if (length > ROOT_TABLE_BITS) {
+      const prefix = codes[symbol] & (rootSize - 1)
+      subtableBits[prefix] = Math.max(subtableBits[prefix], length - ROOT_TABLE_BITS)
+    }
+  }
+  const subtableOffsets = new Uint32Array(rootSize)
+  let tableSize = rootSize
+  for (let prefix = 0; prefix < rootSize; prefix += 1) {
+    if (subtableBits[prefix] > 0) {
+      subtableOffsets[prefix] = tableSize
+      tableSize += 1 << subtableBits[prefix]
+    }
+  }
+
+  const lengths = new Uint8Array(tableSize)
+  const symbols = new Uint16Array(tableSize)
+  for (let prefix = 0; prefix < rootSize; prefix += 1) {
+    if (subtableBits[prefix] > 0) {
+      lengths[prefix] = ROOT_TABLE_BITS + subtableBits[prefix]
+      symbols[prefix] = subtableOffsets[prefix] - prefix
+    }
+  }
+  for (let symbol = 0; symbol < codeLengths.length; symbol += 1) {
+    const length = codeLengths[symbol]
+    if (length === 0) continue
+    const code = codes[symbol]
+    if (length <= ROOT_TABLE_BITS) {
+      for (let index = code; index < rootSize; index += 1 << length) {
+        lengths[index] = length
+        symbols[index] = symbol
+      }
+    } else {
+      const prefix = code & (rootSize - 1)
+      const base = subtableOffsets[prefix]
+      const size = 1 << subtableBits[prefix]
+      for (
+        let index = code >>> ROOT_TABLE_BITS;
+        index < size;
+        index += 1 << (length - ROOT_TABLE_BITS)
+      ) {
+        lengths[base + index] = length
+        symbols[base + index] = symbol
+      }
+    }
+  }
+  return { lengths, symbols }
+}
+
+function readSymbol(code: HuffmanCode, reader: LosslessBitReader): number {
+  const bits = reader.peek(MAX_CODE_LENGTH)
+  const root = bits & ((1 << ROOT_TABLE_BITS) - 1)
+  const length = code.lengths[root]
+  if (length <= ROOT_TABLE_BITS) {
+    reader.skip(length)
+    return code.symbols[root]
+  }
+  const entry =
+    root +
+    code.symbols[root] +
+    ((bits >>> ROOT_TABLE_BITS) & ((1 << (length - ROOT_TABLE_BITS)) - 1))
+  reader.skip(code.lengths[entry])
+  return code.symbols[entry]
+}
+
+function readCodeLengths(
+  reader: LosslessBitReader,
+  lengthCode: HuffmanCode,
+  alphabetSize: number,
+): Uint8Array {
+  const lengths = new Uint8Array(alphabetSize)
+  let maxSymbol = alphabetSize
+  if (reader.read(1)) {
+    const lengthBits = 2 + 2 * reader.read(3)
+    maxSymbol = 2 + reader.read(lengthBits)
+    if (maxSymbol > alphabetSize) invalid('code length count exceeds the alphabet')
+  }
+
+  let previousLength = 8
+  let symbol = 0
+  while (symbol < alphabetSize) {
+    if (maxSymbol === 0) break
+    maxSymbol -= 1
+    const codeLength = readSymbol(lengthCode, reader)
+    if (codeLength < 16) {
+      lengths[symbol] = codeLength
+      symbol += 1
+      if (codeLength !== 0) previousLength = codeLength
+      continue
+    }
+    const repeat =
+      codeLength === 16
+        ? 3 + reader.read(2)
+        : codeLength === 17
+          ? 3 + reader.read(3)
+          : 11 + reader.read(7)
+    if (symbol + repeat > alphabetSize) invalid('code length repeat overflows the alphabet')
+    const value = codeLength === 16 ? previousLength : 0
+    lengths.fill(value, symbol, symbol + repeat)
+    symbol += repeat
+  }
+  return lengths
+}
+
+function readHuffmanCode(reader: LosslessBitReader, alphabetSize: number): HuffmanCode {
+  if (reader.read(1)) {
+    const symbolCount = reader.read(1) + 1
+    const lengths = new Uint8Array(alphabetSize)
+    for (let index = 0; index < symbolCount; index += 1) {
+      const symbol = reader.read(index === 0 && !reader.read(1) ? 1 : 8)
+      if (symbol >= alphabetSize) invalid('simple code symbol outside the alphabet')
+      lengths[symbol] = 1
+    }
+    return buildHuffmanCode(lengths)
+  }
+
+  const codeLengthCodeLengths = new Uint8Array(CODE_LENGTH_CODES)
+  const count = 4 + reader.read(4)
+  for (let index = 0; index < count; index += 1) {
+    codeLengthCodeLengths[CODE_LENGTH_ORDER[index]] = reader.read(3)
+  }
+  const lengthCode = buildHuffmanCode(codeLengthCodeLengths)
+  return buildHuffmanCode(readCodeLengths(reader, lengthCode, alphabetSize))
+}
+
+function readHuffmanGroup(reader: LosslessBitReader, colorCacheSize: number): HuffmanGroup {
+  return [
+    readHuffmanCode(reader, NUM_LITERAL_CODES + NUM_LENGTH_CODES + colorCacheSize),
+    readHuffmanCode(reader, NUM_LITERAL_CODES),
+    readHuffmanCode(reader, NUM_LITERAL_CODES),
+    readHuffmanCode(reader, NUM_LITERAL_CODES),
+    readHuffmanCode(reader, NUM_DISTANCE_CODES),
+  ]
+}
+
+function subsampledSize(size: number, bits: number): number {
+  return (size + (1 << bits) - 1) >> bits
+}
+
+/** Length and distance values share the same prefix coding. */
+function readPrefixValue(reader: LosslessBitReader, prefix: number): number {
+  if (prefix < 4) return prefix + 1
+  const extraBits = (prefix - 2) >> 1
+  const offset = (2 + (prefix & 1)) << extraBits
+  return offset + reader.read(extraBits) + 1
+}
+
+function planeDistance(code: number, width: number): number {
+  if (code > 120) return code - 120
+  const dx = DISTANCE_MAP[(code - 1) * 2]
+  const dy = DISTANCE_MAP[(code - 1) * 2 + 1]
+  return Math.max(1, dy * width + dx)
+}
+
+/**
+ * Decode one entropy-coded image. Only the main image (and an alpha plane)
+ * may carry meta prefix codes; sub-images always use a single group.
+ */
+function decodeEntropyImage(
+  reader: LosslessBitReader,
+  width: number,
+  height: number,
+  allowMetaCodes: boolean,
+): Uint32Array {
+  let colorCacheBits = 0
+  if (reader.read(1)) {
+    colorCacheBits = reader.read(4)
+    if (colorCacheBits < 1 || colorCacheBits > MAX_COLOR_CACHE_BITS) {
+      invalid('color cache size out of range')
+    }
+  }
+  const colorCacheSize = colorCacheBits > 0 ? 1 << colorCacheBits : 0
+
+  let groupBits = 0
+  let groupWidth = 1
+  let groupImage: Uint32Array | undefined
+  let groupCount = 1
+  if (allowMetaCodes && reader.read(1)) {
+    groupBits = reader.read(3) + 2
+    groupWidth = subsampledSize(width, groupBits)
+    groupImage = decodeEntropyImage(
+      reader,
+      groupWidth,
+      subsampledSize(height, groupBits),
+      false,
+    )
+    for (let index = 0; index < groupImage.length; index += 1) {
+      groupImage[index] = (groupImage[index] >> 8) & 0xffff
+      groupCount = Math.max(groupCount, groupImage[index] + 1)
+    }
+  }
+
+  const groups: HuffmanGroup[] = []
+  for (let index = 0; index < groupCount; index += 1) {
+    groups.push(readHuffmanGroup(reader, colorCacheSize))
+  }
+
+  const pixels = new Uint32Array(width * height)
+  const colorCache = colorCacheSize > 0 ? new Uint32Array(colorCacheSize) : undefined
+  const cacheShift = 32 - colorCacheBits
+  let cached = 0
+  const updateCache = (until: number): void => {
+    if (!colorCache) return
+    for (; cached < until; cached += 1) {
+      const argb = pixels[cached]
+      colorCache[Math.imul(argb, 0x1e35a7bd) >>> cacheShift] = argb
+    }
+  }
+
+  const total = width * height
+  let position = 0
+  while (position < total) {
+    const x = position % width
+    const group = groupImage
+      ? groups[groupImage[((position - x) / width >> groupBits) * groupWidth + (x >> groupBits)]]
+      : groups[0]
+    const green = readSymbol(group[0], reader)
+
+    if (green < NUM_LITERAL_CODES) {
+      const red = readSymbol(group[1], reader)
+      const blue = readSymbol(group[2], reader)
+      const alpha = readSymbol(group[3], reader)
+      pixels[position] = ((alpha << 24) | (red << 16) | (green << 8) | blue) >>> 0
+      position += 1
+    } else if (green < NUM_LITERAL_CODES + NUM_LENGTH_CODES) {
+      const length = readPrefixValue(reader, green - NUM_LITERAL_CODES)
+      const distance = planeDistance(
+        readPrefixValue(reader, readSymbol(group[4], reader)),
+        width,
+      )
+      if (distance > position || position + length > total) {
+        invalid('backward reference out of bounds')
+      }
+      for (let index = 0; index < length; index += 1) {
+        pixels[position + index] = pixels[position + index - distance]
+      }
+      position += length
+    } else {
+      if (!colorCache) invalid('color cache code without a cache')
+      updateCache(position)
+      pixels[position] = colorCache[green - NUM_LITERAL_CODES - NUM_LENGTH_CODES]
+      position += 1
+    }
+  }
+  return pixels
+}
+
+function addPixels(first: number, second: number): number {
+  return (
+    (((first & 0xff00ff00) + (second & 0xff00ff00)) & 0xff00ff00) |
+    (((first & 0x00ff00ff) + (second & 0x00ff00ff)) & 0x00ff00ff)
+  ) >>> 0
+}
+
+function average2(first: number, second: number): number {
+  return (
+    ((((first ^ second) & 0xfefefefe) >>> 1) + (first & second)) >>> 0
+  )
+}
+
+function channel(pixel: number, shift: number): number {
+  return (pixel >>> shift) & 0xff
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value
+}
+
+function select(left: number, top: number, topLeft: number): number {
+  let toLeft = 0
+  let toTop = 0
+  for (let shift = 0; shift < 32; shift += 8) {
+    const l = channel(left, shift)
+    const t = channel(top, shift)
+    const tl = channel(topLeft, shift)
+    toLeft += Math.abs(t - tl)
+    toTop += Math.abs(l - tl)
+  }
+  return toLeft < toTop ? left : top
+}
+
+function clampAddSubtractFull(first: number, second: number, third: number): number {
+  let result = 0
+  for (let shift = 0; shift < 32; shift += 8) {
+    result |= clampByte(channel(first, shift) + channel(second, shift) - channel(third, shift)) << shift
+  }
+  return result >>> 0
+}
+
+function clampAddSubtractHalf(first: number, second: number): number {
+  let result = 0
+  for (let shift = 0; shift < 32; shift += 8) {
+    const value = channel(first, shift)
+    result |= clampByte(value + Math.trunc((value - channel(second, shift)) / 2)) << shift
+  }
+  return result >>> 0
+}
+
+function predict(
+  mode: number,
+  pixels: Uint32Array,
+  index: number,
+  width: number,
+): number {
+  const left = pixels[index - 1]
+  const top = pixels[index - width]
+  const topRight = pixels[index - width + 1]
+  const topLeft = pixels[index - width - 1]
+  switch (mode) {
+    case 0: return 0xff000000
+    case 1: return left
+    case 2: return top
+    case 3: return topRight
+    case 4: return topLeft
+    case 5: return average2(average2(left, topRight), top)
+    case 6: return average2(left, topLeft)
+    case 7: return average2(left, top)
+    case 8: return average2(topLeft, top)
+    case 9: return average2(top, topRight)
+    case 10: return average2(average2(left, topLeft), average2(top, topRight))
+    case 11: return select(left, top, topLeft)
+    case 12: return clampAddSubtractFull(left, top, topLeft)
+    case 13: return clampAddSubtractHalf(average2(left, top), topLeft)
+    default: return 0xff000000
+  }
+}
+
+function inversePredictor(transform: Transform, pixels: Uint32Array, height: number): void {
+  const width = transform.width
+  const blocksWide = subsampledSize(width, transform.bits)
+  pixels[0] = addPixels(pixels[0], 0xff000000)
+  for (let x = 1; x < width; x += 1) {
+    pixels[x] = addPixels(pixels[x], pixels[x - 1])
+  }
+  for (let y = 1; y < height; y += 1) {
+    const row = y * width
+    pixels[row] = addPixels(pixels[row], pixels[row - width])
+    const blockRow = (y >> transform.bits) * blocksWide
+    for (let x = 1; x < width; x += 1) {
+      const mode = (transform.data[blockRow + (x >> transform.bits)] >> 8) & 0xf
+      pixels[row + x] = addPixels(pixels[row + x], predict(mode, pixels, row + x, width))
+    }
+  }
+}
+
+function colorTransformDelta(multiplier: number, color: number): number {
+  return (((multiplier << 24) >> 24) * ((color << 24) >> 24)) >> 5
+}
+
+function inverseCrossColor(transform: Transform, pixels: Uint32Array, height: number): void {
+  const width = transform.width
+  const blocksWide = subsampledSize(width, transform.bits)
+  for (let y = 0; y < height; y += 1) {
+    const blockRow = (y >> transform.bits) * blocksWide
+    for (let x = 0; x < width; x += 1) {
+      const element = transform.data[blockRow + (x >> transform.bits)]
+      const greenToRed = element & 0xff
+      const greenToBlue = (element >> 8) & 0xff
+      const redToBlue = (element >> 16) & 0xff
+      const index = y * width + x
+      const pixel = pixels[index]
+      const green = channel(pixel, 8)
+      const red = (channel(pixel, 16) + colorTransformDelta(greenToRed, green)) & 0xff
+      const blue =
+        (channel(pixel, 0) +
+          colorTransformDelta(greenToBlue, green) +
+          colorTransformDelta(redToBlue, red)) & 0xff
+      pixels[index] = ((pixel & 0xff00ff00) | (red << 16) | blue) >>> 0
+    }
+  }
+}
+
+function inverseSubtractGreen(pixels: Uint32Array): void {
+  for (let index = 0; index < pixels.length; index += 1) {
+    const pixel = pixels[index]
+    const green = channel(pixel, 8)
+    const red = (channel(pixel, 16) + green) & 0xff
+    const blue = (channel(pixel, 0) + green) & 0xff
+    pixels[index] = ((pixel & 0xff00ff00) | (red << 16) | blue) >>> 0
+  }
+}
+
+function inverseColorIndexing(
+  transform: Transform,
+  packed: Uint32Array,
+  width: number,
+  height: number,
+): Uint32Array {
+  const pixels = new Uint32Array(width * height)
+  const packedWidth = subsampledSize(width, transform.bits)
+  const bitsPerIndex = 8 >> transform.bits
+  const indexMask = (1 << bitsPerIndex) - 1
+  const perByteMask = (1 << transform.bits) - 1
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const source = channel(packed[y * packedWidth + (x >> transform.bits)], 8)
+      const index = (source >> (bitsPerIndex * (x & perByteMask))) & indexMask
+      pixels[y * width + x] = index < transform.data.length ? transform.data[index] : 0
+    }
+  }
+  return pixels
+}
+
+function readTransform(
+  reader: LosslessBitReader,
+  type: number,
+  width: number,
+  height: number,
+): Transform {
+  if (type === SUBTRACT_GREEN_TRANSFORM) {
+    return { type, width, bits: 0, data: new Uint32Array(0) }
+  }
+  if (type === COLOR_INDEXING_TRANSFORM) {
+    const colorCount = reader.read(8) + 1
+    const bits = colorCount > 16 ? 0 : colorCount > 4 ? 1 : colorCount > 2 ? 2 : 3
+    const palette = decodeEntropyImage(reader, colorCount, 1, false)
+    for (let index = 1; index < palette.length; index += 1) {
+      palette[index] = addPixels(palette[index], palette[index - 1])
+    }
+    return { type, width, bits, data: palette }
+  }
+  const bits = reader.read(3) + 2
+  return {
+    type,
+    width,
+    bits,
+    data: decodeEntropyImage(
+      reader,
+      subsampledSize(width, bits),
+      subsampledSize(height, bits),
+      false,
+    ),
+  }
+}
+
+/** Decode an image stream (transforms plus entropy-coded pixels) to ARGB. */
+function decodeImageStream(
+  reader: LosslessBitReader,
+  width: number,
+  height: number,
+): Uint32Array {
+  const transforms: Transform[] = []
+  const seen = new Set<number>()
+  let codedWidth = width
+  while (reader.read(1)) {
+    const type = reader.read(2)
+    if (seen.has(type)) invalid('repeated transform')
+    seen.add(type)
+    const transform = readTransform(reader, type, codedWidth, height)
+    transforms.push(transform)
+    if (type === COLOR_INDEXING_TRANSFORM) {
+      codedWidth = subsampledSize(codedWidth, transform.bits)
+    }
+  }
+
+  let pixels = decodeEntropyImage(reader, codedWidth, height, true)
+  for (let index = transforms.length - 1; index >= 0; index -= 1) {
+    const transform = transforms[index]
+    switch (transform.type) {
+      case PREDICTOR_TRANSFORM:
+        inversePredictor(transform, pixels, height)
+        break
+      case CROSS_COLOR_TRANSFORM:
+        inverseCrossColor(transform, pixels, height)
+        break
+      case SUBTRACT_GREEN_TRANSFORM:
+        inverseSubtractGreen(pixels)
+        break
+      case COLOR_INDEXING_TRANSFORM:
+        pixels = inverseColorIndexing(transform, pixels, transform.width, height)
+        break
+    }
+  }
+  return pixels
+}
+
+export interface LosslessHeader {
+  width: number
+  height: number
+  hasAlpha: boolean
+}
+
+export function readLosslessHeader(data: Uint8Array, start: number, end: number): LosslessHeader {
+  if (end - start < 5 || data[start] !== 0x2f) invalid('missing signature')
+  const reader = new LosslessBitReader(data, start + 1, end)
+  const width = reader.read(14) + 1
+  const height = reader.read(14) + 1
+  const hasAlpha = reader.read(1) === 1
+  if (reader.read(3) !== 0) invalid('unknown version')
+  return { width, height, hasAlpha }
+}
+
+/** Decode a VP8L chunk payload to packed ARGB pixels. */
+export function decodeLossless(data: Uint8Array, start: number, end: number): Uint32Array {
+  const header = readLosslessHeader(data, start, end)
+  const reader = new LosslessBitReader(data, start + 5, end)
+  return decodeImageStream(reader, header.width, header.height)
+}
+
+/**
+ * Decode a headerless VP8L image stream of known size, as used by ALPH
+ * chunks; the alpha values are carried in the green channel.
+ */
+export function decodeLosslessStream(
+  data: Uint8Array,
+  start: number,
+  end: number,
+  width: number,
+  height: number,
+): Uint32Array {
+  return decodeImageStream(new LosslessBitReader(data, start, end), width, height)
+}
@@ -0,0 +1,76 @@
+import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
+
+import { describe, expect, it } from 'vitest'
+
+import { decodeWebp } from './webp.js'
+
+// Fixtures were encoded with libwebp 1.6 from `source(13, 11)`; the lossy
+// hashes are of libwebp's own RGBA decode of the same files.
+const LOSSLESS =
+  'UklGRmIAAABXRUJQVlA4TFYAAAAvDIACELkyRPQ/dhHR/4CCtm0kgxh/sv8dgoFQGklSdK5j4PGnzxEGDocmAuIf/AkgGMchwPgPmgkNcA1IbAAdiQMAmCoaNgCg8FSZhQ8KGi4ACh8AAA=='
+const LOSSY =
+  'UklGRogAAABXRUJQVlA4IHwAAACQAgCdASoNAAsAAUAmJbACdDiM94nBkHeWo/DtkAD+/pJefuebAoqt94chViAMiCe+39fAIn1zkdEodWOl9iGOV8DoUsP9c8eW/Yvi1K7/2cmf49uH/XzP357JwaJ9wx+J38e4WE4by9euf/jsYLmL//5+N/uTjqdiwAAA'
+const LOSSY_SHA256 = 'c9da7e7837281f84e45b539922cfbcdf65ff663f05155bee6b4eae60dd8f32a8'
+const LOSSY_ALPHA =
+  'UklGRsoAAABXRUJQVlA4WAoAAAAQAAAADAAACgAAQUxQSCUAAAARZyAkSP4/ptncEBGZhUJIViiB92OJJZZYYokxgIj+R6pnD18AAFZQOCB+AAAAUAIAnQEqDQALAAFAJiWwAnQwSUGQd5aj8O2QAP7+kl5+55sCiq33hyFWIAyIJ77f18AifXOR0Sh1Y6X2IY5XwOhSw/1zx+z7+/Yvhq+//2cmf49qDPksYof89i4M8+4Y/E7+PfWo5aj1N+1P/ntZZR5n//z8b/cXGc+iAAAA'
+const LOSSY_ALPHA_SHA256 = 'ec9eebf383a385df4960398ff4c49b278ed1423d058d7d8a1124deb018be6637'
+
+function source(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4
+      data[offset] = x * 16
+      data[offset + 1] = y * 20
+      data[offset + 2] = (x * y * 7) & 255
+      data[offset + 3] = 255 - x * 8
+    }
+  }
+  return data
+}
+
+function fixture(base64: string): Uint8Array {
+  return new Uint8Array(Buffer.from(base64, 'base64'))
+}
+
+function sha256(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+describe('WebP decoder', () => {
+  it('reproduces lossless pixels exactly', () => {
+    const image = decodeWebp(fixture(LOSSLESS), 1_000)
+
+    expect(image.width).toBe(13)
+    expect(image.height).toBe(11)
+    expect(image.data).toEqual(source(13, 11))
+  })
+
+  it('matches libwebp on lossy frames with and without an alpha plane', () => {
+    const lossy = decodeWebp(fixture(LOSSY), 1_000)
+    const alpha = decodeWebp(fixture(LOSSY_ALPHA), 1_000)
+
+    expect([lossy.width, lossy.height]).toEqual([13, 11])
+    expect(sha256(lossy.data)).toBe(LOSSY_SHA256)
+    expect(sha256(alpha.data)).toBe(LOSSY_ALPHA_SHA256)
+  })
+
+  it('checks the pixel limit before decoding', () => {
+    expect(() => decodeWebp(fixture(LOSSY), 100)).toThrow('pixel limit')
+  })
+
+  it('rejects truncated and animated files', () => {
+    const lossy = fixture(LOSSY)
+    expect(() => decodeWebp(lossy.subarray(0, 60), 1_000)).toThrow(RangeError)
+    expect(() => decodeWebp(lossy.subarray(0, 60), 1_000)).toThrow('VP8 chunk is truncated')
+    // Corrupt FourCCs are named in hex, so error output stays printable.
+    const corrupt = lossy.slice(0, 60)
+    corrupt.set([0x73, 0xc7, 0xec, 0xfb], 12)
+    expect(() => decodeWebp(corrupt, 1_000)).toThrow('chunk 0x73c7ecfb is truncated')
+
+    const animated = fixture(LOSSY_ALPHA)
+    animated[20] |= 0x02
+    expect(() => decodeWebp(animated, 1_000)).toThrow('Animated WebP input is not supported')
+  })
+})
@@ -0,0 +1,298 @@
+import { decodeLossy, readLossyHeader, type LossyFrame } from './vp8.js'
+import { decodeLossless, decodeLosslessStream, readLosslessHeader } from './vp8l.js'
+
+/**
+ * WebP container reader. Simple lossy (VP8), simple lossless (VP8L), and
+ * extended (VP8X) files with an ALPH plane decode to RGBA; animations are
+ * rejected. Lossy output reproduces libwebp's default fancy upsampling so a
+ * screenshot decodes to the same pixels a browser would show.
+ */
+
+export interface WebpImage {
+  width: number
+  height: number
+  /** Non-premultiplied RGBA, four bytes per pixel. */
+  data: Uint8Array
+}
+
+interface Chunk {
+  type: string
+  start: number
+  end: number
+}
+
+const ALPHA_FILTER_HORIZONTAL = 1
+const ALPHA_FILTER_VERTICAL = 2
+
+function invalid(reason: string): never {
+  throw new RangeError(`Invalid WebP data: ${reason}`)
+}
+
+function fourCc(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3])
+}
+
+/** A chunk as error messages name it: its FourCC when printable ASCII, else its bytes in hex. */
+function describeChunk(data: Uint8Array, offset: number): string {
+  const bytes = data.subarray(offset, offset + 4)
+  if (bytes.every((byte) => byte >= 0x20 && byte <= 0x7e)) {
+    return `${fourCc(data, offset).trim()} chunk`
+  }
+  return `chunk 0x${[...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('')}`
+}
+
+function readUint24(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16)
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return readUint24(data, offset) + data[offset + 3] * 0x1000000
+}
+
+export function isWebp(data: Uint8Array): boolean {
+  return data.length >= 12 && fourCc(data, 0) === 'RIFF' && fourCc(data, 8) === 'WEBP'
+}
+
+function readChunks(data: Uint8Array): Chunk[] {
+  if (!isWebp(data)) invalid('missing RIFF header')
+  const end = Math.min(data.length, 8 + readUint32(data, 4))
+  const chunks: Chunk[] = []
+  let offset = 12
+  while (offset + 8 <= end) {
+    const size = readUint32(data, offset + 4)
+    const start = offset + 8
+    if (start + size > end) invalid(`${describeChunk(data, offset)} is truncated`)
+    chunks.push({ type: fourCc(data, offset), start, end: start + size })
+    offset = start + size + (size & 1)
+  }
+  if (chunks.length === 0) invalid('no image chunk')
+  return chunks
+}
+
+function clip8(value: number): number {
+  const scaled = value >> 6
+  return scaled < 0 ? 0 : scaled > 255 ? 255 : scaled
+}
+
+function multiplyHigh(value: number, coefficient: number): number {
+  return (value * coefficient) >> 8
+}
+
+/** libwebp's 14-bit fixed-point BT.601 conversion. */
+function writeRgb(
+  target: Uint8Array,
+  offset: number,
+  luma: number,
+  blue: number,
+  red: number,
+): void {
+  const y = multiplyHigh(luma, 19077)
+  target[offset] = clip8(y + multiplyHigh(red, 26149) - 14234)
+  target[offset + 1] = clip8(y - multiplyHigh(blue, 6419) - multiplyHigh(red, 13320) + 8708)
+  target[offset + 2] = clip8(y + multiplyHigh(blue, 33050) - 17685)
+  target[offset + 3] = 255
+}
+
+/**
+ * Upsample one luma row pair against the chroma rows above and below it,
+ * weighting the nearer chroma sample 3:1 in both directions.
+ */
+function upsampleRowPair(
+  frame: LossyFrame,
+  target: Uint8Array,
+  topRow: number,
+  bottomRow: number | undefined,
+  topChromaRow: number,
+  chromaRow: number,
+): void {
+  const { width, luma, lumaStride, blueChroma, redChroma, chromaStride } = frame
+  const topLuma = topRow * lumaStride
+  const bottomLuma = bottomRow === undefined ? 0 : bottomRow * lumaStride
+  const topChroma = topChromaRow * chromaStride
+  const chroma = chromaRow * chromaStride
+  const topOut = topRow * width * 4
+  const bottomOut = bottomRow === undefined ? 0 : bottomRow * width * 4
+
+  const emit = (
+    x: number,
+    topBlue: number,
+    topRed: number,
+    bottomBlue: number,
+    bottomRed: number,
+  ): void => {
+    writeRgb(target, topOut + x * 4, luma[topLuma + x], topBlue, topRed)
+    if (bottomRow !== undefined) {
+      writeRgb(target, bottomOut + x * 4, luma[bottomLuma + x], bottomBlue, bottomRed)
+    }
+  }
+
+  let topLeftBlue = blueChroma[topChroma]
+  let topLeftRed = redChroma[topChroma]
+  let leftBlue = blueChroma[chroma]
+  let leftRed = redChroma[chroma]
+  emit(
+    0,
+    (3 * topLeftBlue + leftBlue + 2) >> 2,
+    (3 * topLeftRed + leftRed + 2) >> 2,
+    (3 * leftBlue + topLeftBlue + 2) >> 2,
+    (3 * leftRed + topLeftRed + 2) >> 2,
+  )
+  const lastPair = (width - 1) >> 1
+  for (let x = 1; x <= lastPair; x += 1) {
+    const topBlue = blueChroma[topChroma + x]
+    const topRed = redChroma[topChroma + x]
+    const blue = blueChroma[chroma + x]
+    const red = redChroma[chroma + x]
+    const blueSum = topLeftBlue + topBlue + leftBlue + blue + 8
+    const redSum = topLeftRed + topRed + leftRed + red + 8
+    const blueDiagonal12 = (blueSum + 2 * (topBlue + leftBlue)) >> 3
+    const redDiagonal12 = (redSum + 2 * (topRed + leftRed)) >> 3
+    const blueDiagonal03 = (blueSum + 2 * (topLeftBlue + blue)) >> 3
+    const redDiagonal03 = (redSum + 2 * (topLeftRed + red)) >> 3
+    emit(
+      2 * x - 1,
+      (blueDiagonal12 + topLeftBlue) >> 1,
+      (redDiagonal12 + topLeftRed) >> 1,
+      (blueDiagonal03 + leftBlue) >> 1,
+      (redDiagonal03 + leftRed) >> 1,
+    )
+    emit(
+      2 * x,
+      (blueDiagonal03 + topBlue) >> 1,
+      (redDiagonal03 + topRed) >> 1,
+      (blueDiagonal12 + blue) >> 1,
+      (redDiagonal12 + red) >> 1,
+    )
+    topLeftBlue = topBlue
+    topLeftRed = topRed
+    leftBlue = blue
+    leftRed = red
+  }
+  if (!(width & 1)) {
+    emit(
+      width - 1,
+      (3 * topLeftBlue + leftBlue + 2) >> 2,
+      (3 * topLeftRed + leftRed + 2) >> 2,
+      (3 * leftBlue + topLeftBlue + 2) >> 2,
+      (3 * leftRed + topLeftRed + 2) >> 2,
+    )
+  }
+}
+
+function lossyToRgba(frame: LossyFrame): Uint8Array {
+  const { width, height } = frame
+  const rgba = new Uint8Array(width * height * 4)
+  upsampleRowPair(frame, rgba, 0, undefined, 0, 0)
+  for (let row = 1; row + 1 < height; row += 2) {
+    upsampleRowPair(frame, rgba, row, row + 1, (row - 1) >> 1, (row + 1) >> 1)
+  }
+  if (!(height & 1)) {
+    const chromaRow = (height >> 1) - 1
+    upsampleRowPair(frame, rgba, height - 1, undefined, chromaRow, chromaRow)
+  }
+  return rgba
+}
+
+function argbToRgba(pixels: Uint32Array): Uint8Array {
+  const rgba = new Uint8Array(pixels.length * 4)
+  for (let index = 0; index < pixels.length; index += 1) {
+    const argb = pixels[index]
+    rgba[index * 4] = (argb >>> 16) & 0xff
+    rgba[index * 4 + 1] = (argb >>> 8) & 0xff
+    rgba[index * 4 + 2] = argb & 0xff
+    rgba[index * 4 + 3] = argb >>> 24
+  }
+  return rgba
+}
+
+/** Undo the ALPH spatial predictor in place; deltas wrap modulo 256. */
+function unfilterAlpha(alpha: Uint8Array, width: number, height: number, filter: number): void {
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = y * width + x
+      if (x === 0 && y === 0) continue
+      let prediction: number
+      if (y === 0) {
+        prediction = alpha[index - 1]
+      } else if (x === 0) {
+        prediction = alpha[index - width]
+      } else if (filter === ALPHA_FILTER_HORIZONTAL) {
+        prediction = alpha[index - 1]
+      } else if (filter === ALPHA_FILTER_VERTICAL) {
+        prediction = alpha[index - width]
+      } else {
+        // Gradient filter: clamp(left + above - above-left).
+        const gradient = alpha[index - 1] + alpha[index - width] - alpha[index - width - 1]
+        prediction = gradient < 0 ? 0 : gradient > 255 ? 255 : gradient
+      }
+      alpha[index] = (alpha[index] + prediction) & 0xff
+    }
+  }
+}
+
+function decodeAlpha(data: Uint8Array, chunk: Chunk, width: number, height: number): Uint8Array {
+  if (chunk.end <= chunk.start) invalid('empty ALPH chunk')
+  const header = data[chunk.start]
+  const compression = header & 3
+  const filter = (header >> 2) & 3
+  const pixelCount = width * height
+  let alpha: Uint8Array
+  if (compression === 0) {
+    if (chunk.end - chunk.start - 1 < pixelCount) invalid('ALPH chunk is truncated')
+    alpha = data.slice(chunk.start + 1, chunk.start + 1 + pixelCount)
+  } else if (compression === 1) {
+    const pixels = decodeLosslessStream(data, chunk.start + 1, chunk.end, width, height)
+    alpha = new Uint8Array(pixelCount)
+    for (let index = 0; index < pixelCount; index += 1) alpha[index] = (pixels[index] >>> 8) & 0xff
+  } else {
+    invalid('unknown ALPH compression')
+  }
+  if (filter !== 0) unfilterAlpha(alpha, width, height, filter)
+  return alpha
+}
+
+/**
+ * Decode a still WebP image. `maxPixels` is checked against the frame header
+ * before any pixel buffer is allocated.
+ */
+export function decodeWebp(data: Uint8Array, maxPixels: number): WebpImage {
+  const chunks = readChunks(data)
+  const find = (type: string) => chunks.find((chunk) => chunk.type === type)
+  const extended = find('VP8X')
+  if (
+    (extended && extended.end - extended.start >= 1 && data[extended.start] & 0x02) ||
+    find('ANIM') ||
+    find('ANMF')
+  ) {
+    throw new RangeError('Animated WebP input is not supported')
+  }
+
+  const assertSize = (width: number, height: number): void => {
+    if (width * height > maxPixels) {
+      throw new RangeError(`Image exceeds the ${maxPixels.toLocaleString()} pixel limit`)
+    }
+  }
+
+  const lossless = find('VP8L')
+  if (lossless) {
+    const header = readLosslessHeader(data, lossless.start, lossless.end)
+    assertSize(header.width, header.height)
+    return {
+      width: header.width,
+      height: header.height,
+      data: argbToRgba(decodeLossless(data, lossless.start, lossless.end)),
+    }
+  }
+
+  const lossy = find('VP8 ')
+  if (!lossy) invalid('no VP8 or VP8L chunk')
+  const header = readLossyHeader(data, lossy.start, lossy.end)
+  assertSize(header.width, header.height)
+  const rgba = lossyToRgba(decodeLossy(data, lossy.start, lossy.end))
+  const alphaChunk = find('ALPH')
+  if (alphaChunk) {
+    const alpha = decodeAlpha(data, alphaChunk, header.width, header.height)
+    for (let index = 0; index < alpha.length; index += 1) rgba[index * 4 + 3] = alpha[index]
+  }
+  return { width: header.width, height: header.height, data: rgba }
+}
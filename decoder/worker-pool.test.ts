@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  createPatternPayload,
+  generatePatternRgba,
+  type ComponentDescriptor,
+} from '../src/pattern.js'
+import { DecodeBudgetError, decodePixels, type DecodeOptions } from './scan.js'
+import {
+  createDecoderWorker,
+  serveDecoderRequests,
+  type DecodeProgress,
+  type DecoderWorkerPort,
+  type DecoderWorkerScope,
+} from './worker-pool.js'
+
+const PARENT: ComponentDescriptor = {
+  path: 'SAMPLE_APP/focus-card',
+  type: 'card',
+  depth: 2,
+  source: { file: 'src/features/dashboard/FocusCard.tsx', line: 41, column: 5 },
+}
+const CHIP: ComponentDescriptor = {
+  path: 'SAMPLE_APP/focus-card/pill-research',
+  type: 'chip',
+  depth: 3,
+  patternSize: 32,
+  source: { file: 'src/features/dashboard/FocusCard.tsx', line: 58, column: 11 },
+}
+const DECOY: ComponentDescriptor = { path: 'SAMPLE_APP/activity-feed', type: 'panel', depth: 2 }
+
+const OPTIONS: DecodeOptions = { intensity: 0.16, patternSize: 64, scales: [1, 2] }
+
+/** A card carrier at `scale` with a chip carrier inset in it, over a light page. */
+function nestedCapture(scale: number): { data: Uint8Array; width: number; height: number } {
+  const width = 160 * scale
+  const height = 128 * scale
+  const parentTile = generatePatternRgba(createPatternPayload(PARENT), 64, 0.16)
+  const chipTile = generatePatternRgba(createPatternPayload(CHIP), 32, 0.16)
+  const data = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const inChip = x >= 96 * scale && y >= 64 * scale
+      const tile = inChip ? chipTile : parentTile
+      const tileSize = inChip ? 32 : 64
+      const source =
+        ((Math.floor(y / scale) % tileSize) * tileSize + (Math.floor(x / scale) % tileSize)) * 4
+      const alpha = tile[source + 3] / 255
+      for (let channel = 0; channel < 3; channel += 1) {
+        data[(y * width + x) * 4 + channel] = Math.round(
+          236 * (1 - alpha) + tile[source + channel] * alpha,
+        )
+      }
+      data[(y * width + x) * 4 + 3] = 255
+    }
+  }
+  return { data, width, height }
+}
+
+/**
+ * Runs `serveDecoderRequests` on this thread, cloning and delivering each
+ * message on a later task the way a module worker would.
+ */
+function inlineWorkers(): { create: () => DecoderWorkerPort; terminated: () => number } {
+  let terminated = 0
+  const create = (): DecoderWorkerPort => {
+    let running = true
+    const scope: DecoderWorkerScope = {
+      onmessage: null,
+      postMessage(message) {
+        const data = structuredClone(message)
+        setTimeout(() => running && port.onmessage?.({ data } as MessageEvent))
+      },
+    }
+    const port: DecoderWorkerPort = {
+      onmessage: null,
+      onerror: null,
+      postMessage(message, transfer) {
+        const data = structuredClone(message, { transfer })
+        setTimeout(() => running && scope.onmessage?.({ data } as MessageEvent))
+      },
+      terminate() {
+        running = false
+        terminated += 1
+      },
+    }
+    serveDecoderRequests(scope)
+    return port
+  }
+  return { create, terminated: () => terminated }
+}
+
+describe('decoder worker pool', () => {
+  it('resolves to the matches decodePixels finds and reports each shard and scale', async () => {
+    const capture = nestedCapture(2)
+    const expected = decodePixels(
+      capture.data.slice(),
+      capture.width,
+      capture.height,
+      [PARENT, CHIP, DECOY],
+      OPTIONS,
+    )
+    const progress: DecodeProgress[] = []
+    const pool = createDecoderWorker([PARENT, CHIP, DECOY], {
+      ...OPTIONS,
+      workers: 2,
+      createWorker: inlineWorkers().create,
+    })
+
+    const results = await pool.decode(capture.data, capture.width, capture.height, {
+      onProgress: (update) => progress.push(update),
+    })
+
+    expect(expected.map((result) => result.path)).toEqual([CHIP.path, PARENT.path])
+    expect(results).toEqual(expected)
+    // The pixels were handed to the pool rather than copied.
+    expect(capture.data.byteLength).toBe(0)
+    expect(progress.map(({ completed }) => completed)).toEqual([1, 2, 3, 4, 5, 6])
+    expect(progress.every(({ total }) => total === 6)).toBe(true)
+    expect(new Set(progress.map(({ scale }) => scale))).toEqual(new Set([1, 2]))
+    expect(new Set(progress.flatMap(({ paths }) => paths))).toEqual(
+      new Set([PARENT.path, CHIP.path, DECOY.path]),
+    )
+    pool.terminate()
+  })
+
+  it('estimates the scales once and scans the rectified copies in one task', async () => {
+    const capture = nestedCapture(2)
+    const options: DecodeOptions = { intensity: 0.16, patternSize: 64, rectify: true }
+    const expected = decodePixels(
+      capture.data.slice(),
+      capture.width,
+      capture.height,
+      [PARENT, CHIP, DECOY],
+      options,
+    )
+    const progress: DecodeProgress[] = []
+    const pool = createDecoderWorker([PARENT, CHIP, DECOY], {
+      ...options,
+      workers: 2,
+      createWorker: inlineWorkers().create,
+    })
+
+    const results = await pool.decode(capture.data, capture.width, capture.height, {
+      onProgress: (update) => progress.push(update),
+    })
+
+    expect(results).toEqual(expected)
+    expect(results.map((result) => result.path)).toEqual([CHIP.path, PARENT.path])
+    // Every shard gets concrete scales; only the rectified copies are estimated in the worker.
+    const rectified = progress.filter(({ scale }) => scale === 'auto')
+    expect(rectified).toHaveLength(1)
+    expect(new Set(rectified[0].paths)).toEqual(new Set([PARENT.path, CHIP.path, DECOY.path]))
+    const parentScales = progress
+      .filter(({ paths }) => paths.length === 1 && paths[0] === PARENT.path)
+      .map(({ scale }) => scale)
+    expect(parentScales).toContain(2)
+    pool.terminate()
+  })
+
+  it('lists the releases of matches decoded against several codebooks', async () => {
+    const moved = { ...CHIP, source: { ...CHIP.source!, line: 12 } }
+    const registry = [
+      { release: 'v2', components: [PARENT, moved, DECOY] },
+      { release: 'v1', components: [PARENT, CHIP] },
+    ]
+    const capture = nestedCapture(1)
+    const expected = decodePixels(capture.data, capture.width, capture.height, registry, OPTIONS)
+    const pool = createDecoderWorker(registry, {
+      ...OPTIONS,
+      workers: 3,
+      createWorker: inlineWorkers().create,
+    })
+
+    const results = await pool.decode(capture.data.slice(), capture.width, capture.height)
+
+    expect(results).toEqual(expected)
+    expect(results.find((result) => result.path === CHIP.path)?.releases).toEqual(['v1'])
+    pool.terminate()
+  })
+
+  it('stops scanning when the decode is aborted and keeps serving later ones', async () => {
+    const capture = nestedCapture(1)
+    const workers = inlineWorkers()
+    const pool = createDecoderWorker([PARENT, CHIP, DECOY], {
+      ...OPTIONS,
+      workers: 2,
+      createWorker: workers.create,
+    })
+    const controller = new AbortController()
+    const progress: DecodeProgress[] = []
+
+    const aborted = pool.decode(capture.data.slice(), capture.width, capture.height, {
+      signal: controller.signal,
+      onProgress: (update) => progress.push(update),
+    })
+    controller.abort(new Error('Another crop was dropped'))
+
+    await expect(aborted).rejects.toThrow('Another crop was dropped')
+    expect(progress).toEqual([])
+    // Both workers were mid-scan, so both were replaced.
+    expect(workers.terminated()).toBe(2)
+    await expect(
+      pool.decode(capture.data.slice(), capture.width, capture.height, {
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow('Another crop was dropped')
+    expect(
+      (await pool.decode(capture.data.slice(), capture.width, capture.height)).map(
+        (result) => result.path,
+      ),
+    ).toEqual([CHIP.path, PARENT.path])
+    pool.terminate()
+  })
+
+  it('rejects with the error a worker raised', async () => {
+    const pool = createDecoderWorker([PARENT, CHIP, DECOY], {
+      ...OPTIONS,
+      scales: [1],
+      step: 1,
+      correlation: 'direct',
+      workers: 1,
+      createWorker: inlineWorkers().create,
+    })
+    const width = 1024
+
+    await expect(
+      pool.decode(new Uint8Array(width * width * 4).fill(200), width, width),
+    ).rejects.toBeInstanceOf(DecodeBudgetError)
+    expect(() => createDecoderWorker([PARENT], { workers: 0 })).toThrow(/positive integer/)
+    expect(() => createDecoderWorker([PARENT, PARENT])).toThrow(/Duplicate component path/)
+    pool.terminate()
+    await expect(pool.decode(new Uint8Array(4), 1, 1)).rejects.toThrow(/terminated/)
+  })
+})
@@ -0,0 +1,455 @@
+import {
+  DEFAULT_PATTERN_SIZE,
+  defaultPatternVersions,
+  resolvePatternSize,
+} from '../src/pattern.js'
+import {
+  DecodeBudgetError,
+  assertRaster,
+  combineRegistries,
+  createPixelDecoder,
+  estimateDecodeScales,
+  isReleaseList,
+  mergeScanResults,
+  type DecodeOptions,
+  type DecodeRegistry,
+  type PixelDecoder,
+  type RasterImage,
+  type ScanResult,
+} from './scan.js'
+
+/** Codebook shards each pool worker is given work for, so progress stays fine-grained. */
+const SHARDS_PER_WORKER = 4
+const MAX_DEFAULT_WORKERS = 4
+
+/** Progress of one `DecoderWorker.decode` call, reported as each task finishes. */
+export interface DecodeProgress {
+  /** Component paths of the shard that finished, or every path for the rectified copies. */
+  paths: string[]
+  /**
+   * Screenshot scale the shard was scanned at, or `'auto'` for the rectified
+   * copies, whose scales are estimated per copy.
+   */
+  scale: number | 'auto'
+  completed: number
+  total: number
+}
+
+export interface WorkerDecodeOptions {
+  /** Aborting rejects the decode with the signal's reason and stops its scans. */
+  signal?: AbortSignal
+  onProgress?: (progress: DecodeProgress) => void
+}
+
+/** The part of a `Worker` the pool uses, so tests and other runtimes can supply one. */
+export interface DecoderWorkerPort {
+  postMessage(message: unknown, transfer: Transferable[]): void
+  onmessage: ((event: MessageEvent) => void) | null
+  onerror: ((event: ErrorEvent) => void) | null
+  terminate(): void
+}
+
+export interface DecoderWorkerOptions extends DecodeOptions {
+  /** Pool size; defaults to one less than the reported cores, from 1 to 4. */
+  workers?: number
+  /** Start one pool worker; defaults to the module worker shipped beside this file. */
+  createWorker?: () => DecoderWorkerPort
+}
+
+/** Seeded-carrier decoder that scans in a pool of Web Workers; see `createDecoderWorker`. */
+export interface DecoderWorker {
+  /**
+   * Decode RGBA pixels off the main thread. The pixel buffer is transferred
+   * to the pool when `data` spans all of it, which leaves `data` empty; pass
+   * a copy to keep using it.
+   */
+  decode(
+    data: Uint8Array,
+    width: number,
+    height: number,
+    options?: WorkerDecodeOptions,
+  ): Promise<ScanResult[]>
+  /** Stop every worker and reject pending decodes. */
+  terminate(): void
+}
+
+/** What a pool worker is asked to do. */
+export type DecoderRequest =
+  | {
+      type: 'configure'
+      shards: DecodeRegistry[]
+      /** The whole codebook, sent only when the rectified copies are scanned. */
+      registry?: DecodeRegistry
+      options: DecodeOptions
+    }
+  | { type: 'image'; job: number; data: Uint8Array; width: number; height: number }
+  | { type: 'scan'; job: number; task: number; shard: number; scale: number; budget: number }
+  | { type: 'rectify'; job: number; task: number; budget: number }
+  | { type: 'release'; job: number }
+
+/** What a pool worker answers a scan with. */
+export type DecoderResponse =
+  | { type: 'result'; job: number; task: number; results: ScanResult[] }
+  | { type: 'error'; job: number; name: string; message: string }
+
+/** The worker global `serveDecoderRequests` listens on. */
+export interface DecoderWorkerScope {
+  postMessage(message: DecoderResponse): void
+  onmessage: ((event: MessageEvent<DecoderRequest>) => void) | null
+}
+
+/**
+ * One scan of a screenshot with its share of the decode's computation
+ * budget. The rectified copies have no shard: they are scanned against the
+ * whole codebook.
+ */
+type ScanTask =
+  | { shard: number; scale: number; budget: number }
+  | { shard?: undefined; scale: 'auto'; budget: number }
+
+interface DecodeJob {
+  id: number
+  /** Set once the image has been handed to the pool. */
+  started: boolean
+  image: RasterImage
+  tasks: ScanTask[]
+  /** Tasks not yet handed to a worker, in order. */
+  queue: number[]
+  results: ScanResult[][]
+  completed: number
+  options: WorkerDecodeOptions
+  resolve(results: ScanResult[]): void
+  reject(reason: unknown): void
+  detach(): void
+}
+
+interface PoolWorker {
+  port: DecoderWorkerPort
+  /** Job whose image this worker holds. */
+  job: number | undefined
+  busy: boolean
+}
+
+function defaultWorkerCount(): number {
+  const cores = typeof navigator === 'undefined' ? 2 : navigator.hardwareConcurrency || 2
+  return Math.min(MAX_DEFAULT_WORKERS, Math.max(1, cores - 1))
+}
+
+function createModuleWorker(): DecoderWorkerPort {
+  return new Worker(new URL('./worker.js', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Split a codebook by path, keeping every release's entries for a path in
+ * the same shard so each shard lists the releases its matches belong to.
+ * Paths are ordered by 1× tile size first, so most shards hold one size and
+ * are scanned only at the scales estimated for it.
+ */
+function shardRegistry(
+  registry: DecodeRegistry,
+  count: number,
+  baseSize: number,
+): DecodeRegistry[] {
+  const components = isReleaseList(registry)
+    ? registry.flatMap((release) => release.components)
+    : registry
+  const bases = new Map<string, number>()
+  for (const component of components) {
+    bases.set(component.path, resolvePatternSize(component, baseSize))
+  }
+  const paths = [...bases.keys()].sort((a, b) => bases.get(a)! - bases.get(b)!)
+  const shardSize = Math.max(1, Math.ceil(paths.length / count))
+  const shards: DecodeRegistry[] = []
+  for (let start = 0; start < paths.length; start += shardSize) {
+    const included = new Set(paths.slice(start, start + shardSize))
+    shards.push(
+      isReleaseList(registry)
+        ? registry.map(({ release, components: descriptors }) => ({
+            release,
+            components: descriptors.filter(({ path }) => included.has(path)),
+          }))
+        : registry.filter(({ path }) => included.has(path)),
+    )
+  }
+  return shards
+}
+
+function shardPaths(shard: DecodeRegistry): string[] {
+  const components = isReleaseList(shard) ? shard.flatMap((release) => release.components) : shard
+  return [...new Set(components.map(({ path }) => path))]
+}
+
+/** Rebuild a worker's error on this side, keeping the classes callers test for. */
+function reviveError({ name, message }: { name: string; message: string }): Error {
+  if (name === 'DecodeBudgetError') return new DecodeBudgetError(message)
+  if (name === 'RangeError') return new RangeError(message)
+  if (name === 'TypeError') return new TypeError(message)
+  return new Error(message)
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The decode was aborted', 'AbortError')
+}
+
+/**
+ * Prepare a seeded-carrier decoder that scans in a pool of Web Workers, so a
+ * page stays responsive while a screenshot is decoded. The codebook is split
+ * into shards by path and each shard is scanned at each scale as a separate
+ * task; the matches are merged as `createPixelDecoder` merges its scales,
+ * into the same list `decodePixels` returns. With `scales: 'auto'` the
+ * scales are estimated once per screenshot, before any task starts, and
+ * `rectify` adds one task that scans the rectified copies against the whole
+ * codebook. The tasks split one computation budget by the entries each
+ * scans. Decodes run one after another, each across the whole pool.
+ */
+export function createDecoderWorker(
+  registry: DecodeRegistry,
+  options: DecoderWorkerOptions = {},
+): DecoderWorker {
+  const { workers = defaultWorkerCount(), createWorker = createModuleWorker, ...rest } = options
+  if (!Number.isSafeInteger(workers) || workers < 1) {
+    throw new RangeError('Decoder workers must be a positive integer')
+  }
+  const { components } = combineRegistries(registry)
+  // Resolved over the whole codebook, since a shard may not hold its pinned entries.
+  const decode: DecodeOptions = {
+    ...rest,
+    patternVersions: rest.patternVersions ?? [...defaultPatternVersions(components)],
+  }
+  // Check the options here rather than failing in every worker.
+  createPixelDecoder([], decode)
+
+  const baseSize = decode.patternSize ?? DEFAULT_PATTERN_SIZE
+  const shards = shardRegistry(registry, workers * SHARDS_PER_WORKER, baseSize)
+  const paths = shards.map(shardPaths)
+  const shardComponents = shards.map((shard) => combineRegistries(shard).components)
+  const shardBases = shardComponents.map(
+    (descriptors) =>
+      new Set(descriptors.map((component) => resolvePatternSize(component, baseSize))),
+  )
+  const bases = new Set(shardBases.flatMap((sizes) => [...sizes]))
+  const scales = decode.scales === undefined || decode.scales === 'auto' ? [] : decode.scales
+
+  /** Every scan of one screenshot, each with its share of the budget. */
+  const planTasks = (image: RasterImage): ScanTask[] => {
+    const estimated = scales.length === 0 ? estimateDecodeScales(image, bases) : undefined
+    const tasks: ScanTask[] = shards.flatMap((_, shard) => {
+      const shardScales = estimated
+        ? [...new Set([...shardBases[shard]].flatMap((base) => estimated.get(base)!))]
+        : scales
+      return shardScales.map((scale) => ({ shard, scale, budget: shardComponents[shard].length }))
+    })
+    // Weighted by the entries each scans, the rectified copies as one more
+    // scan of the whole codebook, then scaled to shares of one budget.
+    if (decode.rectify) tasks.push({ scale: 'auto', budget: components.length })
+    const entries = tasks.reduce((total, { budget }) => total + budget, 0)
+    for (const task of tasks) task.budget /= entries
+    return tasks
+  }
+  const pool: PoolWorker[] = []
+  const jobs: DecodeJob[] = []
+  let nextJob = 0
+  let terminated = false
+
+  const finish = (job: DecodeJob): void => {
+    job.detach()
+    jobs.splice(jobs.indexOf(job), 1)
+    for (const worker of pool) {
+      if (worker.job !== job.id) continue
+      worker.job = undefined
+      if (!worker.busy) worker.port.postMessage({ type: 'release', job: job.id }, [])
+    }
+  }
+
+  const fail = (job: DecodeJob, reason: unknown): void => {
+    // A scan cannot be interrupted, so its worker is replaced instead.
+    for (const [index, worker] of pool.entries()) {
+      if (worker.job === job.id && worker.busy) {
+        worker.port.terminate()
+        pool.splice(index, 1, spawn())
+      }
+    }
+    finish(job)
+    job.reject(reason)
+    dispatch()
+  }
+
+  const spawn = (): PoolWorker => {
+    const worker: PoolWorker = { port: createWorker(), job: undefined, busy: false }
+    worker.port.onmessage = ({ data: response }: MessageEvent<DecoderResponse>) => {
+      worker.busy = false
+      const job = jobs.find(({ id }) => id === response.job)
+      if (!job) return
+      if (response.type === 'error') {
+        fail(job, reviveError(response))
+        return
+      }
+      job.results[response.task] = response.results
+      job.completed += 1
+      const { shard, scale } = job.tasks[response.task]
+      job.options.onProgress?.({
+        paths: shard === undefined ? paths.flat() : paths[shard],
+        scale,
+        completed: job.completed,
+        total: job.tasks.length,
+      })
+      if (job.completed === job.tasks.length) {
+        finish(job)
+        job.resolve(mergeScanResults(job.results.flat(), decode.threshold))
+      }
+      dispatch()
+    }
+    worker.port.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      const job = jobs.find(({ id }) => id === worker.job)
+      if (job) fail(job, new Error(`Decoder worker failed: ${event.message}`))
+    }
+    const whole = decode.rectify ? registry : undefined
+    worker.port.postMessage({ type: 'configure', shards, registry: whole, options: decode }, [])
+    return worker
+  }
+
+  /** Start the oldest decode on the whole pool, then give its tasks to idle workers. */
+  const dispatch = (): void => {
+    const job = jobs[0]
+    if (!job || terminated) return
+    if (!job.started) {
+      // Earlier decodes have settled, so every worker is idle here.
+      while (pool.length < Math.min(workers, job.tasks.length)) pool.push(spawn())
+      for (const [index, worker] of pool.entries()) {
+        // Every worker but the last gets a copy; the last takes the buffer itself.
+        const data = index === pool.length - 1 ? job.image.data : job.image.data.slice()
+        worker.port.postMessage(
+          { type: 'image', job: job.id, data, width: job.image.width, height: job.image.height },
+          [data.buffer],
+        )
+        worker.job = job.id
+      }
+      job.started = true
+    }
+    for (const worker of pool) {
+      if (worker.busy || worker.job !== job.id) continue
+      const task = job.queue.shift()
+      if (task === undefined) return
+      const scan = job.tasks[task]
+      worker.busy = true
+      worker.port.postMessage(
+        scan.shard === undefined
+          ? { type: 'rectify', job: job.id, task, budget: scan.budget }
+          : { type: 'scan', job: job.id, task, ...scan },
+        [],
+      )
+    }
+  }
+
+  return {
+    decode(data, width, height, { signal, onProgress } = {}) {
+      if (terminated) return Promise.reject(new Error('The decoder worker pool was terminated'))
+      if (signal?.aborted) return Promise.reject(abortReason(signal))
+      assertRaster(data, width, height)
+      if (shards.length === 0) return Promise.resolve([])
+
+      // Only a buffer the pixels fill can be handed over without exposing other data.
+      const owned = data.buffer instanceof ArrayBuffer &&
+        data.byteOffset === 0 &&
+        data.byteLength === data.buffer.byteLength
+      const image = { data: owned ? data : data.slice(), width, height }
+      const tasks = planTasks(image)
+      return new Promise<ScanResult[]>((resolve, reject) => {
+        const onAbort = () => fail(job, abortReason(signal!))
+        const job: DecodeJob = {
+          id: nextJob++,
+          started: false,
+          image,
+          tasks,
+          queue: tasks.map((_, index) => index),
+          results: [],
+          completed: 0,
+          options: { signal, onProgress },
+          resolve,
+          reject,
+          detach: () => signal?.removeEventListener('abort', onAbort),
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+        jobs.push(job)
+        dispatch()
+      })
+    },
+    terminate() {
+      terminated = true
+      for (const worker of pool.splice(0)) worker.port.terminate()
+      for (const job of jobs.splice(0)) {
+        job.detach()
+        job.reject(new Error('The decoder worker pool was terminated'))
+      }
+    },
+  }
+}
+
+/**
+ * Answer a pool's requests inside a worker. `decoder/worker.ts` calls this
+ * on its global scope; hosts with their own worker entry can do the same.
+ */
+export function serveDecoderRequests(scope: DecoderWorkerScope): void {
+  let shards: DecodeRegistry[] = []
+  let registry: DecodeRegistry = []
+  let options: DecodeOptions = {}
+  // One per shard, so each keeps its patterns across scales and screenshots.
+  const decoders = new Map<number, PixelDecoder>()
+  let rectifier: PixelDecoder | undefined
+  const images = new Map<number, RasterImage>()
+
+  scope.onmessage = ({ data: request }) => {
+    switch (request.type) {
+      case 'configure':
+        shards = request.shards
+        registry = request.registry ?? []
+        options = request.options
+        decoders.clear()
+        rectifier = undefined
+        return
+      case 'image':
+        images.clear()
+        images.set(request.job, request)
+        return
+      case 'release':
+        images.delete(request.job)
+        return
+      case 'scan':
+      case 'rectify': {
+        const { job, task, budget } = request
+        try {
+          const image = images.get(job)
+          if (!image) throw new Error(`No pixels were sent for decode ${job}`)
+          let results: ScanResult[]
+          if (request.type === 'rectify') {
+            rectifier ??= createPixelDecoder(registry, options)
+            results = rectifier.decode(image.data, image.width, image.height, {
+              budget,
+              passes: 'rectified',
+            })
+          } else {
+            let decoder = decoders.get(request.shard)
+            if (!decoder) {
+              decoder = createPixelDecoder(shards[request.shard], options)
+              decoders.set(request.shard, decoder)
+            }
+            results = decoder.decode(image.data, image.width, image.height, {
+              scales: [request.scale],
+              budget,
+              passes: 'screenshot',
+            })
+          }
+          scope.postMessage({ type: 'result', job, task, results })
+        } catch (error) {
+          scope.postMessage({
+            type: 'error',
+            job,
+            name: error instanceof Error ? error.name : 'Error',
+            message: error instanceof Error ? error.message : String(error),
+          })
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,5 @@
+/// <reference lib="webworker" />
+/** Module worker entry for `createDecoderWorker` pools. */
+import { serveDecoderRequests } from './worker-pool.js'
+
+serveDecoderRequests(self as DedicatedWorkerGlobalScope)
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractCodebook } from './codebook.js'
+import { injectDevTagSources } from './vite.js'
+
+const app = {
+  file: 'src/App.tsx',
+  code: [
+    "import { DevTagRoot } from 'pixelprovenance'",
+    "import { Dashboard } from './features/Dashboard.js'",
+    '',
+    'export default function App() {',
+    '  return (',
+    '    <DevTagRoot pageId="DASHBOARD" patternSize={48}>',
+    '      <Dashboard />',
+    '    </DevTagRoot>',
+    '  )',
+    '}',
+  ].join('\n'),
+}
+
+const dashboard = {
+  file: 'src/features/Dashboard.tsx',
+  code: [
+    "import { DevTag } from 'pixelprovenance'",
+    '',
+    'export const Dashboard = () => (',
+    '  <DevTag id="card" type="panel">',
+    '    <DevTag id="status" type="chip" patternSize={32}><Status /></DevTag>',
+    '  </DevTag>',
+    ')',
+    '',
+    'const Status = () => <DevTag id="dot" />',
+  ].join('\n'),
+}
+
+describe('codebook extraction', () => {
+  it('resolves nested paths, depth, and patternSize across imported components', () => {
+    const { components, warnings } = extractCodebook([dashboard, app])
+
+    expect(warnings).toEqual([])
+    expect(components.map(({ path, type, depth, patternSize }) => [path, type, depth, patternSize]))
+      .toEqual([
+        ['DASHBOARD', 'page', 1, 48],
+        ['DASHBOARD/card', 'panel', 2, 48],
+        ['DASHBOARD/card/status', 'chip', 3, 32],
+        ['DASHBOARD/card/status/dot', 'component', 4, 32],
+      ])
+  })
+
+  it('derives each source from the same position the Vite plugin injects', () => {
+    const { components } = extractCodebook([dashboard, app])
+    const injected = injectDevTagSources(dashboard.code, dashboard.file) ?? ''
+
+    expect(components[1].source).toEqual({ file: 'src/features/Dashboard.tsx', line: 4, column: 3 })
+    expect(injected).toContain('source={{ file: "src/features/Dashboard.tsx", line: 4, column: 3 }}')
+    expect(components[3].source).toEqual({ file: 'src/features/Dashboard.tsx', line: 9, column: 22 })
+  })
+
+  it('reads literal source props in attribute mode', () => {
+    const { components, warnings } = extractCodebook([
+      {
+        file: 'src/Page.tsx',
+        code: [
+          'export const Page = () => (',
+          '  <DevTag id="hero" source={{ file: "src/Hero.tsx", line: 12, column: 5 }} />',
+          ')',
+          'export const Other = () => <DevTag id="footer" source={location} />',
+        ].join('\n'),
+      },
+    ], { source: 'attribute' })
+
+    expect(components).toEqual([
+      { path: 'footer', type: 'component', depth: 1, patternSize: 64 },
+      {
+        path: 'hero',
+        type: 'component',
+        depth: 1,
+        patternSize: 64,
+        source: { file: 'src/Hero.tsx', line: 12, column: 5 },
+      },
+    ])
+    expect(warnings.map((warning) => warning.line)).toEqual([4])
+  })
+
+  it('warns about tags it cannot resolve statically and skips their subtrees', () => {
+    const { components, warnings } = extractCodebook([
+      {
+        file: 'src/List.tsx',
+        code: [
+          'export const List = ({ items }) => (',
+          '  <DevTag id="list">',
+          '    {items.map((item) => <DevTag id={item.id}><DevTag id="row" /></DevTag>)}',
+          '  </DevTag>',
+          ')',
+        ].join('\n'),
+      },
+    ])
+
+    expect(components.map((component) => component.path)).toEqual(['list'])
+    expect(warnings).toEqual([
+      {
+        file: 'src/List.tsx',
+        line: 3,
+        column: 34,
+        message: 'Tag has no static id; it and the tags inside it are skipped',
+      },
+    ])
+  })
+
+  it('pins a carrier version on seeded tags only, tracking carrier like DevTag', () => {
+    const { components, warnings } = extractCodebook([
+      {
+        file: 'src/Inbox.tsx',
+        code: [
+          'export const Inbox = () => (',
+          '  <DevTagRoot pageId="INBOX" carrier="payload" patternVersion={2}>',
+          '    <DevTag id="row"><DevTag id="badge" carrier="seeded" /></DevTag>',
+          '  </DevTagRoot>',
+          ')',
+        ].join('\n'),
+      },
+    ])
+
+    expect(warnings).toEqual([])
+    expect(components.map(({ path, patternVersion }) => [path, patternVersion])).toEqual([
+      ['INBOX', undefined],
+      ['INBOX/row', undefined],
+      ['INBOX/row/badge', 2],
+    ])
+  })
+})
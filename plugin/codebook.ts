@@ -0,0 +1,599 @@
+#!/usr/bin/env node
+
+import { spawnSync } from 'node:child_process'
+import { existsSync, readdirSync, readFileSync, realpathSync, writeFileSync } from 'node:fs'
+import { join, posix, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+import { parseSync, type ESTree } from 'vite'
+
+import {
+  DEFAULT_PATTERN_SIZE,
+  clampPatternSize,
+  isPatternVersion,
+  type CarrierMode,
+  type ComponentDescriptor,
+  type PatternVersion,
+  type SourceLocation,
+} from '../src/pattern.js'
+import { createRegistryManifest } from '../decoder/manifest.js'
+import { createLocator, parserLanguage } from './source.js'
+
+/** Matches the decoder's registry entry limit. */
+const MAX_CODEBOOK_ENTRIES = 65_536
+const MODULE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js']
+const SOURCE_FILE = /\.[jt]sx$/
+const TEST_FILE = /\.(test|spec)\.[jt]sx$/
+
+export interface CodebookFile {
+  /** Project-relative path with `/` separators; also used as `source.file`. */
+  file: string
+  code: string
+}
+
+export interface CodebookOptions {
+  /** Element names that behave like `DevTag`. */
+  tags?: string[]
+  /** Element names that behave like `DevTagRoot` (`pageId`, type `page`). */
+  roots?: string[]
+  /**
+   * `position` derives each source from the tag's own location, as the Vite
+   * plugin injects it; `attribute` reads literal `source={{ … }}` props.
+   */
+  source?: 'position' | 'attribute'
+}
+
+export interface CodebookWarning {
+  file: string
+  line: number
+  column: number
+  message: string
+}
+
+export interface Codebook {
+  components: ComponentDescriptor[]
+  warnings: CodebookWarning[]
+}
+
+interface TagNode {
+  kind: 'tag'
+  /** Undefined when the id is not a static string; the subtree is skipped. */
+  id?: string
+  type: string
+  root: boolean
+  patternSize?: number
+  carrier?: CarrierMode
+  patternVersion?: PatternVersion
+  source?: SourceLocation
+  children: TreeNode[]
+}
+
+interface ReferenceNode {
+  kind: 'reference'
+  name: string
+}
+
+type TreeNode = TagNode | ReferenceNode
+
+/** A component (or a module's top-level code) and the tags it renders. */
+interface Definition {
+  key: string
+  file: string
+  nodes: TreeNode[]
+}
+
+interface ModuleInfo {
+  file: string
+  definitions: Map<string, Definition>
+  /** Local name → the module and exported name it was imported as. */
+  imports: Map<string, { module: string; name: string }>
+  /** Exported name → local definition name. */
+  exports: Map<string, string>
+}
+
+/** Inherited tag state, mirroring `DevTag`'s React context. */
+interface Scope {
+  path: string[]
+  patternSize: number
+  carrier?: CarrierMode
+  patternVersion?: PatternVersion
+}
+
+const ROOT_SCOPE: Scope = { path: [], patternSize: DEFAULT_PATTERN_SIZE }
+
+type AstNode = { type: string; start: number; end: number }
+
+function isAstNode(value: unknown): value is AstNode {
+  return (
+    typeof value === 'object' && value !== null && typeof (value as AstNode).type === 'string'
+  )
+}
+
+function childNodes(node: AstNode): AstNode[] {
+  const children: AstNode[] = []
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'parent') continue
+    if (Array.isArray(value)) {
+      for (const item of value) if (isAstNode(item)) children.push(item)
+    } else if (isAstNode(value)) {
+      children.push(value)
+    }
+  }
+  return children
+}
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name)
+}
+
+function exportName(name: ESTree.ModuleExportName): string {
+  return name.type === 'Literal' ? name.value : name.name
+}
+
+/** Static string or number behind an attribute or expression, if any. */
+function staticValue(node: AstNode | null | undefined): string | number | undefined {
+  if (!node) return undefined
+  if (node.type === 'JSXExpressionContainer') {
+    return staticValue((node as ESTree.JSXExpressionContainer).expression)
+  }
+  if (node.type === 'Literal') {
+    const { value } = node as ESTree.StringLiteral | ESTree.NumericLiteral
+    return typeof value === 'string' || typeof value === 'number' ? value : undefined
+  }
+  if (node.type === 'TemplateLiteral') {
+    const template = node as ESTree.TemplateLiteral
+    if (template.expressions.length > 0) return undefined
+    return template.quasis[0]?.value.cooked ?? undefined
+  }
+  if (node.type === 'TSAsExpression' || node.type === 'TSSatisfiesExpression') {
+    return staticValue((node as ESTree.TSAsExpression).expression)
+  }
+  return undefined
+}
+
+function staticSource(node: AstNode | null | undefined): SourceLocation | undefined {
+  const expression =
+    node?.type === 'JSXExpressionContainer'
+      ? (node as ESTree.JSXExpressionContainer).expression
+      : node
+  if (expression?.type !== 'ObjectExpression') return undefined
+  const fields = new Map<string, string | number | undefined>()
+  for (const property of (expression as ESTree.ObjectExpression).properties) {
+    if (property.type !== 'Property' || property.computed) return undefined
+    const key = staticValue(property.key) ?? (property.key as ESTree.IdentifierName).name
+    fields.set(String(key), staticValue(property.value))
+  }
+  const file = fields.get('file')
+  const line = fields.get('line')
+  const column = fields.get('column')
+  return typeof file === 'string' && typeof line === 'number' && typeof column === 'number'
+    ? { file, line, column }
+    : undefined
+}
+
+function parseModule(
+  { file, code }: CodebookFile,
+  tags: Set<string>,
+  roots: Set<string>,
+  sourceMode: 'position' | 'attribute',
+  warnings: CodebookWarning[],
+): ModuleInfo {
+  const locate = createLocator(code)
+  const warn = (node: AstNode, message: string): void => {
+    warnings.push({ file, ...locate(node.start), message })
+  }
+  const info: ModuleInfo = {
+    file,
+    definitions: new Map(),
+    imports: new Map(),
+    exports: new Map(),
+  }
+
+  const { program, errors } = parseSync(file, code, { lang: parserLanguage(file) })
+  if (errors.length > 0) {
+    warnings.push({ file, line: 1, column: 1, message: `Skipped: ${errors[0].message}` })
+    return info
+  }
+
+  const readTag = (opening: ESTree.JSXOpeningElement, root: boolean): TagNode => {
+    const attributes = new Map<string, ESTree.JSXAttribute>()
+    for (const attribute of opening.attributes) {
+      if (attribute.type === 'JSXSpreadAttribute') {
+        warn(attribute, 'Spread props on a tag may override the extracted descriptor')
+      } else if (attribute.name.type === 'JSXIdentifier') {
+        attributes.set(attribute.name.name, attribute)
+      }
+    }
+    const read = (name: string): string | number | undefined => {
+      const attribute = attributes.get(name)
+      if (!attribute) return undefined
+      const value = staticValue(attribute.value)
+      if (value === undefined) warn(attribute, `\`${name}\` is not a static value`)
+      return value
+    }
+
+    const idAttribute = attributes.get(root ? 'pageId' : 'id')
+    const id = staticValue(idAttribute?.value)
+    if (id === undefined) {
+      warn(idAttribute ?? opening, 'Tag has no static id; it and the tags inside it are skipped')
+    }
+    const type = root ? 'page' : read('type')
+    const patternSize = read('patternSize')
+    const carrier = read('carrier')
+    if (carrier !== undefined && carrier !== 'seeded' && carrier !== 'payload') {
+      warn(opening, `Unknown carrier ${carrier}`)
+    }
+    const patternVersion = read('patternVersion')
+    if (patternVersion !== undefined && !isPatternVersion(patternVersion)) {
+      warn(opening, `Unknown patternVersion ${patternVersion}`)
+    }
+    let source: SourceLocation | undefined
+    if (sourceMode === 'position') {
+      source = { file, ...locate(opening.start) }
+    } else if (attributes.has('source')) {
+      source = staticSource(attributes.get('source')?.value)
+      if (!source) warn(opening, '`source` is not a static { file, line, column } object')
+    }
+
+    return {
+      kind: 'tag',
+      id: id === undefined ? undefined : String(id),
+      type: type === undefined ? 'component' : String(type),
+      root,
+      patternSize: typeof patternSize === 'number' ? patternSize : undefined,
+      carrier: carrier === 'seeded' || carrier === 'payload' ? carrier : undefined,
+      patternVersion: isPatternVersion(patternVersion) ? patternVersion : undefined,
+      source,
+      children: [],
+    }
+  }
+
+  const collect = (node: AstNode, sink: TreeNode[]): void => {
+    if (node.type !== 'JSXElement') {
+      for (const child of childNodes(node)) collect(child, sink)
+      return
+    }
+    const element = node as ESTree.JSXElement
+    const opening = element.openingElement
+    const name = opening.name.type === 'JSXIdentifier' ? opening.name.name : undefined
+    let target = sink
+    if (name && (tags.has(name) || roots.has(name))) {
+      const tag = readTag(opening, roots.has(name))
+      sink.push(tag)
+      target = tag.children
+    } else if (name && isComponentName(name)) {
+      sink.push({ kind: 'reference', name })
+    }
+    for (const attribute of opening.attributes) collect(attribute, target)
+    for (const child of element.children) collect(child, target)
+  }
+
+  const define = (name: string, node: AstNode): void => {
+    const nodes: TreeNode[] = []
+    collect(node, nodes)
+    info.definitions.set(name, { key: `${file}#${name}`, file, nodes })
+  }
+  const moduleNodes: AstNode[] = []
+
+  for (const statement of program.body) {
+    let declaration: AstNode | null = statement
+    if (statement.type === 'ImportDeclaration') {
+      const module = statement.source.value
+      for (const specifier of statement.specifiers) {
+        if (specifier.type === 'ImportNamespaceSpecifier') continue
+        const name =
+          specifier.type === 'ImportDefaultSpecifier' ? 'default' : exportName(specifier.imported)
+        info.imports.set(specifier.local.name, { module, name })
+      }
+      continue
+    }
+    if (statement.type === 'ExportNamedDeclaration') {
+      for (const specifier of statement.specifiers) {
+        if (!statement.source) {
+          info.exports.set(exportName(specifier.exported), exportName(specifier.local))
+        }
+      }
+      declaration = statement.declaration
+    } else if (statement.type === 'ExportDefaultDeclaration') {
+      const exported = statement.declaration
+      if (exported.type === 'Identifier') {
+        info.exports.set('default', exported.name)
+      } else {
+        const named =
+          (exported.type === 'FunctionDeclaration' || exported.type === 'ClassDeclaration') &&
+          exported.id
+            ? exported.id.name
+            : 'default'
+        info.exports.set('default', named)
+        define(named, exported)
+      }
+      continue
+    }
+    if (!declaration) continue
+
+    const declaredName =
+      declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration'
+        ? (declaration as ESTree.Function | ESTree.Class).id?.name
+        : undefined
+    if (declaredName && isComponentName(declaredName)) {
+      define(declaredName, declaration)
+    } else if (declaration.type === 'VariableDeclaration') {
+      for (const declarator of (declaration as ESTree.VariableDeclaration).declarations) {
+        const { id, init } = declarator
+        if (id.type === 'Identifier' && isComponentName(id.name) && init) {
+          define(id.name, init)
+        } else {
+          moduleNodes.push(declarator)
+        }
+      }
+    } else {
+      moduleNodes.push(declaration)
+    }
+  }
+  // Top-level code outside components (e.g. `createRoot(…).render(<App />)`).
+  const moduleTree: TreeNode[] = []
+  for (const node of moduleNodes) collect(node, moduleTree)
+  info.definitions.set('', { key: `${file}#`, file, nodes: moduleTree })
+
+  return info
+}
+
+function resolveModule(from: string, specifier: string, files: Set<string>): string | undefined {
+  if (!specifier.startsWith('.')) return undefined
+  const base = posix.join(posix.dirname(from), specifier)
+  // TypeScript ESM imports name the emitted `.js` file.
+  const stem = base.replace(/\.(js|jsx|ts|tsx)$/, '')
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map((extension) => `${stem}${extension}`),
+    ...MODULE_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+  ]
+  return candidates.find((candidate) => files.has(candidate))
+}
+
+function enterTag(scope: Scope, tag: TagNode, id: string): Scope {
+  return {
+    path: [...scope.path, id],
+    // `DevTagRoot` passes its own 64px default instead of inheriting.
+    patternSize: clampPatternSize(
+      tag.patternSize ?? (tag.root ? DEFAULT_PATTERN_SIZE : scope.patternSize),
+    ),
+    carrier: tag.carrier ?? scope.carrier,
+    patternVersion: tag.patternVersion ?? scope.patternVersion,
+  }
+}
+
+/**
+ * Build a decoder codebook from JSX sources. Tag nesting is followed within
+ * each component and across components rendered inside a tag, resolved by
+ * relative imports or same-file names, so paths, depths, and `patternSize`
+ * inheritance match what `DevTag` computes at runtime. Components never
+ * rendered under a tag start a path of their own. Tags with non-static ids are
+ * skipped, and anything else that cannot be read statically is reported as a
+ * warning.
+ */
+export function extractCodebook(files: CodebookFile[], options: CodebookOptions = {}): Codebook {
+  const tags = new Set(options.tags ?? ['DevTag'])
+  const roots = new Set(options.roots ?? ['DevTagRoot'])
+  const warnings: CodebookWarning[] = []
+  const modules = new Map(
+    files.map((file) => [
+      file.file,
+      parseModule(file, tags, roots, options.source ?? 'position', warnings),
+    ]),
+  )
+  const fileNames = new Set(modules.keys())
+
+  const resolveReference = (module: ModuleInfo, name: string): Definition | undefined => {
+    const local = module.definitions.get(name)
+    if (local) return local
+    const imported = module.imports.get(name)
+    if (!imported) return undefined
+    const target = modules.get(resolveModule(module.file, imported.module, fileNames) ?? '')
+    if (!target) return undefined
+    return target.definitions.get(target.exports.get(imported.name) ?? imported.name)
+  }
+
+  // Every place a definition is rendered, with the tags enclosing that spot.
+  const usages = new Map<string, Array<{ user: Definition; chain: TagNode[] }>>()
+  const definitions: Definition[] = []
+  for (const module of modules.values()) {
+    for (const definition of module.definitions.values()) {
+      definitions.push(definition)
+      const visit = (nodes: TreeNode[], chain: TagNode[]): void => {
+        for (const node of nodes) {
+          if (node.kind === 'tag') {
+            visit(node.children, [...chain, node])
+            continue
+          }
+          const target = resolveReference(module, node.name)
+          if (!target || target === definition) continue
+          const list = usages.get(target.key) ?? []
+          list.push({ user: definition, chain })
+          usages.set(target.key, list)
+        }
+      }
+      visit(definition.nodes, [])
+    }
+  }
+
+  const scopeCache = new Map<string, Scope[]>()
+  const scopesOf = (definition: Definition, visiting: Set<string>): Scope[] => {
+    const cached = scopeCache.get(definition.key)
+    if (cached) return cached
+    const sites = usages.get(definition.key)
+    if (!sites) return [ROOT_SCOPE]
+    if (visiting.has(definition.key)) return []
+    visiting.add(definition.key)
+    const scopes = sites.flatMap(({ user, chain }) =>
+      // A dynamic id anywhere above the call site leaves the path unknown.
+      chain.some((tag) => tag.id === undefined)
+        ? []
+        : scopesOf(user, visiting).map((scope) =>
+            chain.reduce((inner, tag) => enterTag(inner, tag, tag.id as string), scope),
+          ),
+    )
+    visiting.delete(definition.key)
+    scopeCache.set(definition.key, scopes)
+    return scopes
+  }
+
+  const entries = new Map<string, ComponentDescriptor>()
+  const emit = (nodes: TreeNode[], scope: Scope, definition: Definition): void => {
+    for (const node of nodes) {
+      if (node.kind !== 'tag' || node.id === undefined) continue
+      const inner = enterTag(scope, node, node.id)
+      const entry: ComponentDescriptor = {
+        path: inner.path.join('/'),
+        type: node.type,
+        depth: inner.path.length,
+        patternSize: inner.patternSize,
+        // Payload tiles embed a version-free id, so only seeded tags pin a carrier.
+        ...(inner.patternVersion === undefined || inner.carrier === 'payload'
+          ? {}
+          : { patternVersion: inner.patternVersion }),
+        ...(node.source ? { source: node.source } : {}),
+      }
+      const existing = entries.get(entry.path)
+      if (!existing) {
+        entries.set(entry.path, entry)
+      } else if (JSON.stringify(existing) !== JSON.stringify(entry)) {
+        warnings.push({
+          file: definition.file,
+          ...(node.source ?? { line: 1, column: 1 }),
+          message: `${entry.path} is tagged more than once; keeping the first descriptor`,
+        })
+      }
+      emit(node.children, inner, definition)
+    }
+  }
+  for (const definition of definitions) {
+    for (const scope of scopesOf(definition, new Set())) emit(definition.nodes, scope, definition)
+  }
+
+  if (entries.size > MAX_CODEBOOK_ENTRIES) {
+    throw new RangeError(
+      `Codebook has ${entries.size} components; the decoder reads at most ${MAX_CODEBOOK_ENTRIES}`,
+    )
+  }
+  return {
+    components: [...entries.values()].sort((first, second) =>
+      first.path.localeCompare(second.path),
+    ),
+    warnings,
+  }
+}
+
+/** `.jsx` and `.tsx` files under `root`, skipping tests, dot directories, and `node_modules`. */
+export function findSourceFiles(root: string): string[] {
+  const files: string[] = []
+  const walk = (directory: string): void => {
+    for (const entry of readdirSync(directory, { withFileTypes: true })) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue
+      const path = join(directory, entry.name)
+      if (entry.isDirectory()) walk(path)
+      else if (entry.isFile() && SOURCE_FILE.test(entry.name) && !TEST_FILE.test(entry.name)) {
+        files.push(path)
+      }
+    }
+  }
+  walk(root)
+  return files.sort()
+}
+
+function readPackageName(root: string): string | undefined {
+  try {
+    const { name } = JSON.parse(readFileSync(join(root, 'package.json'), 'utf8')) as {
+      name?: unknown
+    }
+    return typeof name === 'string' && name.length > 0 ? name : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function readGitCommit(root: string): string | undefined {
+  const result = spawnSync('git', ['rev-parse', 'HEAD'], {
+    cwd: root,
+    encoding: 'utf8',
+    timeout: 5_000,
+  })
+  const commit = result.status === 0 ? result.stdout.trim() : ''
+  return commit || undefined
+}
+
+function runCli(args: string[]): number {
+  try {
+    const valueFlags = new Set(['--out', '--source', '--app', '--commit'])
+    const positional: string[] = []
+    const values = new Map<string, string>()
+    let manifest = false
+    for (let index = 0; index < args.length; index += 1) {
+      const argument = args[index]
+      if (!argument.startsWith('--')) {
+        positional.push(argument)
+        continue
+      }
+      if (argument === '--manifest') {
+        manifest = true
+        continue
+      }
+      if (!valueFlags.has(argument)) throw new Error(`Unknown option: ${argument}`)
+      const value = args[index + 1]
+      if (!value || value.startsWith('--')) throw new Error(`Missing value for ${argument}`)
+      values.set(argument, value)
+      index += 1
+    }
+    const source = values.get('--source') ?? 'position'
+    if (positional.length > 1 || (source !== 'position' && source !== 'attribute')) {
+      throw new Error(
+        'Usage: pixelprovenance-codebook [project-root] [--out registry.json] [--source position|attribute] [--manifest [--app name] [--commit sha]]',
+      )
+    }
+
+    const root = positional[0] ?? '.'
+    if (!existsSync(root)) throw new Error(`Project root not found: ${root}`)
+    const codebook = extractCodebook(
+      findSourceFiles(root).map((path) => ({
+        file: relative(root, path).split('\\').join('/'),
+        code: readFileSync(path, 'utf8'),
+      })),
+      { source },
+    )
+    for (const warning of codebook.warnings) {
+      console.error(`${warning.file}:${warning.line}:${warning.column}: ${warning.message}`)
+    }
+
+    if (!manifest && (values.has('--app') || values.has('--commit'))) {
+      throw new Error('--app and --commit are only written with --manifest')
+    }
+    const registry = manifest
+      ? createRegistryManifest(codebook.components, {
+          app: values.get('--app') ?? readPackageName(root),
+          commit: values.get('--commit') ?? readGitCommit(root),
+          builtAt: new Date().toISOString(),
+        })
+      : codebook.components
+    const json = `${JSON.stringify(registry, null, 2)}\n`
+    const out = values.get('--out')
+    if (out) {
+      writeFileSync(out, json)
+      console.error(`Wrote ${codebook.components.length} components to ${out}`)
+    } else {
+      process.stdout.write(json)
+    }
+    return 0
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error))
+    return 1
+  }
+}
+
+const entryPath = process.argv[1]
+if (
+  entryPath &&
+  existsSync(entryPath) &&
+  realpathSync(fileURLToPath(import.meta.url)) === realpathSync(entryPath)
+) {
+  process.exitCode = runCli(process.argv.slice(2))
+}
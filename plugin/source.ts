@@ -0,0 +1,26 @@
+/**
+ * Map UTF-16 offsets (as reported by the parser) to 1-based line and column,
+ * the convention `DevTag` source locations use.
+ */
+export function createLocator(code: string): (offset: number) => { line: number; column: number } {
+  const starts = [0]
+  for (let index = 0; index < code.length; index += 1) {
+    if (code.charCodeAt(index) === 10) starts.push(index + 1)
+  }
+
+  return (offset) => {
+    let low = 0
+    let high = starts.length - 1
+    while (low < high) {
+      const middle = (low + high + 1) >> 1
+      if (starts[middle] <= offset) low = middle
+      else high = middle - 1
+    }
+    return { line: low + 1, column: offset - starts[low] + 1 }
+  }
+}
+
+/** Parser language for a module path; only `.ts` files cannot hold JSX. */
+export function parserLanguage(file: string): 'ts' | 'tsx' | 'jsx' {
+  return file.endsWith('.tsx') ? 'tsx' : file.endsWith('.ts') ? 'ts' : 'jsx'
+}
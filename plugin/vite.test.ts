@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+
+import { injectDevTagSources, pixelProvenanceSource } from './vite.js'
+
+describe('DevTag source plugin', () => {
+  it('adds the opening tag position to each DevTag and DevTagRoot', () => {
+    const code = [
+      "import { DevTag, DevTagRoot } from 'pixelprovenance'",
+      '',
+      'export function Page() {',
+      '  return (',
+      '    <DevTagRoot pageId="SETTINGS">',
+      '      <DevTag id="profile" type="panel"><Profile /></DevTag>',
+      '    </DevTagRoot>',
+      '  )',
+      '}',
+    ].join('\n')
+
+    expect(injectDevTagSources(code, 'src/Page.tsx')?.split('\n').slice(4, 6)).toEqual([
+      '    <DevTagRoot source={{ file: "src/Page.tsx", line: 5, column: 5 }} pageId="SETTINGS">',
+      '      <DevTag source={{ file: "src/Page.tsx", line: 6, column: 7 }} id="profile" type="panel"><Profile /></DevTag>',
+    ])
+  })
+
+  it('replaces a stale hand-written source and leaves spreads last', () => {
+    const code = [
+      'const Card = (props: Props) =>',
+      '  <DevTag<Props> id="card" source={{ file: "old.tsx", line: 1, column: 1 }} {...props} />',
+    ].join('\n')
+
+    expect(injectDevTagSources(code, 'src/Card.tsx')?.split('\n')[1]).toBe(
+      '  <DevTag<Props> id="card" source={{ file: "src/Card.tsx", line: 2, column: 3 }} {...props} />',
+    )
+  })
+
+  it('leaves other elements, custom names, and unparsable modules alone', () => {
+    expect(injectDevTagSources('const a = <div><Tag /></div>', 'a.jsx')).toBeNull()
+    expect(injectDevTagSources('const a = <DevTag id="x" /', 'a.jsx')).toBeNull()
+    expect(injectDevTagSources('const a = <Tag id="x" />', 'a.jsx', ['Tag'])).toBe(
+      'const a = <Tag source={{ file: "a.jsx", line: 1, column: 11 }} id="x" />',
+    )
+  })
+
+  it('uses root-relative paths and skips files outside its filter', () => {
+    const plugin = pixelProvenanceSource({ root: '/app' })
+    const transform = plugin.transform as (code: string, id: string) => { code: string } | null
+    const code = 'export const A = () => <DevTag id="a" />'
+
+    expect(transform(code, '/app/src/A.tsx?v=123')?.code).toContain('file: "src/A.tsx"')
+    expect(transform(code, '/app/node_modules/lib/A.tsx')).toBeNull()
+    expect(transform(code, '/app/src/A.ts')).toBeNull()
+  })
+
+  it('returns a character-level source map of its edits', () => {
+    const plugin = pixelProvenanceSource({ root: '/app' })
+    const transform = plugin.transform as (
+      code: string,
+      id: string,
+    ) => { map: { sources: string[]; mappings: string } } | null
+    const result = transform('export const A = () => <DevTag id="a" />', '/app/src/A.tsx')
+
+    expect(result?.map.sources).toEqual(['/app/src/A.tsx'])
+    expect(result?.map.mappings.split(',').length).toBeGreaterThan(10)
+  })
+})
@@ -0,0 +1,102 @@
+import { relative } from 'node:path'
+
+import MagicString from 'magic-string'
+import { createFilter, parseSync, Visitor, type FilterPattern, type Plugin } from 'vite'
+
+import type { SourceLocation } from '../src/pattern.js'
+import { createLocator, parserLanguage } from './source.js'
+
+export interface DevTagSourceOptions {
+  /** JSX element names that receive a `source` prop. */
+  components?: string[]
+  /** Files to transform; defaults to `.jsx` and `.tsx` modules. */
+  include?: FilterPattern
+  /** Files to skip; defaults to `node_modules`. */
+  exclude?: FilterPattern
+  /** Directory `source.file` is relative to; defaults to Vite's `root`. */
+  root?: string
+}
+
+const DEFAULT_COMPONENTS = ['DevTag', 'DevTagRoot']
+
+function sourceProp({ file, line, column }: SourceLocation): string {
+  return `source={{ file: ${JSON.stringify(file)}, line: ${line}, column: ${column} }}`
+}
+
+/** The edits behind `injectDevTagSources`, kept for their source map. */
+function editDevTagSources(
+  code: string,
+  file: string,
+  components: readonly string[],
+): MagicString | null {
+  if (!components.some((name) => code.includes(`<${name}`))) return null
+
+  const { program, errors } = parseSync(file, code, { lang: parserLanguage(file) })
+  if (errors.length > 0) return null
+
+  const names = new Set(components)
+  const locate = createLocator(code)
+  const output = new MagicString(code)
+  let edited = false
+  new Visitor({
+    JSXOpeningElement(element) {
+      if (element.name.type !== 'JSXIdentifier' || !names.has(element.name.name)) return
+      const text = sourceProp({ file, ...locate(element.start) })
+      const existing = element.attributes.find(
+        (attribute) =>
+          attribute.type === 'JSXAttribute' &&
+          attribute.name.type === 'JSXIdentifier' &&
+          attribute.name.name === 'source',
+      )
+      if (existing) {
+        output.overwrite(existing.start, existing.end, text)
+      } else {
+        output.appendLeft(element.typeArguments?.end ?? element.name.end, ` ${text}`)
+      }
+      edited = true
+    },
+  }).visit(program)
+
+  return edited ? output : null
+}
+
+/**
+ * Give every matching JSX element a `source` prop pointing at its own
+ * opening `<` (1-based line and column). A hand-written `source` attribute is
+ * replaced; spread props still win so wrappers can forward a caller's source.
+ * Returns `null` when the module has nothing to change.
+ */
+export function injectDevTagSources(
+  code: string,
+  file: string,
+  components: readonly string[] = DEFAULT_COMPONENTS,
+): string | null {
+  return editDevTagSources(code, file, components)?.toString() ?? null
+}
+
+/**
+ * Vite plugin that fills in `source` for each `DevTag` and `DevTagRoot` from
+ * its position in the file, so embedded source locations follow the code as
+ * it is edited. Paths are relative to the project root with `/` separators.
+ */
+export function pixelProvenanceSource(options: DevTagSourceOptions = {}): Plugin {
+  const filter = createFilter(options.include ?? /\.[jt]sx$/, options.exclude ?? /node_modules/)
+  const components = options.components ?? DEFAULT_COMPONENTS
+  let root = options.root ?? process.cwd()
+
+  return {
+    name: 'pixelprovenance:source',
+    enforce: 'pre',
+    configResolved(config) {
+      root = options.root ?? config.root
+    },
+    transform(code, id) {
+      const [path] = id.split('?', 1)
+      if (path.startsWith('\0') || !filter(path)) return null
+      const file = relative(root, path).split('\\').join('/')
+      const edited = editDevTagSources(code, file, components)
+      if (!edited) return null
+      return { code: edited.toString(), map: edited.generateMap({ hires: true, source: path }) }
+    },
+  }
+}
@@ -53,10 +53,15 @@ const consumerProgram = String.raw`
     createPatternPayload,
     generatePatternRgba,
   } from 'pixelprovenance'
+  import { createDecoderWorker, decodePixels } from 'pixelprovenance/core'
   import { decodePng } from 'pixelprovenance/decode'
   import { renderToStaticMarkup } from 'react-dom/server'
 
-  if (typeof DevTag !== 'function' || typeof decodePng !== 'function') {
+  if (
+    typeof DevTag !== 'function' ||
+    typeof decodePng !== 'function' ||
+    typeof createDecoderWorker !== 'function'
+  ) {
     throw new Error('Public package exports are missing')
   }
 
@@ -96,6 +101,10 @@ const consumerProgram = String.raw`
   png.data.set(
     generatePatternRgba(createPatternPayload(component), size, 0.16),
   )
+  const [pixelMatch] = decodePixels(png.data, size, size, [component], { scales: [1] })
+  if (pixelMatch?.path !== component.path) {
+    throw new Error('The browser-safe core did not decode raw pixels')
+  }
   writeFileSync('sample.png', PNG.sync.write(png))
   writeFileSync('registry.json', JSON.stringify([component]))
   writeFileSync('invalid-registry.json', JSON.stringify({ bad: true }))
@@ -107,6 +116,7 @@ const consumerProgram = String.raw`
 
 const typeConsumerProgram = String.raw`
   import { DevTag, type ComponentDescriptor } from 'pixelprovenance'
+  import { decodePixels, type ScanResult } from 'pixelprovenance/core'
   import { decodePng, type DecodeOptions } from 'pixelprovenance/decode'
 
   const component: ComponentDescriptor = {
@@ -117,6 +127,8 @@ const typeConsumerProgram = String.raw`
   const options: DecodeOptions = { scales: [1] }
   void DevTag
   void decodePng(new Uint8Array(), [component], options)
+  const matches: ScanResult[] = decodePixels(new Uint8Array(4), 1, 1, [component])
+  void matches
 `
 
 for (const reactVersion of ['18.0.0', '18', '19.0.0', '19']) {
@@ -198,12 +210,22 @@ for (const reactVersion of ['18.0.0', '18', '19.0.0', '19']) {
     binary,
     ['sample.png', '--registry', 'invalid-registry.json'],
     consumerRoot,
-    1,
+    2,
   )
   if (!invalid.stderr.includes('components array')) {
     throw new Error('Installed CLI did not reject a malformed registry')
   }
 
+  const invalidJson = run(
+    binary,
+    ['sample.png', '--registry', 'invalid-registry.json', '--format', 'ndjson'],
+    consumerRoot,
+    2,
+  )
+  if (JSON.parse(invalidJson.stdout).error?.code !== 'invalid-input') {
+    throw new Error('Installed CLI did not print a JSON error record')
+  }
+
   const noMatch = run(
     binary,
     ['flat.png', '--registry', 'registry.json'],
@@ -1,7 +1,9 @@
 import { renderToStaticMarkup } from 'react-dom/server'
 import { describe, expect, it } from 'vitest'
 
-import { DevTag, DevTagRoot } from './DevTag.js'
+import { DevTag, DevTagRegistryProvider, DevTagRoot } from './DevTag.js'
+import { createComponentId } from './pattern.js'
+import { createDevTagRegistry } from './registry.js'
 
 describe('DevTag', () => {
   it('builds stable hierarchical paths for nested regions', () => {
@@ -101,4 +103,51 @@ describe('DevTag', () => {
       'data-pixelprovenance-source="src/Chip.tsx:8:5"',
     )
   })
+
+  it('records the seeded carrier version on each region', () => {
+    const markup = renderToStaticMarkup(
+      <DevTag id="chip" enabled patternVersion={1}>
+        <span>Chip</span>
+      </DevTag>,
+    )
+
+    expect(markup).toContain('data-pixelprovenance-version="1"')
+  })
+
+  it('exposes the embedded id for payload-carrier tags and their children', () => {
+    const markup = renderToStaticMarkup(
+      <DevTagRoot pageId="DASHBOARD" enabled carrier="payload">
+        <DevTag id="chip" type="chip"><span>Chip</span></DevTag>
+      </DevTagRoot>,
+    )
+    const childId = createComponentId({ path: 'DASHBOARD/chip', type: 'chip', depth: 2 })
+
+    expect(markup).toContain(`data-pixelprovenance-component-id="${childId}"`)
+    expect(markup.match(/data-pixelprovenance-component-id/g)).toHaveLength(2)
+  })
+  it('records the descriptors it paints into a registry provider', () => {
+    const registry = createDevTagRegistry()
+    const rows = ['alpha', 'beta']
+    renderToStaticMarkup(
+      <DevTagRegistryProvider registry={registry}>
+        <DevTagRoot pageId="INBOX" enabled signal={false} patternSize={48}>
+          {rows.map((row) => (
+            <DevTag key={row} id={row} type="row">
+              <DevTag id="chip" patternSize={24} carrier="payload"><span>{row}</span></DevTag>
+            </DevTag>
+          ))}
+          <DevTag id="hidden" enabled={false}><span>Hidden</span></DevTag>
+        </DevTagRoot>
+        <DevTag id="alpha" type="row" enabled><span>Again</span></DevTag>
+      </DevTagRegistryProvider>,
+    )
+
+    expect(registry.components()).toEqual([
+      { path: 'alpha', type: 'row', depth: 1, patternSize: 64, patternVersion: 1 },
+      { path: 'INBOX/alpha', type: 'row', depth: 2, patternSize: 48, patternVersion: 1 },
+      { path: 'INBOX/alpha/chip', type: 'component', depth: 3, patternSize: 24 },
+      { path: 'INBOX/beta', type: 'row', depth: 2, patternSize: 48, patternVersion: 1 },
+      { path: 'INBOX/beta/chip', type: 'component', depth: 3, patternSize: 24 },
+    ])
+  })
 })
@@ -3,18 +3,25 @@ import {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
   type CSSProperties,
   type ReactNode,
 } from 'react'
 
 import {
+  CURRENT_PATTERN_VERSION,
   clampIntensity,
   clampPatternSize,
+  createComponentId,
   createPatternPayload,
   generatePatternRgba,
+  generatePayloadPatternRgba,
+  type CarrierMode,
+  type PatternVersion,
   type SourceLocation,
 } from './pattern.js'
+import type { DevTagRegistry } from './registry.js'
 
 interface ComponentContextValue {
   path: string[]
@@ -22,6 +29,8 @@ interface ComponentContextValue {
   enabled: boolean
   intensity: number
   patternSize: number
+  carrier: CarrierMode
+  patternVersion: PatternVersion
   debug: boolean
 }
 
@@ -31,9 +40,13 @@ const ComponentContext = createContext<ComponentContextValue>({
   enabled: true,
   intensity: 0.08,
   patternSize: 64,
+  carrier: 'seeded',
+  patternVersion: CURRENT_PATTERN_VERSION,
   debug: false,
 })
 
+const RegistryContext = createContext<DevTagRegistry | null>(null)
+
 const patternUrlCache = new Map<string, string>()
 const MAX_CACHED_PATTERN_URLS = 128
 
@@ -54,10 +67,12 @@ function createPatternDataUrl(
   payload: string,
   patternSize: number,
   intensity: number,
+  carrier: CarrierMode,
+  patternVersion: PatternVersion,
 ): string | null {
   if (typeof document === 'undefined') return null
 
-  const cacheKey = `${payload}\u0000${patternSize}\u0000${intensity}`
+  const cacheKey = `${carrier}\u0000${patternVersion}\u0000${payload}\u0000${patternSize}\u0000${intensity}`
   const cached = patternUrlCache.get(cacheKey)
   if (cached) return cached
 
@@ -69,7 +84,11 @@ function createPatternDataUrl(
   if (!context) return null
 
   const imageData = context.createImageData(patternSize, patternSize)
-  imageData.data.set(generatePatternRgba(payload, patternSize, intensity))
+  imageData.data.set(
+    carrier === 'payload'
+      ? generatePayloadPatternRgba(payload, patternSize, intensity)
+      : generatePatternRgba(payload, patternSize, intensity, patternVersion),
+  )
   context.putImageData(imageData, 0, 0)
   const dataUrl = canvas.toDataURL('image/png')
   if (patternUrlCache.size >= MAX_CACHED_PATTERN_URLS) {
@@ -96,6 +115,16 @@ export interface DevTagProps {
   patternSize?: number
   /** Signal strength from 0-1. Practical screenshot values are 0.05-0.12. */
   intensity?: number
+  /**
+   * `payload` embeds the 64-bit component id directly so screenshots decode
+   * without a codebook. Inherited by nested tags; defaults to `seeded`.
+   */
+  carrier?: CarrierMode
+  /**
+   * Seeded-carrier format revision. Inherited by nested tags; defaults to the
+   * current version. Record it in the registry when pinning an older one.
+   */
+  patternVersion?: PatternVersion
   /** Overrides environment detection. Useful for tests and explicit builds. */
   enabled?: boolean
   /** @deprecated Use `enabled={false}`. A true value always disables the tag. */
@@ -121,6 +150,8 @@ export function DevTag({
   children,
   patternSize,
   intensity,
+  carrier,
+  patternVersion,
   enabled,
   disabled = false,
   debug,
@@ -129,6 +160,7 @@ export function DevTag({
   style,
 }: DevTagProps) {
   const parent = useContext(ComponentContext)
+  const registry = useContext(RegistryContext)
   const currentPath = useMemo(() => [...parent.path, id], [parent.path, id])
   const path = currentPath.join('/')
   const depth = parent.depth + 1
@@ -140,8 +172,45 @@ export function DevTag({
   const safeSize = clampPatternSize(patternSize ?? parent.patternSize)
   const safeIntensity = clampIntensity(intensity ?? parent.intensity)
   const isDebug = debug ?? parent.debug
-  const payload = createPatternPayload({ path, type, depth, source })
+  const carrierMode = carrier ?? parent.carrier
+  const version = patternVersion ?? parent.patternVersion
+  const componentId =
+    carrierMode === 'payload'
+      ? createComponentId({ path, type, depth, source })
+      : undefined
+  const payload =
+    componentId ??
+    createPatternPayload({ path, type, depth, source, patternVersion: version })
   const [patternUrl, setPatternUrl] = useState<string | null>(null)
+  const elementRef = useRef<HTMLDivElement>(null)
+
+  // Recorded during render so server and static test renders are captured too;
+  // recording the same embedding again is a no-op.
+  if (registry && isEnabled && signal) {
+    registry.record({
+      path,
+      type,
+      depth,
+      source,
+      patternSize: safeSize,
+      patternVersion: componentId ? undefined : version,
+    })
+  }
+
+  // Layout sizes let `registry lint` flag tiles too large for the element.
+  useEffect(() => {
+    const element = elementRef.current
+    if (!registry || !isEnabled || !signal || !element) return
+    const measure = () => {
+      const { width, height } = element.getBoundingClientRect()
+      registry.measure(path, { width, height })
+    }
+    measure()
+    if (typeof ResizeObserver === 'undefined') return
+    const observer = new ResizeObserver(measure)
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [isEnabled, path, registry, signal])
 
   useEffect(() => {
     if (!isEnabled || !signal) {
@@ -149,8 +218,10 @@ export function DevTag({
       return
     }
 
-    setPatternUrl(createPatternDataUrl(payload, safeSize, safeIntensity))
-  }, [isEnabled, payload, safeIntensity, safeSize, signal])
+    setPatternUrl(
+      createPatternDataUrl(payload, safeSize, safeIntensity, carrierMode, version),
+    )
+  }, [carrierMode, isEnabled, payload, safeIntensity, safeSize, signal, version])
 
   const contextValue = useMemo<ComponentContextValue>(
     () => ({
@@ -159,9 +230,20 @@ export function DevTag({
       enabled: isEnabled,
       intensity: safeIntensity,
       patternSize: safeSize,
+      carrier: carrierMode,
+      patternVersion: version,
       debug: isDebug,
     }),
-    [currentPath, depth, isDebug, isEnabled, safeIntensity, safeSize],
+    [
+      carrierMode,
+      currentPath,
+      depth,
+      isDebug,
+      isEnabled,
+      safeIntensity,
+      safeSize,
+      version,
+    ],
   )
 
   if (!isEnabled) {
@@ -179,10 +261,13 @@ export function DevTag({
   return (
     <ComponentContext.Provider value={contextValue}>
       <div
+        ref={elementRef}
         className={className}
         data-pixelprovenance-id={id}
         data-pixelprovenance-path={path}
         data-pixelprovenance-type={type}
+        data-pixelprovenance-component-id={componentId}
+        data-pixelprovenance-version={componentId ? undefined : version}
         data-pixelprovenance-source={
           source ? `${source.file}:${source.line}:${source.column}` : undefined
         }
@@ -219,6 +304,8 @@ export interface DevTagRootProps {
   source?: SourceLocation
   intensity?: number
   patternSize?: number
+  carrier?: CarrierMode
+  patternVersion?: PatternVersion
   enabled?: boolean
   debug?: boolean
   signal?: boolean
@@ -232,6 +319,8 @@ export function DevTagRoot({
   source,
   intensity = 0.06,
   patternSize = 64,
+  carrier,
+  patternVersion,
   enabled,
   debug,
   signal,
@@ -245,6 +334,8 @@ export function DevTagRoot({
       source={source}
       intensity={intensity}
       patternSize={patternSize}
+      carrier={carrier}
+      patternVersion={patternVersion}
       enabled={enabled}
       debug={debug}
       signal={signal}
@@ -255,3 +346,18 @@ export function DevTagRoot({
     </DevTag>
   )
 }
+
+export interface DevTagRegistryProviderProps {
+  /** Collector created with `createDevTagRegistry()`. */
+  registry: DevTagRegistry
+  children: ReactNode
+}
+
+/**
+ * Records the descriptor of every painting `DevTag` below it into `registry`,
+ * including paths built from runtime data that static extraction cannot see.
+ * Export the result with `JSON.stringify(registry)` and pass it to the decoder.
+ */
+export function DevTagRegistryProvider({ registry, children }: DevTagRegistryProviderProps) {
+  return <RegistryContext.Provider value={registry}>{children}</RegistryContext.Provider>
+}
@@ -5,32 +5,32 @@ import { createRoot, type Root } from 'react-dom/client'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 const mocks = vi.hoisted(() => ({
-  analyzeScreenshot: vi.fn(),
+  decode: vi.fn(),
   toCanvas: vi.fn(),
 }))
 
 vi.mock('html-to-image', () => ({ toCanvas: mocks.toCanvas }))
-vi.mock('./demo-analysis.js', () => ({
-  analyzeScreenshot: mocks.analyzeScreenshot,
+vi.mock('../decoder/core.js', () => ({
+  createDecoderWorker: () => ({ decode: mocks.decode, terminate: vi.fn() }),
 }))
 
 import App from './demo.js'
 
 const MATCH = {
-  component: {
-    path: 'MORROW_DASHBOARD/sprint-overview',
-    type: 'project-card',
-    depth: 2,
-    source: {
-      file: 'src/features/dashboard/SprintOverview.tsx',
-      line: 41,
-      column: 5,
-    },
+  path: 'MORROW_DASHBOARD/sprint-overview',
+  type: 'project-card',
+  depth: 2,
+  source: {
+    file: 'src/features/dashboard/SprintOverview.tsx',
+    line: 41,
+    column: 5,
   },
+  patternVersion: 1,
   score: 0.885,
-  x: 64,
-  y: 32,
+  count: 6,
   tileSize: 64,
+  scale: 1,
+  region: { x: 64, y: 32, width: 128, height: 96 },
 }
 
 function makeRect(left: number, top: number, width: number, height: number) {
@@ -132,7 +132,7 @@ describe('guided screenshot-to-source demo', () => {
     rendered.width = 1294
     rendered.height = 710
     mocks.toCanvas.mockResolvedValue(rendered)
-    mocks.analyzeScreenshot.mockReturnValue([MATCH])
+    mocks.decode.mockResolvedValue([MATCH])
 
     await act(async () => root.render(<App />))
   })
@@ -1,4 +1,5 @@
 import {
+  useEffect,
   useRef,
   useState,
   type ChangeEvent,
@@ -7,11 +8,12 @@ import {
 } from 'react'
 import { toCanvas } from 'html-to-image'
 
-import { DevTag, DevTagRoot } from './DevTag.js'
 import {
-  analyzeScreenshot,
-  type ScreenshotMatch,
-} from './demo-analysis.js'
+  createDecoderWorker,
+  type DecoderWorker,
+  type ScanResult,
+} from '../decoder/core.js'
+import { DevTag, DevTagRoot } from './DevTag.js'
 import {
   getDemoSourceSnippet,
   highlightTsxLine,
@@ -19,7 +21,6 @@ import {
 import type { ComponentDescriptor } from './pattern.js'
 
 const SIGNAL_INTENSITY = 0.08
-const MATCH_THRESHOLD = 0.42
 const LEAF_PATTERN_SIZE = 32
 /** Minimum crop edge so one full signal tile (64px) fits with a little slack. */
 const MIN_SELECTION_PX = 72
@@ -190,8 +191,8 @@ interface SelectionRect {
   height: number
 }
 
-function SourceLocation({ match }: { match: ScreenshotMatch }) {
-  const source = match.component.source
+function SourceLocation({ match }: { match: ScanResult }) {
+  const source = match.source
   if (!source) return <span>Source mapping unavailable</span>
 
   return (
@@ -206,10 +207,10 @@ function SourceCodePanel({
   match,
   onShowInterface,
 }: {
-  match: ScreenshotMatch
+  match: ScanResult
   onShowInterface: () => void
 }) {
-  const snippet = getDemoSourceSnippet(match.component.path)
+  const snippet = getDemoSourceSnippet(match.path)
   if (!snippet) return null
 
   return (
@@ -277,7 +278,7 @@ function BrandMark() {
 export default function App() {
   const [showBounds, setShowBounds] = useState(false)
   const [analysisState, setAnalysisState] = useState<AnalysisState>('idle')
-  const [matches, setMatches] = useState<ScreenshotMatch[]>([])
+  const [matches, setMatches] = useState<ScanResult[]>([])
   const [captureName, setCaptureName] = useState('')
   const [captureSize, setCaptureSize] = useState('')
   const [errorMessage, setErrorMessage] = useState('')
@@ -295,6 +296,18 @@ export default function App() {
   const sampleHostRef = useRef<HTMLDivElement>(null)
   const selectionStartRef = useRef<{ x: number; y: number } | null>(null)
   const pendingCaptureRef = useRef<HTMLCanvasElement | null>(null)
+  const decoderRef = useRef<DecoderWorker | null>(null)
+  const decodeAbortRef = useRef<AbortController | null>(null)
+  const [scanProgress, setScanProgress] = useState('')
+
+  useEffect(
+    () => () => {
+      decodeAbortRef.current?.abort()
+      decoderRef.current?.terminate()
+      decoderRef.current = null
+    },
+    [],
+  )
 
   const bestMatch = matches[0]
 
@@ -306,6 +319,11 @@ export default function App() {
   }
 
   async function processCapture(sourceCanvas: HTMLCanvasElement, name: string) {
+    // A newer capture supersedes any scan still running in the workers.
+    decodeAbortRef.current?.abort()
+    const controller = new AbortController()
+    decodeAbortRef.current = controller
+    setScanProgress('')
     setAnalysisState('reading')
     setErrorMessage('')
     setMatches([])
@@ -331,22 +349,29 @@ export default function App() {
 
       await new Promise<void>((resolve) => window.setTimeout(resolve, 80))
       const pixels = context.getImageData(0, 0, canvas.width, canvas.height)
-      const ranked = analyzeScreenshot(
-        pixels.data,
+      decoderRef.current ??= createDecoderWorker(COMPONENTS, {
+        intensity: SIGNAL_INTENSITY,
+        patternSize: 64,
+        scales: [1, 2],
+        // Robust scoring reads the carrier between text, borders, and avatars.
+        scoring: 'robust',
+        createWorker: () =>
+          new Worker(new URL('../decoder/worker.ts', import.meta.url), { type: 'module' }),
+      })
+      const ranked = await decoderRef.current.decode(
+        new Uint8Array(pixels.data.buffer, pixels.data.byteOffset, pixels.data.byteLength),
         canvas.width,
         canvas.height,
-        COMPONENTS,
         {
-          intensity: SIGNAL_INTENSITY,
-          patternSize: 64,
-          scales: [1, 2],
-          threshold: MATCH_THRESHOLD,
+          signal: controller.signal,
+          onProgress: ({ completed, total }) =>
+            setScanProgress(`Compared ${completed} of ${total} component groups and scales.`),
         },
       )
       const match = ranked[0]
 
       setMatches(ranked)
-      if (!match || match.score < MATCH_THRESHOLD) {
+      if (!match) {
         setAnalysisState('no-match')
         return
       }
@@ -355,15 +380,16 @@ export default function App() {
       context.strokeStyle = '#5265ff'
       context.lineWidth = Math.max(2, canvas.width / 480)
       context.strokeRect(
-        match.x + 1,
-        match.y + 1,
-        match.tileSize - 2,
-        match.tileSize - 2,
+        match.region.x + 1,
+        match.region.y + 1,
+        match.region.width - 2,
+        match.region.height - 2,
       )
       context.restore()
       setAnalysisState('matched')
       setShowSource(true)
     } catch (error) {
+      if (controller.signal.aborted) return
       setAnalysisState('error')
       setErrorMessage(error instanceof Error ? error.message : String(error))
     }
@@ -590,7 +616,7 @@ export default function App() {
     }, 80)
   }
 
-  function showMatchInInterface(match: ScreenshotMatch) {
+  function showMatchInInterface(match: ScanResult) {
     const host = sampleHostRef.current
     if (!host) return
 
@@ -598,13 +624,13 @@ export default function App() {
       host.querySelectorAll<HTMLElement>('[data-pixelprovenance-path]'),
     ).find(
       (candidate) =>
-        candidate.dataset.pixelprovenancePath === match.component.path,
+        candidate.dataset.pixelprovenancePath === match.path,
     )
     if (!element) return
 
     const hostBounds = host.getBoundingClientRect()
     const elementBounds = element.getBoundingClientRect()
-    const source = match.component.source
+    const source = match.source
     const focusLabel = source
       ? `Source match · ${source.file.split('/').at(-1)}:${source.line}:${source.column}`
       : 'Recovered component'
@@ -616,7 +642,7 @@ export default function App() {
     })
     setSelectionLabel(focusLabel)
     setSelectionMessage(`${focusLabel}. The originating interface element is selected.`)
-    setFocusedPath(match.component.path)
+    setFocusedPath(match.path)
     window.setTimeout(() => {
       element.scrollIntoView({ behavior: 'smooth', block: 'center' })
     }, 80)
@@ -1077,7 +1103,7 @@ export default function App() {
             )}
 
             {analysisState === 'reading' && (
-              <div className="empty-result"><span>Analysing</span><p>Checking 1× and 2× signal scales.</p></div>
+              <div className="empty-result"><span>Analysing</span><p>{scanProgress || 'Checking 1× and 2× signal scales.'}</p></div>
             )}
 
             {analysisState === 'error' && (
@@ -1100,17 +1126,17 @@ export default function App() {
               <>
                 <div className="match-summary">
                   <span className="match-status">
-                    {bestMatch.component.depth > 2
+                    {bestMatch.depth > 2
                       ? 'Nested region recovered'
                       : 'Component recovered'}
                   </span>
-                  <PathBreadcrumb path={bestMatch.component.path} />
-                  <h3>{bestMatch.component.path.split('/').at(-1)}</h3>
+                  <PathBreadcrumb path={bestMatch.path} />
+                  <h3>{bestMatch.path.split('/').at(-1)}</h3>
                   <p>
-                    {bestMatch.component.type} · depth {bestMatch.component.depth} ·{' '}
+                    {bestMatch.type} · depth {bestMatch.depth} ·{' '}
                     {(bestMatch.score * 100).toFixed(1)}% correlation
-                    {bestMatch.component.patternSize
-                      ? ` · ${bestMatch.component.patternSize}px tile`
+                    {bestMatch.patternSize
+                      ? ` · ${bestMatch.patternSize}px tile`
                       : ''}
                   </p>
                 </div>
@@ -1137,11 +1163,11 @@ export default function App() {
                 <div className="ranking">
                   <span>Hierarchy candidates in this crop</span>
                   {matches.slice(0, 4).map((match, index) => (
-                    <div key={match.component.path}>
+                    <div key={match.path}>
                       <b>{String(index + 1).padStart(2, '0')}</b>
-                      <span title={match.component.path}>
-                        {'—'.repeat(Math.max(0, match.component.depth - 2))}
-                        {match.component.path.split('/').at(-1)}
+                      <span title={match.path}>
+                        {'—'.repeat(Math.max(0, match.depth - 2))}
+                        {match.path.split('/').at(-1)}
                       </span>
                       <i><em style={{ width: `${Math.max(2, match.score * 100)}%` }} /></i>
                       <strong>{(match.score * 100).toFixed(1)}%</strong>
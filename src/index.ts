@@ -1,25 +1,56 @@
-export { DevTag, DevTagRoot } from './DevTag.js'
-export type { DevTagProps, DevTagRootProps } from './DevTag.js'
+export { DevTag, DevTagRegistryProvider, DevTagRoot } from './DevTag.js'
+export type { DevTagProps, DevTagRegistryProviderProps, DevTagRootProps } from './DevTag.js'
+export { createDevTagRegistry } from './registry.js'
+export type { DevTagRegistry, RenderedSize } from './registry.js'
 
 export {
+  CURRENT_PATTERN_VERSION,
   DEFAULT_INTENSITY,
   DEFAULT_PATTERN_SIZE,
   HIERARCHY_SCORE_MARGIN,
+  PAYLOAD_BITS,
+  PAYLOAD_GRID,
+  PAYLOAD_PARITY_BYTES,
+  PATTERN_VERSIONS,
+  REGION_LINE_THRESHOLD,
   clampIntensity,
   clampPatternSize,
   comparePatterns,
+  crc32,
+  createComponentId,
   createPatternPayload,
+  decodePayloadBits,
+  despreadPayloadTile,
+  encodePayloadBits,
   generatePattern,
   generatePatternRgba,
+  generatePayloadPattern,
+  generatePayloadPatternRgba,
+  generatePayloadPilotPattern,
   hashString,
   isPathAncestor,
+  isPatternVersion,
   pathDepth,
   rankByHierarchy,
+  refinePatternRegion,
   resolvePatternSize,
 } from './pattern.js'
+export {
+  SCORING_MODES,
+  compareRobustChroma,
+  correlationFromMoments,
+  countWindowSamples,
+  isScoringMode,
+  scoreWindow,
+} from './scoring.js'
 export type {
+  CarrierMode,
   ComponentDescriptor,
   PatternMatrix,
+  PatternVersion,
+  PayloadDecoding,
+  PayloadReading,
+  PixelRegion,
   RankableMatch,
   SourceLocation,
 } from './pattern.js'
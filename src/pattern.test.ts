@@ -4,13 +4,22 @@ import {
   clampIntensity,
   clampPatternSize,
   comparePatterns,
+  CURRENT_PATTERN_VERSION,
+  createComponentId,
   createPatternPayload,
+  decodePayloadBits,
+  despreadPayloadTile,
+  encodePayloadBits,
   generatePattern,
   generatePatternRgba,
+  generatePayloadPattern,
+  generatePayloadPatternRgba,
   isPathAncestor,
+  isPatternVersion,
   pathDepth,
   rankByHierarchy,
   resolvePatternSize,
+  type PatternVersion,
 } from './pattern.js'
 
 describe('frequency pattern engine', () => {
@@ -81,6 +90,35 @@ describe('frequency pattern engine', () => {
     )
   })
 
+  it('keeps version 1 byte-identical and rejects unknown versions', () => {
+    const payload = createPatternPayload(component)
+
+    expect(CURRENT_PATTERN_VERSION).toBe(1)
+    expect(createPatternPayload({ ...component, patternVersion: 1 })).toBe(payload)
+    expect(generatePattern(payload, 32, 0.12, 1)).toEqual(generatePattern(payload, 32, 0.12))
+    expect(isPatternVersion(1)).toBe(true)
+    expect(isPatternVersion(99)).toBe(false)
+    expect(() => generatePattern(payload, 32, 0.12, 99 as PatternVersion)).toThrow(
+      /Unknown pattern version 99/,
+    )
+  })
+
+  it('draws version 2 carriers as balanced codes that scale with the tile', () => {
+    const payload = createPatternPayload({ ...component, patternVersion: 2 })
+    const tile = generatePattern(payload, 16, 0.12, 2)
+    const doubled = generatePattern(payload, 32, 0.12, 2)
+    const signs = (row: number[]) => row.map((value) => (value > 245 ? '+' : '-')).join('')
+
+    expect(payload).toContain('"v":2')
+    // Released carriers never change; these cells pin the version 2 code.
+    expect(signs(tile[0])).toBe('-++++++--+++-++-')
+    expect(signs(tile[1])).toBe('+-++++++---++-++')
+    expect(new Set(tile.flat())).toEqual(new Set([238, 251]))
+    expect(tile.flat().filter((value) => value > 245)).toHaveLength(128)
+    expect(doubled[3][5]).toBe(tile[1][2])
+    expect(comparePatterns(generatePattern(payload, 16, 0.12, 1), tile)).toBeLessThan(0.3)
+  })
+
   it('resolves per-region pattern sizes for hierarchical leaves', () => {
     expect(resolvePatternSize({}, 64)).toBe(64)
     expect(resolvePatternSize({ patternSize: 32 }, 64)).toBe(32)
@@ -142,4 +180,60 @@ describe('frequency pattern engine', () => {
     expect(pattern).toHaveLength(512)
     expect(pattern[0]).toHaveLength(512)
   })
+
+  it('derives a stable 64-bit component id from the pattern payload', () => {
+    const id = createComponentId(component)
+
+    expect(id).toMatch(/^[0-9a-f]{16}$/)
+    expect(createComponentId({ ...component })).toBe(id)
+    expect(
+      createComponentId({ ...component, source: { file: 'a.tsx', line: 1, column: 1 } }),
+    ).not.toBe(id)
+  })
+
+  it('repairs flipped payload bits and rejects unrepairable ones', () => {
+    const id = createComponentId(component)
+    const bits = encodePayloadBits(id)
+
+    expect(bits).toHaveLength(192)
+    expect(decodePayloadBits(bits)).toEqual({ componentId: id, correctedSymbols: 0 })
+    bits[5] ^= 1
+    bits[100] ^= 1
+    expect(decodePayloadBits(bits)).toEqual({ componentId: id, correctedSymbols: 2 })
+    for (let byte = 0; byte < 24; byte += 2) bits[byte * 8] ^= 1
+    expect(decodePayloadBits(bits)?.componentId ?? null).not.toBe(id)
+    expect(() => encodePayloadBits('not-an-id')).toThrow(/16 lowercase hex/)
+  })
+
+  it('despreads a payload tile back into its component id', () => {
+    const id = createComponentId(component)
+
+    for (const size of [16, 48, 64]) {
+      const reading = despreadPayloadTile(generatePayloadPattern(id, size, 0.08))
+      expect(reading.componentId).toBe(id)
+      expect(reading.pilotRatio).toBeGreaterThan(1)
+    }
+    // One pixel per cell: few cells should be clipped to full contrast.
+    const cells = generatePayloadPattern(id, 16, 0.08).flat()
+    const peak = Math.max(...cells.map(Math.abs))
+    const clipped = cells.filter((value) => Math.abs(value) >= peak).length
+    expect(clipped / cells.length).toBeLessThan(0.15)
+  })
+
+  it('reads the payload from the chroma axis of the browser tile', () => {
+    const id = createComponentId(component)
+    const chroma = (rgba: Uint8ClampedArray) =>
+      Array.from({ length: 32 }, (_, y) =>
+        Array.from({ length: 32 }, (_, x) => {
+          const offset = (y * 32 + x) * 4
+          return rgba[offset] - (rgba[offset + 1] + rgba[offset + 2]) / 2
+        }),
+      )
+
+    const payload = generatePayloadPatternRgba(id, 32, 0.08)
+    expect(despreadPayloadTile(chroma(payload)).componentId).toBe(id)
+    // A seeded tile's chroma carries no payload.
+    const seeded = generatePatternRgba(createPatternPayload(component), 32, 0.08)
+    expect(despreadPayloadTile(chroma(seeded)).componentId).toBeNull()
+  })
 })
@@ -1,3 +1,5 @@
+import { decodeReedSolomon, encodeReedSolomon } from './reed-solomon.js'
+
 export interface SourceLocation {
   file: string
   line: number
@@ -15,6 +17,11 @@ export interface ComponentDescriptor {
    * not a post-hoc path→source lookup.
    */
   source?: SourceLocation
+  /**
+   * Carrier algorithm revision used when this region was encoded. Omitted
+   * entries are tried against every known version at decode time.
+   */
+  patternVersion?: PatternVersion
   /**
    * 1× signal tile size used when this region was encoded.
    * Smaller leaf tags (chips, badges) should use 16–32 so a crop can cover a tile.
@@ -25,10 +32,61 @@ export interface ComponentDescriptor {
 
 export type PatternMatrix = number[][]
 
+/**
+ * Seeded-carrier format revisions. Version 1 is the original SeededRandom sine
+ * carrier. Version 2 is a balanced pseudo-random ±1 code over a fixed cell
+ * grid, seeded from a 128-bit hash, so unrelated descriptors stay nearly
+ * uncorrelated in large codebooks. A released version never changes, so the
+ * carrier can evolve by adding versions while archived screenshots keep
+ * decoding with theirs.
+ */
+export const PATTERN_VERSIONS = [1, 2] as const
+export type PatternVersion = (typeof PATTERN_VERSIONS)[number]
+export const CURRENT_PATTERN_VERSION: PatternVersion = 1
+
+export interface PayloadDecoding {
+  componentId: string
+  /** Bytes repaired by Reed–Solomon before the CRC was checked. */
+  correctedSymbols: number
+}
+
+/**
+ * `seeded` hashes the descriptor into sinusoid parameters and needs a codebook
+ * to decode. `payload` spreads a component id and checksum across the tile so
+ * it can be read back without one.
+ */
+export type CarrierMode = 'seeded' | 'payload'
+
 export const DEFAULT_PATTERN_SIZE = 64
 export const DEFAULT_INTENSITY = 0.08
 /** Score margin for treating a deeper path as a tie with the best match. */
 export const HIERARCHY_SCORE_MARGIN = 0.08
+/** Reed–Solomon parity bytes appended to the payload message. */
+export const PAYLOAD_PARITY_BYTES = 12
+/** Payload message: a 64-bit component id followed by its CRC-32. */
+const PAYLOAD_MESSAGE_BYTES = 12
+/** Bits carried by a payload tile: the message plus its parity. */
+export const PAYLOAD_BITS = (PAYLOAD_MESSAGE_BYTES + PAYLOAD_PARITY_BYTES) * 8
+/** Spreading cells per tile edge. 16 × 16 cells give 256 orthogonal codes. */
+export const PAYLOAD_GRID = 16
+
+/**
+ * Code cells per tile edge for version 2 carriers. The grid scales with the
+ * tile, so a 2× screenshot shows the same code as the 1× render.
+ */
+export const CARRIER_GRID = 16
+/**
+ * Version 2 cell amplitude as a fraction of `intensity * 255`, close to the
+ * RMS contrast of a version 1 carrier.
+ */
+const CARRIER_CODE_AMPLITUDE = 0.2
+const PAYLOAD_PILOT_WEIGHT = 4
+/**
+ * Cell code sum mapped to full contrast: about 1.6 standard deviations of a
+ * sum of `PAYLOAD_BITS` ±1 chips, so the share of clipped cells stays the
+ * same whatever the payload length.
+ */
+const PAYLOAD_SIGNAL_RANGE = 1.6 * Math.sqrt(PAYLOAD_BITS)
 
 export interface RankableMatch {
   path: string
@@ -49,6 +107,29 @@ class SeededRandom {
   }
 }
 
+/** Small fast counter generator (sfc32): 128 bits of state. */
+class CounterRandom {
+  private state: [number, number, number, number]
+
+  constructor(seed: [number, number, number, number]) {
+    this.state = [...seed]
+    // Discard the first outputs, which still resemble the seed.
+    for (let index = 0; index < 12; index += 1) this.next()
+  }
+
+  next(): number {
+    let [a, b, c, d] = this.state
+    const t = (((a + b) | 0) + d) | 0
+    d = (d + 1) | 0
+    a = b ^ (b >>> 9)
+    b = (c + (c << 3)) | 0
+    c = (c << 21) | (c >>> 11)
+    c = (c + t) | 0
+    this.state = [a, b, c, d]
+    return (t >>> 0) / 4294967296
+  }
+}
+
 interface PatternParameters {
   horizontalFrequency: number
   verticalFrequency: number
@@ -69,6 +150,30 @@ export function hashString(value: string): number {
   return hash >>> 0
 }
 
+/** 128-bit string hash (cyrb128) seeding version 2 carriers. */
+function hashString128(value: string): [number, number, number, number] {
+  let h1 = 1779033703
+  let h2 = 3144134277
+  let h3 = 1013904242
+  let h4 = 2773480762
+  for (let index = 0; index < value.length; index += 1) {
+    const code = value.charCodeAt(index)
+    h1 = h2 ^ Math.imul(h1 ^ code, 597399067)
+    h2 = h3 ^ Math.imul(h2 ^ code, 2869860233)
+    h3 = h4 ^ Math.imul(h3 ^ code, 951274213)
+    h4 = h1 ^ Math.imul(h4 ^ code, 2716044179)
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067)
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233)
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213)
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179)
+  h1 ^= h2 ^ h3 ^ h4
+  h2 ^= h1
+  h3 ^= h1
+  h4 ^= h1
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0]
+}
+
 export function clampPatternSize(value: number): number {
   if (!Number.isFinite(value)) return DEFAULT_PATTERN_SIZE
   return Math.min(256, Math.max(16, Math.round(value)))
@@ -84,6 +189,35 @@ export function clampIntensity(value: number): number {
   return Math.min(1, Math.max(0, value))
 }
 
+export function isPatternVersion(value: unknown): value is PatternVersion {
+  return (PATTERN_VERSIONS as readonly unknown[]).includes(value)
+}
+
+/**
+ * Versions to try for descriptors that do not record one: the current
+ * carrier, plus every other version once the codebook pins one of them,
+ * since such a codebook may also hold unpinned tags rendered with it.
+ */
+export function defaultPatternVersions(
+  components: readonly ComponentDescriptor[],
+): readonly PatternVersion[] {
+  return components.some(
+    (component) =>
+      component.patternVersion !== undefined &&
+      component.patternVersion !== CURRENT_PATTERN_VERSION,
+  )
+    ? PATTERN_VERSIONS
+    : [CURRENT_PATTERN_VERSION]
+}
+
+function assertPatternVersion(version: number): asserts version is PatternVersion {
+  if (!isPatternVersion(version)) {
+    throw new RangeError(
+      `Unknown pattern version ${version}; supported: ${PATTERN_VERSIONS.join(', ')}`,
+    )
+  }
+}
+
 /** Resolve the 1× tile size for a registry entry. */
 export function resolvePatternSize(
   component: Pick<ComponentDescriptor, 'patternSize'>,
@@ -143,7 +277,9 @@ export function rankByHierarchy<T extends RankableMatch>(
  * Deterministic seed string for the frequency pattern.
  * Path, type, depth, and — when provided — source file:line:column are all
  * hashed into the noise. Two tags with the same path but different source
- * produce different carriers; the mapping lives in the pixels.
+ * produce different carriers; the mapping lives in the pixels. Versions after
+ * 1 are recorded in the seed too, so a descriptor never aliases across
+ * carrier revisions; version 1 is omitted to stay byte-compatible.
  */
 export function createPatternPayload(component: ComponentDescriptor): string {
   // Fixed key order so the seed is stable across runtimes.
@@ -152,6 +288,7 @@ export function createPatternPayload(component: ComponentDescriptor): string {
     t: string
     d: number
     s?: { f: string; l: number; c: number }
+    v?: number
   } = {
     p: component.path,
     t: component.type,
@@ -166,10 +303,14 @@ export function createPatternPayload(component: ComponentDescriptor): string {
     }
   }
 
+  if (component.patternVersion !== undefined && component.patternVersion !== 1) {
+    body.v = component.patternVersion
+  }
+
   return JSON.stringify(body)
 }
 
-function createPatternParameters(payload: string): PatternParameters {
+function createVersionOneParameters(payload: string): PatternParameters {
   const seed = hashString(payload)
   const random = new SeededRandom(seed)
 
@@ -189,6 +330,101 @@ function createPatternParameters(payload: string): PatternParameters {
   }
 }
 
+/**
+ * Version 2 code: an equal number of +1 and -1 cells in seeded order. Balance
+ * keeps every tile zero-mean, and two codes agree on about half their cells,
+ * so their correlation concentrates around 0 with a spread of 1/CARRIER_GRID.
+ */
+function createVersionTwoCells(payload: string): Int8Array {
+  const cells = Int8Array.from({ length: CARRIER_GRID * CARRIER_GRID }, (_, index) =>
+    index % 2 === 0 ? 1 : -1,
+  )
+  const random = new CounterRandom(hashString128(payload))
+  for (let index = cells.length - 1; index > 0; index -= 1) {
+    const other = Math.floor(random.next() * (index + 1))
+    const value = cells[index]
+    cells[index] = cells[other]
+    cells[other] = value
+  }
+  return cells
+}
+
+/** Sinusoid frequencies of a version 1 carrier, in cycles per tile. */
+export interface CarrierFrequencies {
+  horizontal: number
+  vertical: number
+  diagonal: number
+}
+
+/**
+ * Inclusive range of each version 1 frequency. The signed shifts let the
+ * vertical and diagonal frequencies fall below their base values.
+ */
+export const CARRIER_FREQUENCY_RANGES: Readonly<
+  Record<keyof CarrierFrequencies, readonly [number, number]>
+> = {
+  horizontal: [2, 6],
+  vertical: [2, 10],
+  diagonal: [7, 17],
+}
+
+/**
+ * Frequency signature of a seeded carrier. Every version 1 carrier has one of
+ * 295 signatures, independent of tile size; later versions have none.
+ */
+export function getCarrierFrequencies(
+  payload: string,
+  version: PatternVersion = CURRENT_PATTERN_VERSION,
+): CarrierFrequencies | null {
+  assertPatternVersion(version)
+  if (version !== 1) return null
+  const { horizontalFrequency, verticalFrequency, diagonalFrequency } =
+    createVersionOneParameters(payload)
+  return {
+    horizontal: horizontalFrequency,
+    vertical: verticalFrequency,
+    diagonal: diagonalFrequency,
+  }
+}
+
+/**
+ * Cell code of a seeded carrier, `CARRIER_GRID` cells a row, or null for
+ * version 1, whose sinusoids have no cells.
+ */
+export function getCarrierCode(
+  payload: string,
+  version: PatternVersion = CURRENT_PATTERN_VERSION,
+): Int8Array | null {
+  assertPatternVersion(version)
+  return version === 2 ? createVersionTwoCells(payload) : null
+}
+
+/** Version 2 code cell painted at pixel (x, y) of a `size` tile. */
+export function carrierCellIndex(size: number, x: number, y: number): number {
+  return gridCellIndex(CARRIER_GRID, size, x, y)
+}
+
+/** Sampler for one tile of the given carrier revision. */
+function createPatternSampler(
+  payload: string,
+  version: number,
+  size: number,
+  strength: number,
+): (x: number, y: number) => number {
+  assertPatternVersion(version)
+  if (version === 2) {
+    const cells = createVersionTwoCells(payload)
+    return (x, y) => {
+      const variation = Math.floor(
+        cells[carrierCellIndex(size, x, y)] * strength * 255 * CARRIER_CODE_AMPLITUDE,
+      )
+      return Math.min(255, Math.max(0, 245 + variation))
+    }
+  }
+  const parameters = createVersionOneParameters(payload)
+  return (x, y) => samplePattern(parameters, size, x, y, strength)
+}
+
 function samplePattern(
   parameters: PatternParameters,
   size: number,
@@ -221,32 +457,28 @@ export function generatePattern(
   payload: string,
   patternSize = DEFAULT_PATTERN_SIZE,
   intensity = DEFAULT_INTENSITY,
+  version: PatternVersion = CURRENT_PATTERN_VERSION,
 ): PatternMatrix {
   const size = normalizeGeneratedPatternSize(patternSize)
   const strength = clampIntensity(intensity)
-  const parameters = createPatternParameters(payload)
+  const sample = createPatternSampler(payload, version, size, strength)
 
   return Array.from({ length: size }, (_, y) =>
-    Array.from({ length: size }, (_, x) =>
-      samplePattern(parameters, size, x, y, strength),
-    ),
+    Array.from({ length: size }, (_, x) => sample(x, y)),
   )
 }
 
-export function generatePatternRgba(
-  payload: string,
-  patternSize = DEFAULT_PATTERN_SIZE,
-  intensity = DEFAULT_INTENSITY,
+function carrierRgba(
+  size: number,
+  strength: number,
+  sample: (x: number, y: number) => number,
 ): Uint8ClampedArray {
-  const size = normalizeGeneratedPatternSize(patternSize)
-  const strength = clampIntensity(intensity)
-  const parameters = createPatternParameters(payload)
   const rgba = new Uint8ClampedArray(size * size * 4)
 
   for (let y = 0; y < size; y += 1) {
     for (let x = 0; x < size; x += 1) {
       const offset = (y * size + x) * 4
-      const value = samplePattern(parameters, size, x, y, strength)
+      const value = sample(x, y)
       // Put the carrier in a roughly luminance-neutral red/cyan axis. Human
       // vision is considerably less sensitive to this faint chroma variation
       // than to light/dark banding, while a decoder can isolate R-(G+B)/2.
@@ -270,6 +502,408 @@ export function generatePatternRgba(
   return rgba
 }
 
+export function generatePatternRgba(
+  payload: string,
+  patternSize = DEFAULT_PATTERN_SIZE,
+  intensity = DEFAULT_INTENSITY,
+  version: PatternVersion = CURRENT_PATTERN_VERSION,
+): Uint8ClampedArray {
+  const size = normalizeGeneratedPatternSize(patternSize)
+  const strength = clampIntensity(intensity)
+  return carrierRgba(size, strength, createPatternSampler(payload, version, size, strength))
+}
+
+/**
+ * Stable 64-bit identifier for a descriptor, as 16 lowercase hex digits.
+ * FNV-1a over the same payload string a version 1 seeded carrier hashes, so a
+ * build server can map an id recovered from a payload tile back to its tag.
+ * Payload tiles have no carrier versions, so `patternVersion` is ignored.
+ */
+export function createComponentId(component: ComponentDescriptor): string {
+  const payload = createPatternPayload({ ...component, patternVersion: undefined })
+  let hash = 0xcbf29ce484222325n
+  for (const byte of new TextEncoder().encode(payload)) {
+    hash ^= BigInt(byte)
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn
+  }
+  return hash.toString(16).padStart(16, '0')
+}
+
+const crcTable = Uint32Array.from({ length: 256 }, (_, index) => {
+  let value = index
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1
+  }
+  return value >>> 0
+})
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function componentIdBytes(componentId: string): Uint8Array {
+  if (!/^[0-9a-f]{16}$/.test(componentId)) {
+    throw new TypeError('Component id must be 16 lowercase hex digits')
+  }
+  return Uint8Array.from({ length: 8 }, (_, index) =>
+    Number.parseInt(componentId.slice(index * 2, index * 2 + 2), 16),
+  )
+}
+
+/**
+ * Most-significant-bit-first bits of the id, its CRC-32, and the Reed–Solomon
+ * parity protecting both.
+ */
+export function encodePayloadBits(componentId: string): Uint8Array {
+  const bytes = componentIdBytes(componentId)
+  const crc = crc32(bytes)
+  const message = new Uint8Array(PAYLOAD_MESSAGE_BYTES)
+  message.set(bytes)
+  message[8] = crc >>> 24
+  message[9] = (crc >>> 16) & 0xff
+  message[10] = (crc >>> 8) & 0xff
+  message[11] = crc & 0xff
+  const codeword = encodeReedSolomon(message, PAYLOAD_PARITY_BYTES)
+
+  return Uint8Array.from({ length: PAYLOAD_BITS }, (_, index) =>
+    (codeword[index >> 3] >> (7 - (index & 7))) & 1,
+  )
+}
+
+/**
+ * Repair and verify payload bits. Returns null when Reed–Solomon cannot
+ * correct them or the CRC rejects the result, so a damaged tile never yields
+ * a plausible but wrong id.
+ */
+export function decodePayloadBits(bits: ArrayLike<number>): PayloadDecoding | null {
+  if (bits.length < PAYLOAD_BITS) return null
+  const codeword = new Uint8Array(PAYLOAD_BITS / 8)
+  for (let index = 0; index < PAYLOAD_BITS; index += 1) {
+    if (bits[index]) codeword[index >> 3] |= 1 << (7 - (index & 7))
+  }
+  const decoded = decodeReedSolomon(codeword, PAYLOAD_PARITY_BYTES)
+  if (!decoded) return null
+
+  const message = decoded.message
+  const id = message.subarray(0, 8)
+  const expected =
+    ((message[8] << 24) | (message[9] << 16) | (message[10] << 8) | message[11]) >>> 0
+  if (crc32(id) !== expected) return null
+  return {
+    componentId: [...id].map((byte) => byte.toString(16).padStart(2, '0')).join(''),
+    correctedSymbols: decoded.correctedSymbols,
+  }
+}
+
+function walshSign(sequency: number, position: number): number {
+  let parity = sequency & position
+  parity ^= parity >> 4
+  parity ^= parity >> 2
+  parity ^= parity >> 1
+  return parity & 1 ? -1 : 1
+}
+
+// One fixed scrambling mask multiplies every Walsh code. It keeps the codes
+// mutually orthogonal while whitening the low-sequency ones that would
+// otherwise look like ordinary interface gradients.
+const payloadMask = (() => {
+  const random = new SeededRandom(hashString('pixelprovenance/payload-mask'))
+  return Int8Array.from({ length: PAYLOAD_GRID * PAYLOAD_GRID }, () =>
+    random.next() < 0.5 ? -1 : 1,
+  )
+})()
+
+/** Index of the cell covering pixel (x, y) when a `grid` × `grid` code spans the tile. */
+function gridCellIndex(grid: number, size: number, x: number, y: number): number {
+  return Math.floor((y * grid) / size) * grid + Math.floor((x * grid) / size)
+}
+
+function payloadCellIndex(size: number, x: number, y: number): number {
+  return gridCellIndex(PAYLOAD_GRID, size, x, y)
+}
+
+/**
+ * Spread-spectrum cell values in -1..1. Code 0 is a constant pilot used for
+ * synchronization; codes 1..PAYLOAD_BITS carry one payload bit each.
+ */
+function payloadCells(componentId: string): Float64Array {
+  const bits = encodePayloadBits(componentId)
+  const cells = new Float64Array(PAYLOAD_GRID * PAYLOAD_GRID)
+
+  for (let row = 0; row < PAYLOAD_GRID; row += 1) {
+    for (let column = 0; column < PAYLOAD_GRID; column += 1) {
+      let sum = PAYLOAD_PILOT_WEIGHT
+      for (let code = 1; code <= PAYLOAD_BITS; code += 1) {
+        sum +=
+          (bits[code - 1] ? 1 : -1) *
+          walshSign(code >> 4, row) *
+          walshSign(code & 15, column)
+      }
+      const cell = row * PAYLOAD_GRID + column
+      cells[cell] = Math.max(
+        -1,
+        Math.min(1, (payloadMask[cell] * sum) / PAYLOAD_SIGNAL_RANGE),
+      )
+    }
+  }
+
+  return cells
+}
+
+function samplePayload(cells: Float64Array, size: number, x: number, y: number, strength: number): number {
+  const variation = Math.floor(
+    cells[payloadCellIndex(size, x, y)] * strength * 255 * 0.5,
+  )
+  return Math.min(255, Math.max(0, 245 + variation))
+}
+
+/** Payload-carrier counterpart of `generatePattern`. */
+export function generatePayloadPattern(
+  componentId: string,
+  patternSize = DEFAULT_PATTERN_SIZE,
+  intensity = DEFAULT_INTENSITY,
+): PatternMatrix {
+  const size = normalizeGeneratedPatternSize(patternSize)
+  const strength = clampIntensity(intensity)
+  const cells = payloadCells(componentId)
+
+  return Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) =>
+      samplePayload(cells, size, x, y, strength),
+    ),
+  )
+}
+
+/** Payload-carrier counterpart of `generatePatternRgba`. */
+export function generatePayloadPatternRgba(
+  componentId: string,
+  patternSize = DEFAULT_PATTERN_SIZE,
+  intensity = DEFAULT_INTENSITY,
+): Uint8ClampedArray {
+  const size = normalizeGeneratedPatternSize(patternSize)
+  const strength = clampIntensity(intensity)
+  const cells = payloadCells(componentId)
+  return carrierRgba(size, strength, (x, y) =>
+    samplePayload(cells, size, x, y, strength),
+  )
+}
+
+/**
+ * The pilot code alone, for locating payload tiles and their phase by
+ * correlation before any bits are read.
+ */
+export function generatePayloadPilotPattern(patternSize = DEFAULT_PATTERN_SIZE): PatternMatrix {
+  const size = normalizeGeneratedPatternSize(patternSize)
+  return Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) => payloadMask[payloadCellIndex(size, x, y)]),
+  )
+}
+
+export interface PayloadReading {
+  /** Recovered id, or null when the despread bits could not be repaired. */
+  componentId: string | null
+  /** Bytes repaired by Reed–Solomon; 0 when the read failed. */
+  correctedSymbols: number
+  bits: Uint8Array
+  /** Pilot energy relative to the mean data-code magnitude. */
+  pilotRatio: number
+}
+
+function walshHadamard(values: Float64Array, offset: number, stride: number): void {
+  for (let length = 1; length < PAYLOAD_GRID; length <<= 1) {
+    for (let start = 0; start < PAYLOAD_GRID; start += length << 1) {
+      for (let index = start; index < start + length; index += 1) {
+        const first = offset + index * stride
+        const second = offset + (index + length) * stride
+        const sum = values[first] + values[second]
+        values[second] = values[first] - values[second]
+        values[first] = sum
+      }
+    }
+  }
+}
+
+/**
+ * Despread an observed tile (any channel where the carrier is positive-going,
+ * typically R-(G+B)/2) aligned to the tile origin. Several aligned tiles may be
+ * summed first to raise the signal above screenshot noise.
+ */
+export function despreadPayloadTile(tile: PatternMatrix): PayloadReading {
+  const size = tile.length
+  const sums = new Float64Array(PAYLOAD_GRID * PAYLOAD_GRID)
+  const counts = new Float64Array(PAYLOAD_GRID * PAYLOAD_GRID)
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const cell = payloadCellIndex(size, x, y)
+      sums[cell] += tile[y][x]
+      counts[cell] += 1
+    }
+  }
+
+  let mean = 0
+  for (let cell = 0; cell < sums.length; cell += 1) {
+    sums[cell] = counts[cell] ? sums[cell] / counts[cell] : 0
+    mean += sums[cell]
+  }
+  mean /= sums.length
+  for (let cell = 0; cell < sums.length; cell += 1) {
+    sums[cell] = (sums[cell] - mean) * payloadMask[cell]
+  }
+
+  for (let row = 0; row < PAYLOAD_GRID; row += 1) {
+    walshHadamard(sums, row * PAYLOAD_GRID, 1)
+  }
+  for (let column = 0; column < PAYLOAD_GRID; column += 1) {
+    walshHadamard(sums, column, PAYLOAD_GRID)
+  }
+
+  // Coefficient u * 16 + v belongs to row sequency u and column sequency v.
+  const pilot = sums[0]
+  const orientation = pilot < 0 ? -1 : 1
+  const bits = new Uint8Array(PAYLOAD_BITS)
+  let magnitude = 0
+  for (let code = 1; code <= PAYLOAD_BITS; code += 1) {
+    bits[code - 1] = sums[code] * orientation > 0 ? 1 : 0
+    magnitude += Math.abs(sums[code])
+  }
+  magnitude /= PAYLOAD_BITS
+  const decoded = decodePayloadBits(bits)
+
+  return {
+    componentId: decoded?.componentId ?? null,
+    correctedSymbols: decoded?.correctedSymbols ?? 0,
+    bits,
+    pilotRatio: magnitude === 0 ? 0 : Math.abs(pilot) / magnitude,
+  }
+}
+
+/**
+ * Correlation a single pixel line needs to count as carrying the pattern.
+ * Looser than a tile threshold because one line has far fewer samples.
+ */
+export const REGION_LINE_THRESHOLD = 0.5
+
+/** Pixel rectangle of a tagged region, in screenshot coordinates. */
+export interface PixelRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Correlate one pixel column (or row) of an RGBA image with the pattern
+ * column (or row) the tiling places there, on both the luma and chroma
+ * projections used by the decoder, and return the better of the two.
+ */
+function correlateLine(
+  data: ArrayLike<number>,
+  width: number,
+  pattern: PatternMatrix,
+  phaseX: number,
+  phaseY: number,
+  line: number,
+  start: number,
+  end: number,
+  vertical: boolean,
+): number {
+  const size = pattern.length
+  let lumaSum = 0
+  let chromaSum = 0
+  let expectedSum = 0
+  let lumaSquareSum = 0
+  let chromaSquareSum = 0
+  let expectedSquareSum = 0
+  let lumaProductSum = 0
+  let chromaProductSum = 0
+  const count = end - start
+
+  for (let position = start; position < end; position += 1) {
+    const x = vertical ? line : position
+    const y = vertical ? position : line
+    const offset = (y * width + x) * 4
+    const red = data[offset]
+    const green = data[offset + 1]
+    const blue = data[offset + 2]
+    const luma = (red + green + blue) / 3
+    const chroma = red - (green + blue) / 2
+    const expected =
+      pattern[(((y - phaseY) % size) + size) % size][(((x - phaseX) % size) + size) % size]
+    lumaSum += luma
+    chromaSum += chroma
+    expectedSum += expected
+    lumaSquareSum += luma * luma
+    chromaSquareSum += chroma * chroma
+    expectedSquareSum += expected * expected
+    lumaProductSum += luma * expected
+    chromaProductSum += chroma * expected
+  }
+
+  const expectedVariance = expectedSquareSum - (expectedSum * expectedSum) / count
+  let best = 0
+  for (const [sum, squareSum, productSum] of [
+    [lumaSum, lumaSquareSum, lumaProductSum],
+    [chromaSum, chromaSquareSum, chromaProductSum],
+  ]) {
+    const denominator = Math.sqrt(
+      Math.max(0, squareSum - (sum * sum) / count) * Math.max(0, expectedVariance),
+    )
+    if (denominator > 0) {
+      best = Math.max(best, (productSum - (sum * expectedSum) / count) / denominator)
+    }
+  }
+  return best
+}
+
+/**
+ * Snap a coarse region (such as the union of matching tile windows) to the
+ * pixel edges of a tiled pattern. `phaseX`/`phaseY` locate any aligned tile.
+ * Each edge moves inward past lines that do not carry the pattern column or
+ * row expected at that phase, then outward while the next line still does,
+ * so partial tiles at the region's far edges are included.
+ */
+export function refinePatternRegion(
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  pattern: PatternMatrix,
+  region: PixelRegion,
+  phaseX: number,
+  phaseY: number,
+  threshold = REGION_LINE_THRESHOLD,
+): PixelRegion {
+  let left = Math.max(0, region.x)
+  let top = Math.max(0, region.y)
+  let right = Math.min(width, region.x + region.width)
+  let bottom = Math.min(height, region.y + region.height)
+  if (right <= left || bottom <= top) return { x: left, y: top, width: 0, height: 0 }
+
+  const column = (x: number) =>
+    correlateLine(data, width, pattern, phaseX, phaseY, x, top, bottom, true)
+  const row = (y: number) =>
+    correlateLine(data, width, pattern, phaseX, phaseY, y, left, right, false)
+
+  // Horizontal edges depend on the vertical extent and vice versa, so settle
+  // both twice.
+  for (let pass = 0; pass < 2; pass += 1) {
+    while (right - left > 1 && column(left) < threshold) left += 1
+    while (right - left > 1 && column(right - 1) < threshold) right -= 1
+    while (left > 0 && column(left - 1) >= threshold) left -= 1
+    while (right < width && column(right) >= threshold) right += 1
+
+    while (bottom - top > 1 && row(top) < threshold) top += 1
+    while (bottom - top > 1 && row(bottom - 1) < threshold) bottom -= 1
+    while (top > 0 && row(top - 1) >= threshold) top -= 1
+    while (bottom < height && row(bottom) >= threshold) bottom += 1
+  }
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
 export function comparePatterns(first: PatternMatrix, second: PatternMatrix): number {
   const height = Math.min(first.length, second.length)
   const width = Math.min(first[0]?.length ?? 0, second[0]?.length ?? 0)
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+
+import { decodeReedSolomon, encodeReedSolomon } from './reed-solomon.js'
+
+describe('Reed–Solomon codec', () => {
+  const message = Uint8Array.from([0x7b, 0x73, 0x0c, 0x52, 0x6a, 0xe0, 0x66, 0x37, 1, 2, 3, 4])
+
+  it('appends parity without touching the message bytes', () => {
+    const codeword = encodeReedSolomon(message, 12)
+
+    expect(codeword).toHaveLength(24)
+    expect(codeword.subarray(0, 12)).toEqual(message)
+    expect(decodeReedSolomon(codeword, 12)).toEqual({ message, correctedSymbols: 0 })
+  })
+
+  it('repairs up to half the parity count of corrupted bytes', () => {
+    const codeword = encodeReedSolomon(message, 12)
+    for (const [index, position] of [0, 5, 11, 13, 19, 23].entries()) {
+      codeword[position] ^= 0x11 * (index + 1)
+    }
+
+    expect(decodeReedSolomon(codeword, 12)).toEqual({ message, correctedSymbols: 6 })
+  })
+
+  it('reports failure instead of guessing past the correction limit', () => {
+    const codeword = encodeReedSolomon(message, 4)
+    codeword[0] ^= 0xff
+    codeword[3] ^= 0x0f
+    codeword[7] ^= 0xf0
+
+    const decoded = decodeReedSolomon(codeword, 4)
+    expect(decoded === null || decoded.message.some((byte, index) => byte !== message[index]))
+      .toBe(true)
+  })
+
+  it('rejects parity layouts outside GF(256)', () => {
+    expect(() => encodeReedSolomon(message, 3)).toThrow(/even parity/)
+    expect(() => encodeReedSolomon(new Uint8Array(250), 8)).toThrow(/255 bytes/)
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * Reed–Solomon codes over GF(256) (primitive polynomial 0x11d, first
+ * consecutive root α^0). A codeword is the message followed by `parityCount`
+ * parity bytes and corrects up to `parityCount / 2` byte errors.
+ */
+
+const FIELD_SIZE = 256
+const PRIMITIVE_POLYNOMIAL = 0x11d
+
+const exponents = new Uint8Array(FIELD_SIZE * 2)
+const logarithms = new Uint8Array(FIELD_SIZE)
+
+{
+  let value = 1
+  for (let power = 0; power < FIELD_SIZE - 1; power += 1) {
+    exponents[power] = value
+    logarithms[value] = power
+    value <<= 1
+    if (value & FIELD_SIZE) value ^= PRIMITIVE_POLYNOMIAL
+  }
+  for (let power = FIELD_SIZE - 1; power < exponents.length; power += 1) {
+    exponents[power] = exponents[power - (FIELD_SIZE - 1)]
+  }
+}
+
+function multiply(first: number, second: number): number {
+  if (first === 0 || second === 0) return 0
+  return exponents[logarithms[first] + logarithms[second]]
+}
+
+function divide(dividend: number, divisor: number): number {
+  if (divisor === 0) throw new RangeError('Division by zero in GF(256)')
+  if (dividend === 0) return 0
+  return exponents[logarithms[dividend] + 255 - logarithms[divisor]]
+}
+
+function power(exponent: number): number {
+  return exponents[((exponent % 255) + 255) % 255]
+}
+
+/** Evaluate a polynomial stored highest degree first. */
+function evaluate(polynomial: ArrayLike<number>, point: number): number {
+  let result = 0
+  for (let index = 0; index < polynomial.length; index += 1) {
+    result = multiply(result, point) ^ polynomial[index]
+  }
+  return result
+}
+
+const generatorCache = new Map<number, Uint8Array>()
+
+function generatorPolynomial(parityCount: number): Uint8Array {
+  const cached = generatorCache.get(parityCount)
+  if (cached) return cached
+
+  let generator = Uint8Array.of(1)
+  for (let root = 0; root < parityCount; root += 1) {
+    const next = new Uint8Array(generator.length + 1)
+    for (let index = 0; index < generator.length; index += 1) {
+      next[index] ^= generator[index]
+      next[index + 1] ^= multiply(generator[index], power(root))
+    }
+    generator = next
+  }
+
+  generatorCache.set(parityCount, generator)
+  return generator
+}
+
+function assertLengths(messageLength: number, parityCount: number): void {
+  if (
+    !Number.isInteger(parityCount) ||
+    parityCount < 2 ||
+    parityCount % 2 !== 0 ||
+    messageLength < 1 ||
+    messageLength + parityCount > FIELD_SIZE - 1
+  ) {
+    throw new RangeError('Reed–Solomon codewords need an even parity count and at most 255 bytes')
+  }
+}
+
+export function encodeReedSolomon(message: Uint8Array, parityCount: number): Uint8Array {
+  assertLengths(message.length, parityCount)
+  const generator = generatorPolynomial(parityCount)
+  const codeword = new Uint8Array(message.length + parityCount)
+  codeword.set(message)
+
+  // Systematic encoding: parity is the remainder of message·x^parity / g(x).
+  const remainder = codeword.slice()
+  for (let index = 0; index < message.length; index += 1) {
+    const coefficient = remainder[index]
+    if (coefficient === 0) continue
+    for (let term = 1; term < generator.length; term += 1) {
+      remainder[index + term] ^= multiply(generator[term], coefficient)
+    }
+  }
+  codeword.set(remainder.subarray(message.length), message.length)
+  return codeword
+}
+
+export interface ReedSolomonDecoding {
+  message: Uint8Array
+  /** Number of corrupted bytes that were repaired. */
+  correctedSymbols: number
+}
+
+/**
+ * Correct and strip parity, or return null when the codeword has more errors
+ * than the code can repair.
+ */
+export function decodeReedSolomon(
+  codeword: Uint8Array,
+  parityCount: number,
+): ReedSolomonDecoding | null {
+  assertLengths(codeword.length - parityCount, parityCount)
+  const length = codeword.length
+  const syndromes = new Uint8Array(parityCount)
+  let clean = true
+  for (let root = 0; root < parityCount; root += 1) {
+    syndromes[root] = evaluate(codeword, power(root))
+    if (syndromes[root] !== 0) clean = false
+  }
+  if (clean) {
+    return { message: codeword.slice(0, length - parityCount), correctedSymbols: 0 }
+  }
+
+  // Berlekamp–Massey: error locator Λ(x), stored lowest degree first.
+  let locator = [1]
+  let previous = [1]
+  let errorCount = 0
+  let shift = 1
+  let previousDiscrepancy = 1
+  for (let step = 0; step < parityCount; step += 1) {
+    let discrepancy = syndromes[step]
+    for (let index = 1; index <= errorCount; index += 1) {
+      discrepancy ^= multiply(locator[index] ?? 0, syndromes[step - index])
+    }
+    if (discrepancy === 0) {
+      shift += 1
+      continue
+    }
+
+    const factor = divide(discrepancy, previousDiscrepancy)
+    const updated = locator.slice()
+    for (let index = 0; index < previous.length; index += 1) {
+      const target = index + shift
+      while (updated.length <= target) updated.push(0)
+      updated[target] ^= multiply(factor, previous[index])
+    }
+    if (2 * errorCount <= step) {
+      previous = locator
+      errorCount = step + 1 - errorCount
+      previousDiscrepancy = discrepancy
+      shift = 1
+    } else {
+      shift += 1
+    }
+    locator = updated
+  }
+  while (locator.length > 1 && locator[locator.length - 1] === 0) locator.pop()
+  if (locator.length - 1 !== errorCount || 2 * errorCount > parityCount) return null
+
+  // Chien search: position p (from the end) is in error when Λ(α^-p) = 0.
+  const positions: number[] = []
+  for (let position = 0; position < length; position += 1) {
+    let value = 0
+    for (let index = locator.length - 1; index >= 0; index -= 1) {
+      value = multiply(value, power(-position)) ^ locator[index]
+    }
+    if (value === 0) positions.push(position)
+  }
+  if (positions.length !== errorCount) return null
+
+  // Forney: error evaluator Ω(x) = S(x)Λ(x) mod x^parity.
+  const evaluator = new Uint8Array(parityCount)
+  for (let index = 0; index < parityCount; index += 1) {
+    for (let term = 0; term <= index && term < locator.length; term += 1) {
+      evaluator[index] ^= multiply(locator[term], syndromes[index - term])
+    }
+  }
+
+  const corrected = codeword.slice()
+  for (const position of positions) {
+    const inverse = power(-position)
+    let numerator = 0
+    for (let index = parityCount - 1; index >= 0; index -= 1) {
+      numerator = multiply(numerator, inverse) ^ evaluator[index]
+    }
+    let denominator = 0
+    for (let index = 1; index < locator.length; index += 2) {
+      denominator ^= multiply(locator[index], power(-position * (index - 1)))
+    }
+    if (denominator === 0) return null
+    // With first root α^0 the magnitude carries an extra X_k factor.
+    const magnitude = multiply(power(position), divide(numerator, denominator))
+    corrected[length - 1 - position] ^= magnitude
+  }
+
+  for (let root = 0; root < parityCount; root += 1) {
+    if (evaluate(corrected, power(root)) !== 0) return null
+  }
+  return {
+    message: corrected.slice(0, length - parityCount),
+    correctedSymbols: positions.length,
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+
+import { createDevTagRegistry } from './registry.js'
+
+describe('DevTag registry collector', () => {
+  it('keeps the first descriptor per path and reports conflicting renders', () => {
+    const registry = createDevTagRegistry()
+    const source = { file: 'src/Card.tsx', line: 4, column: 3 }
+    registry.record({ path: 'card', type: 'panel', depth: 1, source, patternSize: 64 })
+    registry.record({ path: 'card', type: 'panel', depth: 1, source, patternSize: 64 })
+    registry.record({ path: 'list', type: 'panel', depth: 1 })
+    expect(registry.conflicts()).toEqual([])
+
+    registry.record({ path: 'card', type: 'panel', depth: 1, source, patternSize: 32 })
+    registry.record({ path: 'card', type: 'panel', depth: 1, patternSize: 64 })
+
+    expect(registry.components()).toHaveLength(2)
+    expect(registry.conflicts()).toEqual(['card'])
+    expect(JSON.parse(JSON.stringify(registry))[0]).toEqual({
+      path: 'card',
+      type: 'panel',
+      depth: 1,
+      patternSize: 64,
+      source,
+    })
+  })
+
+  it('stops at the decoder entry limit and counts what it dropped', () => {
+    const registry = createDevTagRegistry()
+    for (let index = 0; index < 65_539; index += 1) {
+      registry.record({ path: `row-${index}`, type: 'row', depth: 1 })
+    }
+    registry.record({ path: 'row-65538', type: 'row', depth: 1 })
+
+    expect(registry.components()).toHaveLength(65_536)
+    expect(registry.dropped()).toBe(3)
+    registry.clear()
+    expect([registry.components().length, registry.dropped()]).toEqual([0, 0])
+  })
+
+  it('reports the median measured size of recorded paths', () => {
+    const registry = createDevTagRegistry()
+    registry.record({ path: 'card', type: 'panel', depth: 1 })
+    for (const width of [320, 300, 340]) registry.measure('card', { width, height: 41.6 })
+    registry.measure('card', { width: 0, height: 0 })
+    registry.measure('unrecorded', { width: 80, height: 20 })
+
+    expect(registry.renderedSizes()).toEqual({ card: { width: 320, height: 42 } })
+    registry.clear()
+    expect(registry.renderedSizes()).toEqual({})
+  })
+})
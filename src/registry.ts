@@ -0,0 +1,116 @@
+import { createPatternPayload, type ComponentDescriptor } from './pattern.js'
+
+/** Matches the decoder's registry entry limit. */
+const MAX_REGISTRY_ENTRIES = 65_536
+/** Recent measurements kept per path for its typical size. */
+const MAX_SIZE_SAMPLES = 32
+
+/** CSS pixel size of a painted tag, which is also its size in 1× tile units. */
+export interface RenderedSize {
+  width: number
+  height: number
+}
+
+/**
+ * Collects the descriptors `DevTag` hashes as tags paint, so a session or test
+ * run can export exactly the embeddings its screenshots contain.
+ */
+export interface DevTagRegistry {
+  /** Adds a descriptor; repeated renders of the same embedding are ignored. */
+  record(descriptor: ComponentDescriptor): void
+  /** Recorded descriptors sorted by path, in the shape `--registry` reads. */
+  components(): ComponentDescriptor[]
+  /** Distinct paths ignored after the decoder's entry limit was reached. */
+  dropped(): number
+  /**
+   * Paths that rendered with more than one descriptor. The decoder needs
+   * unique paths, so only the first descriptor of each is kept.
+   */
+  conflicts(): string[]
+  /** Adds a layout measurement for a recorded path; empty boxes are ignored. */
+  measure(path: string, size: RenderedSize): void
+  /**
+   * Median width and height of each measured path, in the shape
+   * `pixelprovenance registry lint --sizes` reads.
+   */
+  renderedSizes(): Record<string, RenderedSize>
+  clear(): void
+  /** Lets `JSON.stringify(registry)` produce a registry file. */
+  toJSON(): ComponentDescriptor[]
+}
+
+function embeddingKey(descriptor: ComponentDescriptor): string {
+  // Tile size is not part of the seed, but the decoder scans each size separately.
+  return `${createPatternPayload(descriptor)}\u0000${descriptor.patternSize ?? ''}`
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((first, second) => first - second)
+  const middle = Math.floor(sorted.length / 2)
+  const value = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+  return Math.round(value)
+}
+
+export function createDevTagRegistry(): DevTagRegistry {
+  const entries = new Map<string, { descriptor: ComponentDescriptor; key: string }>()
+  const overflow = new Set<string>()
+  const conflicts = new Set<string>()
+  const samples = new Map<string, RenderedSize[]>()
+
+  const components = (): ComponentDescriptor[] =>
+    [...entries.values()]
+      .map((entry) => entry.descriptor)
+      .sort((first, second) => first.path.localeCompare(second.path))
+
+  return {
+    record(descriptor) {
+      const { path, type, depth, source, patternSize, patternVersion } = descriptor
+      const existing = entries.get(path)
+      if (existing) {
+        if (existing.key !== embeddingKey(descriptor)) conflicts.add(path)
+        return
+      }
+      if (overflow.has(path)) return
+      if (entries.size >= MAX_REGISTRY_ENTRIES) {
+        overflow.add(path)
+        return
+      }
+      const entry: ComponentDescriptor = { path, type, depth }
+      if (patternSize !== undefined) entry.patternSize = patternSize
+      if (patternVersion !== undefined) entry.patternVersion = patternVersion
+      if (source) entry.source = { file: source.file, line: source.line, column: source.column }
+      entries.set(path, { descriptor: entry, key: embeddingKey(entry) })
+    },
+    components,
+    dropped: () => overflow.size,
+    conflicts: () => [...conflicts].sort(),
+    measure(path, { width, height }) {
+      if (!entries.has(path) || !(width > 0) || !(height > 0)) return
+      const measured = samples.get(path) ?? []
+      if (measured.push({ width, height }) > MAX_SIZE_SAMPLES) measured.shift()
+      samples.set(path, measured)
+    },
+    renderedSizes() {
+      const paths = [...samples.keys()].sort((first, second) => first.localeCompare(second))
+      return Object.fromEntries(
+        paths.map((path) => {
+          const measured = samples.get(path) ?? []
+          return [
+            path,
+            {
+              width: median(measured.map((size) => size.width)),
+              height: median(measured.map((size) => size.height)),
+            },
+          ]
+        }),
+      )
+    },
+    clear() {
+      entries.clear()
+      overflow.clear()
+      conflicts.clear()
+      samples.clear()
+    },
+    toJSON: components,
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  comparePatterns,
+  createPatternPayload,
+  generatePattern,
+  generatePatternRgba,
+  type PatternMatrix,
+} from './pattern.js'
+import { compareRobustChroma, countWindowSamples, scoreWindow } from './scoring.js'
+
+const COMPONENT = { path: 'SAMPLE_APP/focus-card', type: 'card', depth: 2 }
+
+/** Two 32 px tiles side by side, alpha-composited over a light page. */
+function tiledPixels(): { data: Uint8ClampedArray; width: number } {
+  const width = 64
+  const tile = generatePatternRgba(createPatternPayload(COMPONENT), 32, 0.16)
+  const data = new Uint8ClampedArray(width * 32 * 4)
+  for (let y = 0; y < 32; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const source = (y * 32 + (x % 32)) * 4
+      const alpha = tile[source + 3] / 255
+      for (let channel = 0; channel < 3; channel += 1) {
+        data[(y * width + x) * 4 + channel] = Math.round(
+          236 * (1 - alpha) + tile[source + channel] * alpha,
+        )
+      }
+      data[(y * width + x) * 4 + 3] = 255
+    }
+  }
+  return { data, width }
+}
+
+function window(
+  data: Uint8ClampedArray,
+  width: number,
+  startX: number,
+  size: number,
+  value: (red: number, green: number, blue: number) => number,
+): PatternMatrix {
+  return Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) => {
+      const offset = (y * width + startX + x) * 4
+      return value(data[offset], data[offset + 1], data[offset + 2])
+    }),
+  )
+}
+
+describe('window scoring', () => {
+  it('scores a window like comparePatterns over its luma and chroma', () => {
+    const { data, width } = tiledPixels()
+    const expected = generatePattern(createPatternPayload(COMPONENT), 32, 0.16)
+    const luma = window(data, width, 5, 32, (red, green, blue) => (red + green + blue) / 3)
+    const chroma = window(data, width, 5, 32, (red, green, blue) => red - (green + blue) / 2)
+
+    expect(scoreWindow(data, width, 5, 0, expected)).toBeCloseTo(
+      Math.max(comparePatterns(luma, expected), comparePatterns(chroma, expected)),
+      12,
+    )
+    expect(scoreWindow(data, width, 0, 0, expected)).toBeGreaterThan(0.85)
+  })
+
+  it('ignores blocks with strong colour edges in robust mode', () => {
+    const { data, width } = tiledPixels()
+    const expected = generatePattern(createPatternPayload(COMPONENT), 32, 0.16)
+    // A blue stroke through every other column of 4 px blocks.
+    for (let y = 0; y < 32; y += 1) {
+      for (let x = 1; x < 32; x += 8) {
+        data.set([40, 60, 200], (y * width + x) * 4)
+      }
+    }
+    const plain = scoreWindow(data, width, 0, 0, expected)
+
+    expect(plain).toBeLessThan(0.5)
+    expect(compareRobustChroma(data, width, 0, 0, expected)).toBeGreaterThan(0.8)
+    expect(scoreWindow(data, width, 0, 0, expected, { scoring: 'robust' })).toBeGreaterThan(plain)
+    // Strokes in every block leave nothing to judge.
+    for (let y = 0; y < 32; y += 1) {
+      for (let x = 5; x < 32; x += 8) data.set([40, 60, 200], (y * width + x) * 4)
+    }
+    expect(compareRobustChroma(data, width, 0, 0, expected)).toBe(0)
+  })
+
+  it('counts the pixels a window reads', () => {
+    expect(countWindowSamples(64)).toBe(4096)
+    expect(countWindowSamples(64, { sampleStride: 4 })).toBe(256)
+    // 64 blocks of 8 px, read every other pixel.
+    expect(countWindowSamples(64, { scoring: 'robust' })).toBe(4096 + 64 * 16)
+  })
+})
@@ -0,0 +1,199 @@
+import type { PatternMatrix } from './pattern.js'
+
+/**
+ * `plain` correlates a window's luma and chroma with the carrier. `robust`
+ * also scores its chroma block by block, skipping blocks with strong colour
+ * edges and trimming outlier blocks, so text, borders, and avatars drawn over
+ * a tag do not sink the window. Scores are the best of the three.
+ */
+export type ScoringMode = 'plain' | 'robust'
+
+export const SCORING_MODES: readonly ScoringMode[] = ['plain', 'robust']
+
+export interface WindowScoreOptions {
+  scoring?: ScoringMode
+  /** Read every n-th pixel on each axis for the plain scores. Defaults to 1. */
+  sampleStride?: number
+}
+
+const ROBUST_BLOCKS_PER_AXIS = 8
+const ROBUST_EDGE_RANGE = 12
+const ROBUST_TRIM_RATIO = 0.2
+const MIN_ROBUST_BLOCKS = 8
+
+export function isScoringMode(value: unknown): value is ScoringMode {
+  return SCORING_MODES.includes(value as ScoringMode)
+}
+
+/** Pearson correlation from running sums, or 0 when either side is flat. */
+export function correlationFromMoments(
+  observedSum: number,
+  observedSquareSum: number,
+  expectedSum: number,
+  expectedSquareSum: number,
+  productSum: number,
+  count: number,
+): number {
+  if (count === 0) return 0
+  const numerator = productSum - (observedSum * expectedSum) / count
+  const observedVariance = observedSquareSum - (observedSum * observedSum) / count
+  const expectedVariance = expectedSquareSum - (expectedSum * expectedSum) / count
+  const denominator = Math.sqrt(Math.max(0, observedVariance) * Math.max(0, expectedVariance))
+  return denominator === 0 ? 0 : numerator / denominator
+}
+
+function robustBlockSize(tileSize: number): number {
+  return Math.max(2, Math.floor(tileSize / ROBUST_BLOCKS_PER_AXIS))
+}
+
+function robustSampleStride(blockSize: number): number {
+  return Math.max(1, Math.floor(blockSize / 4))
+}
+
+/**
+ * Trimmed mean of the chroma correlations of the tile's flat blocks, or 0 when
+ * too few blocks are flat to judge.
+ */
+export function compareRobustChroma(
+  data: ArrayLike<number>,
+  width: number,
+  startX: number,
+  startY: number,
+  expected: PatternMatrix,
+): number {
+  const tileSize = expected.length
+  const blockSize = robustBlockSize(tileSize)
+  const sampleStride = robustSampleStride(blockSize)
+  const blockScores: number[] = []
+
+  for (let blockY = 0; blockY + blockSize <= tileSize; blockY += blockSize) {
+    for (let blockX = 0; blockX + blockSize <= tileSize; blockX += blockSize) {
+      let observedSum = 0
+      let expectedSum = 0
+      let observedSquareSum = 0
+      let expectedSquareSum = 0
+      let productSum = 0
+      let observedMinimum = Number.POSITIVE_INFINITY
+      let observedMaximum = Number.NEGATIVE_INFINITY
+      let count = 0
+
+      for (let y = blockY; y < blockY + blockSize; y += sampleStride) {
+        for (let x = blockX; x < blockX + blockSize; x += sampleStride) {
+          const offset = ((startY + y) * width + startX + x) * 4
+          const observed = data[offset] - (data[offset + 1] + data[offset + 2]) / 2
+          const expectedValue = expected[y][x]
+          observedSum += observed
+          expectedSum += expectedValue
+          observedSquareSum += observed * observed
+          expectedSquareSum += expectedValue * expectedValue
+          productSum += observed * expectedValue
+          observedMinimum = Math.min(observedMinimum, observed)
+          observedMaximum = Math.max(observedMaximum, observed)
+          count += 1
+        }
+      }
+
+      // Strong colour transitions are ordinary interface content, not the
+      // faint carrier. Excluding the whole local block keeps borders, text and
+      // avatars from dominating the correlation while retaining flat regions.
+      if (observedMaximum - observedMinimum > ROBUST_EDGE_RANGE) continue
+      blockScores.push(
+        correlationFromMoments(
+          observedSum,
+          observedSquareSum,
+          expectedSum,
+          expectedSquareSum,
+          productSum,
+          count,
+        ),
+      )
+    }
+  }
+
+  if (blockScores.length < MIN_ROBUST_BLOCKS) return 0
+  blockScores.sort((first, second) => first - second)
+  const trim = Math.floor(blockScores.length * ROBUST_TRIM_RATIO)
+  const retained = blockScores.slice(trim, blockScores.length - trim)
+  return retained.reduce((sum, score) => sum + score, 0) / retained.length
+}
+
+/**
+ * Score the tile-sized window at (startX, startY) against a carrier: the best
+ * of its luma and chroma correlations, and of the robust chroma score in
+ * `robust` mode. The window must lie inside the image.
+ */
+export function scoreWindow(
+  data: ArrayLike<number>,
+  width: number,
+  startX: number,
+  startY: number,
+  expected: PatternMatrix,
+  { scoring = 'plain', sampleStride = 1 }: WindowScoreOptions = {},
+): number {
+  const tileSize = expected.length
+  let observedLumaSum = 0
+  let observedChromaSum = 0
+  let expectedSum = 0
+  let observedLumaSquareSum = 0
+  let observedChromaSquareSum = 0
+  let expectedSquareSum = 0
+  let lumaProductSum = 0
+  let chromaProductSum = 0
+  let count = 0
+
+  for (let y = 0; y < tileSize; y += sampleStride) {
+    const row = expected[y]
+    let offset = ((startY + y) * width + startX) * 4
+    for (let x = 0; x < tileSize; x += sampleStride, offset += sampleStride * 4) {
+      const red = data[offset]
+      const green = data[offset + 1]
+      const blue = data[offset + 2]
+      const observedLuma = (red + green + blue) / 3
+      const observedChroma = red - (green + blue) / 2
+      const expectedValue = row[x]
+      observedLumaSum += observedLuma
+      observedChromaSum += observedChroma
+      expectedSum += expectedValue
+      observedLumaSquareSum += observedLuma * observedLuma
+      observedChromaSquareSum += observedChroma * observedChroma
+      expectedSquareSum += expectedValue * expectedValue
+      lumaProductSum += observedLuma * expectedValue
+      chromaProductSum += observedChroma * expectedValue
+      count += 1
+    }
+  }
+
+  const plain = Math.max(
+    correlationFromMoments(
+      observedLumaSum,
+      observedLumaSquareSum,
+      expectedSum,
+      expectedSquareSum,
+      lumaProductSum,
+      count,
+    ),
+    correlationFromMoments(
+      observedChromaSum,
+      observedChromaSquareSum,
+      expectedSum,
+      expectedSquareSum,
+      chromaProductSum,
+      count,
+    ),
+  )
+  return scoring === 'robust'
+    ? Math.max(plain, compareRobustChroma(data, width, startX, startY, expected))
+    : plain
+}
+
+/** Pixels `scoreWindow` reads for one window of `tileSize`, for cost estimates. */
+export function countWindowSamples(
+  tileSize: number,
+  { scoring = 'plain', sampleStride = 1 }: WindowScoreOptions = {},
+): number {
+  const plain = Math.ceil(tileSize / sampleStride) ** 2
+  if (scoring !== 'robust') return plain
+  const blockSize = robustBlockSize(tileSize)
+  const blocks = Math.floor(tileSize / blockSize) ** 2
+  return plain + blocks * Math.ceil(blockSize / robustSampleStride(blockSize)) ** 2
+}